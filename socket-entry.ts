@@ -1,5 +1,5 @@
 import { createServer } from 'http';
-import { initializeSocketServer } from './src/lib/socket/server';
+import { getServerMetrics, initializeSocketServer } from './src/lib/socket/server';
 
 const port = parseInt(process.env.PORT || '3000', 10);
 const hostname = '0.0.0.0';
@@ -12,6 +12,14 @@ const server = createServer((req, res) => {
         return;
     }
 
+    // Tick timing and snapshot sizes per session, for sizing how many sessions a process can hold
+    if (req.url === '/metrics') {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(getServerMetrics()));
+        return;
+    }
+
     res.statusCode = 200;
     res.setHeader('Content-Type', 'text/plain');
     res.end('Neon Tank Duel Socket Server Running');
@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Reference to the same queue from join route (in production, use shared storage)
-// For now, this is a placeholder that returns status based on query params
+import { getQueueStatus } from '@/lib/matchmaking';
 
 export async function GET(request: NextRequest) {
     try {
@@ -15,18 +13,11 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // In a real implementation, this would check:
-        // 1. Redis/database for queue position
-        // 2. Whether a match was found
-        // 3. Session details if matched
+        // Queue position and estimated wait, or the match found while waiting.
+        // Polling this keeps a queued player's entry from expiring.
+        const result = await getQueueStatus(playerId);
 
-        // For demo purposes, return a placeholder response
-        return NextResponse.json({
-            status: 'queued',
-            queuePosition: 1,
-            estimatedWait: 30, // seconds
-            message: 'Searching for opponent...',
-        });
+        return NextResponse.json(result, { status: result.status === 'not_queued' ? 404 : 200 });
     } catch (error) {
         console.error('[Matchmaking] Status error:', error);
         return NextResponse.json(
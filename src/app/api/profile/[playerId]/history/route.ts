@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatchHistory } from '@/lib/profile';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ playerId: string }> }
+) {
+    try {
+        const { playerId } = await params;
+        const { searchParams } = new URL(request.url);
+        const page = Number(searchParams.get('page') ?? 1);
+        const pageSize = Number(searchParams.get('pageSize') ?? DEFAULT_PAGE_SIZE);
+
+        if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return NextResponse.json(
+                { error: `page must be 1 or more and pageSize between 1 and ${MAX_PAGE_SIZE}` },
+                { status: 400 }
+            );
+        }
+
+        // Newest first
+        const { entries, total } = await getMatchHistory(playerId, (page - 1) * pageSize, pageSize);
+
+        return NextResponse.json({ entries, total, page, pageSize });
+    } catch (error) {
+        console.error('[Profile] History error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
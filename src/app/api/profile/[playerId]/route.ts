@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfile } from '@/lib/profile';
+import { getRatings } from '@/lib/rating';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ playerId: string }> }
+) {
+    try {
+        const { playerId } = await params;
+
+        const profile = await getProfile(playerId);
+        if (!profile) {
+            return NextResponse.json(
+                { error: 'Profile not found' },
+                { status: 404 }
+            );
+        }
+
+        const [rating] = await getRatings([playerId]);
+
+        return NextResponse.json({ profile, rating });
+    } catch (error) {
+        console.error('[Profile] Fetch error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,7 @@
+'use client';
+
+import { MapEditorScreen } from '@/components/editor';
+
+export default function EditorPage() {
+  return <MapEditorScreen />;
+}
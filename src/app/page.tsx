@@ -3,21 +3,36 @@
 import { Logger } from '@/lib/logging/Logger';
 import { useEffect, useRef, useCallback, useState, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import { useGameStore } from '@/store/useGameStore';
-import { useSettingsStore } from '@/store/useSettingsStore';
+import { useSettingsStore, getAudioSettings, subscribeToSettings } from '@/store/useSettingsStore';
 import { useMultiplayerStore } from '@/store/useMultiplayerStore';
 import { useResponsiveCanvas, useIsMobile } from '@/hooks/useResponsiveCanvas';
 import { Game } from '@/engine/core/Game';
+import type { TankStatus } from '@/engine/core/Game';
+import { getTankTeam, getTeamName, getTeams } from '@/engine/core/MatchMode';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
 import { Constants } from '@/engine/utils/Constants';
 import { Vector } from '@/engine/utils/Vector';
+import { getPalette, getPaletteColor, getPaletteTeamColor } from '@/engine/utils/Palette';
 import { MobileControls } from '@/components/mobile';
+import { Minimap, TeamBadge } from '@/components/hud';
 import { MatchmakingScreen } from '@/components/menus/MatchmakingScreen';
 import { LANLobby } from '@/components/menus/LANLobby';
+import { ReplayControls, downloadReplay, readReplayFile } from '@/components/replay';
 import { getNetworkManager } from '@/engine/multiplayer/NetworkManager';
+import { getAudioManager } from '@/engine/audio';
 import { createLANNetworkManager } from '@/engine/multiplayer/LANNetworkManager';
 import type { LocalMultiplayerServer } from '@/lib/socket/localServer';
 import type { LocalMultiplayerClient } from '@/lib/socket/localClient';
 import type { AIDifficulty } from '@/engine/ai';
+import type { ReplayData } from '@/engine/replay';
+import type { TankCombatStats } from '@/engine/stats';
+import type { RatingChange } from '@/lib/socket/events';
+import { RatingChanges } from '@/components/menus/RatingChanges';
+import { MatchStatsBreakdown } from '@/components/menus/MatchStatsBreakdown';
+import { ProfileScreen } from '@/components/menus/ProfileScreen';
+import { getSelectedCustomMap } from '@/store/useMapLibraryStore';
 
 export default function HomePage() {
   return (
@@ -34,13 +49,21 @@ function GameContent() {
   const [showAIDifficultySelect, setShowAIDifficultySelect] = useState(false);
   const [showMatchmaking, setShowMatchmaking] = useState(false);
   const [showLANLobby, setShowLANLobby] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
   const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>('medium');
   const [onlinePlayerName, setOnlinePlayerName] = useState('');
   const [onlineControlScheme, setOnlineControlScheme] = useState<'wasd' | 'arrows'>('wasd');
-  const [displayScores, setDisplayScores] = useState({ p1: 0, p2: 0 });
+  const [displayScores, setDisplayScores] = useState<GameScores>({});
   const [lanServer, setLanServer] = useState<LocalMultiplayerServer | null>(null);
   const [lanClient, setLanClient] = useState<LocalMultiplayerClient | null>(null);
   const [isLanHost, setIsLanHost] = useState(false);
+  const [replayToWatch, setReplayToWatch] = useState<ReplayData | null>(null);
+  const [activeGame, setActiveGame] = useState<Game | null>(null); // For components that draw from it (replay bar, minimap)
+  const [latestReplay, setLatestReplay] = useState<ReplayData | null>(null);
+  const [ratingChanges, setRatingChanges] = useState<RatingChange[]>([]);
+  const [matchStats, setMatchStats] = useState<TankCombatStats[]>([]);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
 
   const searchParams = useSearchParams();
   const joinSessionId = searchParams.get('session');
@@ -63,7 +86,20 @@ function GameContent() {
   const settingsStore = useSettingsStore();
 
   // Get multiplayer store for player names
-  const { playerName: multiplayerPlayerName, opponentName } = useMultiplayerStore();
+  const {
+    playerName: multiplayerPlayerName,
+    opponentName,
+    role: multiplayerRole,
+    sessionPlayers,
+    connectionStatus: multiplayerStatus,
+    error: multiplayerError,
+    playerId: multiplayerPlayerId,
+    assignedTankId: multiplayerTankId,
+  } = useMultiplayerStore();
+  const isSpectating = mode === 'online' && multiplayerRole === 'spectator';
+  const sessionPlayerName = (tankId: number) => sessionPlayers.find((p) => p.tankId === tankId)?.name;
+  // Players whose sockets dropped - the server holds their tanks for a grace window
+  const droppedPlayers = sessionPlayers.filter((p) => !p.connected);
 
   // Auto-join if session ID is present
   useEffect(() => {
@@ -72,34 +108,47 @@ function GameContent() {
     }
   }, [joinSessionId, showMatchmaking, currentScreen]);
 
+  // Keep the audio volume buses in step with the settings store
+  useEffect(() => {
+    const audio = getAudioManager();
+    audio.applySettings(getAudioSettings());
+    return subscribeToSettings((settings) => audio.applySettings(settings));
+  }, []);
+
   const isMobile = useIsMobile();
   const { width, height } = useResponsiveCanvas(
     Constants.GAME_WIDTH,
     Constants.GAME_HEIGHT,
     20,
     80, // Reserved for HUD
-    isMobile ? 200 : 0 // Reserved for mobile controls
+    mode === 'replay' ? 90 : isMobile ? 200 : 0 // Reserved for replay bar or mobile controls
   );
 
   // Game stats polling
   const pollGameStats = useCallback(() => {
     if (gameRef.current && gameRef.current.state === 'playing') {
-      // Get scores from game engine (works for all modes including online)
-      const currentScores = gameRef.current.getScores();
-      setDisplayScores({ ...currentScores }); // Force new object for React comparison
-
       updateStats({
         p1Health: gameRef.current.getP1Health(),
         p2Health: gameRef.current.getP2Health(),
         elapsedTime: gameRef.current.getGameTime(),
         suddenDeath: gameRef.current.isSuddenDeath(),
+        tanks: gameRef.current.getTankStatuses(),
+        matchMode: gameRef.current.getMatchMode(),
       });
+
+      // The server sends its replay just before announcing the result
+      if (mode === 'online' && !latestReplay) {
+        setLatestReplay(gameRef.current.getReplay());
+      }
       animationRef.current = requestAnimationFrame(pollGameStats);
     } else if (gameRef.current?.state === 'gameover') {
       const p1Dead = gameRef.current.getP1Health() <= 0;
-      endGame(p1Dead ? 2 : 1);
+      setLatestReplay(gameRef.current.getReplay());
+      setRatingChanges(gameRef.current.getRatingChanges());
+      setMatchStats(gameRef.current.getMatchStats());
+      endGame(gameRef.current.getRoundWinner() ?? (p1Dead ? 2 : 1));
     }
-  }, [updateStats, endGame]);
+  }, [updateStats, endGame, mode, latestReplay]);
 
   // Initialize game when entering playing state
   useEffect(() => {
@@ -130,6 +179,8 @@ function GameContent() {
         maxBounces: settingsStore.maxBounces,
         startingHealth: settingsStore.startingHealth,
         mapVariant: settingsStore.mapVariant,
+        matchMode: settingsStore.matchMode,
+        ffaPlayerCount: settingsStore.ffaPlayerCount,
         powerupSpawnRate: settingsStore.powerupSpawnRate,
         timeLimitEnabled: settingsStore.timeLimitEnabled,
         timeLimitSeconds: settingsStore.timeLimitSeconds,
@@ -141,21 +192,41 @@ function GameContent() {
         musicVolume: settingsStore.musicVolume,
         sfxVolume: settingsStore.sfxVolume,
         colorblindMode: settingsStore.colorblindMode,
+        controlBindings: settingsStore.controlBindings,
+        controlModel: settingsStore.controlModel,
+        gamepads: settingsStore.gamepads,
         aiDifficulty: 'medium' as AIDifficulty, // Default, will be overridden for AI mode
       };
 
+      // Custom maps are played in local, AI and LAN games (online sessions use the server's map)
+      const customMap = getSelectedCustomMap()?.layout;
+
       // Merge with mode-specific settings
       if (mode === 'ai') {
         gameRef.current = new Game(canvasRef.current, mode, {
           ...gameSettings,
+          customMap,
           aiDifficulty,
         });
       } else if (mode === 'online') {
         const networkManager = getNetworkManager();
+        // The server's ruleset and map win over local settings so prediction matches it
+        const { sessionSettings, sessionMapSeed } = useMultiplayerStore.getState();
         gameRef.current = new Game(canvasRef.current, mode, {
           ...gameSettings,
+          ...sessionSettings,
+          mapSeed: sessionMapSeed ?? undefined,
           localPlayerControls: onlineControlScheme,
         }, networkManager);
+
+        // The matchmaking hook is unmounted while playing - keep the store in step for reconnects
+        const multiplayerStore = useMultiplayerStore.getState();
+        networkManager.setCallbacks({
+          onStatusChange: multiplayerStore.setConnectionStatus,
+          onPlayerConnectionChange: multiplayerStore.setPlayerConnected,
+          onSessionJoined: (session) => multiplayerStore.setSessionPlayers(session.players),
+          onError: (code, message) => multiplayerStore.setError(message),
+        });
       } else if (mode === 'lan') {
         // Create LAN network manager
         const lanNetworkManager = isLanHost && lanServer
@@ -169,6 +240,13 @@ function GameContent() {
           return;
         }
 
+        // Both peers generate the host's map from the same variant and seed, or play the host's custom map
+        const mapSelection = isLanHost ? lanServer?.getMapSelection() : lanClient?.getMapSelection();
+        const lanCustomMap = isLanHost ? lanServer?.getCustomMap() : lanClient?.getCustomMap();
+        if (!mapSelection) {
+          Logger.warn('[LAN] No map selection received from host, using local map setting');
+        }
+
         // Pass LAN network manager to Game constructor
         // Game class will set up all callbacks internally (onInput, onStateUpdate)
         gameRef.current = new Game(
@@ -176,6 +254,9 @@ function GameContent() {
           mode,
           {
             ...gameSettings,
+            ...(mapSelection && { mapVariant: mapSelection.variant, mapSeed: mapSelection.seed }),
+            customMap: lanCustomMap?.layout,
+            matchMode: 'duel', // LAN links exactly one host and one guest
             localPlayerControls: 'wasd', // Default for now, can be made configurable
           },
           undefined, // No online network manager
@@ -185,11 +266,24 @@ function GameContent() {
         // Note: DO NOT call lanNetworkManager.setCallbacks() here
         // Game class already sets up all necessary callbacks in setupLANCallbacks()
         console.log('[LAN] Game instance created, role:', isLanHost ? 'host' : 'guest');
+      } else if (mode === 'replay') {
+        if (!replayToWatch) return;
+
+        // Playback uses the recorded rules; only visual settings come from the viewer
+        gameRef.current = new Game(canvasRef.current, mode, gameSettings, undefined, undefined, replayToWatch);
       } else {
-        gameRef.current = new Game(canvasRef.current, mode, gameSettings);
+        gameRef.current = new Game(canvasRef.current, mode, { ...gameSettings, customMap });
       }
 
-      gameRef.current.start();
+      // Scores only change when a round ends, or when a replay rewinds to a round start
+      const game = gameRef.current;
+      setActiveGame(game);
+      const syncScores = () => setDisplayScores({ ...game.getScores() }); // New object for React comparison
+      syncScores();
+      game.getEvents().on('round_over', syncScores);
+      game.getEvents().on('round_started', syncScores);
+
+      game.start();
       animationRef.current = requestAnimationFrame(pollGameStats);
     }
 
@@ -198,13 +292,14 @@ function GameContent() {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [currentScreen, mode, aiDifficulty, onlineControlScheme, pollGameStats, settingsStore]);
+  }, [currentScreen, mode, aiDifficulty, onlineControlScheme, pollGameStats, settingsStore, replayToWatch]);
 
   // Cleanup game on screen change
   useEffect(() => {
     if (currentScreen !== 'playing' && gameRef.current) {
       gameRef.current.destroy();
       gameRef.current = null;
+      setActiveGame(null);
     }
 
     // If we left online mode completely (back to menu), disconnect
@@ -230,9 +325,41 @@ function GameContent() {
       gameRef.current.destroy();
       gameRef.current = null;
     }
+    setLatestReplay(null);
+    startGame();
+  };
+
+  const handleWatchReplay = (replay: ReplayData) => {
+    // Leaving a networked match for playback - drop the connection as returning to the menu would
+    if (mode === 'online') {
+      getNetworkManager().disconnect();
+    }
+    if (lanServer) {
+      lanServer.destroy();
+      setLanServer(null);
+    }
+    if (lanClient) {
+      lanClient.destroy();
+      setLanClient(null);
+    }
+
+    setReplayError(null);
+    setReplayToWatch(replay);
+    setMode('replay');
     startGame();
   };
 
+  const handleReplayFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    const replay = await readReplayFile(file);
+    if (!replay) {
+      setReplayError('That file is not a replay this version can play.');
+      return;
+    }
+    handleWatchReplay(replay);
+  };
+
   const handleStartGame = (selectedMode: 'local' | 'ai' | 'online' | 'lan') => {
     if (selectedMode === 'ai') {
       setShowAIDifficultySelect(true);
@@ -247,6 +374,7 @@ function GameContent() {
       return;
     }
     setMode(selectedMode);
+    setLatestReplay(null);
     startGame();
   };
 
@@ -255,6 +383,7 @@ function GameContent() {
     setOnlineControlScheme(controls);
     setShowMatchmaking(false);
     setMode('online');
+    setLatestReplay(null);
     startGame();
   };
 
@@ -272,6 +401,7 @@ function GameContent() {
     setLanServer(server);
     setLanClient(client);
     setMode('lan');
+    setLatestReplay(null);
     startGame();
   };
 
@@ -279,6 +409,7 @@ function GameContent() {
     setAIDifficulty(difficulty);
     setShowAIDifficultySelect(false);
     setMode('ai');
+    setLatestReplay(null);
     startGame();
   };
 
@@ -289,6 +420,52 @@ function GameContent() {
     return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Teams in the current match, in score order (round wins are keyed by team)
+  const matchTeams = getTeams(currentStats.matchMode, Math.max(currentStats.tanks.length, 2));
+  const palette = getPalette(settingsStore.colorblindMode);
+  const teamColor = (team: number) => getPaletteTeamColor(palette, currentStats.matchMode, team);
+
+  const renderScores = (teamScores: GameScores, spacing: string) =>
+    matchTeams.map((team, i) => (
+      <span key={team}>
+        {i > 0 && <span className={`text-white ${spacing}`}>-</span>}
+        <span style={{ color: teamColor(team) }}>
+          <TeamBadge team={team} color={teamColor(team)} />
+          {teamScores[team] ?? 0}
+        </span>
+      </span>
+    ));
+
+  const tankLabel = (tankId: number) => {
+    const isCPU = (mode === 'ai' && tankId !== 1) || (mode === 'local' && tankId > 2);
+    return isCPU ? `CPU ${tankId}` : (mode === 'online' && sessionPlayerName(tankId)) || `P${tankId}`;
+  };
+
+  // Compact health bar per tank for team and free-for-all matches
+  const renderTankBar = (tank: TankStatus) => {
+    const color = getPaletteColor(palette, tank.color);
+    return (
+      <div key={tank.id} className={tank.dead ? 'opacity-40' : ''}>
+        <div className="font-bold text-xs mb-1" style={{ color }}>
+          <TeamBadge team={tank.team} color={color} size={10} />
+          {tankLabel(tank.id)}
+        </div>
+        <div className="w-16 md:w-24 h-3 bg-black border rounded overflow-hidden" style={{ borderColor: color }}>
+          <div
+            className="h-full transition-all duration-200"
+            style={{ width: `${Math.max(0, tank.health / tank.maxHealth) * 100}%`, backgroundColor: color }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  // Team play puts each team on its own side; free-for-all splits the tanks in half
+  const leftTanks = currentStats.matchMode === 'teams'
+    ? currentStats.tanks.filter((tank) => tank.team === 1)
+    : currentStats.tanks.slice(0, Math.ceil(currentStats.tanks.length / 2));
+  const rightTanks = currentStats.tanks.filter((tank) => !leftTanks.includes(tank));
+
   // Main Menu Screen
   if (currentScreen === 'menu') {
     // LAN Lobby
@@ -312,6 +489,16 @@ function GameContent() {
       );
     }
 
+    // Online profile and match history
+    if (showProfile) {
+      return (
+        <ProfileScreen
+          playerId={getNetworkManager().getPlayerId()}
+          onBack={() => setShowProfile(false)}
+        />
+      );
+    }
+
     // AI Difficulty Selection
     if (showAIDifficultySelect) {
       return (
@@ -388,6 +575,37 @@ function GameContent() {
             LAN Multiplayer
           </button>
 
+          <button
+            onClick={() => replayInputRef.current?.click()}
+            className="px-8 py-4 text-xl font-bold border-2 border-yellow-500 text-white rounded-full hover:bg-yellow-500 hover:text-black hover:shadow-[0_0_30px_rgba(234,179,8,0.5)] transition-all duration-200 uppercase tracking-wider"
+          >
+            Watch Replay
+          </button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleReplayFileSelected(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+
+          <button
+            onClick={() => setShowProfile(true)}
+            className="px-8 py-4 text-xl font-bold border-2 border-cyan-500 text-white rounded-full hover:bg-cyan-500 hover:text-black hover:shadow-[0_0_30px_rgba(6,182,212,0.5)] transition-all duration-200 uppercase tracking-wider"
+          >
+            Profile
+          </button>
+
+          <Link
+            href="/editor"
+            className="px-8 py-4 text-xl font-bold border-2 border-orange-500 text-white text-center rounded-full hover:bg-orange-500 hover:shadow-[0_0_30px_rgba(249,115,22,0.5)] transition-all duration-200 uppercase tracking-wider"
+          >
+            Map Editor
+          </Link>
+
           <button
             onClick={() => setScreen('options')}
             className="px-8 py-4 text-xl font-bold border-2 border-gray-500 text-gray-400 rounded-full hover:border-white hover:text-white transition-all duration-200 uppercase tracking-wider"
@@ -396,6 +614,10 @@ function GameContent() {
           </button>
         </div>
 
+        {replayError && (
+          <p className="mt-6 text-red-400 text-sm text-center">{replayError}</p>
+        )}
+
         <div className="mt-12 text-gray-500 text-center text-sm">
           <p className="mb-1">Player 1: WASD + SPACE</p>
           <p>Player 2: Arrows + ENTER</p>
@@ -422,16 +644,24 @@ function GameContent() {
 
   // Game Over Screen
   if (currentScreen === 'gameover') {
-    const winnerName = lastWinner === 1
-      ? 'YOU WIN'
-      : (mode === 'ai' ? 'CPU WINS' : 'BLUE WINS');
+    const { matchMode } = currentStats;
+    const winningTeam = lastWinner ?? 1;
+    // Online players see their own result; spectators and local games see the winner
+    const localTeam = mode === 'online' && !isSpectating && multiplayerTankId !== null
+      ? getTankTeam(matchMode, multiplayerTankId)
+      : null;
+    const winnerName = localTeam !== null
+      ? (lastWinner === localTeam ? 'YOU WIN' : 'YOU LOSE')
+      : matchMode === 'duel'
+        ? (lastWinner === 1 ? 'YOU WIN' : (mode === 'ai' ? 'CPU WINS' : 'BLUE WINS'))
+        : (lastWinner === 1 && mode === 'ai' ? 'YOU WIN' : `${getTeamName(matchMode, winningTeam)} WINS`);
 
     return (
       <div className="min-h-screen bg-[#050505] flex flex-col items-center justify-center p-4">
         <div className="bg-black/80 backdrop-blur-md p-8 rounded-xl border border-gray-700 text-center">
           <h2
             className="text-5xl font-bold mb-4 uppercase"
-            style={{ color: lastWinner === 1 ? '#ff0055' : '#00ffff' }}
+            style={{ color: getPaletteTeamColor(palette, matchMode, winningTeam) }}
           >
             {winnerName}!
           </h2>
@@ -443,18 +673,30 @@ function GameContent() {
           )}
 
           <div className="text-3xl font-bold mb-8">
-            <span className="text-[#ff0055]">{scores.p1}</span>
-            <span className="text-white mx-4">-</span>
-            <span className="text-[#00ffff]">{scores.p2}</span>
+            {renderScores(scores, 'mx-4')}
           </div>
 
+          {mode === 'online' && (
+            <RatingChanges ratings={ratingChanges} matchMode={matchMode} localPlayerId={multiplayerPlayerId} />
+          )}
+
+          <MatchStatsBreakdown
+            stats={matchStats}
+            matchMode={matchMode}
+            playerNames={Object.fromEntries(matchStats.map((s) => [s.tankId, tankLabel(s.tankId)]))}
+            localTankId={localTeam !== null ? multiplayerTankId : null}
+          />
+
           <div className="flex gap-4 justify-center flex-wrap">
-            <button
-              onClick={handleRematch}
-              className="px-8 py-4 text-xl font-bold border-2 border-white text-white rounded-full hover:bg-white hover:text-black transition-all uppercase"
-            >
-              Rematch
-            </button>
+            {/* An online session is over once its match ends - find a new one from the menu */}
+            {mode !== 'online' && (
+              <button
+                onClick={handleRematch}
+                className="px-8 py-4 text-xl font-bold border-2 border-white text-white rounded-full hover:bg-white hover:text-black transition-all uppercase"
+              >
+                Rematch
+              </button>
+            )}
             <button
               onClick={goToMainMenu}
               className="px-8 py-4 text-xl font-bold border-2 border-gray-500 text-gray-400 rounded-full hover:border-white hover:text-white transition-all uppercase"
@@ -462,6 +704,23 @@ function GameContent() {
               Menu
             </button>
           </div>
+
+          {latestReplay && (
+            <div className="flex gap-4 justify-center flex-wrap mt-4">
+              <button
+                onClick={() => handleWatchReplay(latestReplay)}
+                className="px-6 py-2 text-sm font-bold border-2 border-yellow-500 text-white rounded-full hover:bg-yellow-500 hover:text-black transition-all uppercase"
+              >
+                Watch Replay
+              </button>
+              <button
+                onClick={() => downloadReplay(latestReplay)}
+                className="px-6 py-2 text-sm font-bold border-2 border-gray-500 text-gray-400 rounded-full hover:border-white hover:text-white transition-all uppercase"
+              >
+                Export Replay
+              </button>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -472,94 +731,161 @@ function GameContent() {
     <div className="min-h-screen max-h-screen bg-[#050505] flex flex-col overflow-hidden">
       {/* HUD */}
       <div className="w-full px-4 py-2 flex justify-between items-center shrink-0" style={{ height: '80px' }}>
-        <div className="text-left">
-          <div className="text-[#ff0055] font-bold text-sm mb-1">
-            {mode === 'online' ? (multiplayerPlayerName || 'PLAYER 1') : 'PLAYER 1'}
+        {currentStats.matchMode === 'duel' ? (
+          <div className="text-left">
+            <div className="font-bold text-sm mb-1" style={{ color: teamColor(1) }}>
+              <TeamBadge team={1} color={teamColor(1)} />
+              {isSpectating
+                ? (sessionPlayerName(1) || 'PLAYER 1')
+                : mode === 'online' ? (multiplayerPlayerName || 'PLAYER 1') : 'PLAYER 1'}
+            </div>
+            <div className="w-32 md:w-48 h-4 bg-black border rounded overflow-hidden" style={{ borderColor: teamColor(1) }}>
+              <div
+                className="h-full transition-all duration-200"
+                style={{ width: `${currentStats.p1Health}%`, background: `linear-gradient(to right, ${teamColor(1)}88, ${teamColor(1)})` }}
+              />
+            </div>
           </div>
-          <div className="w-32 md:w-48 h-4 bg-black border border-[#ff0055] rounded overflow-hidden">
-            <div
-              className="h-full bg-gradient-to-r from-[#88002d] to-[#ff0055] transition-all duration-200"
-              style={{ width: `${currentStats.p1Health}%` }}
-            />
-          </div>
-        </div>
+        ) : (
+          <div className="flex gap-2">{leftTanks.map(renderTankBar)}</div>
+        )}
 
         <div className="text-center">
           <div className="text-2xl font-bold">
-            <span className="text-[#ff0055]">{displayScores.p1}</span>
-            <span className="text-white mx-2">-</span>
-            <span className="text-[#00ffff]">{displayScores.p2}</span>
+            {renderScores(displayScores, 'mx-2')}
           </div>
           <div className={`text-sm ${currentStats.suddenDeath ? 'text-red-500 animate-pulse font-bold' : 'text-gray-400'}`}>
             {currentStats.suddenDeath ? 'SUDDEN DEATH!' : `Time: ${formatTime(currentStats.elapsedTime)}`}
           </div>
+          {isSpectating && (
+            <div className="text-xs text-purple-400 font-bold uppercase tracking-wider">Spectating</div>
+          )}
+          {mode === 'online' && (multiplayerStatus === 'reconnecting' ? (
+            <div className="text-xs text-yellow-400 font-bold uppercase tracking-wider animate-pulse">Reconnecting...</div>
+          ) : multiplayerStatus === 'error' && multiplayerError ? (
+            <div className="text-xs text-red-400 font-bold uppercase tracking-wider">{multiplayerError}</div>
+          ) : droppedPlayers.length > 0 && (
+            <div className="text-xs text-yellow-400 uppercase tracking-wider">
+              Waiting for {droppedPlayers.map((p) => p.name).join(', ')} to reconnect
+            </div>
+          ))}
+          {mode === 'online' && latestReplay && (
+            <div className="flex gap-2 justify-center mt-1">
+              <button
+                onClick={() => handleWatchReplay(latestReplay)}
+                className="px-2 text-xs text-yellow-400 hover:text-white uppercase"
+              >
+                Watch Replay
+              </button>
+              <button
+                onClick={() => downloadReplay(latestReplay)}
+                className="px-2 text-xs text-gray-400 hover:text-white uppercase"
+              >
+                Export
+              </button>
+            </div>
+          )}
         </div>
 
-        <div className="text-right">
-          <div className="text-[#00ffff] font-bold text-sm mb-1">
-            {mode === 'ai'
-              ? `CPU (${aiDifficulty.charAt(0).toUpperCase()})`
-              : mode === 'online'
-                ? (opponentName || 'PLAYER 2')
-                : 'PLAYER 2'}
-          </div>
-          <div className="w-32 md:w-48 h-4 bg-black border border-[#00ffff] rounded overflow-hidden">
-            <div
-              className="h-full bg-gradient-to-r from-[#008888] to-[#00ffff] transition-all duration-200"
-              style={{ width: `${currentStats.p2Health}%` }}
-            />
+        {currentStats.matchMode === 'duel' ? (
+          <div className="text-right">
+            <div className="font-bold text-sm mb-1" style={{ color: teamColor(2) }}>
+              <TeamBadge team={2} color={teamColor(2)} />
+              {mode === 'ai'
+                ? `CPU (${aiDifficulty.charAt(0).toUpperCase()})`
+                : isSpectating
+                  ? (sessionPlayerName(2) || 'PLAYER 2')
+                  : mode === 'online'
+                    ? (opponentName || 'PLAYER 2')
+                    : 'PLAYER 2'}
+            </div>
+            <div className="w-32 md:w-48 h-4 bg-black border rounded overflow-hidden" style={{ borderColor: teamColor(2) }}>
+              <div
+                className="h-full transition-all duration-200"
+                style={{ width: `${currentStats.p2Health}%`, background: `linear-gradient(to right, ${teamColor(2)}88, ${teamColor(2)})` }}
+              />
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="flex gap-2 justify-end">{rightTanks.map(renderTankBar)}</div>
+        )}
       </div>
 
       {/* Game Canvas - Responsive - Centered */}
       <div className="flex-1 flex items-center justify-center overflow-hidden">
-        <canvas
-          ref={canvasRef}
-          width={Constants.GAME_WIDTH}
-          height={Constants.GAME_HEIGHT}
-          className="border-2 border-gray-700 shadow-[0_0_30px_rgba(0,255,255,0.1)]"
-          style={{
-            width: `${width}px`,
-            height: `${height}px`,
-            maxWidth: '100%',
-            maxHeight: '100%',
-          }}
-        />
+        <div className="relative">
+          <canvas
+            ref={canvasRef}
+            width={Constants.GAME_WIDTH}
+            height={Constants.GAME_HEIGHT}
+            className="block border-2 border-gray-700 shadow-[0_0_30px_rgba(0,255,255,0.1)]"
+            style={{
+              width: `${width}px`,
+              height: `${height}px`,
+              maxWidth: '100%',
+              maxHeight: '100%',
+            }}
+          />
+          {settingsStore.minimap && activeGame && (
+            // Over the arena's top-right corner, a larger share of the small mobile canvas
+            <div className="absolute top-2 right-2 opacity-90">
+              <Minimap
+                game={activeGame}
+                colorblindMode={settingsStore.colorblindMode}
+                width={Math.round(width * (isMobile ? 0.25 : 0.18))}
+                localTankId={activeGame.getAssignedTankId()}
+              />
+            </div>
+          )}
+        </div>
       </div>
 
+      {/* Replay playback bar */}
+      {mode === 'replay' && activeGame && (
+        <ReplayControls game={activeGame} onExit={goToMainMenu} />
+      )}
+
       {/* Mobile Controls */}
-      <MobileControls
-        onP1Move={(vector: Vector) => {
-          gameRef.current?.getInputManager().setJoystickMovement(1, vector);
-        }}
-        onP1MoveEnd={() => {
-          gameRef.current?.getInputManager().resetJoystick(1);
-        }}
-        onP1ShootStart={() => {
-          gameRef.current?.getInputManager().setShootButton(1, true);
-        }}
-        onP1ShootEnd={() => {
-          gameRef.current?.getInputManager().setShootButton(1, false);
-        }}
-        onP2Move={(vector: Vector) => {
-          gameRef.current?.getInputManager().setJoystickMovement(2, vector);
-        }}
-        onP2MoveEnd={() => {
-          gameRef.current?.getInputManager().resetJoystick(2);
-        }}
-        onP2ShootStart={() => {
-          gameRef.current?.getInputManager().setShootButton(2, true);
-        }}
-        onP2ShootEnd={() => {
-          gameRef.current?.getInputManager().setShootButton(2, false);
-        }}
-        p1Reloading={false}
-        p2Reloading={false}
-        p1ChargeLevel={0}
-        p2ChargeLevel={0}
-        isOnlineMode={mode === 'online'}
-      />
+      {mode !== 'replay' && !isSpectating && (
+        <MobileControls
+          onP1Move={(vector: Vector) => {
+            gameRef.current?.getInputManager().setJoystickMovement(1, vector);
+          }}
+          onP1MoveEnd={() => {
+            gameRef.current?.getInputManager().resetJoystick(1);
+          }}
+          onP1ShootStart={() => {
+            gameRef.current?.getInputManager().setShootButton(1, true);
+          }}
+          onP1ShootEnd={() => {
+            gameRef.current?.getInputManager().setShootButton(1, false);
+          }}
+          onP2Move={(vector: Vector) => {
+            gameRef.current?.getInputManager().setJoystickMovement(2, vector);
+          }}
+          onP2MoveEnd={() => {
+            gameRef.current?.getInputManager().resetJoystick(2);
+          }}
+          onP2ShootStart={() => {
+            gameRef.current?.getInputManager().setShootButton(2, true);
+          }}
+          onP2ShootEnd={() => {
+            gameRef.current?.getInputManager().setShootButton(2, false);
+          }}
+          p1Reloading={false}
+          p2Reloading={false}
+          p1ChargeLevel={0}
+          p2ChargeLevel={0}
+          isOnlineMode={mode === 'online'}
+          twinStick={settingsStore.controlModel === 'analog'}
+          onP1Aim={(vector: Vector) => {
+            gameRef.current?.getInputManager().setAimStick(1, vector);
+          }}
+          onP2Aim={(vector: Vector) => {
+            gameRef.current?.getInputManager().setAimStick(2, vector);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -44,18 +44,17 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(
     const getStats = useCallback((): GameStats => {
       if (!gameRef.current) {
         return {
-          health: { p1: 100, p2: 100 },
-          scores: { p1: 0, p2: 0 },
+          health: { 1: 100, 2: 100 },
+          scores: { 1: 0, 2: 0 },
           gameTime: 0,
           suddenDeath: false,
         };
       }
 
       return {
-        health: {
-          p1: gameRef.current.getP1Health(),
-          p2: gameRef.current.getP2Health(),
-        },
+        health: Object.fromEntries(
+          gameRef.current.getTankStatuses().map((tank) => [tank.id, tank.health])
+        ),
         scores: gameRef.current.getScores(),
         gameTime: gameRef.current.getGameTime(),
         suddenDeath: gameRef.current.isSuddenDeath(),
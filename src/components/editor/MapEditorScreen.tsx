@@ -0,0 +1,339 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Game } from '@/engine/core/Game';
+import { Constants } from '@/engine/utils/Constants';
+import { SeededRandom } from '@/engine/utils/SeededRandom';
+import { MapEditor } from '@/engine/editor';
+import type { EditorTool } from '@/engine/editor';
+import { buildMapPreset } from '@/engine/map/MapGenerator';
+import { createCustomMap, MAX_MAP_NAME_LENGTH } from '@/engine/map/MapFormat';
+import type { AIDifficulty } from '@/engine/ai';
+import { MAP_VARIANT_OPTIONS } from '@/types/settings';
+import type { MapVariant } from '@/types/settings';
+import { useMapLibraryStore } from '@/store/useMapLibraryStore';
+import { downloadMap, readMapFile } from '@/components/maps';
+
+const TOOLS: { tool: EditorTool; label: string; hint: string }[] = [
+  { tool: 'select', label: 'Select', hint: 'Move objects and drag the corner handle to resize' },
+  { tool: 'wall', label: 'Wall', hint: 'Click to place or drag to draw a wall' },
+  { tool: 'crate', label: 'Crate', hint: 'Click to place or drag to draw a destructible crate' },
+  { tool: 'hazard', label: 'Radiation', hint: 'Click to place or drag to draw a radiation zone' },
+  { tool: 'spawn1', label: 'P1 Spawn', hint: 'Click or drag to move player 1\'s spawn' },
+  { tool: 'spawn2', label: 'P2 Spawn', hint: 'Click or drag to move player 2\'s spawn' },
+  { tool: 'erase', label: 'Erase', hint: 'Click an object to delete it' },
+];
+
+const SNAP_OPTIONS = [0, 5, 10, 25, 50];
+const DIFFICULTIES: AIDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Convert a mouse event to map coordinates (the canvas is scaled by CSS)
+ */
+function toMapPoint(canvas: HTMLCanvasElement, e: { clientX: number; clientY: number }) {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (e.clientX - rect.left) * (canvas.width / rect.width),
+    y: (e.clientY - rect.top) * (canvas.height / rect.height),
+  };
+}
+
+export default function MapEditorScreen() {
+  const [editor] = useState(() => new MapEditor());
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playtestCanvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const addMap = useMapLibraryStore((state) => state.addMap);
+  const selectMap = useMapLibraryStore((state) => state.selectMap);
+
+  // Bumped on every editor change so the toolbar re-renders
+  const [, setRevision] = useState(0);
+  const [name, setName] = useState('My Map');
+  const [author, setAuthor] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [playtesting, setPlaytesting] = useState(false);
+  const [playtestRun, setPlaytestRun] = useState(0);
+  const [difficulty, setDifficulty] = useState<AIDifficulty>('medium');
+
+  const problem = editor.validate();
+  const trimmedName = name.trim();
+
+  // Redraw and refresh the toolbar whenever the layout, selection or history changes
+  useEffect(() => {
+    const redraw = () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (ctx) editor.draw(ctx);
+      setRevision((r) => r + 1);
+    };
+
+    redraw();
+    return editor.subscribe(redraw);
+  }, [editor, playtesting]);
+
+  // Finish drags that end outside the canvas
+  useEffect(() => {
+    const handleMouseUp = () => editor.pointerUp();
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [editor]);
+
+  // Keyboard shortcuts (ignored while typing in the name fields)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (playtesting || e.target instanceof HTMLInputElement) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) editor.redo();
+        else editor.undo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        editor.redo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        editor.deleteSelected();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editor, playtesting]);
+
+  // Playtest the current layout against the AI
+  useEffect(() => {
+    if (!playtesting || !playtestCanvasRef.current) return;
+
+    const game = new Game(playtestCanvasRef.current, 'ai', {
+      customMap: editor.getLayout(),
+      aiDifficulty: difficulty,
+    });
+    game.start();
+
+    return () => game.destroy();
+  }, [editor, playtesting, playtestRun, difficulty]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toMapPoint(e.currentTarget, e);
+    editor.pointerDown(x, y);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toMapPoint(e.currentTarget, e);
+    editor.pointerMove(x, y);
+  };
+
+  const handleLoadPreset = (variant: MapVariant) => {
+    editor.loadLayout(buildMapPreset({ variant, seed: SeededRandom.createSeed() }));
+    setMessage(null);
+  };
+
+  const buildMap = () => createCustomMap(trimmedName, author.trim(), editor.getLayout());
+
+  const handleSave = () => {
+    selectMap(addMap(buildMap()));
+    setMessage({ text: `Saved "${trimmedName}" to your map library.`, error: false });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const map = await readMapFile(file);
+    if (!map) {
+      setMessage({ text: 'That file is not a valid Neon Tank map.', error: true });
+      return;
+    }
+
+    editor.loadLayout(map.layout);
+    setName(map.name);
+    setAuthor(map.author);
+    setMessage(null);
+  };
+
+  const toolClass = (active: boolean) =>
+    `px-3 py-1 text-xs font-bold border rounded-full transition-all uppercase ${active
+      ? 'border-cyan-500 bg-cyan-500/10 text-white shadow-[0_0_10px_rgba(0,255,255,0.3)]'
+      : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+    }`;
+
+  const buttonClass =
+    'px-3 py-1 text-xs font-bold border border-gray-600 text-gray-300 rounded-full hover:border-white hover:text-white transition-all uppercase disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const canSave = !problem && trimmedName !== '' && trimmedName.length <= MAX_MAP_NAME_LENGTH;
+
+  if (playtesting) {
+    return (
+      <div className="min-h-screen bg-[#050505] flex flex-col items-center justify-center p-4 gap-4">
+        <div className="flex gap-2 items-center">
+          <span className="text-gray-400 text-sm uppercase tracking-wider">
+            Playtest: {trimmedName || 'Untitled'} vs {difficulty} AI
+          </span>
+          <button onClick={() => setPlaytestRun((run) => run + 1)} className={buttonClass}>
+            Restart
+          </button>
+          <button onClick={() => setPlaytesting(false)} className={buttonClass}>
+            Back to Editor
+          </button>
+        </div>
+        <canvas
+          ref={playtestCanvasRef}
+          width={Constants.GAME_WIDTH}
+          height={Constants.GAME_HEIGHT}
+          className="border-2 border-gray-700 shadow-[0_0_30px_rgba(0,255,255,0.1)] max-w-full"
+        />
+        <p className="text-gray-500 text-sm">Player 1: WASD + SPACE</p>
+      </div>
+    );
+  }
+
+  const activeHint = TOOLS.find((entry) => entry.tool === editor.tool)?.hint;
+
+  return (
+    <div className="min-h-screen bg-[#050505] flex flex-col items-center p-4 gap-4">
+      <div className="w-full max-w-[1000px] flex items-center justify-between">
+        <h1 className="text-2xl md:text-3xl font-bold tracking-widest bg-gradient-to-r from-[#ff0055] to-[#00ffff] bg-clip-text text-transparent">
+          MAP EDITOR
+        </h1>
+        <Link href="/" className={buttonClass}>
+          Main Menu
+        </Link>
+      </div>
+
+      {/* Tools */}
+      <div className="w-full max-w-[1000px] flex flex-wrap gap-2 items-center">
+        {TOOLS.map(({ tool, label, hint }) => (
+          <button key={tool} onClick={() => editor.setTool(tool)} title={hint} className={toolClass(editor.tool === tool)}>
+            {label}
+          </button>
+        ))}
+
+        <span className="mx-2 h-5 border-l border-gray-700" />
+
+        <label className="text-xs text-gray-400 uppercase flex items-center gap-1">
+          Snap
+          <select
+            value={editor.snap}
+            onChange={(e) => editor.setSnap(Number(e.target.value))}
+            className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-gray-200"
+          >
+            {SNAP_OPTIONS.map((step) => (
+              <option key={step} value={step}>
+                {step === 0 ? 'Off' : `${step}px`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button onClick={() => editor.undo()} disabled={!editor.canUndo()} className={buttonClass}>
+          Undo
+        </button>
+        <button onClick={() => editor.redo()} disabled={!editor.canRedo()} className={buttonClass}>
+          Redo
+        </button>
+        <button onClick={() => editor.deleteSelected()} disabled={!editor.selection} className={buttonClass}>
+          Delete
+        </button>
+        <button onClick={() => editor.clear()} className={buttonClass}>
+          Clear
+        </button>
+
+        <label className="text-xs text-gray-400 uppercase flex items-center gap-1">
+          Start from
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleLoadPreset(e.target.value as MapVariant)}
+            className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-gray-200"
+          >
+            <option value="">Preset...</option>
+            {MAP_VARIANT_OPTIONS.map((variant) => (
+              <option key={variant} value={variant}>
+                {variant}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={Constants.GAME_WIDTH}
+        height={Constants.GAME_HEIGHT}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        className="border-2 border-gray-700 shadow-[0_0_30px_rgba(0,255,255,0.1)] max-w-full cursor-crosshair"
+      />
+
+      <div className="w-full max-w-[1000px] flex flex-wrap gap-4 items-start justify-between">
+        <div className="text-sm space-y-1">
+          {activeHint && <p className="text-gray-500">{activeHint}</p>}
+          {problem ? (
+            <p className="text-red-400">Not playable: {problem}</p>
+          ) : (
+            <p className="text-green-400">Playable</p>
+          )}
+          {message && <p className={message.error ? 'text-red-400' : 'text-cyan-400'}>{message.text}</p>}
+        </div>
+
+        <div className="flex flex-col gap-2 items-end">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_MAP_NAME_LENGTH}
+              placeholder="Map name"
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+            />
+            <input
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              placeholder="Author"
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+            />
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <button onClick={handleSave} disabled={!canSave} className={buttonClass}>
+              Save to Library
+            </button>
+            <button onClick={() => downloadMap(buildMap())} disabled={!canSave} className={buttonClass}>
+              Export
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as AIDifficulty)}
+              className="bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200 uppercase"
+            >
+              {DIFFICULTIES.map((level) => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setPlaytesting(true)}
+              disabled={!!problem}
+              className="px-4 py-1 text-xs font-bold border-2 border-[#00ffff] text-white rounded-full hover:bg-[#00ffff] hover:text-black transition-all uppercase disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Playtest vs AI
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { default as MapEditorScreen } from './MapEditorScreen';
@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { Game } from '@/engine/core/Game';
+import { Constants } from '@/engine/utils/Constants';
+import { getPalette, getPaletteTeamColor } from '@/engine/utils/Palette';
+import { getTankShape, traceShape } from '@/engine/utils/Shapes';
+import type { ColorblindMode } from '@/types/settings';
+
+// The arena changes slowly enough that a few redraws a second are plenty
+const REFRESH_MS = 150;
+
+interface MinimapProps {
+  game: Game | null;
+  colorblindMode: ColorblindMode;
+  width: number; // CSS pixels - the height follows the arena's aspect ratio
+  localTankId?: number | null; // Ringed so players can find themselves
+}
+
+export default function Minimap({ game, colorblindMode, width, localTankId = null }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const height = Math.round((width * Constants.GAME_HEIGHT) / Constants.GAME_WIDTH);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!game || !canvas || !ctx) return;
+
+    const palette = getPalette(colorblindMode);
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+
+    const draw = () => {
+      const state = game.getMinimapState();
+
+      // Draw in arena coordinates
+      ctx.setTransform(canvas.width / Constants.GAME_WIDTH, 0, 0, canvas.height / Constants.GAME_HEIGHT, 0, 0);
+      ctx.fillStyle = 'rgba(5, 5, 5, 0.85)';
+      ctx.fillRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
+
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = palette.hazard;
+      for (const h of state.hazards) {
+        ctx.fillRect(h.x, h.y, h.w, h.h);
+      }
+      ctx.globalAlpha = 1;
+
+      ctx.fillStyle = palette.wall;
+      for (const w of state.walls) {
+        ctx.fillRect(w.x, w.y, w.w, w.h);
+      }
+
+      ctx.fillStyle = palette.crate;
+      for (const c of state.crates) {
+        if (c.active) ctx.fillRect(c.x, c.y, c.w, c.h);
+      }
+
+      if (state.suddenDeathInset !== null) {
+        const inset = state.suddenDeathInset;
+        ctx.strokeStyle = palette.suddenDeath;
+        ctx.lineWidth = 8;
+        ctx.strokeRect(inset, inset, Constants.GAME_WIDTH - inset * 2, Constants.GAME_HEIGHT - inset * 2);
+      }
+
+      for (const p of state.powerups) {
+        if (!p.active) continue;
+        ctx.fillStyle = palette.powerups[p.type];
+        ctx.beginPath();
+        ctx.arc(p.pos.x, p.pos.y, 12, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      for (const tank of state.tanks) {
+        if (tank.dead) continue;
+
+        ctx.fillStyle = getPaletteTeamColor(palette, state.matchMode, tank.team);
+        ctx.beginPath();
+        traceShape(ctx, getTankShape(tank.team), tank.pos.x, tank.pos.y, 26, tank.angle);
+        ctx.fill();
+
+        // Heading tick
+        ctx.strokeStyle = ctx.fillStyle;
+        ctx.lineWidth = 8;
+        ctx.beginPath();
+        ctx.moveTo(tank.pos.x, tank.pos.y);
+        ctx.lineTo(tank.pos.x + Math.cos(tank.angle) * 40, tank.pos.y + Math.sin(tank.angle) * 40);
+        ctx.stroke();
+
+        if (tank.id === localTankId) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 6;
+          ctx.beginPath();
+          ctx.arc(tank.pos.x, tank.pos.y, 32, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+      }
+    };
+
+    draw();
+    const interval = setInterval(draw, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [game, colorblindMode, width, height, localTankId]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block rounded border border-gray-600 pointer-events-none"
+      style={{ width: `${width}px`, height: `${height}px` }}
+    />
+  );
+}
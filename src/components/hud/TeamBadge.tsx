@@ -0,0 +1,31 @@
+'use client';
+
+import { getShapePoints, getTankShape } from '@/engine/utils/Shapes';
+
+interface TeamBadgeProps {
+  team: number;
+  color: string;
+  size?: number; // CSS pixels
+}
+
+// The team's tank silhouette, so HUD entries are never told apart by color alone
+export default function TeamBadge({ team, color, size = 12 }: TeamBadgeProps) {
+  const radius = size / 2 - 1;
+  const points = getShapePoints(getTankShape(team), radius);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+      className="inline-block align-middle mr-1"
+      aria-hidden="true"
+    >
+      {points ? (
+        <polygon points={points.map(([x, y]) => `${x},${y}`).join(' ')} fill={color} />
+      ) : (
+        <circle r={radius} fill={color} />
+      )}
+    </svg>
+  );
+}
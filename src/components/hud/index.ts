@@ -2,3 +2,5 @@ export { default as HealthBar } from './HealthBar';
 export { default as ScoreBoard } from './ScoreBoard';
 export { default as Timer } from './Timer';
 export { default as HUD } from './HUD';
+export { default as Minimap } from './Minimap';
+export { default as TeamBadge } from './TeamBadge';
@@ -0,0 +1,71 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Select } from '@/components/ui';
+import { useMapLibraryStore } from '@/store/useMapLibraryStore';
+import { downloadMap, readMapFile } from './mapFile';
+
+export default function CustomMapLibrary() {
+  const { maps, selectedMapId, addMap, removeMap, selectMap } = useMapLibraryStore();
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = maps.find((entry) => entry.id === selectedMapId) ?? null;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const map = await readMapFile(file);
+    if (!map) {
+      setImportError('That file is not a valid Neon Tank map.');
+      return;
+    }
+
+    setImportError(null);
+    selectMap(addMap(map));
+  };
+
+  const buttonClass =
+    'px-3 py-1 text-xs font-bold border border-gray-600 text-gray-300 rounded-full hover:border-white hover:text-white transition-all uppercase disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-2">
+      <Select
+        label="Custom Map"
+        options={[
+          { value: '', label: 'None (use Map Variant)' },
+          ...maps.map((entry) => ({
+            value: entry.id,
+            label: entry.map.author ? `${entry.map.name} by ${entry.map.author}` : entry.map.name,
+          })),
+        ]}
+        value={selectedMapId ?? ''}
+        onChange={(v) => selectMap(v || null)}
+      />
+
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          Import
+        </button>
+        <button onClick={() => selected && downloadMap(selected.map)} disabled={!selected} className={buttonClass}>
+          Export
+        </button>
+        <button onClick={() => selected && removeMap(selected.id)} disabled={!selected} className={buttonClass}>
+          Delete
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+      <p className="text-xs text-gray-500">Custom maps are used in local, AI and LAN games.</p>
+    </div>
+  );
+}
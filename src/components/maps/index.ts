@@ -0,0 +1,2 @@
+export { default as CustomMapLibrary } from './CustomMapLibrary';
+export { downloadMap, readMapFile } from './mapFile';
@@ -0,0 +1,27 @@
+// Browser helpers for saving and loading custom map files
+import { exportMap, importMap } from '@/engine/map/MapFormat';
+import type { CustomMapData } from '@/engine/map/MapFormat';
+
+/**
+ * Download a custom map as a .json file
+ */
+export function downloadMap(map: CustomMapData): void {
+  const blob = new Blob([exportMap(map)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const slug = map.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-tank-map-${slug}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a custom map from a user-selected file
+ * @returns the map, or null if the file is not a valid, playable map
+ */
+export async function readMapFile(file: File): Promise<CustomMapData | null> {
+  return importMap(await file.text());
+}
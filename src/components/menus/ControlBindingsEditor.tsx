@@ -0,0 +1,260 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { Select, Slider } from '@/components/ui';
+import {
+  BINDING_ACTIONS,
+  BINDING_ACTION_LABELS,
+  PAD_BUTTON_SELECT,
+  formatKeyCode,
+  formatPadButton,
+  getBindingConflicts,
+  setBinding,
+} from '@/engine/core/ControlBindings';
+import type { BindingInput, BindingPlayer } from '@/engine/core/ControlBindings';
+import { DEFAULT_CONTROL_BINDINGS, DEFAULT_GAMEPAD_DEAD_ZONE, SETTING_CONSTRAINTS } from '@/types/settings';
+import type { BindingAction, GamepadPreference } from '@/types/settings';
+
+// Capturing gives up after a while so a forgotten click doesn't swallow the next key
+const CAPTURE_TIMEOUT_MS = 5000;
+
+interface Capture {
+  player: BindingPlayer;
+  action: BindingAction;
+  input: BindingInput;
+}
+
+const playerLabels: Record<BindingPlayer, string> = {
+  player1: 'Player 1',
+  player2: 'Player 2',
+};
+
+const padPlayerOptions = [
+  { value: 'auto', label: 'Auto' },
+  { value: '1', label: 'Player 1' },
+  { value: '2', label: 'Player 2' },
+  { value: 'off', label: 'Off' },
+];
+
+const connectedPads = (): Gamepad[] =>
+  navigator.getGamepads?.().filter((pad): pad is Gamepad => pad !== null && pad.connected) ?? [];
+
+/**
+ * Which player each connected pad drives and how far its stick moves before it counts
+ */
+function GamepadSettings() {
+  const gamepads = useSettingsStore((state) => state.gamepads);
+  const updateSetting = useSettingsStore((state) => state.updateSetting);
+  const [pads, setPads] = useState<{ index: number; id: string }[]>([]);
+
+  // Browsers only list a pad once a button has been pressed, which fires gamepadconnected
+  useEffect(() => {
+    const refresh = () => setPads(connectedPads().map((pad) => ({ index: pad.index, id: pad.id })));
+    refresh();
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  const updatePad = (index: number, change: Partial<GamepadPreference>) => {
+    const current = gamepads[index] ?? { deadZone: DEFAULT_GAMEPAD_DEAD_ZONE };
+    updateSetting('gamepads', { ...gamepads, [index]: { ...current, ...change } });
+  };
+
+  if (pads.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        No gamepads found - press a button on a connected pad to set it up.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {pads.map((pad) => {
+        const preference = gamepads[pad.index];
+        const player = preference?.player;
+        return (
+          <div key={pad.index} className="space-y-3 p-3 rounded-lg border border-gray-700 bg-gray-800/30">
+            <p className="text-sm font-medium text-gray-200 truncate" title={pad.id}>
+              Pad {pad.index + 1} - {pad.id}
+            </p>
+            <Select
+              label="Controls"
+              options={padPlayerOptions}
+              value={player === undefined ? 'auto' : player === null ? 'off' : String(player)}
+              onChange={(v) => updatePad(pad.index, {
+                player: v === 'auto' ? undefined : v === 'off' ? null : (Number(v) as 1 | 2),
+              })}
+            />
+            <Slider
+              label="Stick Dead Zone"
+              {...SETTING_CONSTRAINTS.gamepadDeadZone}
+              value={preference?.deadZone ?? DEFAULT_GAMEPAD_DEAD_ZONE}
+              onChange={(v) => updatePad(pad.index, { deadZone: v })}
+              valueFormatter={(v) => `${Math.round(v * 100)}%`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ControlBindingsEditor() {
+  const bindings = useSettingsStore((state) => state.controlBindings);
+  const updateSetting = useSettingsStore((state) => state.updateSetting);
+  const [player, setPlayer] = useState<BindingPlayer>('player1');
+  const [capture, setCapture] = useState<Capture | null>(null);
+
+  const conflicts = getBindingConflicts(bindings);
+
+  // Wait for the next key press or gamepad button, then bind it
+  useEffect(() => {
+    if (!capture) return;
+
+    const bind = (value: string | number | null) => {
+      updateSetting('controlBindings', setBinding(bindings, capture.player, capture.action, capture.input, value));
+      setCapture(null);
+    };
+    const timeout = setTimeout(() => setCapture(null), CAPTURE_TIMEOUT_MS);
+
+    if (capture.input === 'key') {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        // Backspace unbinds, so an action can be left to the gamepad alone
+        bind(e.code === 'Backspace' ? null : e.code);
+      };
+      window.addEventListener('keydown', handleKeyDown, true);
+      return () => {
+        clearTimeout(timeout);
+        window.removeEventListener('keydown', handleKeyDown, true);
+      };
+    }
+
+    // Gamepads have no button events - watch for a button that wasn't already held
+    const pads = () => navigator.getGamepads?.().filter((pad): pad is Gamepad => pad !== null) ?? [];
+    const held = new Set(pads().flatMap((pad) => pad.buttons.map((b, i) => (b.pressed ? `${pad.index}:${i}` : null))));
+    let frame = requestAnimationFrame(function poll() {
+      for (const pad of pads()) {
+        // Select is reserved for swapping pads between players
+        const index = pad.buttons.findIndex(
+          (b, i) => b.pressed && i !== PAD_BUTTON_SELECT && !held.has(`${pad.index}:${i}`)
+        );
+        if (index !== -1) {
+          bind(index);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    });
+    return () => {
+      clearTimeout(timeout);
+      cancelAnimationFrame(frame);
+    };
+  }, [capture, bindings, updateSetting]);
+
+  const renderBindingButton = (action: BindingAction, input: BindingInput) => {
+    const binding = bindings[player][action];
+    const capturing = capture?.player === player && capture.action === action && capture.input === input;
+    const conflicting = conflicts.has(`${player}.${action}.${input}`);
+    const label = input === 'key' ? formatKeyCode(binding.key) : formatPadButton(binding.button);
+
+    return (
+      <button
+        type="button"
+        onClick={() => setCapture(capturing ? null : { player, action, input })}
+        className={`
+          w-28 py-1.5 px-2
+          rounded-lg border text-xs font-medium
+          transition-all duration-200
+          ${capturing
+            ? 'border-cyan-400 bg-cyan-500/20 text-cyan-200 animate-pulse'
+            : conflicting
+              ? 'border-red-500 bg-red-500/10 text-red-300'
+              : 'border-gray-600 bg-gray-800/50 text-gray-300 hover:border-gray-500 hover:text-white'
+          }
+        `}
+      >
+        {capturing ? (input === 'key' ? 'Press a key' : 'Press a button') : label}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(Object.keys(playerLabels) as BindingPlayer[]).map((p) => (
+          <button
+            key={p}
+            type="button"
+            onClick={() => {
+              setPlayer(p);
+              setCapture(null);
+            }}
+            className={`
+              flex-1 py-2 px-4
+              rounded-lg border text-sm font-medium
+              transition-all duration-200
+              ${player === p
+                ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300'
+                : 'border-gray-600 bg-gray-800/50 text-gray-400 hover:border-gray-500 hover:text-gray-300'
+              }
+            `}
+          >
+            {playerLabels[p]}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4 text-xs text-gray-500 uppercase tracking-wider">
+          <span>Action</span>
+          <div className="flex gap-2">
+            <span className="w-28 text-center">Keyboard</span>
+            <span className="w-28 text-center">Gamepad</span>
+          </div>
+        </div>
+        {BINDING_ACTIONS.map((action) => (
+          <div key={action} className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium text-gray-200">{BINDING_ACTION_LABELS[action]}</span>
+            <div className="flex gap-2">
+              {renderBindingButton(action, 'key')}
+              {renderBindingButton(action, 'button')}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {conflicts.size > 0 && (
+        <p className="text-xs text-red-400">
+          Inputs in red are bound to more than one action, or to Select - only one of them will work.
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Backspace clears a key. The left stick always steers and Select swaps a gamepad between players.
+      </p>
+
+      <button
+        type="button"
+        onClick={() => {
+          setCapture(null);
+          updateSetting('controlBindings', DEFAULT_CONTROL_BINDINGS);
+        }}
+        className="text-xs text-gray-400 hover:text-white uppercase tracking-wider"
+      >
+        Reset Controls
+      </button>
+
+      <div className="space-y-3 pt-2 border-t border-gray-700">
+        <span className="block text-xs text-gray-500 uppercase tracking-wider">Gamepads</span>
+        <GamepadSettings />
+      </div>
+    </div>
+  );
+}
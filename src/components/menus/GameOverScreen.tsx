@@ -1,6 +1,10 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import type { RatingChange } from '@/lib/socket/events';
+import type { TankCombatStats } from '@/engine/stats';
+import { RatingChanges } from './RatingChanges';
+import { MatchStatsBreakdown } from './MatchStatsBreakdown';
 
 interface GameOverScreenProps {
   winner: 1 | 2;
@@ -8,11 +12,26 @@ interface GameOverScreenProps {
     p1: number;
     p2: number;
   };
+  // Online matches: each player's new skill rating and how much it moved
+  ratings?: RatingChange[];
+  localPlayerId?: string | null;
+  // Combat breakdown per tank, with optional display names by tank ID
+  stats?: TankCombatStats[];
+  playerNames?: Record<number, string>;
   onRematch: () => void;
   onMainMenu: () => void;
 }
 
-export function GameOverScreen({ winner, scores, onRematch, onMainMenu }: GameOverScreenProps) {
+export function GameOverScreen({
+  winner,
+  scores,
+  ratings = [],
+  localPlayerId = null,
+  stats = [],
+  playerNames,
+  onRematch,
+  onMainMenu,
+}: GameOverScreenProps) {
   const isRedWinner = winner === 1;
   const winnerColor = isRedWinner ? '#ff0055' : '#00ffff';
   const winnerText = isRedWinner ? 'RED WINS!' : 'BLUE WINS!';
@@ -46,7 +65,7 @@ export function GameOverScreen({ winner, scores, onRematch, onMainMenu }: GameOv
         initial={{ scale: 0.8, y: 50 }}
         animate={{ scale: 1, y: 0 }}
         transition={{ type: 'spring', damping: 20, stiffness: 300 }}
-        className="relative z-10 flex flex-col items-center px-6 py-8 max-w-md w-full mx-4"
+        className={`relative z-10 flex flex-col items-center px-6 py-8 ${stats.length > 0 ? 'max-w-2xl' : 'max-w-md'} w-full mx-4`}
       >
         {/* Winner Text */}
         <motion.div
@@ -118,6 +137,10 @@ export function GameOverScreen({ winner, scores, onRematch, onMainMenu }: GameOv
           </div>
         </motion.div>
 
+        <RatingChanges ratings={ratings} matchMode="duel" localPlayerId={localPlayerId} />
+
+        <MatchStatsBreakdown stats={stats} matchMode="duel" playerNames={playerNames} />
+
         {/* Buttons */}
         <motion.div
           initial={{ y: 30, opacity: 0 }}
@@ -1,6 +1,9 @@
 import { Logger } from '@/lib/logging/Logger';
 import React, { useState, useEffect, useRef } from 'react';
 import { useLANMultiplayer } from '../../hooks/useLANMultiplayer';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { useMapLibraryStore, getSelectedCustomMap } from '@/store/useMapLibraryStore';
+import { MapPicker } from './MapPicker';
 
 interface LANLobbyProps {
   onBack: () => void;
@@ -13,7 +16,8 @@ export const LANLobby: React.FC<LANLobbyProps> = ({ onBack, onGameStart }) => {
   const [mode, setMode] = useState<LobbyMode>('select');
   const [inputCode, setInputCode] = useState('');
   const [countdown, setCountdown] = useState<number | null>(null);
-  const { state, startHosting, joinGame, disconnect, getServer, getClient, readyUp } = useLANMultiplayer();
+  const { state, startHosting, joinGame, disconnect, getServer, getClient, readyUp, selectMap, selectCustomMap } = useLANMultiplayer();
+  const customMaps = useMapLibraryStore((libraryState) => libraryState.maps);
   const countdownIntervalRef = useRef<number | null>(null);
   const hasCalledReadyRef = useRef<boolean>(false);
 
@@ -71,7 +75,8 @@ export const LANLobby: React.FC<LANLobbyProps> = ({ onBack, onGameStart }) => {
   const handleHostGame = async () => {
     setMode('host');
     try {
-      await startHosting();
+      // Host picks the map; it defaults to the map chosen in Options
+      await startHosting(useSettingsStore.getState().mapVariant, getSelectedCustomMap());
     } catch (error) {
       console.error('Failed to host:', error);
     }
@@ -173,6 +178,18 @@ export const LANLobby: React.FC<LANLobbyProps> = ({ onBack, onGameStart }) => {
               <div className="text-gray-500 text-sm">Share this code with your opponent</div>
             </div>
 
+            {state.mapSelection && (
+              <div className="w-full mb-8">
+                <MapPicker
+                  value={state.mapSelection.variant}
+                  onChange={selectMap}
+                  customMaps={customMaps}
+                  selectedCustomMap={state.customMap}
+                  onCustomMapChange={selectCustomMap}
+                />
+              </div>
+            )}
+
             <div className="flex flex-col items-center">
               <div className="w-10 h-10 border-4 border-gray-700 border-t-blue-500 rounded-full animate-spin mb-4"></div>
               <div className="text-gray-400">Waiting for player to join...</div>
@@ -183,6 +200,9 @@ export const LANLobby: React.FC<LANLobbyProps> = ({ onBack, onGameStart }) => {
         {state.status === 'connected' && state.isReady && countdown !== null && (
           <div className="flex flex-col items-center p-12 bg-gradient-to-br from-gray-900 to-gray-800 border-2 border-green-700 rounded-xl w-full max-w-md">
             <div className="text-gray-400 text-sm mb-2">Room Code: {state.roomCode}</div>
+            {state.mapSelection && (
+              <div className="text-gray-400 text-sm uppercase">Map: {state.customMap?.name ?? state.mapSelection.variant}</div>
+            )}
 
             <div className="my-8 text-center">
               <div className="text-gray-400 text-xl mb-4">Game starting in</div>
@@ -268,6 +288,9 @@ export const LANLobby: React.FC<LANLobbyProps> = ({ onBack, onGameStart }) => {
         {state.status === 'connected' && countdown !== null && (
           <div className="flex flex-col items-center p-12 bg-gradient-to-br from-gray-900 to-gray-800 border-2 border-green-700 rounded-xl w-full max-w-md">
             <div className="text-green-500 text-xl mb-8">✓ Connected!</div>
+            {state.mapSelection && (
+              <div className="text-gray-400 text-sm uppercase mb-4">Map: {state.customMap?.name ?? state.mapSelection.variant}</div>
+            )}
 
             <div className="mb-6 text-center">
               <div className="text-gray-400 text-xl mb-4">Game starting in</div>
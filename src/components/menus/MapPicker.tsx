@@ -0,0 +1,67 @@
+'use client';
+
+import { MAP_VARIANT_OPTIONS } from '@/types/settings';
+import type { MapVariant } from '@/types/settings';
+import type { CustomMapData } from '@/engine/map/MapFormat';
+import type { StoredCustomMap } from '@/store/useMapLibraryStore';
+
+interface MapPickerProps {
+  value: MapVariant;
+  onChange: (variant: MapVariant) => void;
+  label?: string;
+  // Imported maps offered alongside the built-in variants
+  customMaps?: StoredCustomMap[];
+  selectedCustomMap?: CustomMapData | null;
+  onCustomMapChange?: (map: CustomMapData) => void;
+}
+
+export function MapPicker({
+  value,
+  onChange,
+  label = 'Map',
+  customMaps = [],
+  selectedCustomMap = null,
+  onCustomMapChange,
+}: MapPickerProps) {
+  const buttonClass = (active: boolean) =>
+    `py-2 px-2 rounded-lg border-2 text-xs font-bold uppercase transition-all truncate ${active
+      ? 'border-cyan-500 bg-cyan-500/10 text-white shadow-[0_0_15px_rgba(0,255,255,0.3)]'
+      : 'border-gray-600 bg-gray-800/50 text-gray-400 hover:border-gray-500'
+    }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-gray-300 mb-3">
+        {label}
+      </label>
+      <div className="grid grid-cols-5 gap-2">
+        {MAP_VARIANT_OPTIONS.map((variant) => (
+          <button
+            key={variant}
+            onClick={() => onChange(variant)}
+            className={buttonClass(!selectedCustomMap && value === variant)}
+          >
+            {variant}
+          </button>
+        ))}
+      </div>
+
+      {onCustomMapChange && customMaps.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          {customMaps.map((entry) => (
+            <button
+              key={entry.id}
+              onClick={() => onCustomMapChange(entry.map)}
+              title={entry.map.author ? `${entry.map.name} by ${entry.map.author}` : entry.map.name}
+              className={buttonClass(selectedCustomMap === entry.map)}
+            >
+              {entry.map.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MapPicker;
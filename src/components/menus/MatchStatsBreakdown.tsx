@@ -0,0 +1,99 @@
+'use client';
+
+import { Fragment } from 'react';
+import { getTankTeam, getTeamColor } from '@/engine/core/MatchMode';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import { getTotalShots } from '@/engine/stats';
+import type { TankCombatStats } from '@/engine/stats';
+
+interface MatchStatsBreakdownProps {
+  stats: TankCombatStats[];
+  matchMode: MatchMode;
+  // Display names by tank ID - tanks without one are shown as "Player N"
+  playerNames?: Record<number, string>;
+  // Highlights this client's row
+  localTankId?: number | null;
+}
+
+function formatTimeAlive(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Only the entries that happened, e.g. "2 charge, 1 laser"
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `${count} ${type.toLowerCase()}`)
+    .join(', ');
+}
+
+export function MatchStatsBreakdown({ stats, matchMode, playerNames = {}, localTankId = null }: MatchStatsBreakdownProps) {
+  if (stats.length === 0) return null;
+
+  return (
+    <div className="w-full mb-6 text-left">
+      <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Match Stats</div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="text-left font-semibold px-2 py-1">Player</th>
+              <th className="text-right font-semibold px-2 py-1">Shots</th>
+              <th className="text-right font-semibold px-2 py-1">Acc</th>
+              <th className="text-right font-semibold px-2 py-1">Dealt</th>
+              <th className="text-right font-semibold px-2 py-1">Taken</th>
+              <th className="text-right font-semibold px-2 py-1">Kills</th>
+              <th className="text-right font-semibold px-2 py-1">Crates</th>
+              <th className="text-right font-semibold px-2 py-1">Alive</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((entry) => {
+              const shotTypes = formatCounts({ ...entry.shotsFired, NORMAL: 0 });
+              const powerups = formatCounts(entry.powerupsCollected);
+              const details = [
+                shotTypes && `Special shots: ${shotTypes}`,
+                entry.ricochetKills > 0 && `${entry.ricochetKills} ricochet kills`,
+                entry.chargeKills > 0 && `${entry.chargeKills} charge kills`,
+                powerups && `Powerups: ${powerups}`,
+                entry.hazardDamage > 0 && `${entry.hazardDamage} hazard dmg`,
+                entry.suddenDeathDamage > 0 && `${entry.suddenDeathDamage} sudden death dmg`,
+              ].filter(Boolean);
+              const rowClass = entry.tankId === localTankId ? 'bg-white/10' : '';
+
+              return (
+                <Fragment key={entry.tankId}>
+                  <tr className={rowClass}>
+                    <td
+                      className="px-2 pt-1 font-bold truncate max-w-[8rem]"
+                      style={{ color: getTeamColor(matchMode, getTankTeam(matchMode, entry.tankId)) }}
+                    >
+                      {playerNames[entry.tankId] ?? `Player ${entry.tankId}`}
+                    </td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{getTotalShots(entry)}</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{Math.round(entry.accuracy * 100)}%</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{entry.damageDealt}</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{entry.damageTaken}</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{entry.kills}</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{entry.cratesDestroyed}</td>
+                    <td className="px-2 pt-1 text-right font-mono text-white">{formatTimeAlive(entry.timeAlive)}</td>
+                  </tr>
+                  {details.length > 0 && (
+                    <tr className={rowClass}>
+                      <td colSpan={8} className="px-2 pb-1 text-xs text-gray-500">
+                        {details.join(' · ')}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default MatchStatsBreakdown;
@@ -5,6 +5,10 @@ import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useMultiplayer } from '@/hooks/useMultiplayer';
 import { useSettingsStore } from '@/store/useSettingsStore';
+import { toOnlineGameSettings } from '@/lib/socket/gameSettings';
+import { getNetworkManager } from '@/engine/multiplayer/NetworkManager';
+import { MapPicker } from './MapPicker';
+import type { OnlineGameSettings } from '@/lib/socket/events';
 
 export type ControlScheme = 'wasd' | 'arrows';
 
@@ -16,21 +20,25 @@ interface MatchmakingScreenProps {
 
 export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: MatchmakingScreenProps) {
   const [screen, setScreen] = useState<'setup' | 'matchmaking'>('setup');
-  const [playerName, setPlayerName] = useState('');
+  const [playerName, setPlayerName] = useState(() => getNetworkManager().getSavedPlayerName() ?? '');
   const [controlScheme, setControlScheme] = useState<ControlScheme>('wasd');
   const [sessionCode, setSessionCode] = useState(joinSessionId || '');
   const [isJoining, setIsJoining] = useState(!!joinSessionId);
+  const [isWatching, setIsWatching] = useState(false);
 
-  // Get settings from store
-  const { scoreLimitValue, timeLimitEnabled, timeLimitSeconds } = useSettingsStore();
+  // The session creator picks the map; joining players get the creator's map and seed
+  const mapVariant = useSettingsStore((state) => state.mapVariant);
+  const updateSetting = useSettingsStore((state) => state.updateSetting);
 
   const {
     connectionStatus,
     opponentName,
     queuePosition,
+    estimatedWait,
     countdown,
     error,
     sessionId,
+    sessionSettings,
     connect,
     findMatch,
     joinSession,
@@ -38,6 +46,7 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
     disconnect,
     reset,
     isMatched,
+    isSpectating,
     updatePlayerName,
   } = useMultiplayer();
 
@@ -54,25 +63,23 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
         await connect();
         Logger.debug('[MatchmakingScreen] Connected!');
 
-        if (isJoining && sessionCode) {
+        // Proposed ruleset - the server only applies it if this player creates the session
+        const gameSettings = toOnlineGameSettings(useSettingsStore.getState());
+
+        if (isWatching && sessionCode) {
+          Logger.debug('[MatchmakingScreen] Watching session:', sessionCode);
+          await joinSession(sessionCode, undefined, 'spectator');
+        } else if (isJoining && sessionCode) {
           Logger.debug('[MatchmakingScreen] Joining session:', sessionCode);
-          await joinSession(sessionCode, {
-            scoreLimitValue,
-            timeLimitEnabled,
-            timeLimitSeconds,
-          });
+          await joinSession(sessionCode, gameSettings);
         } else {
           Logger.debug('[MatchmakingScreen] Finding match...');
-          await findMatch({
-            scoreLimitValue,
-            timeLimitEnabled,
-            timeLimitSeconds,
-          });
+          await findMatch(gameSettings);
         }
       };
       startMatchmaking();
     }
-  }, [screen, connect, findMatch, joinSession, connectionStatus, isJoining, sessionCode, playerName, updatePlayerName]);
+  }, [screen, connect, findMatch, joinSession, connectionStatus, isJoining, isWatching, sessionCode, playerName, updatePlayerName]);
 
   // Handle countdown completion
   useEffect(() => {
@@ -83,6 +90,14 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
     }
   }, [countdown, isMatched, onMatchStart, playerName, controlScheme, connectionStatus]);
 
+  // Spectators go straight to the match once it is running
+  useEffect(() => {
+    if (isSpectating && connectionStatus === 'in_game') {
+      Logger.debug('[MatchmakingScreen] Spectating match');
+      onMatchStart(playerName, controlScheme);
+    }
+  }, [isSpectating, connectionStatus, onMatchStart, playerName, controlScheme]);
+
   const handleCancel = () => {
     cancelMatch();
     disconnect();
@@ -166,33 +181,35 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
             </div>
 
             {/* Control Scheme */}
-            <div>
-              <label className="block text-sm font-semibold text-gray-300 mb-3">
-                Choose Controls
-              </label>
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  onClick={() => setControlScheme('wasd')}
-                  className={`p-4 rounded-lg border-2 transition-all ${controlScheme === 'wasd'
-                      ? 'border-cyan-500 bg-cyan-500/10 shadow-[0_0_15px_rgba(0,255,255,0.3)]'
-                      : 'border-gray-600 bg-gray-800/50 hover:border-gray-500'
-                    }`}
-                >
-                  <div className="text-lg font-bold text-white mb-1">WASD</div>
-                  <div className="text-xs text-gray-400">W/A/S/D + Space</div>
-                </button>
-                <button
-                  onClick={() => setControlScheme('arrows')}
-                  className={`p-4 rounded-lg border-2 transition-all ${controlScheme === 'arrows'
-                      ? 'border-cyan-500 bg-cyan-500/10 shadow-[0_0_15px_rgba(0,255,255,0.3)]'
-                      : 'border-gray-600 bg-gray-800/50 hover:border-gray-500'
-                    }`}
-                >
-                  <div className="text-lg font-bold text-white mb-1">Arrows</div>
-                  <div className="text-xs text-gray-400">↑/←/↓/→ + Enter</div>
-                </button>
+            {!isWatching && (
+              <div>
+                <label className="block text-sm font-semibold text-gray-300 mb-3">
+                  Choose Controls
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    onClick={() => setControlScheme('wasd')}
+                    className={`p-4 rounded-lg border-2 transition-all ${controlScheme === 'wasd'
+                        ? 'border-cyan-500 bg-cyan-500/10 shadow-[0_0_15px_rgba(0,255,255,0.3)]'
+                        : 'border-gray-600 bg-gray-800/50 hover:border-gray-500'
+                      }`}
+                  >
+                    <div className="text-lg font-bold text-white mb-1">WASD</div>
+                    <div className="text-xs text-gray-400">W/A/S/D + Space</div>
+                  </button>
+                  <button
+                    onClick={() => setControlScheme('arrows')}
+                    className={`p-4 rounded-lg border-2 transition-all ${controlScheme === 'arrows'
+                        ? 'border-cyan-500 bg-cyan-500/10 shadow-[0_0_15px_rgba(0,255,255,0.3)]'
+                        : 'border-gray-600 bg-gray-800/50 hover:border-gray-500'
+                      }`}
+                  >
+                    <div className="text-lg font-bold text-white mb-1">Arrows</div>
+                    <div className="text-xs text-gray-400">↑/←/↓/→ + Enter</div>
+                  </button>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Join or Create */}
             <div>
@@ -200,9 +217,10 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
                 <button
                   onClick={() => {
                     setIsJoining(false);
+                    setIsWatching(false);
                     setSessionCode('');
                   }}
-                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${!isJoining
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${!isJoining && !isWatching
                       ? 'bg-cyan-600 text-white'
                       : 'bg-gray-800 text-gray-400 hover:text-white'
                     }`}
@@ -210,7 +228,10 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
                   Create Game
                 </button>
                 <button
-                  onClick={() => setIsJoining(true)}
+                  onClick={() => {
+                    setIsJoining(true);
+                    setIsWatching(false);
+                  }}
                   className={`flex-1 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${isJoining
                       ? 'bg-cyan-600 text-white'
                       : 'bg-gray-800 text-gray-400 hover:text-white'
@@ -218,9 +239,25 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
                 >
                   Join Game
                 </button>
+                <button
+                  onClick={() => {
+                    setIsWatching(true);
+                    setIsJoining(false);
+                  }}
+                  className={`flex-1 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${isWatching
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                >
+                  Watch
+                </button>
               </div>
 
-              {isJoining && (
+              {!isJoining && !isWatching && (
+                <MapPicker value={mapVariant} onChange={(variant) => updateSetting('mapVariant', variant)} />
+              )}
+
+              {(isJoining || isWatching) && (
                 <motion.div
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
@@ -243,7 +280,7 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               onClick={handleStartMatchmaking}
-              disabled={!playerName.trim() || (isJoining && sessionCode.length !== 5)}
+              disabled={!playerName.trim() || ((isJoining || isWatching) && sessionCode.length !== 5)}
               className="
                 w-full py-3 px-6
                 text-sm font-bold tracking-wider
@@ -258,7 +295,7 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
                 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:shadow-none
               "
             >
-              {isJoining ? 'JOIN GAME' : 'CREATE GAME'}
+              {isWatching ? 'WATCH GAME' : isJoining ? 'JOIN GAME' : 'CREATE GAME'}
             </motion.button>
           </div>
 
@@ -333,13 +370,18 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
             {connectionStatus === 'connecting' && (
               <ConnectingContent key="connecting" />
             )}
+            {connectionStatus === 'reconnecting' && (
+              <ConnectingContent key="reconnecting" reconnecting />
+            )}
 
             {/* Matchmaking State */}
             {connectionStatus === 'matchmaking' && (
               <MatchmakingContent
                 key="matchmaking"
                 queuePosition={queuePosition}
+                estimatedWait={estimatedWait}
                 sessionId={sessionId}
+                spectating={isSpectating}
               />
             )}
 
@@ -361,6 +403,11 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
               <DisconnectedContent key="disconnected" />
             )}
           </AnimatePresence>
+
+          {/* Session ruleset, as confirmed by the server */}
+          {sessionSettings && (connectionStatus === 'matchmaking' || connectionStatus === 'matched') && (
+            <RulesBanner settings={sessionSettings} />
+          )}
         </div>
 
         {/* Cancel Button */}
@@ -388,7 +435,7 @@ export function MatchmakingScreen({ onCancel, onMatchStart, joinSessionId }: Mat
   );
 }
 
-function ConnectingContent() {
+function ConnectingContent({ reconnecting = false }: { reconnecting?: boolean }) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -406,10 +453,10 @@ function ConnectingContent() {
       </motion.div>
 
       <h3 className="text-xl font-semibold text-cyan-100 mb-2">
-        Connecting...
+        {reconnecting ? 'Reconnecting...' : 'Connecting...'}
       </h3>
       <p className="text-sm text-gray-400">
-        Establishing connection to server
+        {reconnecting ? 'Connection lost - your place in the session is being held' : 'Establishing connection to server'}
       </p>
     </motion.div>
   );
@@ -417,10 +464,12 @@ function ConnectingContent() {
 
 interface MatchmakingContentProps {
   queuePosition: number | null;
+  estimatedWait: number | null;
   sessionId: string | null;
+  spectating: boolean;
 }
 
-function MatchmakingContent({ queuePosition, sessionId }: MatchmakingContentProps) {
+function MatchmakingContent({ queuePosition, estimatedWait, sessionId, spectating }: MatchmakingContentProps) {
   const [copied, setCopied] = useState(false);
 
   const copySessionCode = () => {
@@ -461,10 +510,16 @@ function MatchmakingContent({ queuePosition, sessionId }: MatchmakingContentProp
       </div>
 
       <h3 className="text-xl font-semibold text-cyan-100 mb-2">
-        Waiting for Player...
+        {spectating ? 'Waiting for the Match to Start...' : 'Waiting for Player...'}
       </h3>
 
-      {sessionId && (
+      {spectating && (
+        <p className="text-sm text-gray-400">
+          You are watching as a spectator. The match is shown a few seconds behind.
+        </p>
+      )}
+
+      {sessionId && !spectating && (
         <div className="mt-6 mb-6">
           <p className="text-sm text-gray-400 mb-2">Share this code with your friend!</p>
           <div className="bg-gray-800/80 border-2 border-cyan-500/50 rounded-lg p-4 mb-3">
@@ -504,9 +559,13 @@ function MatchmakingContent({ queuePosition, sessionId }: MatchmakingContentProp
         </div>
       )}
 
-      <p className="text-sm text-gray-500 mt-4">
-        Searching for players...
-      </p>
+      {!spectating && (
+        <p className="text-sm text-gray-500 mt-4">
+          {queuePosition !== null
+            ? `Queue position #${queuePosition}${estimatedWait !== null ? ` · about ${estimatedWait}s` : ''}`
+            : 'Searching for players...'}
+        </p>
+      )}
     </motion.div>
   );
 }
@@ -581,6 +640,56 @@ function MatchedContent({ opponentName }: MatchedContentProps) {
   );
 }
 
+interface RulesBannerProps {
+  settings: OnlineGameSettings;
+}
+
+function RulesBanner({ settings }: RulesBannerProps) {
+  const onOff = (enabled: boolean) => (enabled ? 'On' : 'Off');
+
+  const modeLabel =
+    settings.matchMode === 'teams' ? '2v2' : settings.matchMode === 'ffa' ? `FFA (${settings.ffaPlayerCount})` : '1v1';
+
+  const rules: [string, string][] = [
+    ['Mode', modeLabel],
+    ['Score Limit', `${settings.scoreLimitValue}`],
+    ['Time Limit', settings.timeLimitEnabled ? `${settings.timeLimitSeconds}s` : 'Off'],
+    ['Map', settings.mapVariant],
+    ['Health', `${settings.startingHealth}`],
+    ['Ricochet', settings.bulletRicochet ? `${settings.maxBounces} bounces` : 'Off'],
+    ['Speed', `${settings.gameSpeed}x`],
+    ['Power-Ups', settings.powerUps ? `${settings.powerupSpawnRate}s` : 'Off'],
+    ['Crates', onOff(settings.destructibleCrates)],
+    ['Hazards', onOff(settings.hazards)],
+    ['Charging', onOff(settings.charging)],
+    ['Ammo', onOff(settings.ammoSystem)],
+    ['Recoil', onOff(settings.recoil)],
+    ['Sudden Death', onOff(settings.suddenDeath)],
+    ['Friendly Fire', onOff(settings.friendlyFire)],
+    ['Tick Rate', `${settings.tickRate} Hz`],
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="mt-6 pt-4 border-t border-gray-700"
+    >
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider text-center mb-3">
+        Match Rules
+      </p>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        {rules.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-gray-500">{label}</span>
+            <span className="text-cyan-300 font-semibold capitalize">{value}</span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
+
 interface ErrorContentProps {
   error: string;
   onRetry: () => void;
@@ -2,8 +2,18 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { formatKeyCode } from '@/engine/core/ControlBindings';
+import type { PlayerBindings } from '@/types/settings';
 
+// 'wasd' plays with player 1's bindings, 'arrows' with player 2's
 export type ControlScheme = 'wasd' | 'arrows';
+
+// Short summary of a player's bindings, e.g. "W A S D + Space"
+function describeBindings(bindings: PlayerBindings): string {
+  const movement = [bindings.up, bindings.left, bindings.down, bindings.right].map((b) => formatKeyCode(b.key)).join(' ');
+  return `${movement} + ${formatKeyCode(bindings.shoot.key)}`;
+}
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
 interface ModeSelectorProps {
@@ -121,6 +131,8 @@ export function ModeSelector({ mode, onBack, onStart }: ModeSelectorProps) {
 }
 
 function LocalModeContent() {
+  const bindings = useSettingsStore((state) => state.controlBindings);
+
   return (
     <div className="text-center py-8">
       <motion.div
@@ -133,9 +145,9 @@ function LocalModeContent() {
       </motion.div>
       <h3 className="text-xl font-semibold text-cyan-100 mb-2">Ready to play!</h3>
       <p className="text-sm text-gray-400">
-        Player 1: WASD + Space
+        Player 1: {describeBindings(bindings.player1)}
         <br />
-        Player 2: Arrow Keys + Enter
+        Player 2: {describeBindings(bindings.player2)}
       </p>
     </div>
   );
@@ -149,6 +161,8 @@ interface AIModeContentProps {
 }
 
 function AIModeContent({ controls, setControls, difficulty, setDifficulty }: AIModeContentProps) {
+  const bindings = useSettingsStore((state) => state.controlBindings);
+
   return (
     <div className="space-y-6">
       {/* Control Selection */}
@@ -158,12 +172,12 @@ function AIModeContent({ controls, setControls, difficulty, setDifficulty }: AIM
           <RadioButton
             selected={controls === 'wasd'}
             onClick={() => setControls('wasd')}
-            label="WASD"
+            label={describeBindings(bindings.player1)}
           />
           <RadioButton
             selected={controls === 'arrows'}
             onClick={() => setControls('arrows')}
-            label="Arrow Keys"
+            label={describeBindings(bindings.player2)}
           />
         </div>
       </div>
@@ -4,15 +4,21 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Toggle, Slider, Select } from '@/components/ui';
 import { useSettingsStore } from '@/store/useSettingsStore';
+import { useMapLibraryStore } from '@/store/useMapLibraryStore';
+import { CustomMapLibrary } from '@/components/maps';
+import { ControlBindingsEditor } from './ControlBindingsEditor';
+import { SERVER_TICK_RATE_OPTIONS } from '@/types/settings';
+import type { ServerTickRate } from '@/types/settings';
 
 interface OptionsMenuProps {
   onBack: () => void;
 }
 
-type SectionKey = 'gameplay' | 'graphics' | 'map' | 'audio' | 'advanced';
+type SectionKey = 'gameplay' | 'controls' | 'graphics' | 'map' | 'audio' | 'advanced';
 
 const sectionLabels: Record<SectionKey, string> = {
   gameplay: 'Gameplay',
+  controls: 'Controls',
   graphics: 'Graphics',
   map: 'Map',
   audio: 'Audio',
@@ -25,6 +31,7 @@ export function OptionsMenu({ onBack }: OptionsMenuProps) {
   );
 
   const settings = useSettingsStore();
+  const hasCustomMap = useMapLibraryStore((state) => state.selectedMapId !== null);
 
   const toggleSection = (section: SectionKey) => {
     setExpandedSections((prev) => {
@@ -84,6 +91,26 @@ export function OptionsMenu({ onBack }: OptionsMenuProps) {
             onToggle={() => toggleSection('gameplay')}
           >
             <div className="space-y-4">
+              <Select
+                label="Match Mode"
+                options={[
+                  { value: 'duel', label: '1v1 Duel' },
+                  { value: 'teams', label: '2v2 Teams' },
+                  { value: 'ffa', label: 'Free-for-All' },
+                ]}
+                value={settings.matchMode}
+                onChange={(v) => settings.updateSetting('matchMode', v as typeof settings.matchMode)}
+              />
+              {settings.matchMode === 'ffa' && (
+                <Slider
+                  label="Free-for-All Tanks"
+                  min={3}
+                  max={6}
+                  step={1}
+                  value={settings.ffaPlayerCount}
+                  onChange={(v) => settings.updateSetting('ffaPlayerCount', v)}
+                />
+              )}
               <Toggle
                 label="Charging Enabled"
                 value={settings.charging}
@@ -149,6 +176,29 @@ export function OptionsMenu({ onBack }: OptionsMenuProps) {
             </div>
           </CollapsibleSection>
 
+          {/* Controls Section */}
+          <CollapsibleSection
+            title={sectionLabels.controls}
+            isExpanded={expandedSections.has('controls')}
+            onToggle={() => toggleSection('controls')}
+          >
+            <div className="space-y-4">
+              <Select
+                label="Control Model"
+                options={[
+                  { value: 'classic', label: 'Classic' },
+                  { value: 'analog', label: 'Twin-Stick' },
+                ]}
+                value={settings.controlModel}
+                onChange={(v) => settings.updateSetting('controlModel', v as typeof settings.controlModel)}
+              />
+              <p className="text-xs text-gray-500">
+                Twin-stick moves at the speed of the left stick and aims the turret with the mouse or right stick.
+              </p>
+              <ControlBindingsEditor />
+            </div>
+          </CollapsibleSection>
+
           {/* Graphics Section */}
           <CollapsibleSection
             title={sectionLabels.graphics}
@@ -245,7 +295,9 @@ export function OptionsMenu({ onBack }: OptionsMenuProps) {
                 ]}
                 value={settings.mapVariant}
                 onChange={(v) => settings.updateSetting('mapVariant', v as typeof settings.mapVariant)}
+                disabled={hasCustomMap}
               />
+              <CustomMapLibrary />
               <Toggle
                 label="Destructible Crates"
                 value={settings.destructibleCrates}
@@ -366,6 +418,15 @@ export function OptionsMenu({ onBack }: OptionsMenuProps) {
                 disabled={!settings.scoreLimitEnabled}
                 valueFormatter={(v) => `${v} wins`}
               />
+              <Select
+                label="Online Tick Rate"
+                options={SERVER_TICK_RATE_OPTIONS.map((rate) => ({ value: String(rate), label: `${rate} Hz` }))}
+                value={String(settings.serverTickRate)}
+                onChange={(v) => settings.updateSetting('serverTickRate', Number(v) as ServerTickRate)}
+              />
+              <p className="text-xs text-gray-500">
+                How often the server sends updates in online matches you host. 30 Hz halves the data sent, at some cost to smoothness.
+              </p>
             </div>
           </CollapsibleSection>
 
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getTankTeam, getTeamColor } from '@/engine/core/MatchMode';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import type { MatchHistoryEntry, PlayerProfile } from '@/lib/profile';
+import type { PlayerRating } from '@/lib/rating';
+
+const PAGE_SIZE = 10;
+
+interface ProfileScreenProps {
+  playerId: string;
+  onBack: () => void;
+}
+
+interface HistoryPage {
+  entries: MatchHistoryEntry[];
+  total: number;
+}
+
+function formatMatchMode(mode: MatchMode, playerCount: number): string {
+  return mode === 'teams' ? '2v2' : mode === 'ffa' ? `FFA (${playerCount})` : '1v1';
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function getAccuracy(entry: MatchHistoryEntry): number | null {
+  const shots = Object.values(entry.weaponStats.shotsFired).reduce((sum, n) => sum + (n ?? 0), 0);
+  return shots > 0 ? Math.round((entry.weaponStats.hits / shots) * 100) : null;
+}
+
+export function ProfileScreen({ playerId, onBack }: ProfileScreenProps) {
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [rating, setRating] = useState<PlayerRating | null>(null);
+  const [history, setHistory] = useState<HistoryPage>({ entries: [], total: 0 });
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfile = async () => {
+      try {
+        const response = await fetch(`/api/profile/${encodeURIComponent(playerId)}`);
+        // No profile until the first online match is finished
+        if (response.status === 404) return;
+        if (!response.ok) throw new Error('Could not load your profile');
+
+        const data: { profile: PlayerProfile; rating: PlayerRating } = await response.json();
+        if (!cancelled) {
+          setProfile(data.profile);
+          setRating(data.rating);
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(
+          `/api/profile/${encodeURIComponent(playerId)}/history?page=${page}&pageSize=${PAGE_SIZE}`
+        );
+        if (!response.ok) throw new Error('Could not load your match history');
+
+        const data: HistoryPage = await response.json();
+        if (!cancelled) setHistory(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, page]);
+
+  const pageCount = Math.max(1, Math.ceil(history.total / PAGE_SIZE));
+  const winRate = profile && profile.matchesPlayed > 0 ? Math.round((profile.wins / profile.matchesPlayed) * 100) : null;
+
+  return (
+    <div className="min-h-screen bg-[#050505] flex flex-col items-center p-4 py-12">
+      <h2 className="text-3xl md:text-4xl font-bold mb-8 text-white uppercase tracking-wider">Profile</h2>
+
+      <div className="w-full max-w-2xl">
+        <div className="bg-gray-900/80 border border-gray-700 rounded-xl p-6 mb-6">
+          <div className="text-2xl font-bold text-white truncate">{profile?.name ?? 'New Player'}</div>
+          <div className="text-xs text-gray-500 font-mono mb-4">{playerId}</div>
+
+          <div className="grid grid-cols-4 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-cyan-400">{rating?.rating ?? '-'}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wider">Rating</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-white">{profile?.matchesPlayed ?? 0}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wider">Matches</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-white">
+                {profile?.wins ?? 0}
+                <span className="text-gray-500"> / </span>
+                {profile?.losses ?? 0}
+              </div>
+              <div className="text-xs text-gray-400 uppercase tracking-wider">W / L</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-white">{winRate === null ? '-' : `${winRate}%`}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wider">Win Rate</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Match History</div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {!isLoading && history.entries.length === 0 && !error && (
+          <p className="text-gray-500 text-sm mb-4">Finish an online match to start your history.</p>
+        )}
+
+        <div className="space-y-2 mb-6">
+          {history.entries.map((entry) => {
+            const accuracy = getAccuracy(entry);
+            const playerCount = entry.opponents.length + entry.teammates.length + 1;
+            const otherScores = Object.entries(entry.finalScores)
+              .filter(([team]) => Number(team) !== entry.team)
+              .map(([, score]) => score);
+
+            return (
+              <div
+                key={entry.matchId}
+                className={`flex items-center justify-between gap-4 px-4 py-3 rounded-lg border ${entry.won ? 'border-green-500/40 bg-green-500/5' : 'border-red-500/40 bg-red-500/5'}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-bold ${entry.won ? 'text-green-400' : 'text-red-400'}`}>
+                      {entry.won ? 'WIN' : 'LOSS'}
+                    </span>
+                    <span className="font-mono text-white">
+                      {entry.finalScores[entry.team] ?? 0} - {otherScores.join(' - ')}
+                    </span>
+                    <span className="text-xs text-gray-500 uppercase">
+                      {formatMatchMode(entry.matchMode, playerCount)} · {entry.map.variant}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-400 truncate">
+                    vs{' '}
+                    {entry.opponents.map((opponent, i) => (
+                      <span key={opponent.playerId}>
+                        {i > 0 && ', '}
+                        <span style={{ color: getTeamColor(entry.matchMode, getTankTeam(entry.matchMode, opponent.tankId)) }}>{opponent.name}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="text-right text-xs text-gray-400 shrink-0">
+                  <div>
+                    {entry.rounds} rounds · {formatDuration(entry.durationMs)}
+                    {entry.ratingChange !== null && (
+                      <span className={`ml-2 font-mono ${entry.ratingChange > 0 ? 'text-green-400' : entry.ratingChange < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                        {entry.ratingChange > 0 ? '+' : ''}{entry.ratingChange}
+                      </span>
+                    )}
+                  </div>
+                  <div>
+                    {accuracy === null ? 'No shots' : `${accuracy}% accuracy`} · {entry.weaponStats.damageDealt} dmg
+                  </div>
+                  <div className="text-gray-600">{new Date(entry.playedAt).toLocaleString()}</div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {history.total > PAGE_SIZE && (
+          <div className="flex items-center justify-center gap-4 mb-6">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || isLoading}
+              className="px-4 py-2 border border-gray-600 text-gray-300 rounded-full hover:border-white hover:text-white disabled:opacity-30 disabled:hover:border-gray-600 transition-all"
+            >
+              Newer
+            </button>
+            <span className="text-sm text-gray-400">
+              Page {page} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= pageCount || isLoading}
+              className="px-4 py-2 border border-gray-600 text-gray-300 rounded-full hover:border-white hover:text-white disabled:opacity-30 disabled:hover:border-gray-600 transition-all"
+            >
+              Older
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <button
+            onClick={onBack}
+            className="px-6 py-3 border-2 border-white text-white rounded-full hover:bg-white hover:text-black transition-all"
+          >
+            Back to Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProfileScreen;
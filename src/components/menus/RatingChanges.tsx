@@ -0,0 +1,45 @@
+'use client';
+
+import { getTankTeam, getTeamColor } from '@/engine/core/MatchMode';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import type { RatingChange } from '@/lib/socket/events';
+
+interface RatingChangesProps {
+  ratings: RatingChange[];
+  matchMode: MatchMode;
+  // Highlights this client's row
+  localPlayerId?: string | null;
+}
+
+export function RatingChanges({ ratings, matchMode, localPlayerId = null }: RatingChangesProps) {
+  if (ratings.length === 0) return null;
+
+  return (
+    <div className="w-full mb-6">
+      <div className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Rating</div>
+      <div className="space-y-1">
+        {[...ratings].sort((a, b) => a.tankId - b.tankId).map((entry) => (
+          <div
+            key={entry.playerId}
+            className={`flex items-center justify-between gap-6 px-3 py-1 rounded ${entry.playerId === localPlayerId ? 'bg-white/10' : ''}`}
+          >
+            <span
+              className="font-bold truncate"
+              style={{ color: getTeamColor(matchMode, getTankTeam(matchMode, entry.tankId)) }}
+            >
+              {entry.playerName}
+            </span>
+            <span className="font-mono text-white">
+              {entry.rating}
+              <span className={`ml-2 ${entry.change > 0 ? 'text-green-400' : entry.change < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                {entry.change > 0 ? '+' : ''}{entry.change}
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default RatingChanges;
@@ -9,3 +9,11 @@ export { OptionsMenu } from './OptionsMenu';
 export { GameOverScreen } from './GameOverScreen';
 
 export { MatchmakingScreen } from './MatchmakingScreen';
+
+export { MapPicker } from './MapPicker';
+
+export { RatingChanges } from './RatingChanges';
+
+export { MatchStatsBreakdown } from './MatchStatsBreakdown';
+
+export { ProfileScreen } from './ProfileScreen';
@@ -20,6 +20,9 @@ interface MobileControlsProps {
   p1ChargeLevel?: number;
   p2ChargeLevel?: number;
   isOnlineMode?: boolean;
+  twinStick?: boolean; // Adds an aim stick per player for the twin-stick control model
+  onP1Aim?: (vector: Vector) => void;
+  onP2Aim?: (vector: Vector) => void;
 }
 
 export default function MobileControls({
@@ -36,6 +39,9 @@ export default function MobileControls({
   p1ChargeLevel = 0,
   p2ChargeLevel = 0,
   isOnlineMode = false,
+  twinStick = false,
+  onP1Aim,
+  onP2Aim,
 }: MobileControlsProps) {
   const orientation = useOrientation();
   const isMobile = useIsMobile();
@@ -46,6 +52,12 @@ export default function MobileControls({
   const p1Color = '#ff0055';
   const p2Color = '#00ffff';
 
+  // The turret holds its aim when the stick is let go
+  const renderAimStick = (color: string, size: number, onAim?: (vector: Vector) => void) =>
+    twinStick && onAim ? (
+      <Joystick size={size} color={color} playerLabel="AIM" onMove={onAim} onRelease={() => {}} />
+    ) : null;
+
   // Online mode: Show only P1 controls with joystick on left, shoot button on right
   if (isOnlineMode) {
     return (
@@ -68,8 +80,9 @@ export default function MobileControls({
           />
         </div>
 
-        {/* Shoot Button - Right Side */}
-        <div className="flex items-center justify-center">
+        {/* Aim Stick and Shoot Button - Right Side */}
+        <div className="flex items-center justify-center gap-4">
+          {renderAimStick(p1Color, 100, onP1Aim)}
           <ShootButton
             size={80}
             color={p1Color}
@@ -103,14 +116,17 @@ export default function MobileControls({
             onMove={onP1Move}
             onRelease={onP1MoveEnd}
           />
-          <ShootButton
-            size={70}
-            color={p1Color}
-            onShootStart={onP1ShootStart}
-            onShootEnd={onP1ShootEnd}
-            isReloading={p1Reloading}
-            chargeLevel={p1ChargeLevel}
-          />
+          <div className="flex items-center gap-4">
+            {renderAimStick(p1Color, 90, onP1Aim)}
+            <ShootButton
+              size={70}
+              color={p1Color}
+              onShootStart={onP1ShootStart}
+              onShootEnd={onP1ShootEnd}
+              isReloading={p1Reloading}
+              chargeLevel={p1ChargeLevel}
+            />
+          </div>
         </div>
 
         {/* Player 2 Controls - Bottom (Near Home Button) */}
@@ -122,14 +138,17 @@ export default function MobileControls({
             borderTop: '1px solid rgba(0,255,255,0.3)',
           }}
         >
-          <ShootButton
-            size={70}
-            color={p2Color}
-            onShootStart={onP2ShootStart}
-            onShootEnd={onP2ShootEnd}
-            isReloading={p2Reloading}
-            chargeLevel={p2ChargeLevel}
-          />
+          <div className="flex items-center gap-4">
+            <ShootButton
+              size={70}
+              color={p2Color}
+              onShootStart={onP2ShootStart}
+              onShootEnd={onP2ShootEnd}
+              isReloading={p2Reloading}
+              chargeLevel={p2ChargeLevel}
+            />
+            {renderAimStick(p2Color, 90, onP2Aim)}
+          </div>
           <Joystick
             size={100}
             color={p2Color}
@@ -161,6 +180,7 @@ export default function MobileControls({
           onMove={onP1Move}
           onRelease={onP1MoveEnd}
         />
+        {renderAimStick(p1Color, 80, onP1Aim)}
         <ShootButton
           size={60}
           color={p1Color}
@@ -187,6 +207,7 @@ export default function MobileControls({
           onMove={onP2Move}
           onRelease={onP2MoveEnd}
         />
+        {renderAimStick(p2Color, 80, onP2Aim)}
         <ShootButton
           size={60}
           color={p2Color}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Simulation } from '@/engine/core/Simulation';
+import type { Game } from '@/engine/core/Game';
+import { downloadReplay } from './replayFile';
+
+interface ReplayControlsProps {
+  game: Game;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface PlaybackState {
+  tick: number;
+  totalTicks: number;
+  paused: boolean;
+  speed: number;
+  round: number;
+  roundCount: number;
+  followTankId: number | null;
+}
+
+function formatTicks(ticks: number): string {
+  const totalSeconds = Math.floor(ticks / Simulation.TICK_RATE);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function ReplayControls({ game, onExit }: ReplayControlsProps) {
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+
+  // Mirror the player's state every frame
+  useEffect(() => {
+    let frameId: number;
+
+    const poll = () => {
+      const player = game.getReplayPlayer();
+      if (player) {
+        setPlayback({
+          tick: player.getCurrentTick(),
+          totalTicks: player.getTotalTicks(),
+          paused: player.isPaused(),
+          speed: player.getSpeed(),
+          round: player.getRoundIndex() + 1,
+          roundCount: player.getRoundStartTicks().length,
+          followTankId: game.getReplayCamera().followTankId,
+        });
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [game]);
+
+  // Space toggles playback
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        game.getReplayPlayer()?.togglePlayback();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [game]);
+
+  const player = game.getReplayPlayer();
+  if (!player || !playback) return null;
+
+  const camera = game.getReplayCamera();
+  const isDuel = player.simulation.settings.matchMode === 'duel';
+
+  const cameraButton = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1 text-xs font-bold border rounded-full uppercase transition-all ${
+        active ? 'border-white bg-white text-black' : 'border-gray-600 text-gray-400 hover:border-white hover:text-white'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-full px-4 py-2 flex flex-col gap-2 shrink-0 bg-black/60 border-t border-gray-800">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => player.togglePlayback()}
+          className="w-20 px-3 py-1 text-sm font-bold border-2 border-[#00ffff] text-white rounded-full hover:bg-[#00ffff] hover:text-black transition-all uppercase"
+        >
+          {playback.paused ? 'Play' : 'Pause'}
+        </button>
+
+        <span className="text-gray-300 text-sm font-mono w-28 text-center">
+          {formatTicks(playback.tick)} / {formatTicks(playback.totalTicks)}
+        </span>
+
+        <input
+          type="range"
+          min={0}
+          max={playback.totalTicks}
+          value={playback.tick}
+          onChange={(e) => game.seekReplay(Number(e.target.value))}
+          className="flex-1 accent-[#ff0055]"
+          aria-label="Replay position"
+        />
+
+        <span className="text-gray-400 text-sm whitespace-nowrap">
+          Round {playback.round}/{playback.roundCount}
+        </span>
+
+        <select
+          value={playback.speed}
+          onChange={(e) => player.setSpeed(Number(e.target.value))}
+          className="bg-black border border-gray-600 text-white text-sm rounded px-2 py-1"
+          aria-label="Playback speed"
+        >
+          {SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}x
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-gray-500 text-xs uppercase mr-1">Camera</span>
+        {cameraButton('Free', playback.followTankId === null, () => camera.follow(null))}
+        {isDuel ? (
+          <>
+            {cameraButton('Follow Red', playback.followTankId === 1, () => camera.follow(1))}
+            {cameraButton('Follow Blue', playback.followTankId === 2, () => camera.follow(2))}
+          </>
+        ) : (
+          player.simulation.tanks.map((tank) => (
+            <span key={tank.id}>
+              {cameraButton(`Follow P${tank.id}`, playback.followTankId === tank.id, () => camera.follow(tank.id))}
+            </span>
+          ))
+        )}
+        {cameraButton('Reset View', false, () => camera.reset())}
+        <span className="text-gray-500 text-xs ml-2 hidden md:inline">
+          Drag or WASD to pan, wheel or Q/E to zoom, Space to pause
+        </span>
+
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => downloadReplay(player.getReplay())}
+            className="px-4 py-1 text-xs font-bold border border-gray-500 text-gray-300 rounded-full hover:border-white hover:text-white transition-all uppercase"
+          >
+            Export
+          </button>
+          <button
+            onClick={onExit}
+            className="px-4 py-1 text-xs font-bold border border-gray-500 text-gray-300 rounded-full hover:border-white hover:text-white transition-all uppercase"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { default as ReplayControls } from './ReplayControls';
+export { downloadReplay, readReplayFile } from './replayFile';
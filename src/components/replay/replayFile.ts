@@ -0,0 +1,27 @@
+// Browser helpers for saving and loading replay files
+import { exportReplay, importReplay } from '@/engine/replay';
+import type { ReplayData } from '@/engine/replay';
+
+/**
+ * Download a replay as a .json file
+ */
+export function downloadReplay(replay: ReplayData): void {
+  const blob = new Blob([exportReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const stamp = replay.createdAt.replace(/[:.]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `neon-tank-replay-${replay.sourceMode}-${stamp}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a replay from a user-selected file
+ * @returns the replay, or null if the file is not a valid replay
+ */
+export async function readReplayFile(file: File): Promise<ReplayData | null> {
+  return importReplay(await file.text());
+}
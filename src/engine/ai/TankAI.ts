@@ -8,6 +8,7 @@ import { Constants } from '../utils/Constants';
 import { Hazard } from '../entities/Hazard';
 import { PathFinding } from './behaviors/PathFinding';
 import { AimingSystem, AIDifficulty } from './behaviors/AimingSystem';
+import type { TankInput } from '../core/Simulation';
 
 export interface AIInput {
   movement: Vector;
@@ -406,18 +407,16 @@ export class TankAI {
     };
   }
 
-  // Convert AI input to virtual keyboard state
-  getVirtualKeyState(input: AIInput, controls: { up: string; down: string; left: string; right: string; shoot: string }): { [key: string]: boolean } {
-    const keys: { [key: string]: boolean } = {};
+  // Convert AI input to a simulation input (movement snapped to 8 directions)
+  toTankInput(input: AIInput): TankInput {
     const threshold = 0.3;
+    const snap = (v: number) => (v > threshold ? 1 : v < -threshold ? -1 : 0);
 
-    if (input.movement.y < -threshold) keys[controls.up] = true;
-    if (input.movement.y > threshold) keys[controls.down] = true;
-    if (input.movement.x < -threshold) keys[controls.left] = true;
-    if (input.movement.x > threshold) keys[controls.right] = true;
-    if (input.shoot) keys[controls.shoot] = true;
-
-    return keys;
+    return {
+      movement: { x: snap(input.movement.x), y: snap(input.movement.y) },
+      shoot: input.shoot,
+      angle: input.targetAngle,
+    };
   }
 
   private canMoveDirectly(from: Vector, to: Vector, walls: Wall[], crates: Wall[], hazards: Hazard[]): boolean {
@@ -0,0 +1,170 @@
+// AudioManager - sound effects and music driven by the simulation's events
+import { Howl } from 'howler';
+import { Constants } from '../utils/Constants';
+import type { Simulation } from '../core/Simulation';
+import type { AudioSettings } from '@/types/settings';
+import { renderMusicLoop, renderSoundSprite } from './SoundSynth';
+import type { MusicLayer, SoundName } from './SoundSynth';
+
+// How far a sound can be panned towards either speaker
+const MAX_PAN = 0.8;
+const INTENSITY_FADE_MS = 1500;
+
+export class AudioManager {
+  private sfx: Howl | null = null;
+  private music: Record<MusicLayer, Howl> | null = null;
+  private settings: AudioSettings = { soundEffects: true, musicEnabled: true, musicVolume: 70, sfxVolume: 80 };
+  private musicPlaying = false;
+  private intensity = 0; // 0 = base layer only, 1 = intense layer fully in
+  private silenced = false;
+
+  // Sounds are synthesized on first use, in the browser
+  private getSfx(): Howl {
+    if (!this.sfx) {
+      const { src, sprite } = renderSoundSprite();
+      this.sfx = new Howl({ src: [src], format: ['wav'], sprite, volume: this.sfxVolume });
+    }
+    return this.sfx;
+  }
+
+  private getMusic(): Record<MusicLayer, Howl> {
+    if (!this.music) {
+      const layer = (name: MusicLayer) =>
+        new Howl({ src: [renderMusicLoop(name)], format: ['wav'], loop: true, volume: this.getLayerVolume(name) });
+      this.music = { base: layer('base'), intense: layer('intense') };
+    }
+    return this.music;
+  }
+
+  // Volume buses - each setting is a 0-100 percentage
+  private get sfxVolume(): number {
+    return this.settings.soundEffects ? this.settings.sfxVolume / 100 : 0;
+  }
+
+  private get musicVolume(): number {
+    return this.settings.musicEnabled ? this.settings.musicVolume / 100 : 0;
+  }
+
+  private getLayerVolume(layer: MusicLayer): number {
+    return this.musicVolume * (layer === 'base' ? 1 : this.intensity);
+  }
+
+  /**
+   * Apply the player's audio settings to the effect and music buses
+   */
+  public applySettings(settings: AudioSettings): void {
+    this.settings = { ...settings };
+    this.sfx?.volume(this.sfxVolume);
+
+    if (this.music) {
+      this.music.base.volume(this.getLayerVolume('base'));
+      this.music.intense.volume(this.getLayerVolume('intense'));
+    }
+
+    // Music that was switched off stops, and starts again when switched back on
+    if (this.musicPlaying && this.musicVolume > 0) {
+      this.playLayers();
+    } else if (this.music) {
+      this.music.base.stop();
+      this.music.intense.stop();
+    }
+  }
+
+  /**
+   * Play a sound effect, panned towards the speaker nearest its x position
+   */
+  public play(sound: SoundName, x?: number): void {
+    if (this.silenced || this.sfxVolume === 0) return;
+
+    const sfx = this.getSfx();
+    const id = sfx.play(sound);
+    if (x !== undefined) {
+      const pan = (x / Constants.GAME_WIDTH) * 2 - 1;
+      sfx.stereo(Math.max(-1, Math.min(1, pan)) * MAX_PAN, id);
+    }
+  }
+
+  /**
+   * Subscribe to a simulation's events
+   * @returns a function that unsubscribes again
+   */
+  public attach(simulation: Simulation): () => void {
+    const events = simulation.events;
+    const tankX = (tankId: number) => simulation.getTank(tankId)?.pos.x;
+
+    const unsubscribers = [
+      events.on('bullet_fired', ({ bullet }) => this.play(`fire_${bullet.type}`, bullet.pos.x)),
+      events.on('bullet_bounced', ({ bullet }) => this.play('ricochet', bullet.pos.x)),
+      // The shield soaked up the whole shot
+      events.on('tank_hit', ({ bullet, damage }) => this.play(damage > 0 ? 'hit' : 'shield_block', bullet.pos.x)),
+      events.on('powerup_collected', ({ powerup }) => this.play('powerup', powerup.pos.x)),
+      events.on('reload_started', ({ tankId }) => this.play('reload', tankX(tankId))),
+      events.on('crate_destroyed', ({ crate }) => this.play('crate_break', crate.x + crate.w / 2)),
+      events.on('sudden_death_started', () => {
+        this.play('siren');
+        this.setIntensity(1);
+      }),
+      events.on('round_over', () => this.play('round_win')),
+      events.on('round_started', () => this.setIntensity(0)),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }
+
+  /**
+   * Drop sound effects while the callback runs, e.g. while a replay re-simulates to a seek point
+   */
+  public silence(callback: () => void): void {
+    this.silenced = true;
+    try {
+      callback();
+    } finally {
+      this.silenced = false;
+    }
+  }
+
+  public startMusic(): void {
+    this.musicPlaying = true;
+    if (this.musicVolume > 0) {
+      this.playLayers();
+    }
+  }
+
+  public stopMusic(): void {
+    this.musicPlaying = false;
+    if (this.music) {
+      this.music.base.stop();
+      this.music.intense.stop();
+    }
+  }
+
+  /**
+   * Fade the intense music layer in (1) or out (0)
+   */
+  public setIntensity(intensity: number): void {
+    if (intensity === this.intensity) return;
+
+    const from = this.getLayerVolume('intense');
+    this.intensity = intensity;
+    this.music?.intense.fade(from, this.getLayerVolume('intense'), INTENSITY_FADE_MS);
+  }
+
+  // Start both layers together so they loop in time
+  private playLayers(): void {
+    const music = this.getMusic();
+    if (music.base.playing()) return;
+
+    music.base.play();
+    music.intense.play();
+  }
+}
+
+// Singleton instance for global access
+let audioManagerInstance: AudioManager | null = null;
+
+export function getAudioManager(): AudioManager {
+  if (!audioManagerInstance) {
+    audioManagerInstance = new AudioManager();
+  }
+  return audioManagerInstance;
+}
@@ -0,0 +1,229 @@
+// Procedural audio - the sound sprite and music loops are synthesized at startup, so no audio files ship
+export const SAMPLE_RATE = 22050;
+
+export type SoundName =
+  | 'fire_NORMAL'
+  | 'fire_CHARGE'
+  | 'fire_SHOTGUN'
+  | 'fire_LASER'
+  | 'ricochet'
+  | 'hit'
+  | 'shield_block'
+  | 'powerup'
+  | 'reload'
+  | 'crate_break'
+  | 'siren'
+  | 'round_win';
+
+export type MusicLayer = 'base' | 'intense';
+
+export interface SoundSprite {
+  src: string; // WAV data URI
+  sprite: Record<SoundName, [number, number]>; // Offset and duration in ms
+}
+
+type Wave = 'sine' | 'square' | 'saw' | 'triangle';
+
+// Silence between sprite entries so a clip never bleeds into the next
+const SPRITE_GAP_S = 0.05;
+
+function oscillator(wave: Wave, phase: number): number {
+  const p = phase - Math.floor(phase);
+  switch (wave) {
+    case 'sine':
+      return Math.sin(p * Math.PI * 2);
+    case 'square':
+      return p < 0.5 ? 1 : -1;
+    case 'saw':
+      return p * 2 - 1;
+    case 'triangle':
+      return 1 - 4 * Math.abs(p - 0.5);
+  }
+}
+
+/**
+ * Render a tone whose frequency can change over time, with a linear attack and exponential decay
+ */
+function tone(
+  duration: number,
+  frequency: (t: number) => number,
+  wave: Wave,
+  decay: number = 6,
+  attack: number = 0.005
+): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    phase += frequency(t) / SAMPLE_RATE;
+    const envelope = Math.min(1, t / attack) * Math.exp(-decay * t);
+    samples[i] = oscillator(wave, phase) * envelope;
+  }
+  return samples;
+}
+
+/**
+ * Render decaying white noise, smoothed by a one-pole low-pass (0 = dull, 1 = bright)
+ */
+function noise(duration: number, decay: number, brightness: number, random: () => number): Float32Array {
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+  let last = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    last += (random() * 2 - 1 - last) * brightness;
+    samples[i] = last * Math.exp(-decay * t);
+  }
+  return samples;
+}
+
+// Sum clips into one, each starting at its own offset (seconds)
+function mix(...parts: Array<[Float32Array, number, number?]>): Float32Array {
+  const length = Math.max(...parts.map(([clip, offset]) => clip.length + Math.round(offset * SAMPLE_RATE)));
+  const out = new Float32Array(length);
+  for (const [clip, offset, gain = 1] of parts) {
+    const start = Math.round(offset * SAMPLE_RATE);
+    for (let i = 0; i < clip.length; i++) {
+      out[start + i] += clip[i] * gain;
+    }
+  }
+  return out;
+}
+
+function sweep(from: number, to: number, duration: number): (t: number) => number {
+  return (t) => from * Math.pow(to / from, Math.min(1, t / duration));
+}
+
+function notes(frequencies: number[], step: number, wave: Wave, decay: number): Float32Array {
+  return mix(...frequencies.map((f, i): [Float32Array, number] => [tone(step * 2, () => f, wave, decay), i * step]));
+}
+
+// Fixed-seed random source so every client hears the same noise
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+function renderSounds(): Record<SoundName, Float32Array> {
+  const random = createRandom(0x5eed);
+
+  return {
+    fire_NORMAL: tone(0.12, sweep(880, 220, 0.12), 'square', 18),
+    fire_CHARGE: mix([tone(0.4, sweep(240, 50, 0.4), 'saw', 5), 0], [noise(0.3, 10, 0.3, random), 0, 0.5]),
+    fire_SHOTGUN: mix([noise(0.25, 14, 0.6, random), 0], [tone(0.15, sweep(160, 50, 0.15), 'sine', 12), 0]),
+    fire_LASER: tone(0.25, (t) => sweep(1800, 500, 0.25)(t) * (1 + 0.03 * Math.sin(t * 180)), 'sine', 8),
+    ricochet: tone(0.1, sweep(1900, 3200, 0.1), 'triangle', 25),
+    hit: mix([noise(0.15, 20, 0.5, random), 0], [tone(0.15, sweep(180, 60, 0.15), 'sine', 16), 0]),
+    shield_block: mix(
+      [tone(0.35, () => 620, 'sine', 9), 0, 0.5],
+      [tone(0.35, () => 1370, 'sine', 11), 0, 0.35],
+      [tone(0.35, () => 2230, 'sine', 14), 0, 0.25]
+    ),
+    powerup: notes([523, 659, 784, 1047], 0.06, 'square', 14),
+    reload: mix([noise(0.05, 60, 0.9, random), 0], [noise(0.07, 50, 0.7, random), 0.16], [tone(0.05, () => 1200, 'square', 60), 0.16, 0.3]),
+    crate_break: mix(
+      [noise(0.45, 8, 0.25, random), 0],
+      [noise(0.2, 18, 0.8, random), 0.04, 0.6],
+      [tone(0.3, sweep(120, 40, 0.3), 'sine', 10), 0]
+    ),
+    siren: tone(1.6, (t) => 750 + 200 * Math.sin(t * Math.PI * 2 * 1.25), 'triangle', 1.2, 0.05),
+    round_win: mix([notes([523, 659, 784], 0.1, 'square', 7), 0], [tone(0.6, () => 1047, 'square', 3), 0.3]),
+  };
+}
+
+/**
+ * Encode mono samples (-1..1) as a 16-bit PCM WAV data URI
+ */
+function encodeWav(samples: Float32Array): string {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s * 0x7fff, true);
+  }
+
+  // btoa needs a binary string - build it in chunks to stay under the argument limit
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
+
+/**
+ * Render every sound effect into one sprite
+ */
+export function renderSoundSprite(): SoundSprite {
+  const sounds = renderSounds();
+  const gap = new Float32Array(Math.round(SPRITE_GAP_S * SAMPLE_RATE));
+  const sprite = {} as Record<SoundName, [number, number]>;
+  const parts: Array<[Float32Array, number, number?]> = [];
+
+  let offset = 0;
+  for (const [name, samples] of Object.entries(sounds) as Array<[SoundName, Float32Array]>) {
+    sprite[name] = [Math.round(offset * 1000), Math.round((samples.length / SAMPLE_RATE) * 1000)];
+    parts.push([samples, offset, 0.8]);
+    offset += (samples.length + gap.length) / SAMPLE_RATE;
+  }
+
+  return { src: encodeWav(mix(...parts, [gap, offset])), sprite };
+}
+
+/**
+ * Render one layer of the 4-bar music loop (A minor, 120 BPM).
+ * Both layers have the same length, so started together they stay in time.
+ */
+export function renderMusicLoop(layer: MusicLayer): string {
+  const beat = 0.5;
+  const roots = [110, 87.31, 130.81, 98]; // A2, F2, C3, G2 - one chord per bar
+  const random = createRandom(layer === 'base' ? 1 : 2);
+  const parts: Array<[Float32Array, number, number?]> = [];
+
+  roots.forEach((root, bar) => {
+    const barStart = bar * beat * 4;
+
+    if (layer === 'base') {
+      // Pad and a bass note on every beat, kick on one and three
+      parts.push([tone(beat * 4, () => root * 2, 'triangle', 0.6, 0.2), barStart, 0.25]);
+      for (let b = 0; b < 4; b++) {
+        parts.push([tone(beat, () => root, 'saw', 5), barStart + b * beat, 0.3]);
+        if (b % 2 === 0) {
+          parts.push([tone(0.2, sweep(120, 40, 0.2), 'sine', 14), barStart + b * beat, 0.7]);
+        }
+      }
+    } else {
+      // Sixteenth hi-hats and an arpeggio two octaves up
+      const arpeggio = [root * 4, root * 5, root * 6, root * 8];
+      for (let s = 0; s < 16; s++) {
+        const start = barStart + (s * beat) / 4;
+        parts.push([noise(0.05, 60, 0.95, random), start, s % 4 === 0 ? 0.35 : 0.2]);
+        parts.push([tone(beat / 4, () => arpeggio[s % 4], 'square', 12), start, 0.12]);
+      }
+    }
+  });
+
+  const loop = mix(...parts);
+  // Trim overhanging tails so the loop length is exactly four bars
+  return encodeWav(loop.subarray(0, Math.round(roots.length * beat * 4 * SAMPLE_RATE)));
+}
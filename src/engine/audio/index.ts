@@ -0,0 +1,3 @@
+// Audio exports
+export { AudioManager, getAudioManager } from './AudioManager';
+export type { SoundName, MusicLayer } from './SoundSynth';
@@ -0,0 +1,114 @@
+// Control bindings - turning the player's key and gamepad bindings into tank controls
+import type { TankControls } from '../entities/Tank';
+import type { BindingAction, ControlBindings, PlayerBindings } from '@/types/settings';
+
+export type BindingPlayer = keyof ControlBindings;
+export type BindingInput = 'key' | 'button';
+
+export const BINDING_ACTIONS: readonly BindingAction[] = ['up', 'down', 'left', 'right', 'shoot', 'pause'];
+
+export const BINDING_ACTION_LABELS: Record<BindingAction, string> = {
+  up: 'Forward',
+  down: 'Reverse',
+  left: 'Turn Left',
+  right: 'Turn Right',
+  shoot: 'Shoot / Charge',
+  pause: 'Pause',
+};
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping) - Select is reserved for swapping pads
+export const PAD_BUTTON_SELECT = 8;
+
+// Gamepad button names under the standard mapping
+const PAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Select', 'Start', 'L3', 'R3',
+  'D-Pad Up', 'D-Pad Down', 'D-Pad Left', 'D-Pad Right', 'Home',
+];
+
+/**
+ * A player's tank controls - the tank reads its movement and fire keys from these
+ */
+export function bindingsToControls(bindings: PlayerBindings): TankControls {
+  // Unbound actions get a name no key produces, so they simply never fire
+  const key = (action: BindingAction) => bindings[action].key ?? `Unbound:${action}`;
+  return {
+    up: key('up'),
+    down: key('down'),
+    left: key('left'),
+    right: key('right'),
+    shoot: key('shoot'),
+  };
+}
+
+/**
+ * Bindings that clash, as `player.action.input` ids. Both players share the keyboard, so a key
+ * may only be bound once overall; each player has their own pad, so buttons only clash per player.
+ * Select always clashes, since pressing it swaps the pad to the other player
+ */
+export function getBindingConflicts(bindings: ControlBindings): Set<string> {
+  const conflicts = new Set<string>();
+  const keyOwners = new Map<string, string[]>();
+  const players = Object.keys(bindings) as BindingPlayer[];
+
+  for (const player of players) {
+    const buttonOwners = new Map<number, string[]>();
+
+    for (const action of BINDING_ACTIONS) {
+      const { key, button } = bindings[player][action];
+      if (key !== null) {
+        keyOwners.set(key, [...(keyOwners.get(key) ?? []), `${player}.${action}.key`]);
+      }
+      if (button === PAD_BUTTON_SELECT) {
+        conflicts.add(`${player}.${action}.button`);
+      } else if (button !== null) {
+        buttonOwners.set(button, [...(buttonOwners.get(button) ?? []), `${player}.${action}.button`]);
+      }
+    }
+
+    for (const owners of buttonOwners.values()) {
+      if (owners.length > 1) owners.forEach((id) => conflicts.add(id));
+    }
+  }
+
+  for (const owners of keyOwners.values()) {
+    if (owners.length > 1) owners.forEach((id) => conflicts.add(id));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Bind one input of an action, leaving the rest untouched
+ */
+export function setBinding(
+  bindings: ControlBindings,
+  player: BindingPlayer,
+  action: BindingAction,
+  input: BindingInput,
+  value: string | number | null
+): ControlBindings {
+  return {
+    ...bindings,
+    [player]: {
+      ...bindings[player],
+      [action]: { ...bindings[player][action], [input]: value },
+    },
+  };
+}
+
+/**
+ * Readable name of a KeyboardEvent.code
+ */
+export function formatKeyCode(code: string | null): string {
+  if (code === null) return '—';
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Arrow')) return `${code.slice(5)} Arrow`;
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code.replace(/(Left|Right)$/, ' $1');
+}
+
+export function formatPadButton(button: number | null): string {
+  if (button === null) return '—';
+  return PAD_BUTTON_NAMES[button] ?? `Button ${button}`;
+}
@@ -1,23 +1,63 @@
 // Main Game orchestrator (extracted from HTML game loop)
 import { Logger } from '@/lib/logging/Logger';
 import { Constants } from '../utils/Constants';
+import { Vector } from '../utils/Vector';
 import { Tank, TankControls } from '../entities/Tank';
 import { Bullet } from '../entities/Bullet';
-import { PowerUp, PowerUpType } from '../entities/PowerUp';
+import { PowerUp } from '../entities/PowerUp';
 import { Wall } from '../entities/Wall';
-import { Hazard } from '../entities/Hazard';
+import type { Hazard } from '../entities/Hazard';
 import { Particle } from '../entities/Particle';
 import { InputManager } from './InputManager';
+import { bindingsToControls } from './ControlBindings';
+import { Simulation, InputFrame, TankInput } from './Simulation';
+import type { GameEvents } from './GameEvents';
+import { getTankCount } from './MatchMode';
+import type { MatchMode } from './MatchMode';
 import { TankAI, AIDifficulty } from '../ai';
 import { NetworkManager } from '../multiplayer/NetworkManager';
-import { GameRulesSystem } from '../systems/GameRulesSystem';
 import { RenderSystem } from '../systems/RenderSystem';
 import { EntitySystem } from '../systems/EntitySystem';
-import type { GameStateSnapshot, SerializedTank } from '@/lib/socket/events';
-
-export type GameMode = 'local' | 'ai' | 'online' | 'lan';
+import { WeatherSystem } from '../systems/WeatherSystem';
+import { ReplayRecorder, ReplayPlayer, ReplayCamera, KillcamRecorder, KillcamPlayback } from '../replay';
+import type { KillcamKill } from '../replay';
+import { buildMapPreset } from '../map/MapGenerator';
+import { SeededRandom } from '../utils/SeededRandom';
+import { setActivePalette } from '../utils/Palette';
+import type { MapVariant, MapPresetConfig } from '../map/MapPresets';
+import type { ReplayData } from '../replay';
+import { MatchStatsCollector } from '../stats';
+import { getAudioManager } from '../audio';
+import type { TankCombatStats } from '../stats';
+import type { GameStateSnapshot, RatingChange, SerializedTank } from '@/lib/socket/events';
+import { decodeGameEvent } from '@/lib/socket/gameEvents';
+import { DEFAULT_CONTROL_BINDINGS } from '@/types/settings';
+import type { ColorblindMode, ControlBindings, ControlModel, GamepadPreferences, WeatherType } from '@/types/settings';
+
+export type GameMode = 'local' | 'ai' | 'online' | 'lan' | 'replay';
 export type GameState = 'menu' | 'playing' | 'paused' | 'gameover';
 
+// Per-tank summary for the HUD
+export interface TankStatus {
+  id: number;
+  team: number;
+  color: string;
+  health: number;
+  maxHealth: number;
+  dead: boolean;
+}
+
+// Live entity lists for the minimap - read-only views, not copies
+export interface MinimapState {
+  walls: readonly Wall[];
+  crates: readonly Wall[];
+  hazards: readonly Hazard[];
+  powerups: readonly PowerUp[];
+  tanks: readonly Tank[];
+  suddenDeathInset: number | null; // Null until sudden death starts
+  matchMode: MatchMode;
+}
+
 // Client-side prediction state
 interface PredictedState {
   timestamp: number;
@@ -61,8 +101,8 @@ export interface GameSettings {
   bulletTrails: boolean;
   bulletTrailLength: number;
   screenShake: boolean;
-  screenShakeIntensity: number;
-  weather: string;
+  screenShakeIntensity: number; // 0-100
+  weather: WeatherType;
   particleDensity: number;
   damageNumbers: boolean;
 
@@ -74,9 +114,13 @@ export interface GameSettings {
   maxBounces: number;
   startingHealth: number;
   powerupSpawnRate: number;
-  mapVariant: string;
+  mapVariant: MapVariant;
+  mapSeed?: number; // Shared by networked peers so both build the same map
+  customMap?: MapPresetConfig; // Validated custom layout, played instead of mapVariant
 
   // Game rules
+  matchMode: MatchMode;
+  ffaPlayerCount: number;
   timeLimitEnabled: boolean;
   timeLimitSeconds: number;
   scoreLimitEnabled: boolean;
@@ -92,55 +136,78 @@ export interface GameSettings {
   sfxVolume: number;
 
   // Accessibility
-  colorblindMode: string;
+  colorblindMode: ColorblindMode;
+
+  // Controls
+  controlBindings: ControlBindings;
+  controlModel: ControlModel;
+  gamepads: GamepadPreferences;
 
   // AI settings
   aiDifficulty: AIDifficulty;
 
   // Online multiplayer settings
-  localPlayerControls?: 'wasd' | 'arrows'; // For online mode: which controls this client uses
+  localPlayerControls?: 'wasd' | 'arrows'; // For online mode: which player's bindings this client uses
 }
 
 export class Game {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private inputManager: InputManager;
-  private tankAI: TankAI | null = null;
+  private tankAIs: Map<number, TankAI> = new Map(); // CPU tanks by tank ID
   private networkManager: NetworkManager | null = null;
   private lanNetworkManager: any | null = null; // LANNetworkManager - avoiding circular import
   private assignedTankId: number | null = null;
-  private gameRulesSystem!: GameRulesSystem;
   private renderSystem: RenderSystem;
   private entitySystem: EntitySystem;
+  private weatherSystem: WeatherSystem = new WeatherSystem();
 
   // Game state
   public state: GameState = 'playing';
   private mode: GameMode;
   private settings: GameSettings;
 
-  // Entities
-  private p1!: Tank;
-  private p2!: Tank;
-  private bullets: Bullet[] = [];
-  private powerups: PowerUp[] = [];
-  private walls: Wall[] = [];
-  private crates: Wall[] = [];
-  private hazards: Hazard[] = [];
+  // Gameplay entities and rules live in the shared simulation; particles are client-only
+  private simulation!: Simulation;
   private particles: Particle[] = [];
-
-  // Scores
-  private scores = { p1: 0, p2: 0 };
-
-  // Timing
-  private gameStartTime: number = 0;
-  private lastPowerUpTime: number = 0;
-  private suddenDeathActive: boolean = false;
-  private suddenDeathInset: number = 0;
+  private audio = getAudioManager();
+  private detachAudio: (() => void) | null = null;
+  private shakeMagnitude = 0; // Screen shake offset in pixels, decays every frame
+  private readonly SHAKE_DECAY = 0.85;
   private roundWinner: number | null = null;
+  private lastWinner: number | null = null; // Team that won the round that ended the game loop
+
+  // Replay recorded by this client (local, AI, LAN host) or received from the host/server
+  private recorder: ReplayRecorder | null = null;
+  private receivedReplay: ReplayData | null = null;
+  private ratingChanges: RatingChange[] = []; // Online only, from the server at game over
+  private statsCollector: MatchStatsCollector | null = null;
+  private receivedStats: TankCombatStats[] = []; // Online only, from the server at game over
+
+  // Replay playback (replay mode only)
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayCamera: ReplayCamera = new ReplayCamera();
+
+  // Killcam (live modes) - the last few seconds, replayed in slow motion before the round result
+  private killcamRecorder: KillcamRecorder = new KillcamRecorder();
+  private killcam: KillcamPlayback | null = null;
+  private killcamCamera: ReplayCamera = new ReplayCamera();
+  private lastKill: KillcamKill | null = null; // Latest bullet kill this round
+  private afterKillcam: (() => void) | null = null;
+  private killcamSkippableAt = 0; // Skips are ignored until then, so a held fire key doesn't skip it
+  private readonly KILLCAM_SKIP_DELAY_MS = 500;
+
+  // Pause binding - toggles on press, and is polled while the game loop is stopped
+  private pauseHeld = false;
+  private pausePollId: number | null = null;
+  private cameraDragPoint: { x: number; y: number } | null = null;
+  private readonly CAMERA_PAN_SPEED = 8; // Screen pixels per step
+  private readonly CAMERA_ZOOM_STEP = 1.02; // Zoom factor per step while a zoom key is held
 
   // Animation frame
   private animationFrameId: number | null = null;
   private lastFrameTime: number = 0;
+  private stepAccumulator: number = 0; // Frame time not yet spent on fixed simulation steps
 
   // Client-side prediction & reconciliation
   private predictionHistory: PredictedState[] = [];
@@ -158,7 +225,7 @@ export class Game {
   private readonly RECONCILIATION_THRESHOLD_SMOOTH = 5; // Smooth correction for small errors (pixels) - tighter for Valorant-level precision
   private readonly RECONCILIATION_THRESHOLD_SNAP = 200; // Instant snap only for major desync (pixels) - more forgiving to reduce rubber-banding
   // Dead reckoning
-  private remotePlayerVelocity = { x: 0, y: 0 }; // Track remote player velocity
+  private remoteTankVelocities: Map<number, { x: number; y: number }> = new Map(); // Remote tank velocities by tank ID
   private readonly MAX_EXTRAPOLATION_TIME = 100; // Max time to extrapolate (ms)
 
   constructor(
@@ -166,7 +233,8 @@ export class Game {
     mode: GameMode = 'local',
     settings?: Partial<GameSettings>,
     networkManager?: NetworkManager,
-    lanNetworkManager?: any // LANNetworkManager - avoiding circular import
+    lanNetworkManager?: any, // LANNetworkManager - avoiding circular import
+    replay?: ReplayData // Recording to play back in replay mode
   ) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
@@ -198,7 +266,7 @@ export class Game {
       bulletTrails: true,
       bulletTrailLength: 10,
       screenShake: true,
-      screenShakeIntensity: 1.0,
+      screenShakeIntensity: 50,
       weather: 'none',
       particleDensity: 100,
       damageNumbers: true,
@@ -210,6 +278,8 @@ export class Game {
       startingHealth: Constants.TANK_MAX_HEALTH,
       powerupSpawnRate: Constants.POWERUP_SPAWN_INTERVAL / 1000,
       mapVariant: 'classic',
+      matchMode: 'duel',
+      ffaPlayerCount: 4,
       timeLimitEnabled: false,
       timeLimitSeconds: 120,
       scoreLimitEnabled: false,
@@ -220,14 +290,16 @@ export class Game {
       musicVolume: 70,
       sfxVolume: 70,
       colorblindMode: 'none',
+      controlBindings: DEFAULT_CONTROL_BINDINGS,
+      controlModel: 'classic',
+      gamepads: {},
       aiDifficulty: 'medium',
       ...settings,
     };
-
-    // Initialize AI if in AI mode
-    if (this.mode === 'ai') {
-      this.tankAI = new TankAI(this.settings.aiDifficulty);
-    }
+    this.inputManager.setBindings(this.settings.controlBindings);
+    this.inputManager.setGamepadPreferences(this.settings.gamepads);
+    this.weatherSystem.setWeather(this.settings.weather, this.settings.particleDensity);
+    setActivePalette(this.settings.colorblindMode);
 
     // Setup network manager for online mode
     if (this.mode === 'online' && networkManager) {
@@ -244,119 +316,156 @@ export class Game {
       console.log('[Game] LAN mode initialized, role:', lanNetworkManager.isHost() ? 'host' : 'guest', 'tankId:', this.assignedTankId);
     }
 
+    // Setup playback for replay mode
+    if (this.mode === 'replay' && replay) {
+      this.replayPlayer = new ReplayPlayer(replay);
+      this.setupReplayCameraControls();
+    } else {
+      // Tap or click to skip the killcam
+      this.canvas.addEventListener('pointerdown', this.handleKillcamPointer);
+      if (this.settings.controlModel === 'analog') {
+        this.setupMouseAim();
+      }
+    }
+
     this.initGame();
   }
 
+  private get p1(): Tank {
+    return this.simulation.tanks[0];
+  }
+
+  private get p2(): Tank {
+    return this.simulation.tanks[1];
+  }
+
+  // Tank this client controls in online and LAN modes
+  private getLocalTank(): Tank | undefined {
+    return this.assignedTankId !== null ? this.simulation.getTank(this.assignedTankId) : undefined;
+  }
+
   private initGame(): void {
     // Set canvas size
     this.canvas.width = Constants.GAME_WIDTH;
     this.canvas.height = Constants.GAME_HEIGHT;
 
-    // Create map
-    this.createMap();
+    // Playback re-simulates the recorded match with its own settings, seed and map
+    if (this.replayPlayer) {
+      this.simulation = this.replayPlayer.simulation;
+      this.subscribeToSimulation();
+      return;
+    }
 
     // Create players
-    // Define control schemes
-    const wasdControls: TankControls = {
-      up: 'KeyW',
-      down: 'KeyS',
-      left: 'KeyA',
-      right: 'KeyD',
-      shoot: 'Space',
-    };
-
-    const arrowControls: TankControls = {
-      up: 'ArrowUp',
-      down: 'ArrowDown',
-      left: 'ArrowLeft',
-      right: 'ArrowRight',
-      shoot: 'Enter',
-    };
+    // Control schemes come from the player's bindings ('wasd' is player 1's, 'arrows' player 2's)
+    const wasdControls = bindingsToControls(this.settings.controlBindings.player1);
+    const arrowControls = bindingsToControls(this.settings.controlBindings.player2);
 
-    // Assign controls based on mode and settings
-    let p1Controls: TankControls;
-    let p2Controls: TankControls;
+    // Assign controls based on mode and settings (by tank index, CPU tanks need none)
+    let tankControls: TankControls[];
 
     if (this.mode === 'online' && this.assignedTankId && this.settings.localPlayerControls) {
-      // Online mode: assign based on user choice and tank assignment
+      // Online mode: the local tank uses the user's choice, remote tanks the other scheme
       const localControls = this.settings.localPlayerControls === 'wasd' ? wasdControls : arrowControls;
       const remoteControls = this.settings.localPlayerControls === 'wasd' ? arrowControls : wasdControls;
+      const tankCount = getTankCount(this.settings.matchMode, this.settings.ffaPlayerCount);
 
-      if (this.assignedTankId === 1) {
-        p1Controls = localControls;  // Local player is red tank
-        p2Controls = remoteControls; // Remote player is blue tank
-      } else {
-        p1Controls = remoteControls; // Remote player is red tank
-        p2Controls = localControls;  // Local player is blue tank
-      }
+      tankControls = Array.from({ length: tankCount }, (_, index) =>
+        index + 1 === this.assignedTankId ? localControls : remoteControls
+      );
     } else {
       // Local/AI mode: default assignment
-      p1Controls = wasdControls;
-      p2Controls = arrowControls;
+      tankControls = [wasdControls, arrowControls];
     }
 
-    this.p1 = new Tank(1, 100, 350, Constants.PLAYER1_COLOR, p1Controls);
-    this.p2 = new Tank(2, 900, 350, Constants.PLAYER2_COLOR, p2Controls);
-
-    // Mark P2 as AI-controlled if in AI mode
-    if (this.mode === 'ai') {
-      this.p2.isAIControlled = true;
-    }
+    this.simulation = new Simulation(this.settings, {
+      tankControls,
+      map: this.settings.customMap ?? buildMapPreset({
+        variant: this.settings.mapVariant,
+        seed: this.settings.mapSeed ?? SeededRandom.createSeed(),
+      }),
+    });
+    this.subscribeToSimulation();
+    this.clearMapForOnline();
+    this.applyTankRoles();
+    this.startRecording();
+  }
 
-    this.gameStartTime = Date.now();
-    this.suddenDeathActive = false;
-    this.suddenDeathInset = 0;
+  /**
+   * Drive client effects from the simulation's events - online clients replay the server's events on it
+   */
+  private subscribeToSimulation(): void {
+    const events = this.simulation.events;
+    this.detachAudio = this.audio.attach(this.simulation);
 
-    // Initialize game rules system
-    this.gameRulesSystem = new GameRulesSystem(this.gameStartTime);
+    events.on('bullet_expired', ({ bullet }) => {
+      this.createExplosion(bullet.pos.x, bullet.pos.y, bullet.color, 5);
+    });
+    events.on('tank_hit', ({ bullet, damage }) => {
+      this.createExplosion(bullet.pos.x, bullet.pos.y, bullet.color, 8);
+      this.shakeScreen(damage / 4);
+    });
+    events.on('tank_destroyed', ({ tankId, bullet }) => {
+      this.lastKill = bullet ? { bulletId: bullet.id, victimId: tankId } : null;
+      const tank = this.simulation.getTank(tankId);
+      if (tank) {
+        this.createExplosion(tank.pos.x, tank.pos.y, tank.color, 50);
+      }
+      this.shakeScreen(12);
+    });
+    events.on('round_started', () => {
+      this.lastKill = null;
+      this.killcamRecorder.clear();
+    });
+    events.on('crate_destroyed', ({ crate }) => {
+      this.createExplosion(crate.x + crate.w / 2, crate.y + crate.h / 2, '#d68c24', 15);
+    });
   }
 
-  private createMap(): void {
-    console.log('[Game] createMap() called, mode:', this.mode);
-    this.walls = [];
-    this.crates = [];
-    this.hazards = [];
+  /**
+   * Record the match and its combat stats when this client runs the simulation (local, AI and LAN host)
+   */
+  private startRecording(): void {
+    const isLANHost = this.mode === 'lan' && this.lanNetworkManager?.isHost();
+    if (this.mode !== 'local' && this.mode !== 'ai' && !isLANHost) return;
+
+    // The layout is already stored as the replay's map
+    const settings = { ...this.settings, customMap: undefined };
+    this.recorder = new ReplayRecorder(isLANHost ? 'lan' : this.mode as 'local' | 'ai', this.simulation, settings);
+    this.statsCollector = new MatchStatsCollector(this.simulation);
+  }
 
-    // In ONLINE mode, the server is authoritative for all entities
-    // Client receives map data from server, don't create local copies with mismatched IDs
+  private clearMapForOnline(): void {
+    // In ONLINE mode, the server is authoritative for crates (they can be destroyed)
+    // Static walls and hazards come from the session's map seed, so they match the server's
+    // Client receives crates from server, don't create local copies with mismatched IDs
     // LAN mode works differently - host creates map locally, guest receives state from host
     if (this.mode === 'online') {
-      console.log('[Game] Online mode - skipping local map creation, waiting for server data');
-      return; // Server will send all entities with their IDs
+      console.log('[Game] Online mode - skipping local crate creation, waiting for server data');
+      this.simulation.crates = [];
     }
+  }
 
-    // Static Walls (local/AI modes only)
-    this.walls.push(new Wall(450, 300, 100, 100)); // Center
-
-    this.walls.push(new Wall(150, 100, 50, 150));
-    this.walls.push(new Wall(800, 100, 50, 150));
-    this.walls.push(new Wall(150, 450, 50, 150));
-    this.walls.push(new Wall(800, 450, 50, 150));
+  private applyTankRoles(): void {
+    // CPU tanks: everyone but P1 in AI mode, and the tanks beyond the two keyboard players in local mode
+    for (const tank of this.simulation.tanks) {
+      const isCPU = (this.mode === 'ai' && tank.id !== 1) || (this.mode === 'local' && tank.id > 2);
+      if (!isCPU) continue;
 
-    // Hazard Zones (if enabled)
-    if (this.settings.hazards) {
-      this.hazards.push(new Hazard(425, 50, 150, 100, 'RADIATION'));
-      this.hazards.push(new Hazard(425, 550, 150, 100, 'RADIATION'));
-    }
-
-    // Destructible Crates (if enabled)
-    if (this.settings.destructibleCrates) {
-      this.crates.push(new Wall(250, 200, 40, 40, true));
-      this.crates.push(new Wall(250, 460, 40, 40, true));
-      this.crates.push(new Wall(710, 200, 40, 40, true));
-      this.crates.push(new Wall(710, 460, 40, 40, true));
-      this.crates.push(new Wall(450, 200, 100, 40, true));
-      this.crates.push(new Wall(450, 460, 100, 40, true));
+      tank.isAIControlled = true;
+      if (!this.tankAIs.has(tank.id)) {
+        this.tankAIs.set(tank.id, new TankAI(this.settings.aiDifficulty));
+      }
     }
   }
 
-  private spawnPowerUp(): void {
-    if (!this.settings.powerUps || this.powerups.length >= Constants.POWERUP_MAX_COUNT) return;
+  /**
+   * Kick the screen shake up to at least this many pixels, scaled by the intensity setting
+   */
+  private shakeScreen(pixels: number): void {
+    if (!this.settings.screenShake) return;
 
-    const powerup = this.entitySystem.spawnPowerUp(this.walls, this.crates, this.hazards);
-    if (powerup) {
-      this.powerups.push(powerup);
-    }
+    this.shakeMagnitude = Math.max(this.shakeMagnitude, pixels * this.settings.screenShakeIntensity / 50);
   }
 
   private createExplosion(x: number, y: number, color: string, count: number): void {
@@ -373,23 +482,46 @@ export class Game {
       onGameState: (state: GameStateSnapshot) => {
         this.applyServerState(state);
       },
-      onRoundOver: (round, winner, scores) => {
+      onGameEvents: (events) => {
+        for (const event of events) {
+          const decoded = decodeGameEvent(event, this.simulation);
+          if (decoded) {
+            this.simulation.events.emit(decoded);
+          }
+        }
+      },
+      onRoundOver: (round, winner, scores, reason) => {
         this.roundWinner = winner;
+        // Plays while the server waits to start the next round
+        this.playKillcamThen(() => {});
         // Force new object reference for React state comparison
-        this.scores = {
-          p1: scores.p1,
-          p2: scores.p2
-        };
-        console.log(`[Game] Round ${round} over, winner: ${winner}, scores: p1=${this.scores.p1}, p2=${this.scores.p2}`);
+        this.simulation.scores = { ...scores };
+        console.log(`[Game] Round ${round} over, winner: ${winner}, scores:`, scores);
+        // The server sends round results on their own, after the scores they produced
+        this.simulation.events.emit({ type: 'round_over', winnerId: winner, reason });
       },
       onRoundStart: (roundNumber) => {
         this.roundWinner = null;
+        if (this.killcam) {
+          this.finishKillcam();
+        }
+        this.lastKill = null;
+        this.killcamRecorder.clear();
+      },
+      onReplay: (replay) => {
+        this.receivedReplay = replay;
+      },
+      onGameOver: (winner, scores, ratings, stats) => {
+        this.simulation.scores = { ...scores };
+        this.ratingChanges = ratings;
+        this.receivedStats = stats.tanks;
+        this.playKillcamThen(() => this.endGame(winner));
       },
     });
   }
 
-  // Store guest input as synthesized keys object for next update
-  private guestInputKeys: { [key: string]: boolean } = {};
+  // Latest guest input, applied to P2 on every host tick
+  private guestInput: TankInput = { movement: { x: 0, y: 0 }, shoot: false };
 
   private setupLANCallbacks(): void {
     if (!this.lanNetworkManager) return;
@@ -397,46 +529,30 @@ export class Game {
     const isHost = this.lanNetworkManager.isHost();
 
     if (isHost) {
-      // Host: Receive input from guest and convert to keys object
+      // Host: Receive input from guest and store it for the next simulation tick
       this.lanNetworkManager.setCallbacks({
         onInput: (guestId: string, input: any) => {
           console.log('[Game/Host] Received guest input:', input);
-          // Convert guest movement input to synthesized keys object
           const guestTank = this.p2;
           if (guestTank && input) {
-            // Create synthesized keys object based on guest tank's controls
-            this.guestInputKeys = {};
-
-            if (input.movement) {
-              // Map movement vector to directional keys
-              // Guest tank (p2) uses arrow keys by default
-              const controls = guestTank.controls;
-
-              // Horizontal movement (use 0.5 threshold to handle joystick input)
-              if (input.movement.x > 0.5) {
-                this.guestInputKeys[controls.right] = true;
-              } else if (input.movement.x < -0.5) {
-                this.guestInputKeys[controls.left] = true;
-              }
-
-              // Vertical movement
-              if (input.movement.y < -0.5) {
-                this.guestInputKeys[controls.up] = true;
-              } else if (input.movement.y > 0.5) {
-                this.guestInputKeys[controls.down] = true;
-              }
+            // Snap movement to 8 directions (use 0.5 threshold to handle joystick input) - twin-stick keeps the analog speed
+            const snap = (v: number) => (v > 0.5 ? 1 : v < -0.5 ? -1 : 0);
+            const analog = !!input.analog;
+
+            this.guestInput = {
+              movement: input.movement
+                ? analog
+                  ? { x: input.movement.x, y: input.movement.y }
+                  : { x: snap(input.movement.x), y: snap(input.movement.y) }
+                : { x: 0, y: 0 },
+              shoot: !!input.shoot,
+              // Charge level travels with the input so the replay captures it
+              chargeLevel: input.shoot && this.settings.charging ? input.chargeLevel : undefined,
+            };
+            if (analog) {
+              this.guestInput.analog = true;
+              this.guestInput.aim = typeof input.aim === 'number' ? input.aim : undefined;
             }
-
-            // Shoot input
-            if (input.shoot) {
-              this.guestInputKeys[guestTank.controls.shoot] = true;
-              // Directly apply charge level for charging system
-              if (this.settings.charging && input.chargeLevel !== undefined) {
-                guestTank.chargeLevel = input.chargeLevel;
-                guestTank.isCharging = input.chargeLevel > 0;
-              }
-            }
-            console.log('[Game/Host] Synthesized guest keys:', this.guestInputKeys);
           }
         }
       });
@@ -446,6 +562,9 @@ export class Game {
         onStateUpdate: (state: any) => {
           console.log('[Game/Guest] Received state from host:', state);
           this.applyLANState(state);
+        },
+        onReplay: (replay: ReplayData) => {
+          this.receivedReplay = replay;
         }
       });
     }
@@ -461,6 +580,7 @@ export class Game {
         this.p1.pos.x = state.tanks[0].position.x;
         this.p1.pos.y = state.tanks[0].position.y;
         this.p1.angle = state.tanks[0].rotation;
+        this.p1.turretAngle = state.tanks[0].turretRotation ?? state.tanks[0].rotation;
         this.p1.health = state.tanks[0].health;
       }
 
@@ -469,15 +589,27 @@ export class Game {
         this.p2.pos.x = state.tanks[1].position.x;
         this.p2.pos.y = state.tanks[1].position.y;
         this.p2.angle = state.tanks[1].rotation;
+        this.p2.turretAngle = state.tanks[1].turretRotation ?? state.tanks[1].rotation;
         this.p2.health = state.tanks[1].health;
       }
+
+      // The host's simulation ends the round when a tank is destroyed - mirror it (LAN is always a duel)
+      const destroyed = [this.p1, this.p2].find((t) => t.health <= 0);
+      if (destroyed && this.state === 'playing') {
+        const winnerId = destroyed.id === 1 ? 2 : 1;
+        this.simulation.scores = {
+          ...this.simulation.scores,
+          [winnerId]: (this.simulation.scores[winnerId] ?? 0) + 1,
+        };
+        this.endGame(winnerId);
+      }
     }
 
     // Apply bullet states
     if (state.bullets) {
       // Simply replace bullets array with received state
       // Host is authoritative for all bullets
-      this.bullets = state.bullets.map((bulletData: any) => {
+      this.simulation.bullets = state.bullets.map((bulletData: any) => {
         const angle = Math.atan2(bulletData.velocity.y, bulletData.velocity.x);
         const bullet = new Bullet(
           bulletData.position.x,
@@ -540,34 +672,16 @@ export class Game {
 
   private applyNonPlayerGameState(state: GameStateSnapshot): void {
     // Debug: Check crates array status at function entry
-    console.log(`[Game] applyNonPlayerGameState START: this.crates.length = ${this.crates.length}, crates = [${this.crates.map(c => c.id).join(', ')}]`);
+    console.log(`[Game] applyNonPlayerGameState START: this.simulation.crates.length = ${this.simulation.crates.length}, crates = [${this.simulation.crates.map(c => c.id).join(', ')}]`);
 
     // Merge delta state with last full state
     const mergedState = this.mergeDeltaState(state, this.lastServerState);
 
-    // VFX: Detect removed bullets from server state to trigger explosions
-    if (state.removedBullets && state.removedBullets.length > 0) {
-      for (const bulletId of state.removedBullets) {
-        const bullet = this.bullets.find(b => b.id === bulletId);
-        if (bullet) {
-          this.createExplosion(bullet.pos.x, bullet.pos.y, bullet.color, 5);
-        }
-      }
-    } else if (this.lastServerState) {
-      // Fallback: compare full states if no removedBullets provided
-      const currentBulletIds = new Set(mergedState.bullets.map(b => b.id));
-      for (const prevBullet of this.lastServerState.bullets) {
-        if (!currentBulletIds.has(prevBullet.id)) {
-          this.createExplosion(prevBullet.x, prevBullet.y, prevBullet.color, 5);
-        }
-      }
-    }
-
     // Apply bullet states - reuse existing instances to preserve trails
     const existingBullets = new Map<string, Bullet>();
     const predictedBullets: Bullet[] = [];
 
-    this.bullets.forEach(b => {
+    this.simulation.bullets.forEach(b => {
       if (b.isPredicted) {
         predictedBullets.push(b);
       } else {
@@ -575,7 +689,7 @@ export class Game {
       }
     });
 
-    this.bullets = mergedState.bullets.map((bulletData) => {
+    this.simulation.bullets = mergedState.bullets.map((bulletData) => {
       let bullet = existingBullets.get(bulletData.id);
 
       if (bullet) {
@@ -636,15 +750,15 @@ export class Game {
     for (const pb of predictedBullets) {
       const age = Date.now() - (parseInt(pb.predictionId?.split('-')[1] || '0'));
       if (age < 500) { // Keep for 500ms
-        this.bullets.push(pb);
+        this.simulation.bullets.push(pb);
       }
     }
 
     // Apply powerup states - reuse existing instances to prevent blinking
     const existingPowerups = new Map<string, PowerUp>();
-    this.powerups.forEach(p => existingPowerups.set(p.id, p));
+    this.simulation.powerups.forEach(p => existingPowerups.set(p.id, p));
 
-    this.powerups = mergedState.powerups
+    this.simulation.powerups = mergedState.powerups
       .filter((p) => p.active)
       .map((powerupData) => {
         let powerup = existingPowerups.get(powerupData.id);
@@ -661,7 +775,7 @@ export class Game {
 
     // Apply wall states (crates can be destroyed) - reuse existing instances to prevent blinking
     const existingCrates = new Map<string, Wall>();
-    this.crates.forEach(c => existingCrates.set(c.id, c));
+    this.simulation.crates.forEach(c => existingCrates.set(c.id, c));
 
     console.log(`[Game] mergedState.walls count: ${mergedState.walls.length}, destructible: ${mergedState.walls.filter(w => w.destructible).length}`);
 
@@ -695,30 +809,29 @@ export class Game {
       console.log(`[Game] Server crate IDs: ${mergedState.walls.filter(w => w.destructible).map(w => w.id).join(', ')}`);
     }
 
-    this.crates = updatedCrates;
+    this.simulation.crates = updatedCrates;
 
     // Debug: Check crates array status at function exit
-    console.log(`[Game] applyNonPlayerGameState END: this.crates.length = ${this.crates.length}, crates = [${this.crates.map(c => c.id).join(', ')}]`);
+    console.log(`[Game] applyNonPlayerGameState END: this.simulation.crates.length = ${this.simulation.crates.length}, crates = [${this.simulation.crates.map(c => c.id).join(', ')}]`);
 
     // Apply scores - create new object to ensure React detects change
     if (mergedState.scores) {
       // Force new object reference for React state comparison
-      this.scores = {
-        p1: mergedState.scores.p1,
-        p2: mergedState.scores.p2
-      };
+      this.simulation.scores = { ...mergedState.scores };
       // Only log when scores actually change
-      if (this.scores.p1 > 0 || this.scores.p2 > 0) {
-        console.log(`[Game] Updated scores from server: p1=${this.scores.p1}, p2=${this.scores.p2}`);
+      if (Object.values(mergedState.scores).some((score) => score > 0)) {
+        console.log('[Game] Updated scores from server:', mergedState.scores);
       }
     }
 
     // Apply sudden death state
-    this.suddenDeathActive = mergedState.suddenDeath;
-    this.suddenDeathInset = mergedState.suddenDeathInset;
+    this.simulation.setSuddenDeathState({
+      active: mergedState.suddenDeath,
+      inset: mergedState.suddenDeathInset,
+    });
 
-    // Update game start time to match server game time (server sends in seconds, convert to ms)
-    this.gameStartTime = Date.now() - (mergedState.gameTime * 1000);
+    // Match game time to the server (server sends in seconds, convert to ms)
+    this.simulation.setGameTime(mergedState.gameTime * 1000);
   }
 
   private mergeDeltaState(
@@ -791,9 +904,9 @@ export class Game {
   }
 
   private reconcileWithServer(serverState: GameStateSnapshot): void {
-    if (!this.assignedTankId || !this.networkManager) return;
+    const localTank = this.getLocalTank();
+    if (!localTank || !this.networkManager) return;
 
-    const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
     const serverTank = serverState.tanks.find((t) => t.id === this.assignedTankId);
 
     if (!serverTank) return;
@@ -821,6 +934,7 @@ export class Game {
       localTank.pos.x = serverTank.x;
       localTank.pos.y = serverTank.y;
       localTank.angle = serverTank.angle;
+      localTank.turretAngle = serverTank.turretAngle;
       localTank.health = serverTank.health;
       localTank.ammo = serverTank.ammo;
       localTank.chargeLevel = serverTank.chargeLevel;
@@ -882,51 +996,25 @@ export class Game {
   }
 
   private replayPredictions(): void {
-    if (!this.assignedTankId || !this.networkManager) return;
+    const localTank = this.getLocalTank();
+    if (!localTank || !this.networkManager) return;
 
-    const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
-    const remoteTank = this.assignedTankId === 1 ? this.p2 : this.p1;
     const pendingInputs = this.networkManager.getPendingInputs();
 
     // Replay each pending input to bring local state up to date
     for (const input of pendingInputs) {
-      const keys = this.convertInputToKeys(input);
-
       // Simulate one update step with this input
-      localTank.update(
-        keys,
-        this.walls,
-        this.crates,
-        this.hazards,
-        remoteTank,
-        this.suddenDeathActive,
-        this.suddenDeathInset,
-        this.settings,
+      this.simulation.updateTank(
+        localTank,
+        { movement: input.movement, shoot: input.shoot, analog: input.analog, aim: input.aim },
         1.0
       );
     }
   }
 
-  private convertInputToKeys(input: any): Record<string, boolean> {
-    if (!this.assignedTankId) return {};
-
-    const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
-    const keys: Record<string, boolean> = {};
-
-    // Convert movement vector to key presses
-    if (input.movement.y < 0) keys[localTank.controls.up] = true;
-    if (input.movement.y > 0) keys[localTank.controls.down] = true;
-    if (input.movement.x < 0) keys[localTank.controls.left] = true;
-    if (input.movement.x > 0) keys[localTank.controls.right] = true;
-    if (input.shoot) keys[localTank.controls.shoot] = true;
-
-    return keys;
-  }
-
   private savePredictedState(sequenceNumber: number): void {
-    if (!this.assignedTankId) return;
-
-    const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
+    const localTank = this.getLocalTank();
+    if (!localTank) return;
 
     const state: PredictedState = {
       timestamp: Date.now(),
@@ -981,12 +1069,19 @@ export class Game {
   }
 
   private updateRemotePlayerInterpolation(serverState: GameStateSnapshot): void {
-    if (!this.assignedTankId) return;
+    // Spectators have no tank of their own, so every tank is interpolated
+    for (const serverTank of serverState.tanks) {
+      if (serverTank.id !== this.assignedTankId) {
+        this.updateRemoteTankInterpolation(serverState, serverTank.id);
+      }
+    }
+  }
 
-    const remoteTankId = this.assignedTankId === 1 ? 2 : 1;
+  private updateRemoteTankInterpolation(serverState: GameStateSnapshot, remoteTankId: number): void {
+    const remoteTank = this.simulation.getTank(remoteTankId);
     const serverRemoteTank = serverState.tanks.find((t) => t.id === remoteTankId);
 
-    if (!serverRemoteTank) return;
+    if (!remoteTank || !serverRemoteTank) return;
 
     // Use adaptive interpolation buffer to smooth out remote player movement
     const renderTime = Date.now() - this.interpolationDelay;
@@ -1017,11 +1112,11 @@ export class Game {
         const t = Math.min(1, Math.max(0, elapsed / totalDuration));
 
         // Interpolate position and angle
-        const remoteTank = remoteTankId === 1 ? this.p1 : this.p2;
         remoteTank.pos.x = this.lerp(fromTank.x, toTank.x, t);
         remoteTank.pos.y = this.lerp(fromTank.y, toTank.y, t);
         // Don't interpolate angle - snap it to prevent visual desync with bullets
         remoteTank.angle = toTank.angle;
+        remoteTank.turretAngle = toTank.turretAngle;
         remoteTank.health = toTank.health;
         remoteTank.ammo = toTank.ammo;
         remoteTank.chargeLevel = toTank.chargeLevel;
@@ -1039,8 +1134,10 @@ export class Game {
         // Update velocity for dead reckoning
         const deltaTime = toState.receivedTime - fromState.receivedTime;
         if (deltaTime > 0) {
-          this.remotePlayerVelocity.x = (toTank.x - fromTank.x) / deltaTime * 1000; // pixels/sec
-          this.remotePlayerVelocity.y = (toTank.y - fromTank.y) / deltaTime * 1000;
+          this.remoteTankVelocities.set(remoteTankId, {
+            x: (toTank.x - fromTank.x) / deltaTime * 1000, // pixels/sec
+            y: (toTank.y - fromTank.y) / deltaTime * 1000,
+          });
         }
 
         return;
@@ -1049,7 +1146,6 @@ export class Game {
 
     // Fallback: No interpolation buffer available
     // Use dead reckoning if packet loss detected
-    const remoteTank = remoteTankId === 1 ? this.p1 : this.p2;
     const timeSinceLastUpdate = Date.now() - this.lastStateReceivedTime;
 
     if (timeSinceLastUpdate < this.MAX_EXTRAPOLATION_TIME && this.lastServerState) {
@@ -1057,8 +1153,9 @@ export class Game {
       const lastRemoteTank = this.lastServerState.tanks.find((t) => t.id === remoteTankId);
       if (lastRemoteTank) {
         const dt = timeSinceLastUpdate / 1000; // Convert to seconds
-        let extrapolatedX = lastRemoteTank.x + this.remotePlayerVelocity.x * dt;
-        let extrapolatedY = lastRemoteTank.y + this.remotePlayerVelocity.y * dt;
+        const velocity = this.remoteTankVelocities.get(remoteTankId) ?? { x: 0, y: 0 };
+        let extrapolatedX = lastRemoteTank.x + velocity.x * dt;
+        let extrapolatedY = lastRemoteTank.y + velocity.y * dt;
 
         // Clamp to map bounds
         extrapolatedX = Math.max(20, Math.min(Constants.GAME_WIDTH - 20, extrapolatedX));
@@ -1075,6 +1172,7 @@ export class Game {
     remoteTank.pos.x = serverRemoteTank.x;
     remoteTank.pos.y = serverRemoteTank.y;
     remoteTank.angle = serverRemoteTank.angle;
+    remoteTank.turretAngle = serverRemoteTank.turretAngle;
     remoteTank.health = serverRemoteTank.health;
     remoteTank.ammo = serverRemoteTank.ammo;
     remoteTank.chargeLevel = serverRemoteTank.chargeLevel;
@@ -1090,8 +1188,7 @@ export class Game {
     remoteTank.dead = serverRemoteTank.dead;
 
     // Reset velocity if directly snapping to server state
-    this.remotePlayerVelocity.x = 0;
-    this.remotePlayerVelocity.y = 0;
+    this.remoteTankVelocities.delete(remoteTankId);
   }
 
   // Linear interpolation helper
@@ -1110,46 +1207,44 @@ export class Game {
   private update(deltaMultiplier: number = 1.0): void {
     if (this.state !== 'playing') return;
 
+    this.inputManager.pollGamepads();
+    if (this.pauseToggled()) {
+      this.pause();
+      this.pausePollId = requestAnimationFrame(this.pollWhilePaused);
+      return;
+    }
     const keys = this.inputManager.getKeyboardState();
 
+    // The round is over - play out the killcam before anything else moves
+    if (this.killcam) {
+      this.updateKillcam(keys);
+      return;
+    }
+
+    // Replay mode - playback drives the simulation, the keyboard drives the camera
+    if (this.mode === 'replay' && this.replayPlayer) {
+      this.updateReplay(keys);
+      return;
+    }
+
     // Handle online mode with client-side prediction
-    if (this.mode === 'online' && this.networkManager && this.assignedTankId) {
-      // Calculate movement vector from keyboard state
-      const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
-      const remoteTank = this.assignedTankId === 1 ? this.p2 : this.p1;
-      const controls = localTank.controls;
-
-      const movement = {
-        x: (keys[controls.right] ? 1 : 0) - (keys[controls.left] ? 1 : 0),
-        y: (keys[controls.down] ? 1 : 0) - (keys[controls.up] ? 1 : 0),
-      };
-
-      const shoot = keys[controls.shoot] || false;
+    const localTank = this.getLocalTank();
+    if (this.mode === 'online' && this.networkManager && localTank) {
+      // The round is over until the server starts the next one - it has no use for input meanwhile
+      if (this.roundWinner !== null) {
+        this.updateBulletVisuals();
+        this.updateParticles();
+        return;
+      }
+
+      const input = this.readInput(localTank);
       const chargeLevel = localTank.chargeLevel || 0;
 
       // Send input to server
-      this.networkManager.sendInput(movement, shoot, chargeLevel);
+      this.networkManager.sendInput(input.movement, input.shoot, chargeLevel, input.analog, input.aim);
 
       // CLIENT-SIDE PREDICTION: Apply local input immediately for instant feedback
-      const localKeys: Record<string, boolean> = {};
-      if (movement.y < 0) localKeys[controls.up] = true;
-      if (movement.y > 0) localKeys[controls.down] = true;
-      if (movement.x < 0) localKeys[controls.left] = true;
-      if (movement.x > 0) localKeys[controls.right] = true;
-      if (shoot) localKeys[controls.shoot] = true;
-
-      // Update local player immediately (prediction)
-      const newBullets = localTank.update(
-        localKeys,
-        this.walls,
-        this.crates,
-        this.hazards,
-        remoteTank,
-        this.suddenDeathActive,
-        this.suddenDeathInset,
-        this.settings,
-        deltaMultiplier
-      );
+      const newBullets = this.simulation.updateTank(localTank, input, deltaMultiplier);
 
       // Mark new bullets as predicted for reconciliation
       for (const bullet of newBullets) {
@@ -1157,7 +1252,7 @@ export class Game {
         bullet.predictionId = `pred-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       }
 
-      this.bullets.push(...newBullets);
+      this.simulation.bullets.push(...newBullets);
 
       // Save predicted state for later reconciliation
       const pendingInputs = this.networkManager.getPendingInputs();
@@ -1167,275 +1262,375 @@ export class Game {
       }
 
       // Update particles and bullets locally for smooth visuals
-      for (let i = this.bullets.length - 1; i >= 0; i--) {
-        const b = this.bullets[i];
-        b.update(this.walls, this.crates);
-
-        if (!b.active) {
-          this.createExplosion(b.pos.x, b.pos.y, b.color, 5);
-          this.bullets.splice(i, 1);
-        }
-      }
-
-      for (let i = this.particles.length - 1; i >= 0; i--) {
-        this.particles[i].update();
-        if (this.particles[i].isDead()) {
-          this.particles.splice(i, 1);
-        }
-      }
+      this.updateBulletVisuals();
+      this.updateParticles();
 
       // Server will update remote player and game state via callbacks
       return;
     }
 
+    // Spectating - delayed server snapshots drive every tank, only the visuals run locally
+    if (this.mode === 'online' && this.networkManager?.isSpectator()) {
+      this.updateBulletVisuals();
+      this.updateParticles();
+      return;
+    }
+
     // Handle LAN mode
-    if (this.mode === 'lan' && this.lanNetworkManager && this.assignedTankId) {
+    if (this.mode === 'lan' && this.lanNetworkManager && localTank) {
       const isHost = this.lanNetworkManager.isHost();
-      const localTank = this.assignedTankId === 1 ? this.p1 : this.p2;
-      const controls = localTank.controls;
 
       if (isHost) {
-        // HOST: Run full game logic locally and broadcast state
-        const p1Bullets = this.p1.update(
-          keys,
-          this.walls,
-          this.crates,
-          this.hazards,
-          this.p2,
-          this.suddenDeathActive,
-          this.suddenDeathInset,
-          this.settings,
-          deltaMultiplier
-        );
-
-        const p2Bullets = this.p2.update(
-          this.guestInputKeys, // P2 input comes from guest via callbacks
-          this.walls,
-          this.crates,
-          this.hazards,
-          this.p1,
-          this.suddenDeathActive,
-          this.suddenDeathInset,
-          this.settings,
-          deltaMultiplier
-        );
-
-        this.bullets.push(...p1Bullets, ...p2Bullets);
-
-        // Update bullets
-        for (let i = this.bullets.length - 1; i >= 0; i--) {
-          const b = this.bullets[i];
-          b.update(this.walls, this.crates);
-
-          if (!b.active) {
-            this.createExplosion(b.pos.x, b.pos.y, b.color, 5);
-            this.bullets.splice(i, 1);
-          }
-        }
+        // HOST: Run the full simulation locally and broadcast state
+        const frame: InputFrame = new Map([
+          [this.p1.id, this.readInput(this.p1)],
+          [this.p2.id, this.guestInput], // P2 input comes from guest via callbacks
+        ]);
+        this.stepSimulation(frame);
 
         // Broadcast game state to guest
-        this.lanNetworkManager.broadcastGameState([this.p1, this.p2], this.bullets);
-
-        // Update particles and other entities
-        for (let i = this.particles.length - 1; i >= 0; i--) {
-          this.particles[i].update();
-          if (this.particles[i].isDead()) {
-            this.particles.splice(i, 1);
-          }
-        }
-
-        // Update powerups
-        for (let i = this.powerups.length - 1; i >= 0; i--) {
-          this.powerups[i].update();
-        }
+        this.lanNetworkManager.broadcastGameState([this.p1, this.p2], this.simulation.bullets);
       } else {
         // GUEST: Send input to host, receive state via callbacks
-        const movement = {
-          x: (keys[controls.right] ? 1 : 0) - (keys[controls.left] ? 1 : 0),
-          y: (keys[controls.down] ? 1 : 0) - (keys[controls.up] ? 1 : 0),
-        };
-
-        const shoot = keys[controls.shoot] || false;
+        const input = this.readInput(localTank);
         const chargeLevel = localTank.chargeLevel || 0;
 
         // Send input to host
-        this.lanNetworkManager.sendInput(movement, shoot, chargeLevel);
+        this.lanNetworkManager.sendInput(input.movement, input.shoot, chargeLevel, input.analog, input.aim);
 
         // Guest only renders - state updates come from host via applyLANState()
         // Update particles locally for smooth visuals
-        for (let i = this.particles.length - 1; i >= 0; i--) {
-          this.particles[i].update();
-          if (this.particles[i].isDead()) {
-            this.particles.splice(i, 1);
-          }
-        }
+        this.updateParticles();
       }
 
       return;
     }
 
     // Local/AI mode - process locally
-    let p1Keys = keys;
-    let p2Keys = keys;
+    const frame: InputFrame = new Map();
+    const suddenDeath = this.simulation.getSuddenDeathState();
 
-    if (this.mode === 'online' && this.settings.localPlayerControls) {
-      // Filter controls - only allow the chosen control scheme
-      const emptyKeys: Record<string, boolean> = {};
-
-      if (this.settings.localPlayerControls === 'wasd') {
-        // Local player uses WASD (P1 controls), disable P2 arrow controls
-        p2Keys = emptyKeys;
-      } else {
-        // Local player uses Arrows (P2 controls), disable P1 WASD controls
-        p1Keys = emptyKeys;
+    for (const tank of this.simulation.tanks) {
+      const ai = this.tankAIs.get(tank.id);
+      if (!ai) {
+        frame.set(tank.id, this.readInput(tank));
+        continue;
       }
-    }
 
-    // Update tanks with game speed multiplier
-    const p1Bullets = this.p1.update(
-      p1Keys,
-      this.walls,
-      this.crates,
-      this.hazards,
-      this.p2,
-      this.suddenDeathActive,
-      this.suddenDeathInset,
-      this.settings,
-      deltaMultiplier
-    );
-    this.bullets.push(...p1Bullets);
-
-    // Get P2 input (AI or keyboard)
-    if (this.mode === 'ai' && this.tankAI) {
-      const aiInput = this.tankAI.update(
-        this.p2,
-        this.p1,
-        this.bullets,
-        this.walls,
-        this.crates,
-        this.powerups,
-        this.hazards,
-        this.suddenDeathActive,
-        this.suddenDeathInset
+      // CPU tanks hunt the nearest enemy and idle once every enemy is down
+      const target = this.findNearestEnemy(tank);
+      if (!target || tank.dead) continue;
+
+      const aiInput = ai.update(
+        tank,
+        target,
+        this.simulation.bullets,
+        this.simulation.walls,
+        this.simulation.crates,
+        this.simulation.powerups,
+        this.simulation.hazards,
+        suddenDeath.active,
+        suddenDeath.inset
       );
+      frame.set(tank.id, ai.toTankInput(aiInput));
+    }
 
-      // Apply AI aiming angle before tank update
-      if (aiInput.targetAngle !== undefined) {
-        this.p2.angle = aiInput.targetAngle;
+    this.stepSimulation(frame);
+  }
+
+  /**
+   * Closest living tank on another team
+   */
+  private findNearestEnemy(tank: Tank): Tank | undefined {
+    let nearest: Tank | undefined;
+    let nearestDistance = Infinity;
+
+    for (const other of this.simulation.tanks) {
+      if (other.dead || other.team === tank.team) continue;
+
+      const distance = other.pos.sub(tank.pos).mag();
+      if (distance < nearestDistance) {
+        nearest = other;
+        nearestDistance = distance;
       }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Advance the shared simulation one tick - effects follow from its events
+   */
+  private stepSimulation(frame: InputFrame): void {
+    const result = this.simulation.step(frame);
+    this.recorder?.recordTick(frame, result);
+    this.updateParticles();
+
+    if (result.roundWinner !== null) {
+      const winner = result.roundWinner;
+      // The killcam ends on this frame - the game loop stops capturing once it starts
+      this.killcamRecorder.capture(this.simulation);
+      this.playKillcamThen(() => this.endGame(winner));
+    }
+  }
+
+  /**
+   * Replay the kill that ended the round in slow motion, then carry on
+   */
+  private playKillcamThen(next: () => void): void {
+    // Already playing - online, the game over follows the final round's result
+    if (this.killcam) {
+      this.afterKillcam = next;
+      return;
+    }
+
+    const frames = this.killcamRecorder.getFrames();
+    if (!this.settings.killcam || !this.lastKill || frames.length === 0) {
+      next();
+      return;
+    }
 
-      p2Keys = {
-        ...keys,
-        ...this.tankAI.getVirtualKeyState(aiInput, this.p2.controls),
-      };
-    }
-
-    const p2Bullets = this.p2.update(
-      p2Keys,
-      this.walls,
-      this.crates,
-      this.hazards,
-      this.p1,
-      this.suddenDeathActive,
-      this.suddenDeathInset,
-      this.settings,
-      deltaMultiplier
+    this.killcam = new KillcamPlayback(frames, this.lastKill, this.simulation);
+    this.killcamCamera.reset();
+    this.afterKillcam = next;
+    this.killcamSkippableAt = performance.now() + this.KILLCAM_SKIP_DELAY_MS;
+  }
+
+  private finishKillcam(): void {
+    const next = this.afterKillcam;
+    this.killcam = null;
+    this.afterKillcam = null;
+    this.lastKill = null;
+    next?.();
+  }
+
+  private updateKillcam(keys: Record<string, boolean>): void {
+    if (keys.Escape || this.isShootHeldByAnyPlayer()) {
+      this.skipKillcam();
+    }
+
+    if (this.killcam?.update()) {
+      this.killcam.updateCamera(this.killcamCamera);
+    } else if (this.killcam) {
+      this.finishKillcam();
+    }
+    this.updateParticles();
+  }
+
+  private drawKillcam(killcam: KillcamPlayback): void {
+    const { tanks, bullets } = killcam.getEntities();
+    const suddenDeath = this.simulation.getSuddenDeathState();
+
+    this.ctx.save();
+    this.killcamCamera.apply(this.ctx);
+    this.renderSystem.render(
+      this.ctx,
+      {
+        tanks,
+        bullets,
+        powerups: this.simulation.powerups,
+        walls: this.simulation.walls,
+        crates: this.simulation.crates,
+        hazards: this.simulation.hazards,
+        particles: [],
+      },
+      { active: suddenDeath.active, inset: suddenDeath.inset },
+      null,
+      this.simulation.scores,
+      this.simulation.settings.matchMode,
+      this.weatherSystem
     );
-    this.bullets.push(...p2Bullets);
-
-    // Timer & Sudden Death - delegate to GameRulesSystem
-    const suddenDeathState = this.gameRulesSystem.updateSuddenDeath(this.settings, deltaMultiplier);
-    this.suddenDeathActive = suddenDeathState.active;
-    this.suddenDeathInset = suddenDeathState.inset;
-
-    // Check time limit win condition (local/AI mode only - server handles online mode)
-    if (this.mode !== 'online') {
-      const timeLimitWinner = this.gameRulesSystem.checkTimeLimit(
-        this.settings,
-        this.scores,
-        this.p1.health,
-        this.p2.health
-      );
+    this.ctx.restore();
 
-      if (timeLimitWinner !== null) {
-        this.endGame(timeLimitWinner);
-      }
+    this.renderSystem.drawKillcamOverlay(this.ctx, performance.now() >= this.killcamSkippableAt);
+  }
+
+  /**
+   * Whether a pause binding was just pressed - only local games can be paused this way,
+   * networked ones keep running for the other players
+   */
+  private pauseToggled(): boolean {
+    if (this.mode !== 'local' && this.mode !== 'ai') return false;
+
+    const pressed = this.inputManager.isPausePressed();
+    const toggled = pressed && !this.pauseHeld;
+    this.pauseHeld = pressed;
+    return toggled;
+  }
+
+  private pollWhilePaused = (): void => {
+    this.pausePollId = null;
+    if (this.state !== 'paused') return;
+
+    this.inputManager.pollGamepads();
+    if (this.pauseToggled()) {
+      this.resume();
+      return;
     }
+    this.pausePollId = requestAnimationFrame(this.pollWhilePaused);
+  };
+
+  private handleKillcamPointer = (): void => {
+    this.skipKillcam();
+  };
+
+  /**
+   * Advance replay playback and move the free camera
+   */
+  private updateReplay(keys: Record<string, boolean>): void {
+    if (!this.replayPlayer) return;
 
-    // PowerUp Spawner - use settings.powerupSpawnRate (in seconds)
-    const powerupSpawnInterval = this.settings.powerupSpawnRate * 1000;
-    if (Date.now() - this.lastPowerUpTime > powerupSpawnInterval) {
-      this.spawnPowerUp();
-      this.lastPowerUpTime = Date.now();
+    this.replayPlayer.update();
+
+    if (!this.replayPlayer.isPaused()) {
+      this.updateParticles();
     }
 
-    // Update power-ups
-    for (const p of this.powerups) {
-      p.update();
+    // Either player's movement controls pan, Q / E zoom around the view centre
+    const pan = [1, 2].reduce(
+      (sum, player) => sum.add(this.inputManager.getMovementVector(player, this.getBoundControls(player))),
+      Vector.zero()
+    );
+    const panX = Math.max(-1, Math.min(1, pan.x));
+    const panY = Math.max(-1, Math.min(1, pan.y));
+    if (panX !== 0 || panY !== 0) {
+      this.replayCamera.pan(panX * this.CAMERA_PAN_SPEED, panY * this.CAMERA_PAN_SPEED);
     }
 
-    // PowerUp Collection
-    for (let i = this.powerups.length - 1; i >= 0; i--) {
-      const p = this.powerups[i];
+    const zoom = (keys.KeyE ? 1 : 0) - (keys.KeyQ ? 1 : 0);
+    if (zoom !== 0) {
+      this.replayCamera.zoomAt(
+        Math.pow(this.CAMERA_ZOOM_STEP, zoom),
+        Constants.GAME_WIDTH / 2,
+        Constants.GAME_HEIGHT / 2
+      );
+    }
 
-      // Check P1 collision
-      if (p.isCollidingWith(this.p1.pos, 25)) {
-        this.p1.applyPowerUp(p.type);
-        this.powerups.splice(i, 1);
-        continue;
-      }
+    this.replayCamera.update(this.simulation.tanks);
+  }
 
-      // Check P2 collision
-      if (p.isCollidingWith(this.p2.pos, 25)) {
-        this.p2.applyPowerUp(p.type);
-        this.powerups.splice(i, 1);
-      }
+  private setupReplayCameraControls(): void {
+    this.canvas.addEventListener('wheel', this.handleReplayWheel, { passive: false });
+    this.canvas.addEventListener('mousedown', this.handleReplayMouseDown);
+    window.addEventListener('mousemove', this.handleReplayMouseMove);
+    window.addEventListener('mouseup', this.handleReplayMouseUp);
+  }
+
+  private removeReplayCameraControls(): void {
+    this.canvas.removeEventListener('wheel', this.handleReplayWheel);
+    this.canvas.removeEventListener('mousedown', this.handleReplayMouseDown);
+    window.removeEventListener('mousemove', this.handleReplayMouseMove);
+    window.removeEventListener('mouseup', this.handleReplayMouseUp);
+  }
+
+  // Twin-stick on desktop - the first player's turret follows the mouse and the left button fires
+  private setupMouseAim(): void {
+    this.canvas.addEventListener('mousemove', this.handleAimMouseMove);
+    this.canvas.addEventListener('mousedown', this.handleAimMouseDown);
+    window.addEventListener('mouseup', this.handleAimMouseUp);
+  }
+
+  private removeMouseAim(): void {
+    this.canvas.removeEventListener('mousemove', this.handleAimMouseMove);
+    this.canvas.removeEventListener('mousedown', this.handleAimMouseDown);
+    window.removeEventListener('mouseup', this.handleAimMouseUp);
+  }
+
+  private handleAimMouseMove = (e: MouseEvent): void => {
+    this.inputManager.setAimPoint(1, this.toCanvasPoint(e));
+  };
+
+  private handleAimMouseDown = (e: MouseEvent): void => {
+    if (e.button !== 0) return;
+    this.inputManager.setAimPoint(1, this.toCanvasPoint(e));
+    this.inputManager.setMouseShoot(true);
+  };
+
+  private handleAimMouseUp = (e: MouseEvent): void => {
+    if (e.button === 0) this.inputManager.setMouseShoot(false);
+  };
+
+  // Convert a mouse position to canvas pixels (the canvas is CSS-scaled)
+  private toCanvasPoint(e: MouseEvent): { x: number; y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (this.canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (this.canvas.height / rect.height),
+    };
+  }
+
+  private handleReplayWheel = (e: WheelEvent): void => {
+    e.preventDefault();
+    const point = this.toCanvasPoint(e);
+    this.replayCamera.zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, point.x, point.y);
+  };
+
+  private handleReplayMouseDown = (e: MouseEvent): void => {
+    this.cameraDragPoint = this.toCanvasPoint(e);
+  };
+
+  private handleReplayMouseMove = (e: MouseEvent): void => {
+    if (!this.cameraDragPoint) return;
+
+    const point = this.toCanvasPoint(e);
+    // Dragging moves the world with the cursor
+    this.replayCamera.pan(this.cameraDragPoint.x - point.x, this.cameraDragPoint.y - point.y);
+    this.cameraDragPoint = point;
+  };
+
+  private handleReplayMouseUp = (): void => {
+    this.cameraDragPoint = null;
+  };
+
+  /**
+   * Read a tank's movement and shoot state from its keys, touch controls or gamepad
+   * (plus the turret aim under twin-stick control)
+   */
+  private readInput(tank: Tank): TankInput {
+    const player = this.getInputPlayer(tank);
+    const movement = this.inputManager.getMovementVector(player, tank.controls);
+    const input: TankInput = {
+      movement: { x: movement.x, y: movement.y },
+      shoot: this.inputManager.isShootPressed(player, tank.controls.shoot),
+    };
+    if (this.settings.controlModel === 'analog') {
+      input.analog = true;
+      input.aim = this.inputManager.getAimAngle(player, tank.pos);
     }
+    return input;
+  }
 
-    // Update bullets
-    for (let i = this.bullets.length - 1; i >= 0; i--) {
-      const b = this.bullets[i];
-      b.update(this.walls, this.crates);
+  // A local player's bound controls, whichever tank they are driving
+  private getBoundControls(player: number): TankControls {
+    const { player1, player2 } = this.settings.controlBindings;
+    return bindingsToControls(player === 2 ? player2 : player1);
+  }
 
-      if (!b.active) {
-        this.createExplosion(b.pos.x, b.pos.y, b.color, 5);
-        this.bullets.splice(i, 1);
-        continue;
-      }
+  private isShootHeldByAnyPlayer(): boolean {
+    return [1, 2].some((player) => this.inputManager.isShootPressed(player, this.getBoundControls(player).shoot));
+  }
 
-      // Hit detection
-      const tanks = [this.p1, this.p2];
-      for (const tank of tanks) {
-        if (tank.dead) continue;
-
-        // Skip self-hit if friendly fire is off
-        if (!this.settings.friendlyFire && b.ownerId === tank.id) continue;
-
-        // Collision check
-        if (
-          b.pos.x > tank.pos.x - 18 &&
-          b.pos.x < tank.pos.x + 18 &&
-          b.pos.y > tank.pos.y - 18 &&
-          b.pos.y < tank.pos.y + 18
-        ) {
-          const damage = tank.hit();
-          b.active = false;
-          this.createExplosion(b.pos.x, b.pos.y, b.color, 8);
-
-          if (tank.dead) {
-            this.createExplosion(tank.pos.x, tank.pos.y, tank.color, 50);
-            this.endGame(tank.id === 1 ? 2 : 1);
-          }
-          break;
-        }
-      }
+  // Couch play gives the second tank the second touch/gamepad slot - networked games have one local player
+  private getInputPlayer(tank: Tank): number {
+    return this.mode === 'local' && tank === this.p2 ? 2 : 1;
+  }
+
+  /**
+   * Move bullets between server snapshots (online clients only)
+   */
+  private updateBulletVisuals(): void {
+    for (let i = this.simulation.bullets.length - 1; i >= 0; i--) {
+      const b = this.simulation.bullets[i];
+      b.update(this.simulation.walls, this.simulation.crates);
 
+      // The server's bullet_expired event brings the explosion
       if (!b.active) {
-        this.bullets.splice(i, 1);
+        this.simulation.bullets.splice(i, 1);
       }
     }
+  }
 
-    // Update particles
+  private updateParticles(): void {
     for (let i = this.particles.length - 1; i >= 0; i--) {
       this.particles[i].update();
       if (this.particles[i].isDead()) {
@@ -1445,36 +1640,87 @@ export class Game {
   }
 
   private draw(): void {
+    if (this.killcam) {
+      this.drawKillcam(this.killcam);
+    } else {
+      this.drawArena();
+    }
+
+    if (this.state === 'paused') {
+      this.renderSystem.drawPausedOverlay(this.ctx);
+    }
+  }
+
+  private drawArena(): void {
+    const suddenDeath = this.simulation.getSuddenDeathState();
+    // Playback shows the recorded round result; live modes track it in roundWinner
+    const roundWinner = this.replayPlayer ? this.simulation.roundWinner : this.roundWinner;
+
+    const shaking = this.shakeMagnitude > 0.5;
+    if (shaking) {
+      this.ctx.save();
+      this.ctx.translate(
+        (Math.random() * 2 - 1) * this.shakeMagnitude,
+        (Math.random() * 2 - 1) * this.shakeMagnitude
+      );
+    }
+    this.shakeMagnitude = shaking ? this.shakeMagnitude * this.SHAKE_DECAY : 0;
+
+    if (this.replayPlayer) {
+      this.ctx.save();
+      this.replayCamera.apply(this.ctx);
+    }
+
     // Delegate to RenderSystem
     this.renderSystem.render(
       this.ctx,
       {
-        tanks: [this.p1, this.p2],
-        bullets: this.bullets,
-        powerups: this.powerups,
-        walls: this.walls,
-        crates: this.crates,
-        hazards: this.hazards,
+        tanks: this.simulation.tanks,
+        bullets: this.simulation.bullets,
+        powerups: this.simulation.powerups,
+        walls: this.simulation.walls,
+        crates: this.simulation.crates,
+        hazards: this.simulation.hazards,
         particles: this.particles
       },
       {
-        active: this.suddenDeathActive,
-        inset: this.suddenDeathInset
+        active: suddenDeath.active,
+        inset: suddenDeath.inset
       },
-      this.roundWinner,
-      this.scores
+      roundWinner,
+      this.simulation.scores,
+      this.simulation.settings.matchMode,
+      this.weatherSystem
     );
+
+    if (this.replayPlayer) {
+      this.ctx.restore();
+    }
+    if (shaking) {
+      this.ctx.restore();
+    }
   }
 
   private gameLoop = (currentTime: number): void => {
     // Calculate delta time (capped at 50ms to avoid huge jumps)
-    const rawDelta = this.lastFrameTime ? Math.min(currentTime - this.lastFrameTime, 50) : 16.67;
+    const rawDelta = this.lastFrameTime ? Math.min(currentTime - this.lastFrameTime, 50) : Simulation.TICK_MS;
     this.lastFrameTime = currentTime;
 
     // Apply game speed multiplier (0.5-2.0 range)
     const deltaMultiplier = this.settings.gameSpeed;
 
-    this.update(deltaMultiplier);
+    // The simulation steps at a fixed rate - a 144Hz display draws more often, it doesn't play faster
+    this.stepAccumulator += rawDelta;
+    while (this.stepAccumulator >= Simulation.TICK_MS && this.state === 'playing') {
+      this.stepAccumulator -= Simulation.TICK_MS;
+
+      this.update(deltaMultiplier);
+      // Killcam frames come from live play only
+      if (this.state === 'playing' && !this.killcam && !this.replayPlayer) {
+        this.killcamRecorder.capture(this.simulation);
+      }
+      this.weatherSystem.update(deltaMultiplier);
+    }
     this.draw();
 
     if (this.state === 'playing') {
@@ -1484,12 +1730,23 @@ export class Game {
 
   public start(): void {
     this.state = 'playing';
-    this.lastPowerUpTime = Date.now();
+    this.resetFrameClock();
+    this.audio.startMusic();
     this.animationFrameId = requestAnimationFrame(this.gameLoop);
   }
 
+  /**
+   * Start frame timing afresh so time spent stopped isn't stepped through. Half a step is
+   * banked so frames at the simulation's own rate don't jitter between zero and two steps.
+   */
+  private resetFrameClock(): void {
+    this.lastFrameTime = 0;
+    this.stepAccumulator = Simulation.TICK_MS / 2;
+  }
+
   public pause(): void {
     this.state = 'paused';
+    this.audio.stopMusic();
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
@@ -1498,34 +1755,45 @@ export class Game {
   public resume(): void {
     if (this.state === 'paused') {
       this.state = 'playing';
+      this.resetFrameClock();
+      this.audio.startMusic();
       this.animationFrameId = requestAnimationFrame(this.gameLoop);
     }
   }
 
   public reset(): void {
-    this.bullets = [];
     this.particles = [];
-    this.powerups = [];
-    this.createMap();
-
-    this.p1 = new Tank(1, 100, 350, Constants.PLAYER1_COLOR, this.p1.controls);
-    this.p2 = new Tank(2, 900, 350, Constants.PLAYER2_COLOR, this.p2.controls);
-
-    this.gameStartTime = Date.now();
-    this.suddenDeathActive = false;
-    this.suddenDeathInset = 0;
+    this.shakeMagnitude = 0;
+    this.lastWinner = null;
+
+    if (this.replayPlayer) {
+      // Seeking re-simulates from the start, so drop the effects it set off
+      this.audio.silence(() => this.replayPlayer?.seek(0));
+      this.particles = [];
+      this.shakeMagnitude = 0;
+      this.start();
+      return;
+    }
 
-    // Reset game rules system
-    this.gameRulesSystem.reset(this.gameStartTime);
+    this.simulation.resetRound();
+    this.clearMapForOnline();
+    this.applyTankRoles();
 
     this.start();
   }
 
   private endGame(winnerId: number): void {
     this.state = 'gameover';
-
-    if (winnerId === 1) this.scores.p1++;
-    else this.scores.p2++;
+    this.lastWinner = winnerId;
+    this.audio.stopMusic();
+
+    // Share the recording so the guest can watch it too
+    if (this.mode === 'lan' && this.lanNetworkManager?.isHost()) {
+      const replay = this.getReplay();
+      if (replay) {
+        this.lanNetworkManager.sendReplay(replay);
+      }
+    }
 
     // Trigger game over callback (will be handled by React component)
     if (this.animationFrameId) {
@@ -1533,8 +1801,15 @@ export class Game {
     }
   }
 
+  /**
+   * Gameplay events as they happen, in every mode (online ones come from the server)
+   */
+  public getEvents(): GameEvents {
+    return this.simulation.events;
+  }
+
   public getScores() {
-    return this.scores;
+    return this.simulation.scores;
   }
 
   public getP1Health(): number {
@@ -1545,19 +1820,129 @@ export class Game {
     return this.p2.health;
   }
 
+  /**
+   * Every tank in the match, for HUDs that show more than two players
+   */
+  public getTankStatuses(): TankStatus[] {
+    return this.simulation.tanks.map((tank) => ({
+      id: tank.id,
+      team: tank.team,
+      color: tank.color,
+      health: tank.health,
+      maxHealth: tank.maxHealth,
+      dead: tank.health <= 0,
+    }));
+  }
+
+  public getMinimapState(): MinimapState {
+    const suddenDeath = this.simulation.getSuddenDeathState();
+    return {
+      walls: this.simulation.walls,
+      crates: this.simulation.crates,
+      hazards: this.simulation.hazards,
+      powerups: this.simulation.powerups,
+      tanks: this.simulation.tanks,
+      suddenDeathInset: suddenDeath.active ? suddenDeath.inset : null,
+      matchMode: this.simulation.settings.matchMode,
+    };
+  }
+
+  public getMatchMode(): MatchMode {
+    return this.simulation.settings.matchMode;
+  }
+
+  /**
+   * Team that won the last round, or null while a round is in progress
+   */
+  public getRoundWinner(): number | null {
+    return this.lastWinner ?? this.roundWinner;
+  }
+
   public getGameTime(): number {
-    return this.gameRulesSystem.getGameTime();
+    return this.simulation.getGameTime();
   }
 
   public isSuddenDeath(): boolean {
-    return this.gameRulesSystem.getSuddenDeathState().active;
+    return this.simulation.getSuddenDeathState().active;
   }
 
   public destroy(): void {
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
+    if (this.pausePollId !== null) {
+      cancelAnimationFrame(this.pausePollId);
+    }
     this.inputManager.destroy();
+    this.canvas.removeEventListener('pointerdown', this.handleKillcamPointer);
+    this.removeMouseAim();
+    if (this.replayPlayer) {
+      this.removeReplayCameraControls();
+    }
+    this.audio.stopMusic();
+    this.detachAudio?.();
+  }
+
+  /**
+   * Replay of this match: recorded locally, received from the host/server, or being played back
+   * Returns null until there is something to watch
+   */
+  public getReplay(): ReplayData | null {
+    if (this.replayPlayer) {
+      return this.replayPlayer.getReplay();
+    }
+    if (this.recorder?.hasTicks()) {
+      return this.recorder.getReplay();
+    }
+    return this.receivedReplay;
+  }
+
+  /**
+   * Skill rating changes from an online match, empty until the server announces the result
+   */
+  public getRatingChanges(): RatingChange[] {
+    return this.ratingChanges;
+  }
+
+  /**
+   * Combat stats for each tank: tallied locally, or from the server at the end of an online match
+   */
+  public getMatchStats(): TankCombatStats[] {
+    return this.statsCollector?.getStats() ?? this.receivedStats;
+  }
+
+  /**
+   * Cut the killcam short (ignored for a moment after it starts)
+   */
+  public skipKillcam(): void {
+    if (this.killcam && performance.now() >= this.killcamSkippableAt) {
+      this.finishKillcam();
+    }
+  }
+
+  public isKillcamPlaying(): boolean {
+    return this.killcam !== null;
+  }
+
+  // Replay playback access (replay mode only)
+  public getReplayPlayer(): ReplayPlayer | null {
+    return this.replayPlayer;
+  }
+
+  public getReplayCamera(): ReplayCamera {
+    return this.replayCamera;
+  }
+
+  /**
+   * Jump to a tick on the replay timeline
+   */
+  public seekReplay(tick: number): void {
+    if (!this.replayPlayer) return;
+
+    // Seeking re-simulates up to the tick, so drop the effects it set off
+    this.audio.silence(() => this.replayPlayer?.seek(tick));
+    this.particles = [];
+    this.shakeMagnitude = 0;
   }
 
   // Expose InputManager for mobile controls
@@ -1575,8 +1960,8 @@ export class Game {
   // AI difficulty control
   public setAIDifficulty(difficulty: AIDifficulty): void {
     this.settings.aiDifficulty = difficulty;
-    if (this.tankAI) {
-      this.tankAI.setDifficulty(difficulty);
+    for (const ai of this.tankAIs.values()) {
+      ai.setDifficulty(difficulty);
     }
   }
 
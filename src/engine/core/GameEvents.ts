@@ -0,0 +1,54 @@
+// Typed event bus - the simulation publishes gameplay events, effects, stats and recorders subscribe
+import type { SimulationEvent } from './Simulation';
+
+export type GameEventType = SimulationEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<SimulationEvent, { type: T }>;
+export type GameEventHandler<T extends GameEventType> = (event: GameEventOf<T>) => void;
+
+export class GameEvents {
+  private handlers: Map<GameEventType, Set<(event: SimulationEvent) => void>> = new Map();
+  private anyHandlers: Set<(event: SimulationEvent) => void> = new Set();
+
+  /**
+   * Listen for one event type
+   * @returns a function that removes the listener
+   */
+  public on<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+
+    // Only events of this type are dispatched to the set, so the cast holds
+    const listener = handler as (event: SimulationEvent) => void;
+    handlers.add(listener);
+    return () => {
+      handlers.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for every event
+   * @returns a function that removes the listener
+   */
+  public onAny(handler: (event: SimulationEvent) => void): () => void {
+    this.anyHandlers.add(handler);
+    return () => {
+      this.anyHandlers.delete(handler);
+    };
+  }
+
+  public emit(event: SimulationEvent): void {
+    this.handlers.get(event.type)?.forEach((handler) => handler(event));
+    this.anyHandlers.forEach((handler) => handler(event));
+  }
+
+  /**
+   * Remove every listener
+   */
+  public clear(): void {
+    this.handlers.clear();
+    this.anyHandlers.clear();
+  }
+}
@@ -1,5 +1,8 @@
-// Input Manager - Unified keyboard and touch input handling
+// Input Manager - Unified keyboard, touch and gamepad input handling
 import { Vector } from '../utils/Vector';
+import { DEFAULT_CONTROL_BINDINGS, DEFAULT_GAMEPAD_DEAD_ZONE, SETTING_CONSTRAINTS } from '@/types/settings';
+import type { BindingAction, ControlBindings, GamepadPreferences, PlayerBindings } from '@/types/settings';
+import { PAD_BUTTON_SELECT } from './ControlBindings';
 
 export interface PlayerInput {
   movement: Vector;
@@ -7,6 +10,13 @@ export interface PlayerInput {
   chargeLevel: number;
 }
 
+const TRIGGER_THRESHOLD = 0.3; // Analog trigger pressure that counts as a press
+const PAD_PLAYERS = [1, 2];
+const AIM_STICK_DEAD_ZONE = 0.3; // Twin-stick aim ignores small deflections so releasing a stick doesn't jerk the turret
+
+// Where a player last aimed - a fixed direction from a stick, or a point the turret tracks (the mouse)
+type AimState = { angle: number } | { point: { x: number; y: number } };
+
 export class InputManager {
   private keyboardState: Map<string, boolean> = new Map();
   private touchState: Map<number, { x: number; y: number }> = new Map();
@@ -29,8 +39,22 @@ export class InputManager {
     player2: false,
   };
 
+  // Gamepads - pad index to player slot, per-pad dead zones, and the state read by the last poll
+  private padPlayers: Map<number, number> = new Map();
+  private knownPads: Set<number> = new Set(); // Pads seen so far - only new ones are auto-assigned
+  private padDeadZones: Map<number, number> = new Map();
+  private padPreferences: GamepadPreferences = {};
+  private padSelectHeld: Map<number, boolean> = new Map();
+  private gamepadState: Map<number, { movement: Vector; shoot: boolean; pause: boolean }> = new Map();
+  private bindings: ControlBindings = DEFAULT_CONTROL_BINDINGS;
+
+  // Twin-stick aiming - the most recently used aim source wins, and its aim holds once released
+  private aimState: Map<number, AimState> = new Map();
+  private mouseShoot = false;
+
   constructor() {
     this.initKeyboard();
+    this.initGamepads();
   }
 
   private initKeyboard(): void {
@@ -38,9 +62,10 @@ export class InputManager {
       window.addEventListener('keydown', (e) => {
         this.keyboardState.set(e.code, true);
 
-        // Prevent default for game keys
+        // Prevent default for game keys (bound ones too, so they don't scroll the page)
         if (
-          ['Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter'].includes(e.code)
+          ['Space', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter'].includes(e.code) ||
+          this.isBoundKey(e.code)
         ) {
           e.preventDefault();
         }
@@ -52,6 +77,176 @@ export class InputManager {
     }
   }
 
+  // Hot-plugging: a new pad takes the first free player slot, an unplugged one frees its slot
+  private initGamepads(): void {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('gamepadconnected', this.handleGamepadConnected);
+      window.addEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    }
+  }
+
+  private handleGamepadConnected = (e: GamepadEvent): void => {
+    this.autoAssignGamepad(e.gamepad.index);
+  };
+
+  private handleGamepadDisconnected = (e: GamepadEvent): void => {
+    const player = this.padPlayers.get(e.gamepad.index);
+    this.knownPads.delete(e.gamepad.index);
+    this.padPlayers.delete(e.gamepad.index);
+    this.padSelectHeld.delete(e.gamepad.index);
+    if (player !== undefined) {
+      this.gamepadState.delete(player);
+    }
+  };
+
+  private autoAssignGamepad(padIndex: number): void {
+    if (this.knownPads.has(padIndex)) return;
+    this.knownPads.add(padIndex);
+
+    // A saved slot wins over first come, first served
+    const preference = this.padPreferences[padIndex]?.player;
+    if (preference !== undefined) {
+      this.assignGamepad(padIndex, preference);
+      return;
+    }
+
+    const taken = new Set(this.padPlayers.values());
+    const free = PAD_PLAYERS.find((player) => !taken.has(player));
+    if (free !== undefined) {
+      this.padPlayers.set(padIndex, free);
+    }
+  }
+
+  private getGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+    return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+  }
+
+  /**
+   * Read every assigned pad - the Gamepad API has no input events, so call this once per frame
+   */
+  pollGamepads(): void {
+    this.gamepadState.clear();
+
+    for (const pad of this.getGamepads()) {
+      // Pads plugged in before this manager existed never fire gamepadconnected
+      this.autoAssignGamepad(pad.index);
+
+      // Select moves a pad to the other player's slot, swapping with the pad there
+      const select = pad.buttons[PAD_BUTTON_SELECT]?.pressed ?? false;
+      if (select && !this.padSelectHeld.get(pad.index)) {
+        const current = this.padPlayers.get(pad.index);
+        this.assignGamepad(pad.index, current === 1 ? 2 : 1);
+      }
+      this.padSelectHeld.set(pad.index, select);
+
+      const player = this.padPlayers.get(pad.index);
+      if (player === undefined) continue;
+
+      const bindings = this.getPlayerBindings(player);
+      // Triggers are analog, so pressure past the threshold counts as a press
+      const pressed = (action: BindingAction) => {
+        const button = bindings[action].button;
+        if (button === null) return false;
+        const state = pad.buttons[button];
+        return state !== undefined && (state.pressed || state.value > TRIGGER_THRESHOLD);
+      };
+
+      let movement = this.applyDeadZone(pad.axes[0] ?? 0, pad.axes[1] ?? 0, this.getGamepadDeadZone(pad.index));
+      if (movement.x === 0 && movement.y === 0) {
+        // Bound buttons (the d-pad by default) as a fallback for the stick
+        const x = (pressed('right') ? 1 : 0) - (pressed('left') ? 1 : 0);
+        const y = (pressed('down') ? 1 : 0) - (pressed('up') ? 1 : 0);
+        movement = x === 0 && y === 0 ? Vector.zero() : new Vector(x, y).normalize();
+      }
+
+      // Right stick aims the turret under twin-stick control
+      this.setAimStick(player, new Vector(pad.axes[2] ?? 0, pad.axes[3] ?? 0));
+
+      // Holding the shoot button charges a shot like holding the fire key
+      this.gamepadState.set(player, { movement, shoot: pressed('shoot'), pause: pressed('pause') });
+    }
+  }
+
+  // Radial dead zone, rescaled so the stick still reaches full speed just past it
+  private applyDeadZone(x: number, y: number, deadZone: number): Vector {
+    const magnitude = Math.hypot(x, y);
+    if (magnitude <= deadZone) return Vector.zero();
+
+    const scaled = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+    return new Vector((x / magnitude) * scaled, (y / magnitude) * scaled);
+  }
+
+  /**
+   * Point a pad at a player slot (null unassigns it); a pad already on that slot takes the old one's place
+   */
+  private assignGamepad(padIndex: number, player: number | null): void {
+    this.knownPads.add(padIndex);
+    const previous = this.padPlayers.get(padIndex);
+    for (const [index, assigned] of this.padPlayers) {
+      if (index !== padIndex && assigned === player) {
+        if (previous !== undefined) {
+          this.padPlayers.set(index, previous);
+        } else {
+          this.padPlayers.delete(index);
+        }
+      }
+    }
+
+    if (player === null) {
+      this.padPlayers.delete(padIndex);
+    } else {
+      this.padPlayers.set(padIndex, player);
+    }
+  }
+
+  /**
+   * Use the player's key and gamepad bindings (tank controls carry the keys, pads read theirs here)
+   */
+  setBindings(bindings: ControlBindings): void {
+    this.bindings = bindings;
+  }
+
+  private getPlayerBindings(player: number): PlayerBindings {
+    return player === 2 ? this.bindings.player2 : this.bindings.player1;
+  }
+
+  private isBoundKey(code: string): boolean {
+    return PAD_PLAYERS.some((player) =>
+      Object.values(this.getPlayerBindings(player)).some((binding) => binding.key === code)
+    );
+  }
+
+  /**
+   * Whether any local player is holding their pause key or button
+   */
+  isPausePressed(): boolean {
+    for (const player of PAD_PLAYERS) {
+      const key = this.getPlayerBindings(player).pause.key;
+      if ((key !== null && this.isKeyPressed(key)) || this.gamepadState.get(player)?.pause) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Use the player's saved pad slots and dead zones - pads are reassigned on the next poll
+   */
+  setGamepadPreferences(preferences: GamepadPreferences): void {
+    this.padPreferences = preferences;
+    this.padPlayers.clear();
+    this.knownPads.clear();
+    this.padDeadZones.clear();
+
+    const { min, max } = SETTING_CONSTRAINTS.gamepadDeadZone;
+    for (const [index, preference] of Object.entries(preferences)) {
+      this.padDeadZones.set(Number(index), Math.max(min, Math.min(max, preference.deadZone)));
+    }
+  }
+
+  private getGamepadDeadZone(padIndex: number): number {
+    return this.padDeadZones.get(padIndex) ?? DEFAULT_GAMEPAD_DEAD_ZONE;
+  }
+
   // Keyboard methods
   isKeyPressed(code: string): boolean {
     return this.keyboardState.get(code) || false;
@@ -62,33 +257,6 @@ export class InputManager {
     this.keyboardState.forEach((value, key) => {
       state[key] = value;
     });
-
-    // Synthesize virtual key states from joystick input for Player 1 (WASD + Space)
-    if (this.joystickData.player1.active) {
-      const m = this.joystickData.player1.movement;
-      const threshold = 0.3; // Deadzone threshold
-      state['KeyW'] = m.y < -threshold;
-      state['KeyS'] = m.y > threshold;
-      state['KeyA'] = m.x < -threshold;
-      state['KeyD'] = m.x > threshold;
-    }
-    if (this.shootButtonState.player1) {
-      state['Space'] = true;
-    }
-
-    // Synthesize virtual key states from joystick input for Player 2 (Arrows + Enter)
-    if (this.joystickData.player2.active) {
-      const m = this.joystickData.player2.movement;
-      const threshold = 0.3;
-      state['ArrowUp'] = m.y < -threshold;
-      state['ArrowDown'] = m.y > threshold;
-      state['ArrowLeft'] = m.x < -threshold;
-      state['ArrowRight'] = m.x > threshold;
-    }
-    if (this.shootButtonState.player2) {
-      state['Enter'] = true;
-    }
-
     return state;
   }
 
@@ -121,7 +289,37 @@ export class InputManager {
     }
   }
 
-  // Unified API - works for both keyboard and touch
+  // Twin-stick aim methods
+  /**
+   * Aim with a stick (gamepad right stick or the mobile aim stick) - small deflections are ignored
+   */
+  setAimStick(playerIndex: number, direction: Vector): void {
+    if (Math.hypot(direction.x, direction.y) <= AIM_STICK_DEAD_ZONE) return;
+    this.aimState.set(playerIndex, { angle: Math.atan2(direction.y, direction.x) });
+  }
+
+  /**
+   * Aim at a point in arena coordinates (the mouse) - the turret keeps tracking it as the tank moves
+   */
+  setAimPoint(playerIndex: number, point: { x: number; y: number }): void {
+    this.aimState.set(playerIndex, { point });
+  }
+
+  setMouseShoot(pressed: boolean): void {
+    this.mouseShoot = pressed;
+  }
+
+  /**
+   * Turret angle for a tank at the given position, undefined until the player has aimed
+   */
+  getAimAngle(playerIndex: number, from: { x: number; y: number }): number | undefined {
+    const aim = this.aimState.get(playerIndex);
+    if (!aim) return undefined;
+    if ('angle' in aim) return aim.angle;
+    return Math.atan2(aim.point.y - from.y, aim.point.x - from.x);
+  }
+
+  // Unified API - works for keyboard, touch and gamepads
   getMovementVector(playerIndex: number, controls: { up: string; down: string; left: string; right: string }): Vector {
     // Check if mobile joystick is active
     if (playerIndex === 1 && this.joystickData.player1.active) {
@@ -131,14 +329,20 @@ export class InputManager {
       return this.joystickData.player2.movement;
     }
 
+    // Gamepad stick, when it is pushed past its dead zone
+    const pad = this.gamepadState.get(playerIndex);
+    if (pad && (pad.movement.x !== 0 || pad.movement.y !== 0)) {
+      return pad.movement;
+    }
+
     // Keyboard input
     let x = 0;
     let y = 0;
 
-    if (this.isKeyPressed(controls.up)) y = -1;
-    if (this.isKeyPressed(controls.down)) y = 1;
-    if (this.isKeyPressed(controls.left)) x = -1;
-    if (this.isKeyPressed(controls.right)) x = 1;
+    if (this.isKeyPressed(controls.up)) y -= 1;
+    if (this.isKeyPressed(controls.down)) y += 1;
+    if (this.isKeyPressed(controls.left)) x -= 1;
+    if (this.isKeyPressed(controls.right)) x += 1;
 
     if (x === 0 && y === 0) return Vector.zero();
 
@@ -150,6 +354,12 @@ export class InputManager {
     if (playerIndex === 1 && this.shootButtonState.player1) return true;
     if (playerIndex === 2 && this.shootButtonState.player2) return true;
 
+    // Gamepad trigger or face button
+    if (this.gamepadState.get(playerIndex)?.shoot) return true;
+
+    // Mouse button, which fires for the player aiming with the mouse
+    if (playerIndex === 1 && this.mouseShoot) return true;
+
     // Keyboard
     return this.isKeyPressed(shootKey);
   }
@@ -173,5 +383,11 @@ export class InputManager {
   destroy(): void {
     this.keyboardState.clear();
     this.touchState.clear();
+    this.gamepadState.clear();
+    this.aimState.clear();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('gamepadconnected', this.handleGamepadConnected);
+      window.removeEventListener('gamepaddisconnected', this.handleGamepadDisconnected);
+    }
   }
 }
@@ -0,0 +1,54 @@
+// Match modes - how many tanks play and which team each tank is on
+import { Constants } from '../utils/Constants';
+
+export type MatchMode = 'duel' | 'teams' | 'ffa';
+
+export const MAX_TANKS = 6;
+export const MIN_FFA_TANKS = 3;
+export const TEAM_SIZE = 2; // Team play is 2v2
+
+/**
+ * Number of tanks in a match
+ */
+export function getTankCount(mode: MatchMode, ffaPlayerCount: number): number {
+  switch (mode) {
+    case 'teams':
+      return TEAM_SIZE * 2;
+    case 'ffa':
+      return Math.max(MIN_FFA_TANKS, Math.min(MAX_TANKS, Math.round(ffaPlayerCount)));
+    default:
+      return 2;
+  }
+}
+
+/**
+ * Team a tank plays for. Round wins are scored per team.
+ * Team play alternates tanks between teams 1 and 2 (so P1 and P2 are opponents);
+ * otherwise every tank is a team of one, numbered by its tank ID.
+ */
+export function getTankTeam(mode: MatchMode, tankId: number): number {
+  return mode === 'teams' ? ((tankId - 1) % 2) + 1 : tankId;
+}
+
+/**
+ * Teams taking part in a match, in order
+ */
+export function getTeams(mode: MatchMode, tankCount: number): number[] {
+  return mode === 'teams' ? [1, 2] : Array.from({ length: tankCount }, (_, i) => i + 1);
+}
+
+/**
+ * Color of a team - team colors in team play, otherwise the tank's own color
+ */
+export function getTeamColor(mode: MatchMode, team: number): string {
+  const colors = mode === 'teams' ? Constants.TEAM_COLORS : Constants.TANK_COLORS;
+  return colors[(team - 1) % colors.length];
+}
+
+/**
+ * Display name of a team
+ */
+export function getTeamName(mode: MatchMode, team: number): string {
+  if (mode === 'teams') return team === 1 ? 'Red Team' : 'Blue Team';
+  return `Player ${team}`;
+}
@@ -0,0 +1,108 @@
+// Headless Simulation tests - run under Node with `npm test`
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from './Simulation';
+import type { InputFrame, SimulationSettings } from './Simulation';
+
+// No hazards or sudden death, so idle tanks survive as long as a test needs
+const QUIET_SETTINGS: Partial<SimulationSettings> = { hazards: false, suddenDeath: false, powerUps: false };
+
+const stepIdle = (simulation: Simulation, steps: number) => {
+  for (let i = 0; i < steps; i++) simulation.step(new Map());
+};
+
+describe('Simulation', () => {
+  it('advances one tick per step', () => {
+    const simulation = new Simulation(QUIET_SETTINGS, { seed: 1 });
+
+    const result = simulation.step(new Map());
+
+    assert.equal(result.tick, 1);
+    assert.equal(simulation.tick, 1);
+    assert.equal(result.roundWinner, null);
+  });
+
+  it('ends the round on the time limit after that many seconds of steps', () => {
+    const simulation = new Simulation({ ...QUIET_SETTINGS, timeLimitEnabled: true, timeLimitSeconds: 30 }, { seed: 1 });
+    const limitSteps = 30 * Simulation.TICK_RATE;
+
+    stepIdle(simulation, limitSteps - 1);
+    assert.equal(simulation.roundWinner, null);
+
+    const result = simulation.step(new Map());
+    assert.notEqual(result.roundWinner, null);
+    assert.ok(result.events.some((event) => event.type === 'round_over' && event.reason === 'time_limit'));
+  });
+
+  it('gives a time limit win only to a team still standing', () => {
+    const simulation = new Simulation(
+      { ...QUIET_SETTINGS, matchMode: 'ffa', ffaPlayerCount: 3, timeLimitEnabled: true, timeLimitSeconds: 30 },
+      { seed: 1 }
+    );
+    const [eliminated] = simulation.tanks;
+    eliminated.die();
+    simulation.scores[eliminated.team] = 3;
+
+    stepIdle(simulation, 30 * Simulation.TICK_RATE);
+
+    assert.notEqual(simulation.roundWinner, null);
+    assert.notEqual(simulation.roundWinner, eliminated.team);
+  });
+
+  it('spawns a power-up once the spawn interval has passed in steps', () => {
+    const simulation = new Simulation({ ...QUIET_SETTINGS, powerUps: true, powerupSpawnRate: 2 }, { seed: 1 });
+
+    stepIdle(simulation, 2 * Simulation.TICK_RATE - 1);
+    assert.equal(simulation.powerups.length, 0);
+
+    // Two seconds of steps land on the interval - allow a step either way for rounding
+    const events = [simulation.step(new Map()), simulation.step(new Map())].flatMap((result) => result.events);
+    assert.equal(simulation.powerups.length, 1);
+    assert.ok(events.some((event) => event.type === 'powerup_spawned'));
+  });
+
+  it('leaves tanks without input idle and moves tanks with input', () => {
+    const simulation = new Simulation(QUIET_SETTINGS, { seed: 1 });
+    const [mover, idler] = simulation.tanks;
+    const moverStart = mover.pos.clone();
+    const idlerStart = idler.pos.clone();
+
+    const frame: InputFrame = new Map([[mover.id, { movement: { x: 0, y: -1 }, shoot: false }]]);
+    for (let i = 0; i < 10; i++) simulation.step(frame);
+
+    assert.notDeepEqual(mover.pos, moverStart);
+    assert.deepEqual(idler.pos, idlerStart);
+  });
+
+  it('reproduces a match exactly from the same seed and inputs', () => {
+    const play = () => {
+      const simulation = new Simulation({ powerupSpawnRate: 1 }, { seed: 42 });
+      const [p1, p2] = simulation.tanks;
+      for (let i = 0; i < 600 && simulation.roundWinner === null; i++) {
+        simulation.step(new Map([
+          [p1.id, { movement: { x: Math.sin(i / 20), y: -1 }, shoot: i % 15 === 0 }],
+          [p2.id, { movement: { x: 1, y: Math.cos(i / 30) }, shoot: i % 20 === 0 }],
+        ]));
+      }
+      return {
+        tick: simulation.tick,
+        tanks: simulation.tanks.map((t) => [t.pos.x, t.pos.y, t.angle, t.health]),
+        powerups: simulation.powerups.map((p) => [p.pos.x, p.pos.y, p.type]),
+        bullets: simulation.bullets.length,
+      };
+    };
+
+    assert.deepEqual(play(), play());
+  });
+
+  it('ignores steps once the round is over', () => {
+    const simulation = new Simulation({ ...QUIET_SETTINGS, timeLimitEnabled: true, timeLimitSeconds: 30 }, { seed: 1 });
+    stepIdle(simulation, 30 * Simulation.TICK_RATE);
+    const tick = simulation.tick;
+
+    const result = simulation.step(new Map());
+
+    assert.equal(result.tick, tick);
+    assert.deepEqual(result.events, []);
+  });
+});
@@ -0,0 +1,526 @@
+// Headless game simulation shared by the browser Game and the socket server
+import { Constants } from '../utils/Constants';
+import { SeededRandom } from '../utils/SeededRandom';
+import { Tank, TankControls, AnalogControl } from '../entities/Tank';
+import { Bullet } from '../entities/Bullet';
+import { PowerUp } from '../entities/PowerUp';
+import { Wall } from '../entities/Wall';
+import { Hazard } from '../entities/Hazard';
+import { GameRulesSystem, GameScores, SuddenDeathState, createScores } from '../systems/GameRulesSystem';
+import { EntitySystem } from '../systems/EntitySystem';
+import { MapPresets, MapPresetConfig, getSpawnPoints } from '../map/MapPresets';
+import { MatchMode, getTankCount, getTankTeam, getTeamColor, getTeams } from './MatchMode';
+import { GameEvents } from './GameEvents';
+
+/**
+ * Rule settings read by the simulation.
+ * The client GameSettings is a superset of this.
+ */
+export interface SimulationSettings {
+  charging: boolean;
+  ammoSystem: boolean;
+  recoil: boolean;
+  powerUps: boolean;
+  destructibleCrates: boolean;
+  hazards: boolean;
+  suddenDeath: boolean;
+  friendlyFire: boolean;
+  bulletRicochet: boolean;
+  maxBounces: number;
+  startingHealth: number;
+  gameSpeed: number;
+  powerupSpawnRate: number; // seconds
+  timeLimitEnabled: boolean;
+  timeLimitSeconds: number;
+  scoreLimitEnabled: boolean;
+  scoreLimitValue: number;
+  matchMode: MatchMode;
+  ffaPlayerCount: number; // Tanks in a free-for-all match
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  charging: true,
+  ammoSystem: true,
+  recoil: true,
+  powerUps: true,
+  destructibleCrates: true,
+  hazards: true,
+  suddenDeath: true,
+  friendlyFire: false,
+  bulletRicochet: true,
+  maxBounces: Constants.BULLET_MAX_BOUNCES,
+  startingHealth: Constants.TANK_MAX_HEALTH,
+  gameSpeed: 1.0,
+  powerupSpawnRate: Constants.POWERUP_SPAWN_INTERVAL / 1000,
+  timeLimitEnabled: false,
+  timeLimitSeconds: 120,
+  scoreLimitEnabled: false,
+  scoreLimitValue: 5,
+  matchMode: 'duel',
+  ffaPlayerCount: 4,
+};
+
+// Controls only name the synthetic keys an input is translated to, so any layout works headless
+export const DEFAULT_TANK_CONTROLS: TankControls = {
+  up: 'KeyW',
+  down: 'KeyS',
+  left: 'KeyA',
+  right: 'KeyD',
+  shoot: 'Space',
+};
+
+/**
+ * One tank's input for a single tick
+ */
+export interface TankInput {
+  movement: { x: number; y: number };
+  shoot: boolean;
+  chargeLevel?: number;
+  angle?: number; // Explicit aim (AI), applied before movement
+  analog?: boolean; // Twin-stick control - speed follows the movement magnitude
+  aim?: number; // Turret angle under twin-stick control
+}
+
+/**
+ * Inputs for a single tick, keyed by tank ID. Missing tanks receive idle input.
+ */
+export type InputFrame = Map<number, TankInput>;
+
+export type RoundEndReason = 'elimination' | 'time_limit';
+
+export type EnvironmentDamageSource = 'hazard' | 'sudden_death';
+
+export type SimulationEvent =
+  | { type: 'bullet_fired'; tankId: number; bullet: Bullet }
+  | { type: 'bullet_expired'; bullet: Bullet }
+  | { type: 'bullet_bounced'; bullet: Bullet }
+  | { type: 'reload_started'; tankId: number }
+  | { type: 'tank_hit'; tankId: number; bullet: Bullet; damage: number }
+  | { type: 'tank_destroyed'; tankId: number; bullet: Bullet | null } // Null when the arena killed the tank
+  | { type: 'environment_damage'; tankId: number; source: EnvironmentDamageSource; damage: number }
+  | { type: 'crate_destroyed'; crate: Wall; bullet: Bullet }
+  | { type: 'powerup_spawned'; powerup: PowerUp }
+  | { type: 'powerup_collected'; tankId: number; powerup: PowerUp }
+  | { type: 'sudden_death_started' }
+  | { type: 'round_over'; winnerId: number; reason: RoundEndReason }
+  | { type: 'round_started' }; // Published by resetRound(), never part of a step() result
+
+export interface SimulationTickResult {
+  tick: number;
+  events: SimulationEvent[];
+  roundWinner: number | null; // Winning team
+}
+
+export interface SimulationOptions {
+  seed?: number; // Match seed - the same seed and inputs reproduce the match exactly
+  map?: MapPresetConfig; // Layout rebuilt every round (defaults to the classic preset)
+  tankControls?: TankControls[]; // By tank index, tanks without an entry use DEFAULT_TANK_CONTROLS
+  // Override bullet-vs-tank hit detection (e.g. server lag compensation)
+  hitTest?: (bullet: Bullet, tank: Tank) => boolean;
+}
+
+const IDLE_INPUT: TankInput = { movement: { x: 0, y: 0 }, shoot: false };
+const MOVEMENT_DEADZONE = 0.1;
+
+/**
+ * Check whether a bullet lies inside a tank hit box centred on (x, y)
+ */
+export function isBulletInHitBox(bullet: Bullet, x: number, y: number): boolean {
+  const half = Constants.TANK_HITBOX_HALF_SIZE;
+  return (
+    bullet.pos.x > x - half &&
+    bullet.pos.x < x + half &&
+    bullet.pos.y > y - half &&
+    bullet.pos.y < y + half
+  );
+}
+
+/**
+ * DOM-free game simulation. Owns every gameplay entity and advances one fixed
+ * tick per step() from an input frame. Time is counted in ticks, never read
+ * from the wall clock, so the same inputs always advance the same way.
+ */
+export class Simulation {
+  public static readonly TICK_RATE = Constants.TARGET_FPS;
+  public static readonly TICK_MS = 1000 / Simulation.TICK_RATE;
+
+  public settings: SimulationSettings;
+
+  // Entities
+  public tanks: Tank[] = [];
+  public bullets: Bullet[] = [];
+  public powerups: PowerUp[] = [];
+  public walls: Wall[] = [];
+  public crates: Wall[] = [];
+  public hazards: Hazard[] = [];
+
+  // Match state (scores persist across rounds)
+  public scores: GameScores;
+  public tick: number = 0;
+  public roundWinner: number | null = null;
+
+  // Every event a step() returns is also published here as it happens
+  public readonly events: GameEvents = new GameEvents();
+
+  private map: MapPresetConfig;
+  private rng: SeededRandom;
+  private roundRandomState: number = 0;
+  private rules: GameRulesSystem;
+  private entitySystem: EntitySystem;
+  private tankControls: TankControls[];
+  private hitTest: (bullet: Bullet, tank: Tank) => boolean;
+  private timeSincePowerUp: number = 0;
+
+  constructor(settings: Partial<SimulationSettings> = {}, options: SimulationOptions = {}) {
+    this.settings = { ...DEFAULT_SIMULATION_SETTINGS, ...settings };
+    this.map = options.map ?? MapPresets.classic;
+    this.rng = new SeededRandom(options.seed);
+    this.rules = new GameRulesSystem(this.rng);
+    this.entitySystem = new EntitySystem();
+    this.tankControls = options.tankControls ?? [];
+    this.hitTest = options.hitTest ?? ((bullet, tank) => isBulletInHitBox(bullet, tank.pos.x, tank.pos.y));
+    this.scores = createScores(getTeams(this.settings.matchMode, this.getTankCount()));
+
+    this.resetRound();
+  }
+
+  /**
+   * Rebuild the map and tanks for a fresh round. Scores are kept.
+   * Passing a state from getRoundRandomState() replays that round's random sequence.
+   */
+  public resetRound(randomState?: number): void {
+    if (randomState !== undefined) {
+      this.rng.setState(randomState);
+    }
+    this.roundRandomState = this.rng.getState();
+
+    this.bullets = [];
+    this.powerups = [];
+    this.createMap();
+
+    const { matchMode } = this.settings;
+    this.tanks = getSpawnPoints(this.map, this.getTankCount()).map((spawn, index) => {
+      const id = index + 1;
+      const team = getTankTeam(matchMode, id);
+      const controls = this.tankControls[index] ?? DEFAULT_TANK_CONTROLS;
+      const tank = new Tank(id, spawn.x, spawn.y, getTeamColor(matchMode, team), controls, this.rng);
+      tank.team = team;
+      tank.maxHealth = this.settings.startingHealth;
+      tank.health = tank.maxHealth;
+      return tank;
+    });
+
+    this.tick = 0;
+    this.roundWinner = null;
+    this.timeSincePowerUp = 0;
+    this.rules.reset();
+
+    this.events.emit({ type: 'round_started' });
+  }
+
+  private createMap(): void {
+    this.walls = [];
+    this.crates = [];
+    this.hazards = [];
+
+    const wall = (x: number, y: number, w: number, h: number, destructible: boolean = false) =>
+      new Wall(x, y, w, h, destructible, `wall-${x}-${y}-${this.rng.nextId()}`);
+
+    // Static Walls
+    for (const w of this.map.walls) {
+      this.walls.push(wall(w.x, w.y, w.w, w.h));
+    }
+
+    // Hazard Zones (if enabled)
+    if (this.settings.hazards) {
+      for (const h of this.map.hazards) {
+        this.hazards.push(new Hazard(h.x, h.y, h.w, h.h, h.type));
+      }
+    }
+
+    // Destructible Crates (if enabled)
+    if (this.settings.destructibleCrates) {
+      for (const c of this.map.crates) {
+        this.crates.push(wall(c.x, c.y, c.w, c.h, true));
+      }
+    }
+  }
+
+  public getTank(id: number): Tank | undefined {
+    return this.tanks.find((t) => t.id === id);
+  }
+
+  /**
+   * Number of tanks each round starts with
+   */
+  public getTankCount(): number {
+    return getTankCount(this.settings.matchMode, this.settings.ffaPlayerCount);
+  }
+
+  /**
+   * Teams that still have a tank alive
+   */
+  public getTeamsAlive(): number[] {
+    return [...new Set(this.tanks.filter((t) => !t.dead).map((t) => t.team))];
+  }
+
+  /**
+   * Apply one tick of input to a single tank and return any bullets it fired.
+   * Also used by online clients to predict their own tank.
+   */
+  public updateTank(tank: Tank, input: TankInput, deltaMultiplier: number = this.settings.gameSpeed): Bullet[] {
+    const otherTanks = this.tanks.filter((t) => t !== tank);
+
+    const keys: Record<string, boolean> = {};
+    let analog: AnalogControl | null = null;
+    if (input.analog) {
+      const moving = Math.hypot(input.movement.x, input.movement.y) > MOVEMENT_DEADZONE;
+      analog = { movement: moving ? input.movement : { x: 0, y: 0 }, aim: input.aim };
+    } else {
+      if (input.movement.y < -MOVEMENT_DEADZONE) keys[tank.controls.up] = true;
+      if (input.movement.y > MOVEMENT_DEADZONE) keys[tank.controls.down] = true;
+      if (input.movement.x < -MOVEMENT_DEADZONE) keys[tank.controls.left] = true;
+      if (input.movement.x > MOVEMENT_DEADZONE) keys[tank.controls.right] = true;
+    }
+    if (input.shoot) keys[tank.controls.shoot] = true;
+
+    if (input.chargeLevel !== undefined && input.chargeLevel > 0) {
+      tank.chargeLevel = input.chargeLevel;
+    }
+
+    if (input.angle !== undefined) {
+      tank.angle = input.angle;
+    }
+
+    const suddenDeath = this.rules.getSuddenDeathState();
+
+    const bullets = tank.update(
+      keys,
+      this.walls,
+      this.crates,
+      this.hazards,
+      otherTanks,
+      suddenDeath.active,
+      suddenDeath.inset,
+      this.settings,
+      deltaMultiplier,
+      analog
+    );
+
+    // Bounce limits are per match, not the module-wide default (charge and laser shots never bounce)
+    for (const bullet of bullets) {
+      if (bullet.type !== 'CHARGE' && bullet.type !== 'LASER') {
+        bullet.bounces = this.settings.bulletRicochet ? this.settings.maxBounces : 0;
+      }
+    }
+
+    return bullets;
+  }
+
+  /**
+   * Advance the simulation by one fixed tick
+   */
+  public step(frame: InputFrame): SimulationTickResult {
+    const events: SimulationEvent[] = [];
+
+    if (this.roundWinner !== null) {
+      return { tick: this.tick, events, roundWinner: this.roundWinner };
+    }
+
+    this.tick++;
+    const deltaMultiplier = this.settings.gameSpeed;
+    const aliveAtStart = this.tanks.filter((t) => !t.dead);
+
+    // Tanks
+    for (const tank of this.tanks) {
+      const wasReloading = tank.isReloading;
+      const newBullets = this.updateTank(tank, frame.get(tank.id) ?? IDLE_INPUT, deltaMultiplier);
+      for (const bullet of newBullets) {
+        this.publish(events, { type: 'bullet_fired', tankId: tank.id, bullet });
+      }
+      this.bullets.push(...newBullets);
+
+      if (tank.isReloading && !wasReloading) {
+        this.publish(events, { type: 'reload_started', tankId: tank.id });
+      }
+
+      const { hazard, suddenDeath } = tank.environmentDamage;
+      if (hazard > 0) {
+        this.publish(events, { type: 'environment_damage', tankId: tank.id, source: 'hazard', damage: hazard });
+      }
+      if (suddenDeath > 0) {
+        this.publish(events, { type: 'environment_damage', tankId: tank.id, source: 'sudden_death', damage: suddenDeath });
+      }
+    }
+
+    // Timer & Sudden Death
+    const wasSuddenDeath = this.rules.getSuddenDeathState().active;
+    this.rules.advanceTime(Simulation.TICK_MS);
+    if (this.rules.updateSuddenDeath(this.settings, deltaMultiplier).active && !wasSuddenDeath) {
+      this.publish(events, { type: 'sudden_death_started' });
+    }
+
+    const timeLimitWinner = this.rules.checkTimeLimit(this.settings, this.scores, this.tanks);
+    if (timeLimitWinner !== null) {
+      this.endRound(timeLimitWinner, 'time_limit', events);
+      return { tick: this.tick, events, roundWinner: this.roundWinner };
+    }
+
+    // PowerUp Spawner - settings.powerupSpawnRate is in seconds
+    this.timeSincePowerUp += Simulation.TICK_MS;
+    if (this.timeSincePowerUp > this.settings.powerupSpawnRate * 1000) {
+      this.spawnPowerUp(events);
+      this.timeSincePowerUp = 0;
+    }
+
+    // Power-ups
+    for (const p of this.powerups) {
+      p.update();
+    }
+
+    for (let i = this.powerups.length - 1; i >= 0; i--) {
+      const p = this.powerups[i];
+      const collector = this.tanks.find(
+        (t) => !t.dead && p.isCollidingWith(t.pos, Constants.POWERUP_PICKUP_RADIUS)
+      );
+
+      if (collector) {
+        collector.applyPowerUp(p.type);
+        this.powerups.splice(i, 1);
+        this.publish(events, { type: 'powerup_collected', tankId: collector.id, powerup: p });
+      }
+    }
+
+    // Bullets & hit detection
+    const killers = new Map<Tank, Bullet>();
+    for (let i = this.bullets.length - 1; i >= 0; i--) {
+      const b = this.bullets[i];
+      const ricochets = b.ricochets;
+      const struck = b.update(this.walls, this.crates);
+
+      if (b.ricochets > ricochets) {
+        this.publish(events, { type: 'bullet_bounced', bullet: b });
+      }
+
+      if (struck?.destructible && !struck.active) {
+        this.publish(events, { type: 'crate_destroyed', crate: struck, bullet: b });
+      }
+
+      if (!b.active) {
+        this.bullets.splice(i, 1);
+        this.publish(events, { type: 'bullet_expired', bullet: b });
+        continue;
+      }
+
+      for (const tank of this.tanks) {
+        if (tank.dead) continue;
+
+        // Without friendly fire, bullets pass through their owner and its teammates
+        if (!this.settings.friendlyFire && this.getTank(b.ownerId)?.team === tank.team) continue;
+
+        if (this.hitTest(b, tank)) {
+          const damage = tank.hit();
+          b.active = false;
+          this.publish(events, { type: 'tank_hit', tankId: tank.id, bullet: b, damage });
+          if (tank.dead) killers.set(tank, b);
+          break;
+        }
+      }
+
+      if (!b.active) {
+        this.bullets.splice(i, 1);
+      }
+    }
+
+    // Deaths from bullets, hazards or sudden death
+    for (const tank of aliveAtStart) {
+      if (tank.dead) {
+        this.publish(events, { type: 'tank_destroyed', tankId: tank.id, bullet: killers.get(tank) ?? null });
+      }
+    }
+
+    // The round ends when at most one team is left standing
+    const teamsAlive = this.getTeamsAlive();
+    if (teamsAlive.length === 1) {
+      this.endRound(teamsAlive[0], 'elimination', events);
+    } else if (teamsAlive.length === 0) {
+      const lastTeams = [...new Set(aliveAtStart.map((t) => t.team))];
+      const contenders = lastTeams.length > 0 ? lastTeams : Object.keys(this.scores).map(Number);
+      this.endRound(this.rules.resolveDoubleKnockout(this.scores, contenders), 'elimination', events);
+    }
+
+    return { tick: this.tick, events, roundWinner: this.roundWinner };
+  }
+
+  /**
+   * Add an event to this tick's result and publish it to subscribers
+   */
+  private publish(events: SimulationEvent[], event: SimulationEvent): void {
+    events.push(event);
+    this.events.emit(event);
+  }
+
+  private spawnPowerUp(events: SimulationEvent[]): void {
+    if (!this.settings.powerUps || this.powerups.length >= Constants.POWERUP_MAX_COUNT) return;
+
+    const powerup = this.entitySystem.spawnPowerUp(this.walls, this.crates, this.hazards, this.rng);
+    if (powerup) {
+      this.powerups.push(powerup);
+      this.publish(events, { type: 'powerup_spawned', powerup });
+    }
+  }
+
+  private endRound(winnerId: number, reason: RoundEndReason, events: SimulationEvent[]): void {
+    this.roundWinner = winnerId;
+    // New object so React state comparisons notice the change
+    this.scores = { ...this.scores, [winnerId]: (this.scores[winnerId] ?? 0) + 1 };
+    this.publish(events, { type: 'round_over', winnerId, reason });
+  }
+
+  /**
+   * Seed of the match random source
+   */
+  public getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  /**
+   * Random state the current round started from (see resetRound)
+   */
+  public getRoundRandomState(): number {
+    return this.roundRandomState;
+  }
+
+  /**
+   * Layout the simulation builds each round
+   */
+  public getMap(): MapPresetConfig {
+    return this.map;
+  }
+
+  /**
+   * Get elapsed round time in milliseconds
+   */
+  public getGameTime(): number {
+    return this.rules.getGameTime();
+  }
+
+  public setGameTime(ms: number): void {
+    this.rules.setGameTime(ms);
+  }
+
+  public getSuddenDeathState(): SuddenDeathState {
+    return this.rules.getSuddenDeathState();
+  }
+
+  public setSuddenDeathState(state: SuddenDeathState): void {
+    this.rules.setSuddenDeathState(state);
+  }
+
+  /**
+   * Check the score limit against the current match scores
+   */
+  public checkScoreLimit(): number | null {
+    return this.rules.checkScoreLimit(this.settings, this.scores);
+  }
+}
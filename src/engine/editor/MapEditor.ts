@@ -0,0 +1,403 @@
+// Map editor - edits a map layout with snapping and undo/redo, drawn with the game's own renderer
+import { Constants } from '../utils/Constants';
+import { Wall } from '../entities/Wall';
+import { Hazard } from '../entities/Hazard';
+import { Tank } from '../entities/Tank';
+import { RenderSystem } from '../systems/RenderSystem';
+import { DEFAULT_TANK_CONTROLS } from '../core/Simulation';
+import { validateLayout } from '../map/MapFormat';
+import type { MapPresetConfig, WallConfig } from '../map/MapPresets';
+
+export type EditorTool = 'select' | 'wall' | 'crate' | 'hazard' | 'spawn1' | 'spawn2' | 'erase';
+export type EditorObjectKind = 'walls' | 'crates' | 'hazards';
+type SpawnKey = 'p1' | 'p2';
+
+export interface EditorSelection {
+  kind: EditorObjectKind;
+  index: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type DragState =
+  | { mode: 'create'; kind: EditorObjectKind; start: Point; current: Point }
+  | { mode: 'move'; selection: EditorSelection; offset: Point; before: MapPresetConfig }
+  | { mode: 'resize'; selection: EditorSelection; before: MapPresetConfig }
+  | { mode: 'spawn'; spawn: SpawnKey; before: MapPresetConfig };
+
+// Size of an object placed with a single click
+const DEFAULT_SIZES: Record<EditorObjectKind, { w: number; h: number }> = {
+  walls: { w: 50, h: 50 },
+  crates: { w: 40, h: 40 },
+  hazards: { w: 100, h: 100 },
+};
+
+const KIND_FOR_TOOL: Partial<Record<EditorTool, EditorObjectKind>> = {
+  wall: 'walls',
+  crate: 'crates',
+  hazard: 'hazards',
+};
+
+const HISTORY_LIMIT = 100;
+const MIN_SIZE = 10;
+const HANDLE_SIZE = 12;
+const CLICK_DISTANCE = 4; // Drags shorter than this place a default-size object
+
+export const EMPTY_LAYOUT: MapPresetConfig = {
+  walls: [],
+  crates: [],
+  hazards: [],
+  spawnPoints: {
+    p1: { x: 100, y: 350 },
+    p2: { x: 900, y: 350 },
+  },
+};
+
+const cloneLayout = (layout: MapPresetConfig): MapPresetConfig => JSON.parse(JSON.stringify(layout));
+
+export class MapEditor {
+  public tool: EditorTool = 'wall';
+  public snap: number = 10; // Grid step in pixels, 0 turns snapping off
+  public selection: EditorSelection | null = null;
+
+  private layout: MapPresetConfig;
+  private undoStack: MapPresetConfig[] = [];
+  private redoStack: MapPresetConfig[] = [];
+  private drag: DragState | null = null;
+  private renderSystem = new RenderSystem();
+  private listeners = new Set<() => void>();
+
+  constructor(layout: MapPresetConfig = EMPTY_LAYOUT) {
+    this.layout = cloneLayout(layout);
+  }
+
+  /**
+   * Listen for layout, selection and history changes
+   * @returns a function that removes the listener
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+
+  public getLayout(): MapPresetConfig {
+    return cloneLayout(this.layout);
+  }
+
+  /**
+   * Replace the whole layout (undoable)
+   */
+  public loadLayout(layout: MapPresetConfig): void {
+    this.pushHistory();
+    this.layout = cloneLayout(layout);
+    this.selection = null;
+    this.notify();
+  }
+
+  /**
+   * Remove every object and put the spawns back at their defaults (undoable)
+   */
+  public clear(): void {
+    this.loadLayout(EMPTY_LAYOUT);
+  }
+
+  /**
+   * Check the layout is playable
+   * @returns a description of the first problem, or null if playable
+   */
+  public validate(): string | null {
+    return validateLayout(this.layout, { width: Constants.GAME_WIDTH, height: Constants.GAME_HEIGHT });
+  }
+
+  public setTool(tool: EditorTool): void {
+    this.tool = tool;
+    if (tool !== 'select') this.selection = null;
+    this.notify();
+  }
+
+  public setSnap(step: number): void {
+    this.snap = step;
+    this.notify();
+  }
+
+  // ============================================================================
+  // History
+  // ============================================================================
+
+  private pushHistory(snapshot: MapPresetConfig = cloneLayout(this.layout)): void {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public undo(): void {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+
+    this.redoStack.push(this.layout);
+    this.layout = previous;
+    this.selection = null;
+    this.notify();
+  }
+
+  public redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) return;
+
+    this.undoStack.push(this.layout);
+    this.layout = next;
+    this.selection = null;
+    this.notify();
+  }
+
+  // ============================================================================
+  // Editing
+  // ============================================================================
+
+  public deleteSelected(): void {
+    if (!this.selection) return;
+
+    this.pushHistory();
+    this.layout[this.selection.kind].splice(this.selection.index, 1);
+    this.selection = null;
+    this.notify();
+  }
+
+  /**
+   * Start an edit at a point in map coordinates (mouse down)
+   */
+  public pointerDown(x: number, y: number): void {
+    const point = this.clampPoint({ x, y });
+    const kind = KIND_FOR_TOOL[this.tool];
+
+    if (kind) {
+      const start = this.snapPoint(point);
+      this.drag = { mode: 'create', kind, start, current: start };
+    } else if (this.tool === 'spawn1' || this.tool === 'spawn2') {
+      const before = cloneLayout(this.layout);
+      this.drag = { mode: 'spawn', spawn: this.tool === 'spawn1' ? 'p1' : 'p2', before };
+      this.moveSpawn(this.drag.spawn, point);
+    } else if (this.tool === 'erase') {
+      const hit = this.hitTest(point);
+      if (hit) {
+        this.selection = hit;
+        this.deleteSelected();
+      }
+    } else {
+      this.beginSelectDrag(point);
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Continue an edit (mouse move)
+   */
+  public pointerMove(x: number, y: number): void {
+    if (!this.drag) return;
+    const point = this.clampPoint({ x, y });
+
+    switch (this.drag.mode) {
+      case 'create':
+        this.drag.current = this.snapPoint(point);
+        break;
+
+      case 'move': {
+        const rect = this.getRect(this.drag.selection);
+        const target = this.snapPoint({ x: point.x - this.drag.offset.x, y: point.y - this.drag.offset.y });
+        rect.x = Math.max(0, Math.min(Constants.GAME_WIDTH - rect.w, target.x));
+        rect.y = Math.max(0, Math.min(Constants.GAME_HEIGHT - rect.h, target.y));
+        break;
+      }
+
+      case 'resize': {
+        const rect = this.getRect(this.drag.selection);
+        const corner = this.snapPoint(point);
+        rect.w = Math.max(MIN_SIZE, corner.x - rect.x);
+        rect.h = Math.max(MIN_SIZE, corner.y - rect.y);
+        break;
+      }
+
+      case 'spawn':
+        this.moveSpawn(this.drag.spawn, point);
+        break;
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Finish an edit (mouse up)
+   */
+  public pointerUp(): void {
+    const drag = this.drag;
+    this.drag = null;
+    if (!drag) return;
+
+    if (drag.mode === 'create') {
+      this.pushHistory();
+      const rect = this.createRect(drag.kind, drag.start, drag.current);
+      if (drag.kind === 'hazards') this.layout.hazards.push({ ...rect, type: 'RADIATION' });
+      else if (drag.kind === 'crates') this.layout.crates.push({ ...rect, destructible: true });
+      else this.layout.walls.push(rect);
+      this.selection = { kind: drag.kind, index: this.layout[drag.kind].length - 1 };
+    } else if (JSON.stringify(drag.before) !== JSON.stringify(this.layout)) {
+      // Moves, resizes and spawn drags edit the layout live; record the state from before the drag
+      this.pushHistory(drag.before);
+    }
+
+    this.notify();
+  }
+
+  private beginSelectDrag(point: Point): void {
+    const before = cloneLayout(this.layout);
+
+    // Resize handle of the current selection
+    if (this.selection) {
+      const rect = this.getRect(this.selection);
+      if (
+        Math.abs(point.x - (rect.x + rect.w)) <= HANDLE_SIZE &&
+        Math.abs(point.y - (rect.y + rect.h)) <= HANDLE_SIZE
+      ) {
+        this.drag = { mode: 'resize', selection: this.selection, before };
+        return;
+      }
+    }
+
+    // Spawn points sit on top of everything else
+    const half = Constants.TANK_SIZE / 2;
+    for (const spawn of ['p1', 'p2'] as SpawnKey[]) {
+      const { x, y } = this.layout.spawnPoints[spawn];
+      if (Math.abs(point.x - x) <= half && Math.abs(point.y - y) <= half) {
+        this.selection = null;
+        this.drag = { mode: 'spawn', spawn, before };
+        return;
+      }
+    }
+
+    this.selection = this.hitTest(point);
+    if (this.selection) {
+      const rect = this.getRect(this.selection);
+      this.drag = { mode: 'move', selection: this.selection, offset: { x: point.x - rect.x, y: point.y - rect.y }, before };
+    }
+  }
+
+  private createRect(kind: EditorObjectKind, start: Point, end: Point): WallConfig {
+    let x = Math.min(start.x, end.x);
+    let y = Math.min(start.y, end.y);
+    let w = Math.abs(end.x - start.x);
+    let h = Math.abs(end.y - start.y);
+
+    if (w < CLICK_DISTANCE && h < CLICK_DISTANCE) {
+      ({ w, h } = DEFAULT_SIZES[kind]);
+    }
+    w = Math.max(MIN_SIZE, Math.min(w, Constants.GAME_WIDTH));
+    h = Math.max(MIN_SIZE, Math.min(h, Constants.GAME_HEIGHT));
+    x = Math.min(x, Constants.GAME_WIDTH - w);
+    y = Math.min(y, Constants.GAME_HEIGHT - h);
+
+    return { x, y, w, h };
+  }
+
+  private moveSpawn(spawn: SpawnKey, point: Point): void {
+    const half = Constants.TANK_SIZE / 2;
+    const snapped = this.snapPoint(point);
+    this.layout.spawnPoints[spawn] = {
+      x: Math.max(half, Math.min(Constants.GAME_WIDTH - half, snapped.x)),
+      y: Math.max(half, Math.min(Constants.GAME_HEIGHT - half, snapped.y)),
+    };
+  }
+
+  /**
+   * Topmost object under a point, in draw order (crates over walls over hazards)
+   */
+  private hitTest(point: Point): EditorSelection | null {
+    for (const kind of ['crates', 'walls', 'hazards'] as EditorObjectKind[]) {
+      const rects: WallConfig[] = this.layout[kind];
+      for (let index = rects.length - 1; index >= 0; index--) {
+        const r = rects[index];
+        if (point.x >= r.x && point.x <= r.x + r.w && point.y >= r.y && point.y <= r.y + r.h) {
+          return { kind, index };
+        }
+      }
+    }
+    return null;
+  }
+
+  private getRect(selection: EditorSelection): WallConfig {
+    return this.layout[selection.kind][selection.index];
+  }
+
+  private snapPoint(point: Point): Point {
+    if (this.snap <= 0) return { x: Math.round(point.x), y: Math.round(point.y) };
+    return {
+      x: Math.round(point.x / this.snap) * this.snap,
+      y: Math.round(point.y / this.snap) * this.snap,
+    };
+  }
+
+  private clampPoint(point: Point): Point {
+    return {
+      x: Math.max(0, Math.min(Constants.GAME_WIDTH, point.x)),
+      y: Math.max(0, Math.min(Constants.GAME_HEIGHT, point.y)),
+    };
+  }
+
+  // ============================================================================
+  // Drawing
+  // ============================================================================
+
+  public draw(ctx: CanvasRenderingContext2D): void {
+    const { walls, crates, hazards, spawnPoints } = this.layout;
+
+    this.renderSystem.renderMap(ctx, {
+      walls: walls.map((w) => new Wall(w.x, w.y, w.w, w.h, false)),
+      crates: crates.map((c) => new Wall(c.x, c.y, c.w, c.h, true)),
+      hazards: hazards.map((h) => new Hazard(h.x, h.y, h.w, h.h, h.type)),
+    });
+
+    new Tank(1, spawnPoints.p1.x, spawnPoints.p1.y, Constants.PLAYER1_COLOR, DEFAULT_TANK_CONTROLS).draw(ctx);
+    new Tank(2, spawnPoints.p2.x, spawnPoints.p2.y, Constants.PLAYER2_COLOR, DEFAULT_TANK_CONTROLS).draw(ctx);
+
+    ctx.save();
+
+    // Object being drawn
+    if (this.drag?.mode === 'create') {
+      const preview = this.createRect(this.drag.kind, this.drag.start, this.drag.current);
+      ctx.strokeStyle = '#ffffff';
+      ctx.setLineDash([6, 4]);
+      ctx.lineWidth = 1;
+      ctx.strokeRect(preview.x, preview.y, preview.w, preview.h);
+    }
+
+    // Selection outline and resize handle
+    if (this.selection) {
+      const rect = this.getRect(this.selection);
+      ctx.strokeStyle = '#00ffff';
+      ctx.setLineDash([4, 3]);
+      ctx.lineWidth = 2;
+      ctx.strokeRect(rect.x - 2, rect.y - 2, rect.w + 4, rect.h + 4);
+
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#00ffff';
+      ctx.fillRect(rect.x + rect.w - HANDLE_SIZE / 2, rect.y + rect.h - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,3 @@
+// Map editor exports
+export { MapEditor, EMPTY_LAYOUT } from './MapEditor';
+export type { EditorTool, EditorObjectKind, EditorSelection } from './MapEditor';
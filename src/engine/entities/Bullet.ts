@@ -2,6 +2,7 @@
 import { Vector } from '../utils/Vector';
 import { Wall } from './Wall';
 import { Constants, MAX_BOUNCES } from '../utils/Constants';
+import { getActivePalette, getPaletteColor } from '../utils/Palette';
 
 export type BulletType = 'NORMAL' | 'CHARGE' | 'SHOTGUN' | 'LASER';
 
@@ -16,6 +17,7 @@ export class Bullet {
   public type: BulletType;
   public damage: number;
   public bounces: number;
+  public ricochets: number = 0; // Bounces taken so far
 
   // Trail system
   public positionHistory: Vector[] = [];
@@ -26,7 +28,15 @@ export class Bullet {
   public isPredicted: boolean = false;
   public predictionId?: string;
 
-  constructor(x: number, y: number, angle: number, ownerColor: string, ownerId: number, type: BulletType = 'NORMAL') {
+  constructor(
+    x: number,
+    y: number,
+    angle: number,
+    ownerColor: string,
+    ownerId: number,
+    type: BulletType = 'NORMAL',
+    id?: string
+  ) {
     this.pos = new Vector(x, y);
 
     let speed: number = Constants.BULLET_SPEED;
@@ -38,7 +48,8 @@ export class Bullet {
     this.radius = type === 'CHARGE' ? Constants.CHARGE_BULLET_RADIUS : Constants.BULLET_RADIUS;
     this.color = ownerColor;
     this.ownerId = ownerId;
-    this.id = `${ownerId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    // Use provided ID if given (seeded simulation or server), otherwise generate new one
+    this.id = id || `${ownerId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     this.active = true;
     this.type = type;
 
@@ -58,7 +69,11 @@ export class Bullet {
     this.trailLength = length;
   }
 
-  update(walls: Wall[], crates: Wall[]): void {
+  /**
+   * Move one tick, bouncing off the arena edge, walls and crates
+   * @returns the wall or crate struck this tick, if any
+   */
+  update(walls: Wall[], crates: Wall[]): Wall | null {
     // Update position history for trails
     if (this.trailsEnabled) {
       this.positionHistory.push(this.pos.clone());
@@ -75,6 +90,7 @@ export class Bullet {
       if (this.bounces > 0) {
         this.vel.x *= -1;
         this.bounces--;
+        this.ricochets++;
         this.pos.x = Math.max(0, Math.min(Constants.GAME_WIDTH, this.pos.x));
       } else {
         this.active = false;
@@ -84,6 +100,7 @@ export class Bullet {
       if (this.bounces > 0) {
         this.vel.y *= -1;
         this.bounces--;
+        this.ricochets++;
         this.pos.y = Math.max(0, Math.min(Constants.GAME_HEIGHT, this.pos.y));
       } else {
         this.active = false;
@@ -109,6 +126,7 @@ export class Bullet {
             this.vel.y *= -1;
           }
           this.bounces--;
+          this.ricochets++;
           this.pos = this.pos.add(this.vel);
         } else {
           this.active = false;
@@ -117,27 +135,31 @@ export class Bullet {
         if (w.destructible) {
           w.takeDamage(this.damage);
         }
-        return;
+        return w;
       }
     }
+
+    return null;
   }
 
   draw(ctx: CanvasRenderingContext2D): void {
+    const color = getPaletteColor(getActivePalette(), this.color);
+
     // Draw trail if enabled and we have history
     if (this.trailsEnabled && this.positionHistory.length > 1) {
-      this.drawTrail(ctx);
+      this.drawTrail(ctx, color);
     }
 
     ctx.fillStyle = '#fff';
     ctx.shadowBlur = 10;
-    ctx.shadowColor = this.color;
+    ctx.shadowColor = color;
     ctx.beginPath();
     ctx.arc(this.pos.x, this.pos.y, this.radius, 0, Math.PI * 2);
     ctx.fill();
 
     // Charge Shot Extra Glow
     if (this.type === 'CHARGE') {
-      ctx.strokeStyle = this.color;
+      ctx.strokeStyle = color;
       ctx.lineWidth = 2;
       ctx.beginPath();
       ctx.arc(this.pos.x, this.pos.y, this.radius + 2, 0, Math.PI * 2);
@@ -147,7 +169,7 @@ export class Bullet {
     ctx.shadowBlur = 0;
   }
 
-  private drawTrail(ctx: CanvasRenderingContext2D): void {
+  private drawTrail(ctx: CanvasRenderingContext2D, color: string): void {
     const historyLen = this.positionHistory.length;
     if (historyLen < 2) return;
 
@@ -169,11 +191,11 @@ export class Bullet {
       ctx.moveTo(start.x, start.y);
       ctx.lineTo(end.x, end.y);
 
-      ctx.strokeStyle = this.color;
+      ctx.strokeStyle = color;
       ctx.globalAlpha = alpha * 0.7;
       ctx.lineWidth = lineWidth;
       ctx.shadowBlur = 5;
-      ctx.shadowColor = this.color;
+      ctx.shadowColor = color;
       ctx.stroke();
     }
 
@@ -183,11 +205,11 @@ export class Bullet {
       ctx.beginPath();
       ctx.moveTo(lastHistoryPos.x, lastHistoryPos.y);
       ctx.lineTo(this.pos.x, this.pos.y);
-      ctx.strokeStyle = this.color;
+      ctx.strokeStyle = color;
       ctx.globalAlpha = 0.9;
       ctx.lineWidth = this.radius * 2;
       ctx.shadowBlur = 8;
-      ctx.shadowColor = this.color;
+      ctx.shadowColor = color;
       ctx.stroke();
     }
 
@@ -1,4 +1,6 @@
 // Hazard zone class (extracted from HTML lines 436-471)
+import { getActivePalette } from '../utils/Palette';
+
 export type HazardType = 'RADIATION';
 
 export class Hazard {
@@ -18,8 +20,7 @@ export class Hazard {
 
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.type === 'RADIATION') {
-      ctx.fillStyle = 'rgba(0, 255, 0, 0.1)';
-      ctx.strokeStyle = '#00ff00';
+      const color = getActivePalette().hazard;
       ctx.lineWidth = 1;
 
       // Stripes effect
@@ -28,23 +29,46 @@ export class Hazard {
       ctx.rect(this.x, this.y, this.w, this.h);
       ctx.clip();
 
-      ctx.strokeStyle = 'rgba(0, 255, 0, 0.3)';
+      ctx.globalAlpha = 0.3;
+      ctx.strokeStyle = color;
       for (let i = 0; i < this.w + this.h; i += 20) {
         ctx.beginPath();
         ctx.moveTo(this.x + i, this.y);
         ctx.lineTo(this.x + i - 100, this.y + 200);
         ctx.stroke();
       }
+      this.drawTrefoil(ctx, color);
       ctx.restore();
 
       ctx.shadowBlur = 5;
-      ctx.shadowColor = '#00ff00';
-      ctx.strokeStyle = '#00ff00';
+      ctx.shadowColor = color;
+      ctx.strokeStyle = color;
       ctx.strokeRect(this.x, this.y, this.w, this.h);
       ctx.shadowBlur = 0;
     }
   }
 
+  // Radiation symbol in the middle of the zone
+  private drawTrefoil(ctx: CanvasRenderingContext2D, color: string): void {
+    const cx = this.x + this.w / 2;
+    const cy = this.y + this.h / 2;
+    const r = Math.min(18, this.w / 3, this.h / 3);
+
+    ctx.globalAlpha = 0.5;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    for (let i = 0; i < 3; i++) {
+      const a = -Math.PI / 2 + (i * Math.PI * 2) / 3;
+      ctx.moveTo(cx + Math.cos(a - Math.PI / 6) * r * 0.3, cy + Math.sin(a - Math.PI / 6) * r * 0.3);
+      ctx.arc(cx, cy, r, a - Math.PI / 6, a + Math.PI / 6);
+      ctx.arc(cx, cy, r * 0.3, a + Math.PI / 6, a - Math.PI / 6, true);
+    }
+    ctx.moveTo(cx + r * 0.18, cy);
+    ctx.arc(cx, cy, r * 0.18, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
   isPointInside(x: number, y: number): boolean {
     return x > this.x && x < this.x + this.w && y > this.y && y < this.y + this.h;
   }
@@ -1,5 +1,6 @@
 // Particle class for explosion effects (extracted from HTML lines 522-544)
 import { Vector } from '../utils/Vector';
+import { getActivePalette, getPaletteColor } from '../utils/Palette';
 
 export class Particle {
   public pos: Vector;
@@ -27,7 +28,7 @@ export class Particle {
 
   draw(ctx: CanvasRenderingContext2D): void {
     ctx.globalAlpha = Math.max(0, this.life);
-    ctx.fillStyle = this.color;
+    ctx.fillStyle = getPaletteColor(getActivePalette(), this.color);
     ctx.beginPath();
     ctx.arc(this.pos.x, this.pos.y, 2, 0, Math.PI * 2);
     ctx.fill();
@@ -1,6 +1,7 @@
 // PowerUp class (extracted from HTML lines 473-520)
 import { Vector } from '../utils/Vector';
 import { Constants } from '../utils/Constants';
+import { getActivePalette } from '../utils/Palette';
 
 export type PowerUpType = 'HEALTH' | 'SPEED' | 'SHOTGUN' | 'LASER' | 'SHIELD';
 
@@ -34,31 +35,7 @@ export class PowerUp {
     ctx.translate(this.pos.x, this.pos.y);
     ctx.scale(s, s);
 
-    let color = '#fff';
-    let label = '';
-
-    switch (this.type) {
-      case 'SPEED':
-        color = '#00ffff';
-        label = '>>';
-        break;
-      case 'HEALTH':
-        color = '#00ff00';
-        label = '+';
-        break;
-      case 'SHOTGUN':
-        color = '#ffaa00';
-        label = 'SG';
-        break;
-      case 'LASER':
-        color = '#ff00ff';
-        label = 'LZ';
-        break;
-      case 'SHIELD':
-        color = '#0088ff';
-        label = 'SH';
-        break;
-    }
+    const color = getActivePalette().powerups[this.type];
 
     ctx.shadowBlur = 15;
     ctx.shadowColor = color;
@@ -71,15 +48,70 @@ export class PowerUp {
     ctx.lineWidth = 2;
     ctx.stroke();
 
+    ctx.shadowBlur = 0;
     ctx.fillStyle = color;
-    ctx.font = 'bold 12px monospace';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(label, 0, 1);
+    ctx.strokeStyle = color;
+    this.drawGlyph(ctx);
 
     ctx.restore();
   }
 
+  // Each type has its own symbol, so powerups never rely on color alone
+  private drawGlyph(ctx: CanvasRenderingContext2D): void {
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+
+    switch (this.type) {
+      case 'SPEED':
+        // Double chevron
+        ctx.moveTo(-6, -5);
+        ctx.lineTo(-1, 0);
+        ctx.lineTo(-6, 5);
+        ctx.moveTo(1, -5);
+        ctx.lineTo(6, 0);
+        ctx.lineTo(1, 5);
+        ctx.stroke();
+        break;
+      case 'HEALTH':
+        // Cross
+        ctx.fillRect(-2, -7, 4, 14);
+        ctx.fillRect(-7, -2, 14, 4);
+        break;
+      case 'SHOTGUN':
+        // Three pellets in a spread
+        for (const [x, y] of [[5, -5], [6, 0], [5, 5]]) {
+          ctx.moveTo(x + 2, y);
+          ctx.arc(x, y, 2, 0, Math.PI * 2);
+        }
+        ctx.moveTo(-6, 0);
+        ctx.arc(-6, 0, 2, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'LASER':
+        // Lightning bolt
+        ctx.moveTo(2, -8);
+        ctx.lineTo(-4, 1);
+        ctx.lineTo(1, 1);
+        ctx.lineTo(-2, 8);
+        ctx.lineTo(4, -1);
+        ctx.lineTo(-1, -1);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'SHIELD':
+        // Shield crest
+        ctx.moveTo(0, -8);
+        ctx.lineTo(7, -5);
+        ctx.quadraticCurveTo(6, 4, 0, 8);
+        ctx.quadraticCurveTo(-6, 4, -7, -5);
+        ctx.closePath();
+        ctx.stroke();
+        break;
+    }
+  }
+
   isCollidingWith(pos: Vector, radius: number): boolean {
     if (!this.active) return false;
     return this.pos.distanceTo(pos) < this.radius + radius;
@@ -5,6 +5,9 @@ import { PowerUp, PowerUpType } from './PowerUp';
 import { Bullet, BulletType } from './Bullet';
 import { Hazard } from './Hazard';
 import { Constants, STARTING_HEALTH } from '../utils/Constants';
+import { SeededRandom } from '../utils/SeededRandom';
+import { getActivePalette, getHealthColor, getPaletteColor } from '../utils/Palette';
+import { getTankShape, traceShape } from '../utils/Shapes';
 
 export interface TankControls {
   up: string;
@@ -14,10 +17,20 @@ export interface TankControls {
   shoot: string;
 }
 
+/**
+ * Twin-stick input - movement speed follows the stick, the turret aims on its own
+ */
+export interface AnalogControl {
+  movement: { x: number; y: number }; // Magnitude 0-1 scales the speed
+  aim?: number; // Turret angle - the turret follows the hull when not given
+}
+
 export class Tank {
   public id: number;
+  public team: number; // Tanks on the same team are allies (every tank is its own team outside team play)
   public pos: Vector;
-  public angle: number;
+  public angle: number; // Hull
+  public turretAngle: number; // Barrel - matches the hull unless aimed independently
   public color: string;
   public controls: TankControls;
   public width: number;
@@ -28,6 +41,7 @@ export class Tank {
   public maxHealth: number;
   public health: number;
   public dead: boolean;
+  public environmentDamage: { hazard: number; suddenDeath: number } = { hazard: 0, suddenDeath: 0 }; // Dealt by the arena during the last update
 
   // Ammo & Reload
   public maxAmmo: number;
@@ -52,10 +66,23 @@ export class Tank {
   // AI Control
   public isAIControlled: boolean;
 
-  constructor(id: number, x: number, y: number, color: string, controls: TankControls) {
+  // Match random source (hazard rolls, bullet IDs)
+  public rng: SeededRandom;
+
+  constructor(
+    id: number,
+    x: number,
+    y: number,
+    color: string,
+    controls: TankControls,
+    rng: SeededRandom = new SeededRandom()
+  ) {
     this.id = id;
+    this.team = id;
     this.pos = new Vector(x, y);
-    this.angle = id === 1 ? 0 : Math.PI;
+    // Face the middle of the arena
+    this.angle = x <= Constants.GAME_WIDTH / 2 ? 0 : Math.PI;
+    this.turretAngle = this.angle;
     this.color = color;
     this.controls = controls;
     this.width = Constants.TANK_SIZE;
@@ -89,6 +116,8 @@ export class Tank {
 
     // AI Control
     this.isAIControlled = false;
+
+    this.rng = rng;
   }
 
   update(
@@ -96,12 +125,14 @@ export class Tank {
     walls: Wall[],
     crates: Wall[],
     hazards: Hazard[],
-    enemyTank: Tank,
+    otherTanks: Tank[],
     suddenDeathActive: boolean,
     suddenDeathInset: number,
     settings: { ammoSystem: boolean; charging: boolean; recoil: boolean },
-    deltaMultiplier: number = 1.0
+    deltaMultiplier: number = 1.0,
+    analog: AnalogControl | null = null
   ): Bullet[] {
+    this.environmentDamage = { hazard: 0, suddenDeath: 0 };
     if (this.dead) return [];
 
     const newBullets: Bullet[] = [];
@@ -129,8 +160,9 @@ export class Tank {
     for (const h of hazards) {
       if (h.type === 'RADIATION') {
         if (h.isPointInside(this.pos.x, this.pos.y)) {
-          if (Math.random() < Constants.RADIATION_DAMAGE_CHANCE) {
+          if (this.rng.next() < Constants.RADIATION_DAMAGE_CHANCE) {
             this.health -= Constants.RADIATION_DAMAGE;
+            this.environmentDamage.hazard += Constants.RADIATION_DAMAGE;
             if (this.health <= 0) this.die();
           }
         }
@@ -146,6 +178,7 @@ export class Tank {
         this.pos.y > Constants.GAME_HEIGHT - suddenDeathInset
       ) {
         this.health -= 2; // Shield doesn't protect from sudden death
+        this.environmentDamage.suddenDeath += 2;
         if (this.health <= 0) this.die();
       }
     }
@@ -155,11 +188,18 @@ export class Tank {
     // Directional Movement Logic
     let moveX = 0;
     let moveY = 0;
+    let throttle = 1;
 
-    if (keys[this.controls.up]) moveY = -1;
-    if (keys[this.controls.down]) moveY = 1;
-    if (keys[this.controls.left]) moveX = -1;
-    if (keys[this.controls.right]) moveX = 1;
+    if (analog) {
+      moveX = analog.movement.x;
+      moveY = analog.movement.y;
+      throttle = Math.min(1, Math.hypot(moveX, moveY));
+    } else {
+      if (keys[this.controls.up]) moveY = -1;
+      if (keys[this.controls.down]) moveY = 1;
+      if (keys[this.controls.left]) moveX = -1;
+      if (keys[this.controls.right]) moveX = 1;
+    }
 
     if (moveX !== 0 || moveY !== 0) {
       // Only rotate based on movement if not AI-controlled
@@ -177,7 +217,7 @@ export class Tank {
         }
       }
 
-      const velocity = new Vector(moveX, moveY).normalize().mult(currentSpeed);
+      const velocity = new Vector(moveX, moveY).normalize().mult(currentSpeed * throttle);
       const nextPos = this.pos.add(velocity);
 
       let collided = false;
@@ -205,9 +245,11 @@ export class Tank {
         }
       }
 
-      if (!enemyTank.dead) {
-        const dist = nextPos.sub(enemyTank.pos).mag();
-        if (dist < 35) collided = true;
+      for (const other of otherTanks) {
+        if (!other.dead && nextPos.sub(other.pos).mag() < 35) {
+          collided = true;
+          break;
+        }
       }
 
       if (!collided) {
@@ -215,6 +257,8 @@ export class Tank {
       }
     }
 
+    this.turretAngle = analog?.aim ?? this.angle;
+
     // Shooting & Charging Logic
     if (this.cooldown > 0) this.cooldown--;
 
@@ -290,19 +334,21 @@ export class Tank {
 
     // Create Bullets
     const barrelLen = 25;
-    const bx = this.pos.x + Math.cos(this.angle) * barrelLen;
-    const by = this.pos.y + Math.sin(this.angle) * barrelLen;
+    const bx = this.pos.x + Math.cos(this.turretAngle) * barrelLen;
+    const by = this.pos.y + Math.sin(this.turretAngle) * barrelLen;
+
+    const bulletId = () => `${this.id}-${this.rng.nextId()}`;
 
     if (shotType === 'SHOTGUN') {
-      bullets.push(new Bullet(bx, by, this.angle, this.color, this.id, 'SHOTGUN'));
-      bullets.push(new Bullet(bx, by, this.angle - 0.2, this.color, this.id, 'SHOTGUN'));
-      bullets.push(new Bullet(bx, by, this.angle + 0.2, this.color, this.id, 'SHOTGUN'));
+      bullets.push(new Bullet(bx, by, this.turretAngle, this.color, this.id, 'SHOTGUN', bulletId()));
+      bullets.push(new Bullet(bx, by, this.turretAngle - 0.2, this.color, this.id, 'SHOTGUN', bulletId()));
+      bullets.push(new Bullet(bx, by, this.turretAngle + 0.2, this.color, this.id, 'SHOTGUN', bulletId()));
     } else if (shotType === 'LASER') {
-      bullets.push(new Bullet(bx, by, this.angle, this.color, this.id, 'LASER'));
+      bullets.push(new Bullet(bx, by, this.turretAngle, this.color, this.id, 'LASER', bulletId()));
     } else if (shotType === 'CHARGE') {
-      bullets.push(new Bullet(bx, by, this.angle, this.color, this.id, 'CHARGE'));
+      bullets.push(new Bullet(bx, by, this.turretAngle, this.color, this.id, 'CHARGE', bulletId()));
     } else {
-      bullets.push(new Bullet(bx, by, this.angle, this.color, this.id, 'NORMAL'));
+      bullets.push(new Bullet(bx, by, this.turretAngle, this.color, this.id, 'NORMAL', bulletId()));
     }
 
     if (settings.ammoSystem) {
@@ -315,8 +361,8 @@ export class Tank {
     // Recoil
     if (settings.recoil) {
       const recoilVec = new Vector(
-        Math.cos(this.angle) * Constants.TANK_RECOIL_DISTANCE,
-        Math.sin(this.angle) * Constants.TANK_RECOIL_DISTANCE
+        Math.cos(this.turretAngle) * Constants.TANK_RECOIL_DISTANCE,
+        Math.sin(this.turretAngle) * Constants.TANK_RECOIL_DISTANCE
       );
       const nextPos = this.pos.sub(recoilVec);
 
@@ -381,22 +427,26 @@ export class Tank {
   draw(ctx: CanvasRenderingContext2D): void {
     if (this.dead) return;
 
+    const palette = getActivePalette();
+    const color = getPaletteColor(palette, this.color);
+
     ctx.save();
     ctx.translate(this.pos.x, this.pos.y);
 
-    // Powerup Rings
+    // Powerup Rings - dashed for speed, solid for a weapon, so they differ by more than color
     if (this.speedTimer > 0) {
       ctx.beginPath();
       ctx.arc(0, 0, 25, 0, Math.PI * 2);
-      ctx.strokeStyle = '#00ffff';
+      ctx.strokeStyle = palette.powerups.SPEED;
       ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
       ctx.stroke();
+      ctx.setLineDash([]);
     }
     if (this.weaponTimer > 0) {
-      const color = this.currentWeapon === 'SHOTGUN' ? '#ffaa00' : '#ff00ff';
       ctx.beginPath();
       ctx.arc(0, 0, 22, 0, Math.PI * 2);
-      ctx.strokeStyle = color;
+      ctx.strokeStyle = this.currentWeapon === 'SHOTGUN' ? palette.powerups.SHOTGUN : palette.powerups.LASER;
       ctx.lineWidth = 2;
       ctx.stroke();
     }
@@ -405,11 +455,14 @@ export class Tank {
     if (this.shieldTimer > 0) {
       ctx.beginPath();
       ctx.arc(0, 0, 30, 0, Math.PI * 2);
-      ctx.strokeStyle = `rgba(0, 136, 255, ${0.5 + Math.sin(Date.now() / 100) * 0.3})`;
+      ctx.strokeStyle = palette.powerups.SHIELD;
+      ctx.globalAlpha = 0.5 + Math.sin(Date.now() / 100) * 0.3;
       ctx.lineWidth = 3;
       ctx.stroke();
-      ctx.fillStyle = `rgba(0, 136, 255, 0.1)`;
+      ctx.fillStyle = palette.powerups.SHIELD;
+      ctx.globalAlpha = 0.1;
       ctx.fill();
+      ctx.globalAlpha = 1;
     }
 
     // Charge Indicator
@@ -433,10 +486,7 @@ export class Tank {
 
     // Health Fill
     const hpPercent = this.health / this.maxHealth;
-    let hpColor = '#00ff00';
-    if (hpPercent < 0.6) hpColor = '#ffff00';
-    if (hpPercent < 0.3) hpColor = '#ff0000';
-    ctx.fillStyle = hpColor;
+    ctx.fillStyle = getHealthColor(palette, hpPercent);
     ctx.fillRect(-19, -39, Math.max(0, 38 * hpPercent), 4);
 
     // Reload / Ammo UI
@@ -458,18 +508,28 @@ export class Tank {
 
     ctx.rotate(this.angle);
 
-    // Body
+    // Body - the hull's silhouette tells teams apart
+    const shape = getTankShape(this.team);
     ctx.shadowBlur = 20;
-    ctx.shadowColor = this.color;
+    ctx.shadowColor = color;
     ctx.fillStyle = '#000';
-    ctx.fillRect(-15, -15, 30, 30);
+    ctx.beginPath();
+    traceShape(ctx, shape, 0, 0, shape === 'square' ? 15 * Math.SQRT2 : 19);
+    ctx.fill();
 
-    ctx.strokeStyle = this.color;
+    ctx.strokeStyle = color;
     ctx.lineWidth = 3;
-    ctx.strokeRect(-15, -15, 30, 30);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.fillRect(-10, -18, 20, 4);
+    ctx.fillRect(-10, 14, 20, 4);
+
+    // Turret
+    ctx.rotate(this.turretAngle - this.angle);
 
     // Weapon specific barrel
-    ctx.fillStyle = this.color;
+    ctx.fillStyle = color;
     if (this.currentWeapon === 'SHOTGUN') {
       ctx.fillRect(0, -8, 20, 16); // Wide barrel
     } else if (this.currentWeapon === 'LASER') {
@@ -483,10 +543,6 @@ export class Tank {
     ctx.arc(0, 0, 8, 0, Math.PI * 2);
     ctx.fill();
 
-    ctx.fillStyle = this.color;
-    ctx.fillRect(-10, -18, 20, 4);
-    ctx.fillRect(-10, 14, 20, 4);
-
     ctx.restore();
   }
 }
@@ -1,5 +1,6 @@
 // Wall/Obstacle class (extracted from HTML lines 398-434)
 import { Constants } from '../utils/Constants';
+import { getActivePalette } from '../utils/Palette';
 
 export class Wall {
   public x: number;
@@ -26,16 +27,17 @@ export class Wall {
   draw(ctx: CanvasRenderingContext2D): void {
     if (!this.active) return;
 
+    const palette = getActivePalette();
+    const edge = this.destructible ? palette.crate : palette.wall;
     if (this.destructible) {
       ctx.fillStyle = `rgba(150, 100, 50, ${this.health / Constants.WALL_HEALTH})`;
-      ctx.strokeStyle = '#d68c24';
     } else {
       ctx.fillStyle = '#222';
-      ctx.strokeStyle = '#444';
     }
+    ctx.strokeStyle = edge;
 
     ctx.shadowBlur = 10;
-    ctx.shadowColor = this.destructible ? '#d68c24' : '#444';
+    ctx.shadowColor = edge;
     ctx.fillRect(this.x, this.y, this.w, this.h);
     ctx.lineWidth = 2;
     ctx.strokeRect(this.x, this.y, this.w, this.h);
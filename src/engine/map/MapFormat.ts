@@ -0,0 +1,182 @@
+// Custom map file format - versioned JSON wrapping a map layout with its name, author and size
+import { Logger } from '@/lib/logging/Logger';
+import { Constants } from '../utils/Constants';
+import { Vector } from '../utils/Vector';
+import { MapGenerator } from './MapGenerator';
+import { MAX_TANKS } from '../core/MatchMode';
+import type { HazardConfig, MapPresetConfig, WallConfig } from './MapPresets';
+
+export const MAP_FORMAT = 'neon-tank-map';
+export const MAP_FORMAT_VERSION = 1;
+
+// Upper bound on walls + crates + hazards, keeps shared maps cheap to simulate
+export const MAX_MAP_OBJECTS = 200;
+export const MAX_MAP_NAME_LENGTH = 40;
+
+export interface MapSize {
+  width: number;
+  height: number;
+}
+
+export interface CustomMapData {
+  format: typeof MAP_FORMAT;
+  version: number;
+  name: string;
+  author: string;
+  size: MapSize; // Must match the arena (Constants.GAME_WIDTH x GAME_HEIGHT)
+  metadata?: Record<string, unknown>; // Free-form extras such as a description or tags
+  layout: MapPresetConfig;
+}
+
+/**
+ * Wrap a layout in the custom map format
+ */
+export function createCustomMap(
+  name: string,
+  author: string,
+  layout: MapPresetConfig,
+  metadata?: Record<string, unknown>
+): CustomMapData {
+  return {
+    format: MAP_FORMAT,
+    version: MAP_FORMAT_VERSION,
+    name,
+    author,
+    size: { width: Constants.GAME_WIDTH, height: Constants.GAME_HEIGHT },
+    ...(metadata && { metadata }),
+    layout,
+  };
+}
+
+/**
+ * Serialize a custom map for download (indented so it can be edited by hand)
+ */
+export function exportMap(map: CustomMapData): string {
+  return JSON.stringify(map, null, 2);
+}
+
+/**
+ * Parse and validate a custom map file
+ * @returns the map, or null if the file is not a playable map
+ */
+export function importMap(json: string): CustomMapData | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    Logger.warn('[Map] File is not valid JSON');
+    return null;
+  }
+
+  const problem = validateMap(parsed);
+  if (problem) {
+    Logger.warn(`[Map] Rejected map file: ${problem}`);
+    return null;
+  }
+
+  return parsed as CustomMapData;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isRect = (value: unknown): value is WallConfig =>
+  isObject(value) &&
+  ['x', 'y', 'w', 'h'].every((key) => isFiniteNumber(value[key])) &&
+  (value.w as number) > 0 &&
+  (value.h as number) > 0;
+
+const isHazard = (value: unknown): value is HazardConfig =>
+  isObject(value) && isRect(value) && value.type === 'RADIATION';
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isInBounds = (rect: WallConfig, size: MapSize): boolean =>
+  rect.x >= 0 && rect.y >= 0 && rect.x + rect.w <= size.width && rect.y + rect.h <= size.height;
+
+/**
+ * Check whether a tank spawned at (x, y) would overlap a rectangle
+ */
+function spawnOverlaps(point: { x: number; y: number }, rect: WallConfig): boolean {
+  const half = Constants.TANK_SIZE / 2;
+  return (
+    point.x + half > rect.x &&
+    point.x - half < rect.x + rect.w &&
+    point.y + half > rect.y &&
+    point.y - half < rect.y + rect.h
+  );
+}
+
+/**
+ * Check a layout is playable in an arena of the given size
+ * @returns a description of the first problem found, or null if playable
+ */
+export function validateLayout(layout: unknown, size: MapSize): string | null {
+  if (!isObject(layout)) return 'missing layout';
+
+  const { walls, crates, hazards, spawnPoints } = layout;
+  if (!Array.isArray(walls) || !walls.every(isRect)) return 'walls must be rectangles with a positive size';
+  if (!Array.isArray(crates) || !crates.every(isRect)) return 'crates must be rectangles with a positive size';
+  if (!Array.isArray(hazards) || !hazards.every(isHazard)) return 'hazards must be RADIATION zones with a positive size';
+  if (walls.length + crates.length + hazards.length > MAX_MAP_OBJECTS) {
+    return `more than ${MAX_MAP_OBJECTS} objects`;
+  }
+
+  if ([...walls, ...crates, ...hazards].some((rect) => !isInBounds(rect, size))) {
+    return 'an object lies outside the map';
+  }
+
+  if (!isObject(spawnPoints) || !isPoint(spawnPoints.p1) || !isPoint(spawnPoints.p2)) return 'missing spawn points';
+  // Spawns for tanks 3 and up are optional - missing ones are placed automatically
+  const extra = spawnPoints.extra ?? [];
+  if (!Array.isArray(extra) || !extra.every(isPoint)) return 'extra spawn points must be points';
+  if (extra.length > MAX_TANKS - 2) return `more than ${MAX_TANKS} spawn points`;
+
+  const half = Constants.TANK_SIZE / 2;
+  for (const spawn of [spawnPoints.p1, spawnPoints.p2, ...extra]) {
+    if (spawn.x - half < 0 || spawn.y - half < 0 || spawn.x + half > size.width || spawn.y + half > size.height) {
+      return 'a spawn point lies outside the map';
+    }
+    if ([...walls, ...crates].some((rect) => spawnOverlaps(spawn, rect))) {
+      return 'a spawn point is inside a wall';
+    }
+  }
+
+  const generator = new MapGenerator();
+  const p1 = new Vector(spawnPoints.p1.x, spawnPoints.p1.y);
+  for (const spawn of [spawnPoints.p2, ...extra]) {
+    if (!generator.verifyPathExists(p1, new Vector(spawn.x, spawn.y), walls)) {
+      return 'no path between the spawn points';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the shape and playability of a parsed map file
+ * @returns a description of the first problem found, or null if valid
+ */
+export function validateMap(data: unknown): string | null {
+  if (!isObject(data)) return 'not an object';
+  if (data.format !== MAP_FORMAT) return 'not a Neon Tank map';
+  if (!isFiniteNumber(data.version)) return 'missing version';
+  if (data.version > MAP_FORMAT_VERSION) return `version ${data.version} is newer than this game supports`;
+  if (data.version !== MAP_FORMAT_VERSION) return `unsupported version ${data.version}`;
+  if (typeof data.name !== 'string' || data.name.trim() === '') return 'missing name';
+  if (data.name.length > MAX_MAP_NAME_LENGTH) return `name is longer than ${MAX_MAP_NAME_LENGTH} characters`;
+  if (typeof data.author !== 'string') return 'missing author';
+  if (data.metadata !== undefined && !isObject(data.metadata)) return 'metadata must be an object';
+
+  const size = data.size;
+  if (!isObject(size) || !isFiniteNumber(size.width) || !isFiniteNumber(size.height)) return 'missing size';
+  if (size.width !== Constants.GAME_WIDTH || size.height !== Constants.GAME_HEIGHT) {
+    return `size must be ${Constants.GAME_WIDTH}x${Constants.GAME_HEIGHT}`;
+  }
+
+  return validateLayout(data.layout, { width: size.width, height: size.height });
+}
@@ -3,6 +3,7 @@ import { Wall } from '../entities/Wall';
 import { Hazard, HazardType } from '../entities/Hazard';
 import { Vector } from '../utils/Vector';
 import { Constants } from '../utils/Constants';
+import { SeededRandom } from '../utils/SeededRandom';
 import {
   MapVariant,
   MapPresets,
@@ -16,29 +17,35 @@ export interface MapData {
   walls: Wall[];
   crates: Wall[];
   hazards: Hazard[];
-  spawnPoints: { p1: Vector; p2: Vector };
+  spawnPoints: { p1: Vector; p2: Vector; extra: Vector[] };
+}
+
+// Map choice shared between peers - the same variant and seed always generate the same layout
+export interface MapSelection {
+  variant: MapVariant;
+  seed: number;
 }
 
 export class MapGenerator {
-  private seed: number;
+  private rng: SeededRandom;
 
-  constructor(seed?: number) {
-    this.seed = seed ?? Date.now();
+  // Pass the match random source to keep map generation on the match seed
+  constructor(seed?: number | SeededRandom) {
+    this.rng = seed instanceof SeededRandom ? seed : new SeededRandom(seed);
   }
 
   /**
-   * Simple seeded random number generator (LCG)
+   * Generate a random integer between min and max (inclusive)
    */
-  private seededRandom(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
-    return this.seed / 4294967296;
+  private randomInt(min: number, max: number): number {
+    return this.rng.nextInt(min, max);
   }
 
   /**
-   * Generate a random integer between min and max (inclusive)
+   * Seeded entity ID so the same seed yields the same wall IDs
    */
-  private randomInt(min: number, max: number): number {
-    return Math.floor(this.seededRandom() * (max - min + 1)) + min;
+  private wallId(x: number, y: number): string {
+    return `wall-${x}-${y}-${this.rng.nextId()}`;
   }
 
   /**
@@ -58,11 +65,11 @@ export class MapGenerator {
    */
   private createMapFromPreset(preset: MapPresetConfig): MapData {
     const walls: Wall[] = preset.walls.map(
-      (w) => new Wall(w.x, w.y, w.w, w.h, w.destructible ?? false)
+      (w) => new Wall(w.x, w.y, w.w, w.h, w.destructible ?? false, this.wallId(w.x, w.y))
     );
 
     const crates: Wall[] = preset.crates.map(
-      (c) => new Wall(c.x, c.y, c.w, c.h, c.destructible ?? true)
+      (c) => new Wall(c.x, c.y, c.w, c.h, c.destructible ?? true, this.wallId(c.x, c.y))
     );
 
     const hazards: Hazard[] = preset.hazards.map(
@@ -72,6 +79,7 @@ export class MapGenerator {
     const spawnPoints = {
       p1: new Vector(preset.spawnPoints.p1.x, preset.spawnPoints.p1.y),
       p2: new Vector(preset.spawnPoints.p2.x, preset.spawnPoints.p2.y),
+      extra: (preset.spawnPoints.extra ?? []).map((s) => new Vector(s.x, s.y)),
     };
 
     return { walls, crates, hazards, spawnPoints };
@@ -86,17 +94,20 @@ export class MapGenerator {
     const crates: Wall[] = [];
     const hazards: Hazard[] = [];
 
-    // Define spawn points first (traditional left/right positions)
+    // Define spawn points first (traditional left/right positions, extra tanks in the corners)
     const spawnPoints = {
       p1: new Vector(100, 350),
       p2: new Vector(900, 350),
+      extra: [new Vector(100, 120), new Vector(900, 580), new Vector(100, 580), new Vector(900, 120)],
     };
 
     // Define spawn safe zones (areas where we won't place obstacles)
     const spawnSafeRadius = 120;
+    const cornerSafeRadius = 60; // Corner spawns sit against the edge, so less room is needed
     const spawnZones = [
       { x: spawnPoints.p1.x, y: spawnPoints.p1.y, radius: spawnSafeRadius },
       { x: spawnPoints.p2.x, y: spawnPoints.p2.y, radius: spawnSafeRadius },
+      ...spawnPoints.extra.map((s) => ({ x: s.x, y: s.y, radius: cornerSafeRadius })),
     ];
 
     // Generate walls
@@ -122,7 +133,7 @@ export class MapGenerator {
         continue;
       }
 
-      walls.push(new Wall(x, y, w, h, false));
+      walls.push(new Wall(x, y, w, h, false, this.wallId(x, y)));
     }
 
     // Generate crates
@@ -151,7 +162,7 @@ export class MapGenerator {
         continue;
       }
 
-      crates.push(new Wall(x, y, size, size, true));
+      crates.push(new Wall(x, y, size, size, true, this.wallId(x, y)));
     }
 
     // Generate hazards
@@ -179,12 +190,14 @@ export class MapGenerator {
       hazards.push(new Hazard(x, y, w, h, 'RADIATION'));
     }
 
-    // Verify path exists between spawn points
-    if (!this.verifyPathExists(spawnPoints.p1, spawnPoints.p2, walls)) {
-      // If no path exists, remove a random wall and try again
-      if (walls.length > 0) {
-        const removeIndex = this.randomInt(0, walls.length - 1);
-        walls.splice(removeIndex, 1);
+    // Verify a path exists from P1 to every other spawn point
+    for (const spawn of [spawnPoints.p2, ...spawnPoints.extra]) {
+      if (!this.verifyPathExists(spawnPoints.p1, spawn, walls)) {
+        // If no path exists, remove a random wall and try again
+        if (walls.length > 0) {
+          const removeIndex = this.randomInt(0, walls.length - 1);
+          walls.splice(removeIndex, 1);
+        }
       }
     }
 
@@ -274,7 +287,7 @@ export class MapGenerator {
    * Simple pathfinding verification using flood fill
    * Ensures tanks can reach each other
    */
-  private verifyPathExists(start: Vector, end: Vector, walls: Wall[]): boolean {
+  public verifyPathExists(start: Vector, end: Vector, walls: WallConfig[]): boolean {
     const gridSize = 50; // Grid cell size for pathfinding
     const gridWidth = Math.ceil(Constants.GAME_WIDTH / gridSize);
     const gridHeight = Math.ceil(Constants.GAME_HEIGHT / gridSize);
@@ -314,6 +327,9 @@ export class MapGenerator {
       y: Math.floor(end.y / gridSize),
     };
 
+    // A wall can share a coarse cell with a spawn point without covering it
+    grid[endCell.y][endCell.x] = true;
+
     const visited: boolean[][] = [];
     for (let y = 0; y < gridHeight; y++) {
       visited[y] = new Array(gridWidth).fill(false);
@@ -361,13 +377,44 @@ export class MapGenerator {
    * Set a new seed for random generation
    */
   public setSeed(seed: number): void {
-    this.seed = seed;
+    this.rng.reset(seed);
   }
 
   /**
    * Get current seed
    */
   public getSeed(): number {
-    return this.seed;
+    return this.rng.getSeed();
   }
 }
+
+/**
+ * Convert generated map data into a preset the Simulation rebuilds every round
+ */
+export function toMapPresetConfig(map: MapData): MapPresetConfig {
+  const toConfig = (wall: Wall): WallConfig => ({
+    x: wall.x,
+    y: wall.y,
+    w: wall.w,
+    h: wall.h,
+    destructible: wall.destructible,
+  });
+
+  return {
+    walls: map.walls.map(toConfig),
+    crates: map.crates.map(toConfig),
+    hazards: map.hazards.map((h): HazardConfig => ({ x: h.x, y: h.y, w: h.w, h: h.h, type: h.type })),
+    spawnPoints: {
+      p1: { x: map.spawnPoints.p1.x, y: map.spawnPoints.p1.y },
+      p2: { x: map.spawnPoints.p2.x, y: map.spawnPoints.p2.y },
+      extra: map.spawnPoints.extra.map((s) => ({ x: s.x, y: s.y })),
+    },
+  };
+}
+
+/**
+ * Generate the layout for a map selection
+ */
+export function buildMapPreset(selection: MapSelection): MapPresetConfig {
+  return toMapPresetConfig(new MapGenerator(selection.seed).generateMap(selection.variant));
+}
@@ -1,5 +1,6 @@
 // Map preset configurations for different map variants
 import { Vector } from '../utils/Vector';
+import { Constants } from '../utils/Constants';
 
 export type MapVariant = 'classic' | 'maze' | 'open' | 'fortress' | 'random';
 
@@ -22,8 +23,17 @@ export interface HazardConfig {
 export interface SpawnConfig {
   p1: { x: number; y: number };
   p2: { x: number; y: number };
+  extra?: { x: number; y: number }[]; // Tanks 3 and up, in order (team and free-for-all matches)
 }
 
+// Tanks 3-6 start in the corners: odd IDs on P1's side, even IDs on P2's (teams alternate the same way)
+const CORNER_SPAWNS = [
+  { x: 100, y: 120 },
+  { x: 900, y: 580 },
+  { x: 100, y: 580 },
+  { x: 900, y: 120 },
+];
+
 export interface MapPresetConfig {
   walls: WallConfig[];
   crates: WallConfig[];
@@ -57,6 +67,7 @@ const CLASSIC_PRESET: MapPresetConfig = {
   spawnPoints: {
     p1: { x: 100, y: 350 },
     p2: { x: 900, y: 350 },
+    extra: CORNER_SPAWNS,
   },
 };
 
@@ -97,6 +108,13 @@ const MAZE_PRESET: MapPresetConfig = {
   spawnPoints: {
     p1: { x: 50, y: 50 },
     p2: { x: 950, y: 650 },
+    // Along the open outer columns
+    extra: [
+      { x: 50, y: 650 },
+      { x: 950, y: 50 },
+      { x: 50, y: 350 },
+      { x: 950, y: 380 },
+    ],
   },
 };
 
@@ -130,6 +148,7 @@ const OPEN_PRESET: MapPresetConfig = {
   spawnPoints: {
     p1: { x: 100, y: 350 },
     p2: { x: 900, y: 350 },
+    extra: CORNER_SPAWNS,
   },
 };
 
@@ -169,6 +188,7 @@ const FORTRESS_PRESET: MapPresetConfig = {
   spawnPoints: {
     p1: { x: 100, y: 350 },
     p2: { x: 900, y: 350 },
+    extra: CORNER_SPAWNS,
   },
 };
 
@@ -208,3 +228,39 @@ export const RANDOM_MAP_PARAMS: RandomMapParams = {
   hazardMinSize: 60,
   hazardMaxSize: 120,
 };
+
+/**
+ * Spawn points for the first `count` tanks: P1, P2, then the map's extra spawns.
+ * Maps with too few spawns (e.g. custom duel maps) fall back to the clear spot
+ * furthest from the tanks already placed, on a 50px grid.
+ */
+export function getSpawnPoints(map: MapPresetConfig, count: number): { x: number; y: number }[] {
+  const { p1, p2, extra = [] } = map.spawnPoints;
+  const spawns = [p1, p2, ...extra].slice(0, count);
+  if (spawns.length >= count) return spawns;
+
+  const half = Constants.TANK_SIZE / 2;
+  const blocked = [...map.walls, ...map.crates];
+  const candidates: { x: number; y: number }[] = [];
+  for (let x = 50; x < Constants.GAME_WIDTH; x += 50) {
+    for (let y = 50; y < Constants.GAME_HEIGHT; y += 50) {
+      const clear = !blocked.some(
+        (r) => x + half > r.x && x - half < r.x + r.w && y + half > r.y && y - half < r.y + r.h
+      );
+      if (clear) candidates.push({ x, y });
+    }
+  }
+
+  const distanceToSpawns = (point: { x: number; y: number }) =>
+    Math.min(...spawns.map((s) => Math.hypot(s.x - point.x, s.y - point.y)));
+
+  while (spawns.length < count) {
+    let best = candidates[0] ?? p1;
+    for (const candidate of candidates) {
+      if (distanceToSpawns(candidate) > distanceToSpawns(best)) best = candidate;
+    }
+    spawns.push(best);
+  }
+
+  return spawns;
+}
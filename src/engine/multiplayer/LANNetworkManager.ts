@@ -3,6 +3,7 @@ import { LocalMultiplayerServer, LANGameState, LANMessage } from '../../lib/sock
 import { LocalMultiplayerClient } from '../../lib/socket/localClient';
 import type { Tank } from '../entities/Tank';
 import type { Bullet } from '../entities/Bullet';
+import type { ReplayData } from '../replay';
 
 export type LANRole = 'host' | 'guest';
 
@@ -10,6 +11,7 @@ export interface LANNetworkCallbacks {
   onStateUpdate?: (state: LANGameState) => void;
   onConnectionLost?: () => void;
   onInput?: (guestId: string, input: any) => void;
+  onReplay?: (replay: ReplayData) => void;
 }
 
 /**
@@ -71,6 +73,12 @@ export class LANNetworkManager {
       }
     });
 
+    this.client.onReplay((replay) => {
+      if (this.callbacks.onReplay) {
+        this.callbacks.onReplay(replay as ReplayData);
+      }
+    });
+
     this.client.onDisconnect(() => {
       Logger.debug('[LANNetworkManager] Disconnected from host');
       if (this.callbacks.onConnectionLost) {
@@ -102,13 +110,21 @@ export class LANNetworkManager {
   /**
    * Send player input (guest only)
    */
-  public sendInput(movement: { x: number; y: number }, shoot: boolean, chargeLevel: number): void {
+  public sendInput(
+    movement: { x: number; y: number },
+    shoot: boolean,
+    chargeLevel: number,
+    analog: boolean = false,
+    aim?: number
+  ): void {
     if (this.role !== 'guest' || !this.client) return;
 
     this.client.sendInput({
       movement,
       shoot,
       chargeLevel,
+      analog,
+      aim,
       timestamp: Date.now()
     });
   }
@@ -125,6 +141,7 @@ export class LANNetworkManager {
         position: { x: tank.pos.x, y: tank.pos.y },
         velocity: { x: 0, y: 0 }, // Tanks don't store velocity directly
         rotation: tank.angle,
+        turretRotation: tank.turretAngle,
         health: tank.health
       })),
       bullets: bullets.map(bullet => ({
@@ -140,6 +157,19 @@ export class LANNetworkManager {
     this.server.broadcastGameState(state);
   }
 
+  /**
+   * Share the match replay with the guest (host only)
+   */
+  public sendReplay(replay: ReplayData): void {
+    if (this.role !== 'host' || !this.server) return;
+
+    this.server.broadcast({
+      type: 'replay',
+      data: replay,
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * Start game loop (host only)
    */
@@ -6,26 +6,46 @@ import {
     ServerToClientEvents,
     PlayerInput,
     GameStateSnapshot,
+    NetworkGameEvent,
     SessionInfo,
     PlayerInfo,
+    OnlineGameSettings,
+    SessionRole,
+    RatingChange,
+    MatchStatsPayload,
+    RECONNECT_GRACE_MS,
 } from '@/lib/socket/events';
+import type { ReplayData } from '../replay';
+import { getTankCount } from '../core/MatchMode';
+import type { GameScores } from '../systems/GameRulesSystem';
+import type { RoundEndReason } from '../core/Simulation';
+
+const PLAYER_ID_STORAGE_KEY = 'neon-tank-duel-player-id';
+const PLAYER_TOKEN_STORAGE_KEY = 'neon-tank-duel-player-token';
+const PLAYER_NAME_STORAGE_KEY = 'neon-tank-duel-player-name';
 
 export type NetworkSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-export type NetworkStatus = 'disconnected' | 'connecting' | 'connected' | 'matchmaking' | 'matched' | 'in_game' | 'error';
+export type NetworkStatus = 'disconnected' | 'connecting' | 'connected' | 'matchmaking' | 'matched' | 'in_game' | 'reconnecting' | 'error';
 
 export interface NetworkCallbacks {
     onStatusChange: (status: NetworkStatus) => void;
     onGameState: (state: GameStateSnapshot) => void;
+    onGameEvents: (events: NetworkGameEvent[], tick: number) => void;
     onMatchFound: (opponent: PlayerInfo, tankId: number) => void;
     onPlayerJoined: (player: PlayerInfo) => void;
     onPlayerLeft: (playerId: string, reason: string) => void;
-    onGameOver: (winner: number, scores: { p1: number; p2: number }) => void;
+    onPlayerConnectionChange: (playerId: string, connected: boolean) => void;
+    // Re-joined after a reconnect, or moved into the opponent's session by matchmaking
+    onSessionJoined: (session: SessionInfo) => void;
+    onGameOver: (winner: number, scores: GameScores, ratings: RatingChange[], stats: MatchStatsPayload) => void;
+    onReplay: (replay: ReplayData) => void;
     onCountdown: (countdown: number) => void;
     onRoundStart: (roundNumber: number) => void;
-    onRoundOver: (roundNumber: number, winner: number, scores: { p1: number; p2: number }) => void;
+    onRoundOver: (roundNumber: number, winner: number, scores: GameScores, reason: RoundEndReason) => void;
     onError: (code: string, message: string) => void;
     onLatencyUpdate: (latency: number) => void;
+    onQueueUpdate: (position: number, estimatedWait: number) => void;
 }
 
 export class NetworkManager {
@@ -35,9 +55,12 @@ export class NetworkManager {
 
     // Player info
     private playerId: string;
+    private playerToken: string; // Proves we own playerId - the ID is public, this never leaves our requests
     private playerName: string;
     private sessionId: string | null = null;
     private assignedTankId: number | null = null;
+    private role: SessionRole = 'player';
+    private reconnectToken: string | null = null; // Secret for resuming our tank after the socket drops
 
     // Input tracking
     private inputSequence: number = 0;
@@ -47,15 +70,44 @@ export class NetworkManager {
     private latency: number = 0;
     private latencyPingInterval: NodeJS.Timeout | null = null;
 
+    // Matchmaking queue polling
+    private queuePollInterval: NodeJS.Timeout | null = null;
+
     constructor(playerId?: string, playerName?: string) {
-        this.playerId = playerId || this.generatePlayerId();
-        this.playerName = playerName || `Player_${this.playerId.substring(0, 6)}`;
+        this.playerId = playerId || this.loadPlayerId();
+        this.playerToken = this.loadPlayerToken();
+        this.playerName = playerName || this.getSavedPlayerName() || `Player_${this.playerId.substring(0, 6)}`;
     }
 
     private generatePlayerId(): string {
         return 'p_' + Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
     }
 
+    // Skill ratings and the player's profile are kept against the player ID, so it is reused across visits
+    private loadPlayerId(): string {
+        if (typeof window === 'undefined') return this.generatePlayerId();
+
+        const stored = window.localStorage.getItem(PLAYER_ID_STORAGE_KEY);
+        if (stored) return stored;
+
+        const playerId = this.generatePlayerId();
+        window.localStorage.setItem(PLAYER_ID_STORAGE_KEY, playerId);
+        return playerId;
+    }
+
+    // The server ties the player ID to the first token it sees with it, so the token is kept alongside
+    private loadPlayerToken(): string {
+        const generate = () => Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, '0')).join('');
+        if (typeof window === 'undefined') return generate();
+
+        const stored = window.localStorage.getItem(PLAYER_TOKEN_STORAGE_KEY);
+        if (stored) return stored;
+
+        const playerToken = generate();
+        window.localStorage.setItem(PLAYER_TOKEN_STORAGE_KEY, playerToken);
+        return playerToken;
+    }
+
     public setCallbacks(callbacks: Partial<NetworkCallbacks>): void {
         this.callbacks = { ...this.callbacks, ...callbacks };
     }
@@ -87,6 +139,17 @@ export class NetworkManager {
 
     public setPlayerName(name: string): void {
         this.playerName = name;
+        if (typeof window !== 'undefined') {
+            window.localStorage.setItem(PLAYER_NAME_STORAGE_KEY, name);
+        }
+    }
+
+    /**
+     * Name the player last chose on this browser, if any
+     */
+    public getSavedPlayerName(): string | null {
+        if (typeof window === 'undefined') return null;
+        return window.localStorage.getItem(PLAYER_NAME_STORAGE_KEY);
     }
 
     public getSessionId(): string | null {
@@ -97,6 +160,14 @@ export class NetworkManager {
         return this.assignedTankId;
     }
 
+    public getRole(): SessionRole {
+        return this.role;
+    }
+
+    public isSpectator(): boolean {
+        return this.role === 'spectator';
+    }
+
     public getLatency(): number {
         return this.latency;
     }
@@ -126,25 +197,49 @@ export class NetworkManager {
             this.socket = io(url, {
                 transports: ['websocket', 'polling'],
                 reconnection: true,
-                reconnectionAttempts: 5,
+                // Keep retrying for as long as the server holds our tank
+                reconnectionAttempts: Math.ceil(RECONNECT_GRACE_MS / 2000),
                 reconnectionDelay: 1000,
+                reconnectionDelayMax: 2000,
                 timeout: 10000,
             });
 
             this.socket.on('connect', () => {
                 Logger.debug('[NetworkManager] Connected to server');
-                this.setStatus('connected');
                 this.startLatencyPing();
+                if (this.status === 'reconnecting' && this.sessionId) {
+                    this.resumeSession();
+                } else {
+                    this.setStatus('connected');
+                }
                 resolve();
             });
 
             this.socket.on('disconnect', (reason) => {
                 Logger.debug('[NetworkManager] Disconnected:', reason);
-                this.setStatus('disconnected');
                 this.stopLatencyPing();
+
+                // Dropped mid-session - retry and pick the session back up on 'connect'
+                if (this.sessionId && reason !== 'io client disconnect') {
+                    this.setStatus('reconnecting');
+                    // socket.io only retries by itself when the drop wasn't the server's doing
+                    if (reason === 'io server disconnect') {
+                        this.socket?.connect();
+                    }
+                    return;
+                }
+
+                this.setStatus('disconnected');
+            });
+
+            this.socket.io.on('reconnect_failed', () => {
+                this.abandonSession('Could not reconnect to the server');
             });
 
             this.socket.on('connect_error', (error) => {
+                // Failed retries are expected while reconnecting
+                if (this.status === 'reconnecting') return;
+
                 console.error('[NetworkManager] Connection error:', error);
                 this.setStatus('error');
                 this.callbacks.onError?.('CONNECTION_ERROR', error.message);
@@ -171,8 +266,11 @@ export class NetworkManager {
         }
 
         this.stopLatencyPing();
+        this.stopQueuePolling();
         this.sessionId = null;
         this.assignedTankId = null;
+        this.reconnectToken = null;
+        this.role = 'player';
         this.setStatus('disconnected');
     }
 
@@ -192,6 +290,11 @@ export class NetworkManager {
             }
         });
 
+        // What happened on a server tick, for effects - sent right after that tick's game_state
+        this.socket.on('game_events', (payload) => {
+            this.callbacks.onGameEvents?.(payload.events, payload.tick);
+        });
+
         this.socket.on('match_found', (payload) => {
             this.sessionId = payload.sessionId;
             this.assignedTankId = payload.assignedTankId;
@@ -207,9 +310,21 @@ export class NetworkManager {
             this.callbacks.onPlayerLeft?.(payload.playerId, payload.reason);
         });
 
+        this.socket.on('player_disconnected', (payload) => {
+            this.callbacks.onPlayerConnectionChange?.(payload.playerId, false);
+        });
+
+        this.socket.on('player_reconnected', (payload) => {
+            this.callbacks.onPlayerConnectionChange?.(payload.playerId, true);
+        });
+
         this.socket.on('game_over', (payload) => {
             this.setStatus('connected');
-            this.callbacks.onGameOver?.(payload.winner, payload.finalScores);
+            this.callbacks.onGameOver?.(payload.winner, payload.finalScores, payload.ratings, payload.stats);
+        });
+
+        this.socket.on('replay_data', (payload) => {
+            this.callbacks.onReplay?.(payload.replay);
         });
 
         this.socket.on('countdown', (payload) => {
@@ -222,12 +337,22 @@ export class NetworkManager {
         });
 
         this.socket.on('round_over', (payload) => {
-            this.callbacks.onRoundOver?.(payload.roundNumber, payload.winner, payload.scores);
+            this.callbacks.onRoundOver?.(payload.roundNumber, payload.winner, payload.scores, payload.reason);
         });
 
         this.socket.on('error', (payload) => {
+            // A kicked player's session is gone - don't try to resume it when the socket drops
+            if (payload.code === 'KICKED') {
+                this.sessionId = null;
+                this.assignedTankId = null;
+                this.reconnectToken = null;
+            }
             this.callbacks.onError?.(payload.code, payload.message);
         });
+
+        this.socket.on('latency_probe', (ack) => {
+            ack();
+        });
     }
 
     // ============================================================================
@@ -235,7 +360,7 @@ export class NetworkManager {
     // ============================================================================
 
     public async findMatch(
-        gameSettings?: { scoreLimitValue: number; timeLimitEnabled: boolean; timeLimitSeconds: number }
+        gameSettings?: OnlineGameSettings
     ): Promise<SessionInfo> {
         if (!this.socket?.connected) {
             await this.connect();
@@ -251,6 +376,7 @@ export class NetworkManager {
                 body: JSON.stringify({
                     playerId: this.playerId,
                     playerName: this.playerName,
+                    playerToken: this.playerToken,
                 }),
             });
 
@@ -268,6 +394,7 @@ export class NetworkManager {
                 const session = await this.joinSession(data.sessionId, gameSettings);
 
                 // Start polling for opponent
+                this.callbacks.onQueueUpdate?.(data.queuePosition, data.estimatedWait);
                 if (session.players.length === 1) {
                     this.pollForOpponent();
                 }
@@ -283,40 +410,59 @@ export class NetworkManager {
     }
 
     private pollForOpponent(): void {
-        // Poll matchmaking API every 2 seconds to check if opponent joined
-        const pollInterval = setInterval(async () => {
-            try {
-                // Re-join matchmaking (will return matched if opponent found)
-                const response = await fetch('/api/matchmaking/join', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        playerId: this.playerId,
-                        playerName: this.playerName,
-                    }),
-                });
+        this.stopQueuePolling();
 
+        // Poll the matchmaking status every 2 seconds - this also keeps our queue entry alive
+        this.queuePollInterval = setInterval(async () => {
+            try {
+                const response = await fetch(`/api/matchmaking/status?playerId=${encodeURIComponent(this.playerId)}`);
                 const data = await response.json();
 
-                if (data.status === 'matched' && data.sessionId) {
-                    clearInterval(pollInterval);
-                    // Opponent found! The socket.io 'player_joined' event will handle the rest
-                    Logger.debug('[NetworkManager] Match found via polling!');
+                if (data.status === 'queued') {
+                    this.callbacks.onQueueUpdate?.(data.queuePosition, data.estimatedWait);
+                } else if (data.status === 'matched' && data.sessionId !== this.sessionId) {
+                    // Paired into the other player's session - move over to it
+                    this.stopQueuePolling();
+                    this.moveToSession(data.sessionId);
+                } else {
+                    // Matched (the socket.io 'player_joined' event will handle the rest) or dropped from the queue
+                    this.stopQueuePolling();
+                    Logger.debug('[NetworkManager] Left queue via polling:', data.status);
                 }
             } catch (error) {
                 console.error('[NetworkManager] Polling error:', error);
             }
         }, 2000);
+    }
+
+    private async moveToSession(sessionId: string): Promise<void> {
+        if (this.socket && this.sessionId) {
+            this.socket.emit('leave_game', {
+                sessionId: this.sessionId,
+                playerId: this.playerId,
+                reason: 'quit',
+            });
+        }
+
+        try {
+            const session = await this.joinSession(sessionId);
+            this.callbacks.onSessionJoined?.(session);
+        } catch (error) {
+            this.callbacks.onError?.('MATCH_JOIN_FAILED', error instanceof Error ? error.message : String(error));
+        }
+    }
 
-        // Clean up polling after 5 minutes
-        setTimeout(() => {
-            clearInterval(pollInterval);
-        }, 5 * 60 * 1000);
+    private stopQueuePolling(): void {
+        if (this.queuePollInterval) {
+            clearInterval(this.queuePollInterval);
+            this.queuePollInterval = null;
+        }
     }
 
     public async joinSession(
         sessionId: string,
-        gameSettings?: { scoreLimitValue: number; timeLimitEnabled: boolean; timeLimitSeconds: number }
+        gameSettings?: OnlineGameSettings,
+        role: SessionRole = 'player'
     ): Promise<SessionInfo> {
         return new Promise((resolve, reject) => {
             if (!this.socket?.connected) {
@@ -328,13 +474,22 @@ export class NetworkManager {
                 sessionId,
                 playerId: this.playerId,
                 playerName: this.playerName,
+                playerToken: this.playerToken,
                 gameSettings,
+                role,
             }, (response) => {
                 if (response.success && response.session) {
+                    const { players, settings, gameState } = response.session;
                     this.sessionId = sessionId;
                     this.assignedTankId = response.assignedTankId || null;
-
-                    if (response.session.players.length === 2) {
+                    this.reconnectToken = response.reconnectToken ?? null;
+                    this.role = role;
+
+                    if (role === 'spectator') {
+                        // Spectators watch a match in progress straight away, or wait for it to start
+                        const inProgress = gameState === 'countdown' || gameState === 'playing' || gameState === 'round_over';
+                        this.setStatus(inProgress ? 'in_game' : 'matchmaking');
+                    } else if (players.length === getTankCount(settings.matchMode, settings.ffaPlayerCount)) {
                         this.setStatus('matched');
                     } else {
                         this.setStatus('matchmaking');
@@ -349,8 +504,64 @@ export class NetworkManager {
         });
     }
 
+    /**
+     * Rejoin the current session after the socket reconnects
+     */
+    private resumeSession(): void {
+        if (!this.socket || !this.sessionId) return;
+
+        this.socket.emit('join_game', {
+            sessionId: this.sessionId,
+            playerId: this.playerId,
+            playerName: this.playerName,
+            playerToken: this.playerToken,
+            role: this.role,
+            resume: this.role === 'player',
+            reconnectToken: this.reconnectToken ?? undefined,
+        }, (response) => {
+            if (!response.success || !response.session) {
+                this.abandonSession(response.error || 'Failed to resume session');
+                return;
+            }
+
+            this.reconnectToken = response.reconnectToken ?? null;
+
+            Logger.debug('[NetworkManager] Resumed session', this.sessionId);
+
+            // Inputs sent before the drop were never acknowledged
+            this.pendingInputs = [];
+
+            const { gameState } = response.session;
+            if (gameState === 'waiting') {
+                this.setStatus('matchmaking');
+            } else if (gameState === 'countdown') {
+                this.setStatus('matched');
+            } else if (gameState === 'game_over') {
+                this.setStatus('connected');
+            } else {
+                this.setStatus('in_game');
+            }
+
+            this.callbacks.onSessionJoined?.(response.session);
+        });
+    }
+
+    /**
+     * Give up on a session we lost the connection to
+     */
+    private abandonSession(message: string): void {
+        Logger.warn('[NetworkManager] Lost session:', message);
+        this.sessionId = null;
+        this.assignedTankId = null;
+        this.reconnectToken = null;
+        this.role = 'player';
+        this.setStatus('error');
+        this.callbacks.onError?.('RECONNECT_FAILED', message);
+    }
+
     public leaveMatch(): void {
         // Leave matchmaking queue
+        this.stopQueuePolling();
         fetch(`/api/matchmaking/join?playerId=${this.playerId}`, {
             method: 'DELETE',
         }).catch(err => console.error('Failed to leave queue:', err));
@@ -364,6 +575,8 @@ export class NetworkManager {
 
             this.sessionId = null;
             this.assignedTankId = null;
+            this.reconnectToken = null;
+            this.role = 'player';
             this.setStatus('connected');
         }
     }
@@ -372,8 +585,14 @@ export class NetworkManager {
     // Input Sending
     // ============================================================================
 
-    public sendInput(movement: { x: number; y: number }, shoot: boolean, chargeLevel: number = 0): void {
-        if (!this.socket?.connected || !this.sessionId) return;
+    public sendInput(
+        movement: { x: number; y: number },
+        shoot: boolean,
+        chargeLevel: number = 0,
+        analog: boolean = false,
+        aim?: number
+    ): void {
+        if (!this.socket?.connected || !this.sessionId || this.role === 'spectator') return;
 
         const input: PlayerInput = {
             movement,
@@ -382,6 +601,10 @@ export class NetworkManager {
             sequenceNumber: ++this.inputSequence,
             timestamp: Date.now(),
         };
+        if (analog) {
+            input.analog = true;
+            input.aim = aim;
+        }
 
         this.pendingInputs.push(input);
 
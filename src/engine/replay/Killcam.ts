@@ -0,0 +1,196 @@
+// Killcam - a rolling buffer of recent frames, replayed in slow motion after the round-ending kill
+import { Bullet } from '../entities/Bullet';
+import type { BulletType } from '../entities/Bullet';
+import { Tank } from '../entities/Tank';
+import type { Simulation } from '../core/Simulation';
+import type { ReplayCamera } from './ReplayCamera';
+
+export const KILLCAM_BUFFER_FRAMES = 180; // ~3 seconds at 60 ticks per second
+const PLAYBACK_SPEED = 0.4; // Frames advanced per rendered frame
+const LEAD_FRAMES = 30; // Shown before the killing shot was fired
+const HOLD_FRAMES = 45; // The last frame lingers this long before the round ends
+const CAMERA_ZOOM = 2;
+const CAMERA_EASING = 0.15;
+
+interface KillcamTankState {
+  id: number;
+  x: number;
+  y: number;
+  angle: number;
+  turretAngle: number;
+  health: number;
+  dead: boolean;
+  shieldTimer: number;
+  ammo: number;
+  isReloading: boolean;
+  reloadTimer: number;
+  chargeLevel: number;
+  isCharging: boolean;
+}
+
+interface KillcamBulletState {
+  id: string;
+  x: number;
+  y: number;
+  ownerId: number;
+  type: BulletType;
+  color: string;
+}
+
+export interface KillcamFrame {
+  tanks: KillcamTankState[];
+  bullets: KillcamBulletState[];
+}
+
+export interface KillcamKill {
+  bulletId: string;
+  victimId: number;
+}
+
+/**
+ * Ring buffer of the last few seconds of tank and bullet state
+ */
+export class KillcamRecorder {
+  private frames: KillcamFrame[] = [];
+  private next = 0;
+
+  public capture(simulation: Simulation): void {
+    const frame: KillcamFrame = {
+      tanks: simulation.tanks.map((t) => ({
+        id: t.id,
+        x: t.pos.x,
+        y: t.pos.y,
+        angle: t.angle,
+        turretAngle: t.turretAngle,
+        health: t.health,
+        dead: t.dead,
+        shieldTimer: t.shieldTimer,
+        ammo: t.ammo,
+        isReloading: t.isReloading,
+        reloadTimer: t.reloadTimer,
+        chargeLevel: t.chargeLevel,
+        isCharging: t.isCharging,
+      })),
+      bullets: simulation.bullets.map((b) => ({
+        id: b.id,
+        x: b.pos.x,
+        y: b.pos.y,
+        ownerId: b.ownerId,
+        type: b.type,
+        color: b.color,
+      })),
+    };
+
+    if (this.frames.length < KILLCAM_BUFFER_FRAMES) {
+      this.frames.push(frame);
+    } else {
+      this.frames[this.next] = frame;
+    }
+    this.next = (this.next + 1) % KILLCAM_BUFFER_FRAMES;
+  }
+
+  /**
+   * Buffered frames, oldest first
+   */
+  public getFrames(): KillcamFrame[] {
+    if (this.frames.length < KILLCAM_BUFFER_FRAMES) return [...this.frames];
+    return [...this.frames.slice(this.next), ...this.frames.slice(0, this.next)];
+  }
+
+  public clear(): void {
+    this.frames = [];
+    this.next = 0;
+  }
+}
+
+/**
+ * Slow-motion playback of buffered frames, the camera riding the killing bullet
+ */
+export class KillcamPlayback {
+  private position: number;
+  private cameraPlaced = false;
+  private ghosts: Map<number, Tank> = new Map();
+
+  constructor(
+    private frames: KillcamFrame[],
+    private kill: KillcamKill,
+    simulation: Simulation
+  ) {
+    // Start shortly before the killing shot, or at the oldest frame if it was fired earlier
+    const fired = frames.findIndex((f) => f.bullets.some((b) => b.id === kill.bulletId));
+    this.position = fired === -1 ? 0 : Math.max(0, fired - LEAD_FRAMES);
+
+    // Stand-in tanks for drawing - the live ones keep their current state
+    for (const tank of simulation.tanks) {
+      const ghost = new Tank(tank.id, tank.pos.x, tank.pos.y, tank.color, tank.controls);
+      ghost.team = tank.team;
+      ghost.maxHealth = tank.maxHealth;
+      this.ghosts.set(tank.id, ghost);
+    }
+  }
+
+  /**
+   * Advance playback
+   * @returns false once the killcam is over
+   */
+  public update(): boolean {
+    this.position += PLAYBACK_SPEED;
+    return this.position < this.frames.length - 1 + HOLD_FRAMES;
+  }
+
+  private get frame(): KillcamFrame {
+    return this.frames[Math.min(Math.floor(this.position), this.frames.length - 1)];
+  }
+
+  /**
+   * Tanks and bullets as they were at the current playback frame
+   */
+  public getEntities(): { tanks: Tank[]; bullets: Bullet[] } {
+    const frame = this.frame;
+    const tanks: Tank[] = [];
+
+    for (const state of frame.tanks) {
+      const ghost = this.ghosts.get(state.id);
+      if (!ghost) continue;
+
+      ghost.pos.x = state.x;
+      ghost.pos.y = state.y;
+      ghost.angle = state.angle;
+      ghost.turretAngle = state.turretAngle;
+      ghost.health = state.health;
+      ghost.dead = state.dead;
+      ghost.shieldTimer = state.shieldTimer;
+      ghost.ammo = state.ammo;
+      ghost.isReloading = state.isReloading;
+      ghost.reloadTimer = state.reloadTimer;
+      ghost.chargeLevel = state.chargeLevel;
+      ghost.isCharging = state.isCharging;
+      tanks.push(ghost);
+    }
+
+    const bullets = frame.bullets.map((b) => new Bullet(b.x, b.y, 0, b.color, b.ownerId, b.type, b.id));
+    return { tanks, bullets };
+  }
+
+  /**
+   * Ease the camera towards the killing bullet, or the victim once the bullet has landed
+   */
+  public updateCamera(camera: ReplayCamera): void {
+    const frame = this.frame;
+    const bullet = frame.bullets.find((b) => b.id === this.kill.bulletId);
+    const victim = frame.tanks.find((t) => t.id === this.kill.victimId);
+    const target = bullet ?? victim;
+    if (!target) return;
+
+    if (!this.cameraPlaced) {
+      camera.focusOn(target.x, target.y, CAMERA_ZOOM);
+      this.cameraPlaced = true;
+      return;
+    }
+    camera.focusOn(
+      camera.x + (target.x - camera.x) * CAMERA_EASING,
+      camera.y + (target.y - camera.y) * CAMERA_EASING,
+      CAMERA_ZOOM
+    );
+  }
+}
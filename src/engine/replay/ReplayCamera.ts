@@ -0,0 +1,104 @@
+// Free camera for replay viewing - pan, zoom and optional tank follow
+import { Constants } from '../utils/Constants';
+import type { Tank } from '../entities/Tank';
+
+export class ReplayCamera {
+  public static readonly MIN_ZOOM = 1;
+  public static readonly MAX_ZOOM = 4;
+
+  // World point at the centre of the view
+  public x: number = Constants.GAME_WIDTH / 2;
+  public y: number = Constants.GAME_HEIGHT / 2;
+  public zoom: number = 1;
+  public followTankId: number | null = null;
+
+  /**
+   * Move the view by a screen-space offset (stops following)
+   */
+  public pan(dx: number, dy: number): void {
+    this.followTankId = null;
+    this.x += dx / this.zoom;
+    this.y += dy / this.zoom;
+    this.clamp();
+  }
+
+  /**
+   * Zoom by a factor, keeping the world point under (screenX, screenY) in place
+   */
+  public zoomAt(factor: number, screenX: number, screenY: number): void {
+    const before = this.screenToWorld(screenX, screenY);
+    this.zoom = Math.max(ReplayCamera.MIN_ZOOM, Math.min(ReplayCamera.MAX_ZOOM, this.zoom * factor));
+    const after = this.screenToWorld(screenX, screenY);
+
+    if (this.followTankId === null) {
+      this.x += before.x - after.x;
+      this.y += before.y - after.y;
+    }
+    this.clamp();
+  }
+
+  /**
+   * Centre the view on a world point at a given zoom (stops following)
+   */
+  public focusOn(x: number, y: number, zoom: number): void {
+    this.followTankId = null;
+    this.zoom = Math.max(ReplayCamera.MIN_ZOOM, Math.min(ReplayCamera.MAX_ZOOM, zoom));
+    this.x = x;
+    this.y = y;
+    this.clamp();
+  }
+
+  public follow(tankId: number | null): void {
+    this.followTankId = tankId;
+  }
+
+  public reset(): void {
+    this.x = Constants.GAME_WIDTH / 2;
+    this.y = Constants.GAME_HEIGHT / 2;
+    this.zoom = 1;
+    this.followTankId = null;
+  }
+
+  /**
+   * Track the followed tank, if any
+   */
+  public update(tanks: Tank[]): void {
+    if (this.followTankId === null) return;
+
+    const target = tanks.find((t) => t.id === this.followTankId);
+    if (target) {
+      this.x = target.pos.x;
+      this.y = target.pos.y;
+      this.clamp();
+    }
+  }
+
+  public screenToWorld(screenX: number, screenY: number): { x: number; y: number } {
+    return {
+      x: this.x + (screenX - Constants.GAME_WIDTH / 2) / this.zoom,
+      y: this.y + (screenY - Constants.GAME_HEIGHT / 2) / this.zoom,
+    };
+  }
+
+  /**
+   * Apply the camera transform to the canvas context
+   */
+  public apply(ctx: CanvasRenderingContext2D): void {
+    ctx.setTransform(
+      this.zoom,
+      0,
+      0,
+      this.zoom,
+      Constants.GAME_WIDTH / 2 - this.x * this.zoom,
+      Constants.GAME_HEIGHT / 2 - this.y * this.zoom
+    );
+  }
+
+  // Keep the view inside the arena
+  private clamp(): void {
+    const halfW = Constants.GAME_WIDTH / 2 / this.zoom;
+    const halfH = Constants.GAME_HEIGHT / 2 / this.zoom;
+    this.x = Math.max(halfW, Math.min(Constants.GAME_WIDTH - halfW, this.x));
+    this.y = Math.max(halfH, Math.min(Constants.GAME_HEIGHT - halfH, this.y));
+  }
+}
@@ -0,0 +1,249 @@
+// Replay file format - versioned JSON holding everything needed to re-simulate a match
+import { Logger } from '@/lib/logging/Logger';
+import type { GameSettings } from '../core/Game';
+import type { SimulationSettings, InputFrame, TankInput } from '../core/Simulation';
+import type { MapPresetConfig } from '../map/MapPresets';
+import type { GameScores } from '../systems/GameRulesSystem';
+
+export const REPLAY_FORMAT = 'neon-tank-replay';
+// Version 2 keys round scores by team; version 1 files are migrated on import
+export const REPLAY_FORMAT_VERSION = 2;
+const OLDEST_REPLAY_FORMAT_VERSION = 1;
+
+export type ReplaySourceMode = 'local' | 'ai' | 'lan' | 'online';
+
+// Rule settings the simulation needs, plus whatever client settings were resolved at record time
+export type ReplaySettings = SimulationSettings & Partial<GameSettings>;
+
+// [movementX, movementY, shoot (0/1), chargeLevel | null, angle | null, aim | null] - trailing fields omitted
+// when unused; the sixth is present only for twin-stick input (null until the player has aimed)
+export type EncodedTankInput = [number, number, number, (number | null)?, (number | null)?, (number | null)?];
+
+// Tank ID -> input for one tick
+export type EncodedFrame = Record<string, EncodedTankInput>;
+
+// Run-length encoded inputs: [number of consecutive ticks, frame applied on each]
+export type InputRun = [number, EncodedFrame];
+
+// Authoritative bullet hit: [tick, bullet ID, tank ID]
+export type ReplayHit = [number, string, number];
+
+export interface ReplayRound {
+  startScores: GameScores;
+  randomState: number; // Simulation.getRoundRandomState() when the round began
+  ticks: number;
+  winnerId: number | null;
+  inputs: InputRun[];
+  // Present when hits were decided outside the simulation (server lag compensation)
+  hits?: ReplayHit[];
+}
+
+export interface ReplayData {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  createdAt: string;
+  sourceMode: ReplaySourceMode;
+  seed: number;
+  settings: ReplaySettings;
+  map: MapPresetConfig;
+  rounds: ReplayRound[];
+}
+
+/**
+ * Encode one tank input into its compact tuple form
+ */
+function encodeTankInput(input: TankInput): EncodedTankInput {
+  const encoded: EncodedTankInput = [input.movement.x, input.movement.y, input.shoot ? 1 : 0];
+  if (input.analog) {
+    encoded.push(input.chargeLevel ?? null, input.angle ?? null, input.aim ?? null);
+  } else if (input.angle !== undefined) {
+    encoded.push(input.chargeLevel ?? null, input.angle);
+  } else if (input.chargeLevel !== undefined) {
+    encoded.push(input.chargeLevel);
+  }
+  return encoded;
+}
+
+function decodeTankInput(encoded: EncodedTankInput): TankInput {
+  const [x, y, shoot, chargeLevel, angle, aim] = encoded;
+  const input: TankInput = { movement: { x, y }, shoot: shoot === 1 };
+  if (chargeLevel !== undefined && chargeLevel !== null) input.chargeLevel = chargeLevel;
+  if (angle !== undefined && angle !== null) input.angle = angle;
+  if (aim !== undefined) {
+    input.analog = true;
+    if (aim !== null) input.aim = aim;
+  }
+  return input;
+}
+
+export function encodeFrame(frame: InputFrame): EncodedFrame {
+  const encoded: EncodedFrame = {};
+  for (const [tankId, input] of frame) {
+    encoded[tankId] = encodeTankInput(input);
+  }
+  return encoded;
+}
+
+export function decodeFrame(encoded: EncodedFrame): InputFrame {
+  const frame: InputFrame = new Map();
+  for (const [tankId, input] of Object.entries(encoded)) {
+    frame.set(Number(tankId), decodeTankInput(input));
+  }
+  return frame;
+}
+
+/**
+ * Expand a round's run-length encoded inputs to one frame per tick
+ */
+export function decodeInputs(runs: InputRun[]): InputFrame[] {
+  const frames: InputFrame[] = [];
+  for (const [count, encoded] of runs) {
+    const frame = decodeFrame(encoded);
+    for (let i = 0; i < count; i++) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * Serialize a replay for download
+ */
+export function exportReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay file
+ * @returns the replay, or null if the file is not a replay this version can play
+ */
+export function importReplay(json: string): ReplayData | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    Logger.warn('[Replay] File is not valid JSON');
+    return null;
+  }
+
+  const problem = validateReplay(parsed);
+  if (problem) {
+    Logger.warn(`[Replay] Rejected replay file: ${problem}`);
+    return null;
+  }
+
+  return migrateReplay(parsed as ReplayData);
+}
+
+/**
+ * Bring a replay from an older version up to the current one, a version at a time
+ */
+function migrateReplay(replay: ReplayData): ReplayData {
+  if (replay.version === 1) {
+    // Version 1 predates team play and stored duel scores as { p1, p2 }
+    for (const round of replay.rounds) {
+      const { p1, p2 } = round.startScores as unknown as { p1: number; p2: number };
+      round.startScores = { 1: p1, 2: p2 };
+    }
+    replay.version = 2;
+  }
+  return replay;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isRect = (value: unknown): boolean =>
+  isObject(value) && ['x', 'y', 'w', 'h'].every((key) => isFiniteNumber(value[key]));
+
+const isPoint = (value: unknown): boolean =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isOptionalNumber = (value: unknown): boolean =>
+  value === undefined || value === null || isFiniteNumber(value);
+
+function isEncodedTankInput(value: unknown): boolean {
+  if (!Array.isArray(value) || value.length < 3 || value.length > 6) return false;
+  const [x, y, shoot, chargeLevel, angle, aim] = value;
+  return (
+    isFiniteNumber(x) &&
+    isFiniteNumber(y) &&
+    (shoot === 0 || shoot === 1) &&
+    isOptionalNumber(chargeLevel) &&
+    isOptionalNumber(angle) &&
+    isOptionalNumber(aim)
+  );
+}
+
+function validateRound(round: unknown, version: number): string | null {
+  if (!isObject(round)) return 'round is not an object';
+  if (!isObject(round.startScores) || !Object.values(round.startScores).every(isFiniteNumber)) {
+    return 'round has invalid start scores';
+  }
+  if (version === 1 && !(isFiniteNumber(round.startScores.p1) && isFiniteNumber(round.startScores.p2))) {
+    return 'round has invalid start scores';
+  }
+  if (!isFiniteNumber(round.randomState)) return 'round has no random state';
+  if (!isFiniteNumber(round.ticks) || round.ticks < 0) return 'round has an invalid tick count';
+  if (round.winnerId !== null && !isFiniteNumber(round.winnerId)) return 'round has an invalid winner';
+  if (!Array.isArray(round.inputs)) return 'round has no inputs';
+
+  let inputTicks = 0;
+  for (const run of round.inputs) {
+    if (!Array.isArray(run) || run.length !== 2 || !isFiniteNumber(run[0]) || run[0] < 1 || !isObject(run[1])) {
+      return 'round has a malformed input run';
+    }
+    if (!Object.values(run[1]).every(isEncodedTankInput)) return 'round has a malformed tank input';
+    inputTicks += run[0];
+  }
+  if (inputTicks !== round.ticks) return 'round input length does not match its tick count';
+
+  if (round.hits !== undefined) {
+    const validHits = Array.isArray(round.hits) && round.hits.every(
+      (hit) => Array.isArray(hit) && isFiniteNumber(hit[0]) && typeof hit[1] === 'string' && isFiniteNumber(hit[2])
+    );
+    if (!validHits) return 'round has malformed hits';
+  }
+
+  return null;
+}
+
+/**
+ * Check the shape of a parsed replay file
+ * @returns a description of the first problem found, or null if valid
+ */
+export function validateReplay(data: unknown): string | null {
+  if (!isObject(data)) return 'not an object';
+  if (data.format !== REPLAY_FORMAT) return 'not a Neon Tank replay';
+  if (!isFiniteNumber(data.version)) return 'missing version';
+  if (data.version > REPLAY_FORMAT_VERSION) return `version ${data.version} is newer than this game supports`;
+  if (!Number.isInteger(data.version) || data.version < OLDEST_REPLAY_FORMAT_VERSION) {
+    return `unsupported version ${data.version}`;
+  }
+  if (!['local', 'ai', 'lan', 'online'].includes(data.sourceMode as string)) return 'unknown source mode';
+  if (!isFiniteNumber(data.seed)) return 'missing seed';
+  if (!isObject(data.settings)) return 'missing settings';
+
+  const map = data.map;
+  if (
+    !isObject(map) ||
+    !Array.isArray(map.walls) || !map.walls.every(isRect) ||
+    !Array.isArray(map.crates) || !map.crates.every(isRect) ||
+    !Array.isArray(map.hazards) || !map.hazards.every(isRect) ||
+    !isObject(map.spawnPoints) || !isPoint(map.spawnPoints.p1) || !isPoint(map.spawnPoints.p2) ||
+    (map.spawnPoints.extra !== undefined && !(Array.isArray(map.spawnPoints.extra) && map.spawnPoints.extra.every(isPoint)))
+  ) {
+    return 'invalid map';
+  }
+
+  if (!Array.isArray(data.rounds) || data.rounds.length === 0) return 'no rounds recorded';
+  for (const round of data.rounds) {
+    const problem = validateRound(round, data.version);
+    if (problem) return problem;
+  }
+
+  return null;
+}
@@ -0,0 +1,183 @@
+// Replay playback - re-simulates a recorded match with pause, seek and speed control
+import { Simulation, InputFrame, SimulationEvent, isBulletInHitBox } from '../core/Simulation';
+import { ReplayData, decodeInputs } from './ReplayFormat';
+
+export class ReplayPlayer {
+  public static readonly MIN_SPEED = 0.25;
+  public static readonly MAX_SPEED = 4;
+
+  // Stable for the player's lifetime - seeking rewinds it in place
+  public simulation: Simulation;
+
+  private replay: ReplayData;
+  private roundFrames: InputFrame[][];
+  private roundStartTicks: number[] = [];
+  private totalTicks: number = 0;
+  private roundIndex: number = 0;
+  private roundHits: Set<string> | null = null;
+
+  private paused: boolean = false;
+  private speed: number = 1;
+  private tickAccumulator: number = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+    this.roundFrames = replay.rounds.map((round) => decodeInputs(round.inputs));
+
+    for (const round of replay.rounds) {
+      this.roundStartTicks.push(this.totalTicks);
+      this.totalTicks += round.ticks;
+    }
+
+    this.simulation = new Simulation(replay.settings, {
+      seed: replay.seed,
+      map: replay.map,
+      hitTest: (bullet, tank) => {
+        // Recorded hits are authoritative when the source used its own hit test
+        if (this.roundHits) {
+          return this.roundHits.has(`${this.simulation.tick}:${bullet.id}:${tank.id}`);
+        }
+        return isBulletInHitBox(bullet, tank.pos.x, tank.pos.y);
+      },
+    });
+
+    this.loadRound(0);
+  }
+
+  /**
+   * Rewind the simulation to the start of a round
+   */
+  private loadRound(index: number): void {
+    const round = this.replay.rounds[index];
+    this.roundIndex = index;
+    this.roundHits = round.hits
+      ? new Set(round.hits.map(([tick, bulletId, tankId]) => `${tick}:${bulletId}:${tankId}`))
+      : null;
+
+    this.simulation.scores = { ...round.startScores };
+    this.simulation.resetRound(round.randomState);
+  }
+
+  /**
+   * Advance one recorded tick, moving on to the next round when this one is done
+   */
+  private stepTick(): SimulationEvent[] {
+    const round = this.replay.rounds[this.roundIndex];
+
+    if (this.simulation.tick >= round.ticks) {
+      if (this.roundIndex + 1 >= this.replay.rounds.length) return [];
+      this.loadRound(this.roundIndex + 1);
+    }
+
+    const frame = this.roundFrames[this.roundIndex][this.simulation.tick];
+    return this.simulation.step(frame).events;
+  }
+
+  /**
+   * Advance playback by one display frame at the current speed
+   * Returns the simulation events produced along the way
+   */
+  public update(): SimulationEvent[] {
+    if (this.paused) return [];
+
+    const events: SimulationEvent[] = [];
+    this.tickAccumulator += this.speed;
+
+    while (this.tickAccumulator >= 1) {
+      this.tickAccumulator -= 1;
+      events.push(...this.stepTick());
+
+      if (this.isFinished()) {
+        this.paused = true;
+        this.tickAccumulator = 0;
+        break;
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Jump to a tick on the whole-match timeline by re-simulating from its round start
+   */
+  public seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.round(tick), this.totalTicks));
+
+    let index = this.roundStartTicks.length - 1;
+    while (index > 0 && this.roundStartTicks[index] > target) {
+      index--;
+    }
+
+    this.loadRound(index);
+    this.tickAccumulator = 0;
+
+    const roundTick = Math.min(target - this.roundStartTicks[index], this.replay.rounds[index].ticks);
+    while (this.simulation.tick < roundTick) {
+      this.simulation.step(this.roundFrames[index][this.simulation.tick]);
+    }
+  }
+
+  public play(): void {
+    if (this.isFinished()) {
+      this.seek(0);
+    }
+    this.paused = false;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public togglePlayback(): void {
+    if (this.paused) {
+      this.play();
+    } else {
+      this.pause();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public isFinished(): boolean {
+    return this.getCurrentTick() >= this.totalTicks;
+  }
+
+  /**
+   * Set playback speed, clamped to 0.25x - 4x
+   */
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(ReplayPlayer.MIN_SPEED, Math.min(ReplayPlayer.MAX_SPEED, speed));
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Current position on the whole-match timeline
+   */
+  public getCurrentTick(): number {
+    return this.roundStartTicks[this.roundIndex] + this.simulation.tick;
+  }
+
+  public getTotalTicks(): number {
+    return this.totalTicks;
+  }
+
+  /**
+   * Timeline tick each round starts at (for scrubber markers)
+   */
+  public getRoundStartTicks(): number[] {
+    return [...this.roundStartTicks];
+  }
+
+  public getRoundIndex(): number {
+    return this.roundIndex;
+  }
+
+  public getReplay(): ReplayData {
+    return this.replay;
+  }
+}
@@ -0,0 +1,126 @@
+// Records a match's seed, settings, map and per-tick inputs for later playback
+import type { Simulation, InputFrame, SimulationTickResult } from '../core/Simulation';
+import {
+  REPLAY_FORMAT,
+  REPLAY_FORMAT_VERSION,
+  ReplayData,
+  ReplayRound,
+  ReplaySettings,
+  ReplaySourceMode,
+  encodeFrame,
+} from './ReplayFormat';
+
+export interface ReplayRecorderOptions {
+  // Store every hit so playback doesn't depend on hit tests the simulation can't repeat
+  recordHits?: boolean;
+}
+
+export class ReplayRecorder {
+  private replay: ReplayData;
+  private currentRound: ReplayRound | null = null;
+  private lastFrameKey: string | null = null;
+  private recordHits: boolean;
+  private unsubscribe: Array<() => void>;
+
+  /**
+   * Start recording the simulation - the round already in progress is recorded from its start
+   */
+  constructor(
+    sourceMode: ReplaySourceMode,
+    simulation: Simulation,
+    settings: ReplaySettings,
+    options: ReplayRecorderOptions = {}
+  ) {
+    this.recordHits = options.recordHits ?? false;
+    this.replay = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      sourceMode,
+      seed: simulation.getSeed(),
+      settings: { ...settings, ...simulation.settings },
+      map: simulation.getMap(),
+      rounds: [],
+    };
+
+    const events = simulation.events;
+    this.unsubscribe = [events.on('round_started', () => this.startRound(simulation))];
+    if (this.recordHits) {
+      this.unsubscribe.push(
+        events.on('tank_hit', (event) => {
+          this.currentRound?.hits?.push([simulation.tick, event.bullet.id, event.tankId]);
+        })
+      );
+    }
+
+    this.startRound(simulation);
+  }
+
+  /**
+   * Stop listening to the simulation
+   */
+  public dispose(): void {
+    this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribe = [];
+  }
+
+  private startRound(simulation: Simulation): void {
+    this.currentRound = {
+      startScores: { ...simulation.scores },
+      randomState: simulation.getRoundRandomState(),
+      ticks: 0,
+      winnerId: null,
+      inputs: [],
+      hits: this.recordHits ? [] : undefined,
+    };
+    this.lastFrameKey = null;
+    this.replay.rounds.push(this.currentRound);
+  }
+
+  /**
+   * Record the frame passed to Simulation.step() along with its result (hits arrive as events)
+   */
+  public recordTick(frame: InputFrame, result: SimulationTickResult): void {
+    const round = this.currentRound;
+    // Steps after the round ended don't advance the simulation
+    if (!round || result.tick === round.ticks) return;
+
+    const encoded = encodeFrame(frame);
+    const key = JSON.stringify(encoded);
+    const lastRun = round.inputs[round.inputs.length - 1];
+
+    if (lastRun && key === this.lastFrameKey) {
+      lastRun[0]++;
+    } else {
+      round.inputs.push([1, encoded]);
+      this.lastFrameKey = key;
+    }
+
+    round.ticks = result.tick;
+    round.winnerId = result.roundWinner;
+  }
+
+  /**
+   * Whether any gameplay has been recorded yet
+   */
+  public hasTicks(): boolean {
+    return this.replay.rounds.some((round) => round.ticks > 0);
+  }
+
+  /**
+   * Snapshot of everything recorded so far (rounds with no ticks are dropped)
+   */
+  public getReplay(): ReplayData {
+    return {
+      ...this.replay,
+      rounds: this.replay.rounds
+        .filter((round) => round.ticks > 0)
+        .map((round) => ({
+          ...round,
+          startScores: { ...round.startScores },
+          inputs: round.inputs.map(([count, frame]): [number, typeof frame] => [count, frame]),
+          hits: round.hits ? [...round.hits] : undefined,
+        })),
+    };
+  }
+}
@@ -0,0 +1,15 @@
+// Replay engine exports
+export { ReplayRecorder } from './ReplayRecorder';
+export type { ReplayRecorderOptions } from './ReplayRecorder';
+export { ReplayPlayer } from './ReplayPlayer';
+export { ReplayCamera } from './ReplayCamera';
+export {
+  REPLAY_FORMAT,
+  REPLAY_FORMAT_VERSION,
+  exportReplay,
+  importReplay,
+  validateReplay,
+} from './ReplayFormat';
+export type { ReplayData, ReplayRound, ReplaySettings, ReplaySourceMode } from './ReplayFormat';
+export { KillcamRecorder, KillcamPlayback, KILLCAM_BUFFER_FRAMES } from './Killcam';
+export type { KillcamFrame, KillcamKill } from './Killcam';
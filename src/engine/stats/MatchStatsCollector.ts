@@ -0,0 +1,164 @@
+// Per-match combat statistics, tallied from the simulation's event bus
+import { Simulation } from '../core/Simulation';
+import type { BulletType } from '../entities/Bullet';
+import type { PowerUpType } from '../entities/PowerUp';
+
+export interface TankCombatStats {
+  tankId: number;
+  shotsFired: Record<BulletType, number>;
+  hits: number; // Shots that hit an enemy tank
+  accuracy: number; // hits / shots fired, 0-1
+  damageDealt: number;
+  damageTaken: number; // From every source, including the arena
+  kills: number;
+  ricochetKills: number; // Kills with a bullet that had bounced
+  chargeKills: number;
+  powerupsCollected: Record<PowerUpType, number>;
+  cratesDestroyed: number;
+  hazardDamage: number; // Taken from hazards
+  suddenDeathDamage: number; // Taken from the closing sudden death border
+  timeAlive: number; // Simulation ms, summed over every round
+}
+
+function createTankStats(tankId: number): TankCombatStats {
+  return {
+    tankId,
+    shotsFired: { NORMAL: 0, CHARGE: 0, SHOTGUN: 0, LASER: 0 },
+    hits: 0,
+    accuracy: 0,
+    damageDealt: 0,
+    damageTaken: 0,
+    kills: 0,
+    ricochetKills: 0,
+    chargeKills: 0,
+    powerupsCollected: { HEALTH: 0, SPEED: 0, SHOTGUN: 0, LASER: 0, SHIELD: 0 },
+    cratesDestroyed: 0,
+    hazardDamage: 0,
+    suddenDeathDamage: 0,
+    timeAlive: 0,
+  };
+}
+
+/**
+ * Total shots a tank fired, of every bullet type
+ */
+export function getTotalShots(stats: TankCombatStats): number {
+  return Object.values(stats.shotsFired).reduce((sum, count) => sum + count, 0);
+}
+
+export class MatchStatsCollector {
+  private stats: Map<number, TankCombatStats> = new Map();
+  private alive: Set<number> = new Set(); // Tanks still alive this round
+  private roundStartTick = 0;
+  private unsubscribe: Array<() => void>;
+
+  /**
+   * Start tallying the simulation's events - the current round counts from now
+   */
+  constructor(private simulation: Simulation) {
+    const events = simulation.events;
+    this.unsubscribe = [
+      events.on('round_started', () => this.startRound()),
+      events.on('round_over', () => this.endRound()),
+      events.on('bullet_fired', (event) => {
+        this.get(event.tankId).shotsFired[event.bullet.type]++;
+      }),
+      events.on('tank_hit', (event) => {
+        this.get(event.tankId).damageTaken += event.damage;
+        if (this.isEnemy(event.bullet.ownerId, event.tankId)) {
+          const shooter = this.get(event.bullet.ownerId);
+          shooter.hits++;
+          shooter.damageDealt += event.damage;
+        }
+      }),
+      events.on('tank_destroyed', (event) => {
+        this.addTimeAlive(event.tankId);
+        this.alive.delete(event.tankId);
+
+        const { bullet } = event;
+        if (bullet && this.isEnemy(bullet.ownerId, event.tankId)) {
+          const killer = this.get(bullet.ownerId);
+          killer.kills++;
+          if (bullet.ricochets > 0) killer.ricochetKills++;
+          if (bullet.type === 'CHARGE') killer.chargeKills++;
+        }
+      }),
+      events.on('environment_damage', (event) => {
+        const stats = this.get(event.tankId);
+        stats.damageTaken += event.damage;
+        if (event.source === 'hazard') {
+          stats.hazardDamage += event.damage;
+        } else {
+          stats.suddenDeathDamage += event.damage;
+        }
+      }),
+      events.on('powerup_collected', (event) => {
+        this.get(event.tankId).powerupsCollected[event.powerup.type]++;
+      }),
+      events.on('crate_destroyed', (event) => {
+        this.get(event.bullet.ownerId).cratesDestroyed++;
+      }),
+    ];
+
+    this.startRound();
+  }
+
+  /**
+   * Stop listening to the simulation
+   */
+  public dispose(): void {
+    this.unsubscribe.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribe = [];
+  }
+
+  private startRound(): void {
+    this.roundStartTick = this.simulation.tick;
+    this.alive = new Set(this.simulation.tanks.filter((tank) => !tank.dead).map((tank) => tank.id));
+    this.alive.forEach((tankId) => this.get(tankId));
+  }
+
+  private endRound(): void {
+    this.alive.forEach((tankId) => this.addTimeAlive(tankId));
+    this.alive.clear();
+  }
+
+  private addTimeAlive(tankId: number): void {
+    this.get(tankId).timeAlive += (this.simulation.tick - this.roundStartTick) * Simulation.TICK_MS;
+  }
+
+  /**
+   * Stats for every tank that has played, by tank ID
+   */
+  public getStats(): TankCombatStats[] {
+    // Tanks still alive in an unfinished round have survived up to now
+    const inProgress = (this.simulation.tick - this.roundStartTick) * Simulation.TICK_MS;
+
+    return Array.from(this.stats.values())
+      .sort((a, b) => a.tankId - b.tankId)
+      .map((stats) => {
+        const shots = getTotalShots(stats);
+        return {
+          ...stats,
+          shotsFired: { ...stats.shotsFired },
+          powerupsCollected: { ...stats.powerupsCollected },
+          accuracy: shots > 0 ? stats.hits / shots : 0,
+          timeAlive: Math.round(stats.timeAlive + (this.alive.has(stats.tankId) ? inProgress : 0)),
+        };
+      });
+  }
+
+  private get(tankId: number): TankCombatStats {
+    let stats = this.stats.get(tankId);
+    if (!stats) {
+      stats = createTankStats(tankId);
+      this.stats.set(tankId, stats);
+    }
+    return stats;
+  }
+
+  private isEnemy(tankId: number, otherId: number): boolean {
+    const tank = this.simulation.getTank(tankId);
+    const other = this.simulation.getTank(otherId);
+    return !!tank && !!other && tank.team !== other.team;
+  }
+}
@@ -0,0 +1,3 @@
+// Match statistics exports
+export { MatchStatsCollector, getTotalShots } from './MatchStatsCollector';
+export type { TankCombatStats } from './MatchStatsCollector';
@@ -1,6 +1,9 @@
 // Entity lifecycle management system
 import { PowerUp, PowerUpType } from '../entities/PowerUp';
 import { Particle } from '../entities/Particle';
+import { Wall } from '../entities/Wall';
+import { Hazard } from '../entities/Hazard';
+import { SeededRandom } from '../utils/SeededRandom';
 import { Constants } from '../utils/Constants';
 
 export class EntitySystem {
@@ -8,17 +11,18 @@ export class EntitySystem {
    * Spawn a random power-up at a valid location
    */
   public spawnPowerUp(
-    walls: any[],
-    crates: any[],
-    hazards: any[]
+    walls: Wall[],
+    crates: Wall[],
+    hazards: Hazard[],
+    rng: SeededRandom
   ): PowerUp | null {
     const powerUpTypes: PowerUpType[] = ['HEALTH', 'SPEED', 'SHOTGUN', 'LASER', 'SHIELD'];
-    const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)];
+    const type = rng.pick(powerUpTypes);
 
     // Try to find valid spawn location (max 10 attempts)
     for (let attempts = 0; attempts < 10; attempts++) {
-      const x = Math.random() * (Constants.GAME_WIDTH - 100) + 50;
-      const y = Math.random() * (Constants.GAME_HEIGHT - 100) + 50;
+      const x = rng.next() * (Constants.GAME_WIDTH - 100) + 50;
+      const y = rng.next() * (Constants.GAME_HEIGHT - 100) + 50;
 
       // Check if position is clear
       let valid = true;
@@ -49,7 +53,7 @@ export class EntitySystem {
       }
 
       if (valid) {
-        return new PowerUp(x, y, type);
+        return new PowerUp(x, y, type, `powerup-${rng.nextId()}`);
       }
     }
 
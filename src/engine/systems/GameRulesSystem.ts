@@ -1,10 +1,21 @@
 // Game rules and win condition system
 import { Constants } from '../utils/Constants';
-import type { GameSettings } from '../core/Game';
-
-export interface GameScores {
-  p1: number;
-  p2: number;
+import { SeededRandom } from '../utils/SeededRandom';
+import type { Tank } from '../entities/Tank';
+import type { SimulationSettings } from '../core/Simulation';
+
+/**
+ * Round wins keyed by team (the tank ID outside team play)
+ */
+export type GameScores = Record<number, number>;
+
+/**
+ * Zeroed scores for the given teams
+ */
+export function createScores(teams: number[]): GameScores {
+  const scores: GameScores = {};
+  for (const team of teams) scores[team] = 0;
+  return scores;
 }
 
 export interface SuddenDeathState {
@@ -13,53 +24,78 @@ export interface SuddenDeathState {
 }
 
 export class GameRulesSystem {
-  private gameStartTime: number = 0;
+  // Simulated time, advanced by the owning Simulation (never read from the wall clock)
+  private elapsedTime: number = 0;
   private suddenDeathState: SuddenDeathState = {
     active: false,
     inset: 0
   };
+  private rng: SeededRandom;
+
+  constructor(rng: SeededRandom = new SeededRandom()) {
+    this.rng = rng;
+  }
 
-  constructor(startTime: number) {
-    this.gameStartTime = startTime;
+  /**
+   * Advance simulated game time by the given number of milliseconds
+   */
+  public advanceTime(ms: number): void {
+    this.elapsedTime += ms;
   }
 
   /**
    * Check if time limit has been reached and determine winner
-   * Returns null if time limit not reached, or winner ID if game should end
+   * Returns null if time limit not reached, or the winning team if the round should end
    */
   public checkTimeLimit(
-    settings: GameSettings,
+    settings: SimulationSettings,
     scores: GameScores,
-    p1Health: number,
-    p2Health: number
+    tanks: Tank[]
   ): number | null {
     if (!settings.timeLimitEnabled) {
       return null;
     }
 
-    const elapsed = Date.now() - this.gameStartTime;
     const timeLimit = settings.timeLimitSeconds * 1000;
 
-    if (elapsed < timeLimit) {
+    if (this.elapsedTime < timeLimit) {
       return null;
     }
 
-    // Time expired - determine winner
-    if (scores.p1 > scores.p2) {
-      return 1;
-    } else if (scores.p2 > scores.p1) {
-      return 2;
-    } else {
-      // Tied score - use health tiebreaker
-      if (p1Health > p2Health) {
-        return 1;
-      } else if (p2Health > p1Health) {
-        return 2;
-      } else {
-        // Perfect tie - random winner
-        return Math.random() < 0.5 ? 1 : 2;
-      }
-    }
+    // Time expired - of the teams still standing, highest score wins, then the most health left
+    // (hazards can take out the last tanks on the final tick, then every team is in the running)
+    const standing = tanks.filter((t) => !t.dead);
+    const alive = standing.length > 0 ? standing : tanks;
+    const teams = [...new Set(alive.map((t) => t.team))];
+    const leaders = this.topTeams(teams, (team) => scores[team] ?? 0);
+    const healthiest = this.topTeams(leaders, (team) =>
+      alive.filter((t) => t.team === team).reduce((sum, t) => sum + t.health, 0)
+    );
+    return this.pickTeam(healthiest);
+  }
+
+  /**
+   * Determine the round winner when the last tanks standing die on the same tick
+   * Scores break the tie, then a random pick
+   */
+  public resolveDoubleKnockout(scores: GameScores, teams: number[]): number {
+    return this.pickTeam(this.topTeams(teams, (team) => scores[team] ?? 0));
+  }
+
+  /**
+   * Teams sharing the highest value
+   */
+  private topTeams(teams: number[], value: (team: number) => number): number[] {
+    const best = Math.max(...teams.map(value));
+    return teams.filter((team) => value(team) === best);
+  }
+
+  /**
+   * Seeded random pick between tied teams
+   */
+  private pickTeam(teams: number[]): number {
+    if (teams.length === 1) return teams[0];
+    return teams[Math.min(teams.length - 1, Math.floor(this.rng.next() * teams.length))];
   }
 
   /**
@@ -67,17 +103,15 @@ export class GameRulesSystem {
    * Returns updated sudden death state
    */
   public updateSuddenDeath(
-    settings: GameSettings,
+    settings: SimulationSettings,
     deltaMultiplier: number = 1.0
   ): SuddenDeathState {
     if (!settings.suddenDeath) {
       return this.suddenDeathState;
     }
 
-    const elapsed = Date.now() - this.gameStartTime;
-
     // Activate sudden death if time reached
-    if (elapsed > Constants.SUDDEN_DEATH_TIME && !this.suddenDeathState.active) {
+    if (this.elapsedTime > Constants.SUDDEN_DEATH_TIME && !this.suddenDeathState.active) {
       this.suddenDeathState.active = true;
     }
 
@@ -92,15 +126,15 @@ export class GameRulesSystem {
   /**
    * Check if score limit has been reached
    */
-  public checkScoreLimit(settings: GameSettings, scores: GameScores): number | null {
+  public checkScoreLimit(settings: SimulationSettings, scores: GameScores): number | null {
     if (!settings.scoreLimitEnabled) {
       return null;
     }
 
-    if (scores.p1 >= settings.scoreLimitValue) {
-      return 1;
-    } else if (scores.p2 >= settings.scoreLimitValue) {
-      return 2;
+    for (const [team, score] of Object.entries(scores)) {
+      if (score >= settings.scoreLimitValue) {
+        return Number(team);
+      }
     }
 
     return null;
@@ -110,7 +144,14 @@ export class GameRulesSystem {
    * Get current game time in milliseconds
    */
   public getGameTime(): number {
-    return Date.now() - this.gameStartTime;
+    return this.elapsedTime;
+  }
+
+  /**
+   * Overwrite the game time (clients mirroring an authoritative server)
+   */
+  public setGameTime(ms: number): void {
+    this.elapsedTime = ms;
   }
 
   /**
@@ -121,10 +162,17 @@ export class GameRulesSystem {
   }
 
   /**
-   * Reset sudden death state (for new round)
+   * Overwrite the sudden death state (clients mirroring an authoritative server)
+   */
+  public setSuddenDeathState(state: SuddenDeathState): void {
+    this.suddenDeathState = { active: state.active, inset: state.inset };
+  }
+
+  /**
+   * Reset game time and sudden death state (for new round)
    */
-  public reset(newStartTime: number): void {
-    this.gameStartTime = newStartTime;
+  public reset(): void {
+    this.elapsedTime = 0;
     this.suddenDeathState = {
       active: false,
       inset: 0
@@ -6,9 +6,14 @@ import type { PowerUp } from '../entities/PowerUp';
 import type { Wall } from '../entities/Wall';
 import type { Hazard } from '../entities/Hazard';
 import type { Particle } from '../entities/Particle';
+import type { GameScores } from './GameRulesSystem';
+import type { WeatherSystem } from './WeatherSystem';
+import { getTeamName } from '../core/MatchMode';
+import { getActivePalette, getPaletteTeamColor } from '../utils/Palette';
+import type { MatchMode } from '../core/MatchMode';
 
 export interface RenderableEntities {
-  tanks: [Tank, Tank];
+  tanks: Tank[];
   bullets: Bullet[];
   powerups: PowerUp[];
   walls: Wall[];
@@ -17,16 +22,13 @@ export interface RenderableEntities {
   particles: Particle[];
 }
 
+export type RenderableMap = Pick<RenderableEntities, 'walls' | 'crates' | 'hazards'>;
+
 export interface SuddenDeathRenderState {
   active: boolean;
   inset: number;
 }
 
-export interface GameScores {
-  p1: number;
-  p2: number;
-}
-
 export class RenderSystem {
   /**
    * Main render method - draws all game elements to canvas
@@ -36,27 +38,11 @@ export class RenderSystem {
     entities: RenderableEntities,
     suddenDeath: SuddenDeathRenderState,
     roundWinner: number | null,
-    scores: GameScores
+    scores: GameScores,
+    matchMode: MatchMode = 'duel',
+    weather: WeatherSystem | null = null
   ): void {
-    // Background
-    ctx.fillStyle = Constants.BACKGROUND_COLOR;
-    ctx.fillRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
-
-    // Grid
-    this.drawGrid(ctx);
-
-    // Draw Hazards
-    for (const h of entities.hazards) {
-      h.draw(ctx);
-    }
-
-    // Draw Map
-    for (const w of entities.walls) {
-      w.draw(ctx);
-    }
-    for (const c of entities.crates) {
-      c.draw(ctx);
-    }
+    this.renderMap(ctx, entities);
 
     // Draw PowerUps
     for (const p of entities.powerups) {
@@ -64,8 +50,9 @@ export class RenderSystem {
     }
 
     // Draw Tanks
-    entities.tanks[0].draw(ctx);
-    entities.tanks[1].draw(ctx);
+    for (const tank of entities.tanks) {
+      tank.draw(ctx);
+    }
 
     // Draw Bullets
     for (const b of entities.bullets) {
@@ -77,6 +64,9 @@ export class RenderSystem {
       p.draw(ctx);
     }
 
+    // Weather covers the arena but not the sudden death zone or round overlay
+    weather?.render(ctx, entities.tanks);
+
     // Draw Sudden Death Walls
     if (suddenDeath.active) {
       this.drawSuddenDeathWalls(ctx, suddenDeath.inset);
@@ -84,7 +74,32 @@ export class RenderSystem {
 
     // Draw Round Winner Overlay
     if (roundWinner !== null) {
-      this.drawRoundWinnerOverlay(ctx, roundWinner, scores);
+      this.drawRoundWinnerOverlay(ctx, roundWinner, scores, matchMode);
+    }
+  }
+
+  /**
+   * Draw the arena: background, grid, hazards, walls and crates (also used by the map editor)
+   */
+  public renderMap(ctx: CanvasRenderingContext2D, map: RenderableMap): void {
+    // Background
+    ctx.fillStyle = Constants.BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
+
+    // Grid
+    this.drawGrid(ctx);
+
+    // Draw Hazards
+    for (const h of map.hazards) {
+      h.draw(ctx);
+    }
+
+    // Draw Map
+    for (const w of map.walls) {
+      w.draw(ctx);
+    }
+    for (const c of map.crates) {
+      c.draw(ctx);
     }
   }
 
@@ -113,7 +128,10 @@ export class RenderSystem {
    * Draw sudden death walls (shrinking safe zone)
    */
   private drawSuddenDeathWalls(ctx: CanvasRenderingContext2D, inset: number): void {
-    ctx.fillStyle = 'rgba(255, 0, 0, 0.2)';
+    const color = getActivePalette().suddenDeath;
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.globalAlpha = 0.2;
 
     // Top wall
     ctx.fillRect(0, 0, Constants.GAME_WIDTH, inset);
@@ -128,7 +146,8 @@ export class RenderSystem {
     ctx.fillRect(Constants.GAME_WIDTH - inset, 0, inset, Constants.GAME_HEIGHT);
 
     // Draw border
-    ctx.strokeStyle = '#ff0000';
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = color;
     ctx.lineWidth = 2;
     ctx.strokeRect(
       inset,
@@ -136,6 +155,58 @@ export class RenderSystem {
       Constants.GAME_WIDTH - inset * 2,
       Constants.GAME_HEIGHT - inset * 2
     );
+    ctx.restore();
+  }
+
+  /**
+   * Draw the pause screen over the frozen arena
+   */
+  public drawPausedOverlay(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
+
+    ctx.font = 'bold 48px Orbitron, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#fff';
+    ctx.shadowBlur = 20;
+    ctx.shadowColor = '#00ffff';
+    ctx.fillText('PAUSED', Constants.GAME_WIDTH / 2, Constants.GAME_HEIGHT / 2);
+
+    ctx.font = '18px Orbitron, sans-serif';
+    ctx.shadowBlur = 0;
+    ctx.fillText('Press pause again to resume', Constants.GAME_WIDTH / 2, Constants.GAME_HEIGHT / 2 + 50);
+    ctx.restore();
+  }
+
+  /**
+   * Draw the killcam's letterbox and caption over the replayed kill
+   */
+  public drawKillcamOverlay(ctx: CanvasRenderingContext2D, canSkip: boolean): void {
+    const bar = Constants.GAME_HEIGHT * 0.08;
+
+    ctx.save();
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, Constants.GAME_WIDTH, bar);
+    ctx.fillRect(0, Constants.GAME_HEIGHT - bar, Constants.GAME_WIDTH, bar);
+
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 28px Orbitron, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#ff3355';
+    ctx.shadowBlur = 15;
+    ctx.shadowColor = '#ff3355';
+    ctx.fillText('KILLCAM', 24, bar / 2);
+
+    if (canSkip) {
+      ctx.font = '16px Orbitron, sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillStyle = '#fff';
+      ctx.shadowBlur = 0;
+      ctx.fillText('Press Space or tap to skip', Constants.GAME_WIDTH - 24, Constants.GAME_HEIGHT - bar / 2);
+    }
+    ctx.restore();
   }
 
   /**
@@ -144,7 +215,8 @@ export class RenderSystem {
   private drawRoundWinnerOverlay(
     ctx: CanvasRenderingContext2D,
     roundWinner: number,
-    scores: GameScores
+    scores: GameScores,
+    matchMode: MatchMode
   ): void {
     ctx.save();
 
@@ -157,8 +229,13 @@ export class RenderSystem {
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
 
-    const text = roundWinner === 1 ? 'RED WINS ROUND' : 'BLUE WINS ROUND';
-    const color = roundWinner === 1 ? Constants.PLAYER1_COLOR : Constants.PLAYER2_COLOR;
+    let text: string;
+    if (matchMode === 'duel') {
+      text = roundWinner === 1 ? 'RED WINS ROUND' : 'BLUE WINS ROUND';
+    } else {
+      text = `${getTeamName(matchMode, roundWinner).toUpperCase()} WINS ROUND`;
+    }
+    const color = getPaletteTeamColor(getActivePalette(), matchMode, roundWinner);
 
     ctx.fillStyle = color;
     ctx.shadowBlur = 20;
@@ -170,7 +247,7 @@ export class RenderSystem {
     ctx.fillStyle = '#fff';
     ctx.shadowBlur = 0;
     ctx.fillText(
-      `Round ${scores.p1 + scores.p2 + 1} starting soon...`,
+      `Round ${Object.values(scores).reduce((sum, score) => sum + score, 0) + 1} starting soon...`,
       Constants.GAME_WIDTH / 2,
       Constants.GAME_HEIGHT / 2 + 50
     );
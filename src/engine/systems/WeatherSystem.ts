@@ -0,0 +1,245 @@
+// Weather layer - rain, snow and fog drawn over the arena (visual only)
+import { Constants } from '../utils/Constants';
+import type { Tank } from '../entities/Tank';
+import type { WeatherType } from '@/types/settings';
+
+// Counts at 100% particle density
+const RAIN_DROPS = 250;
+const RAIN_SPLASHES = 120;
+const SNOWFLAKES = 150;
+
+const RAIN_WIND = 2; // Sideways pixels per frame
+const FOG_VISIBILITY_RADIUS = 160;
+const FOG_COLOR = 'rgba(150, 160, 175, 0.92)';
+
+interface RainDrop {
+  x: number;
+  y: number;
+  speed: number;
+  length: number;
+  groundY: number; // Where this drop lands and splashes
+}
+
+interface Splash {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number; // Frames left, 0 when the slot is free
+}
+
+interface Snowflake {
+  x: number;
+  y: number;
+  radius: number;
+  speed: number;
+  phase: number;
+}
+
+export class WeatherSystem {
+  private weather: WeatherType = 'none';
+  private density = 1;
+
+  // Pools are filled once per weather change and recycled, never reallocated per frame
+  private drops: RainDrop[] = [];
+  private splashes: Splash[] = [];
+  private nextSplash = 0;
+  private flakes: Snowflake[] = [];
+  private fogCanvas: HTMLCanvasElement | null = null;
+
+  /**
+   * Switch weather, with particle counts scaled by the density setting (percent)
+   */
+  public setWeather(weather: WeatherType, particleDensity: number = 100): void {
+    const density = Math.max(0.1, particleDensity / 100);
+    if (weather === this.weather && density === this.density) return;
+
+    this.weather = weather;
+    this.density = density;
+    this.drops = [];
+    this.splashes = [];
+    this.nextSplash = 0;
+    this.flakes = [];
+
+    if (weather === 'rain') {
+      this.drops = Array.from({ length: Math.round(RAIN_DROPS * density) }, () => this.resetDrop(this.createDrop(), true));
+      this.splashes = Array.from({ length: Math.round(RAIN_SPLASHES * density) }, () => ({ x: 0, y: 0, vx: 0, vy: 0, life: 0 }));
+    } else if (weather === 'snow') {
+      this.flakes = Array.from({ length: Math.round(SNOWFLAKES * density) }, () => this.resetFlake(this.createFlake(), true));
+    }
+  }
+
+  public getWeather(): WeatherType {
+    return this.weather;
+  }
+
+  /**
+   * Advance the weather one frame
+   */
+  public update(deltaMultiplier: number = 1.0): void {
+    if (this.weather === 'rain') {
+      this.updateRain(deltaMultiplier);
+    } else if (this.weather === 'snow') {
+      this.updateSnow(deltaMultiplier);
+    }
+  }
+
+  /**
+   * Draw the weather over everything in the arena, fog clearing around living tanks
+   */
+  public render(ctx: CanvasRenderingContext2D, tanks: Tank[]): void {
+    switch (this.weather) {
+      case 'rain':
+        this.drawRain(ctx);
+        break;
+      case 'snow':
+        this.drawSnow(ctx);
+        break;
+      case 'fog':
+        this.drawFog(ctx, tanks);
+        break;
+    }
+  }
+
+  private createDrop(): RainDrop {
+    return { x: 0, y: 0, speed: 0, length: 0, groundY: 0 };
+  }
+
+  // Respawn a drop above the arena (or anywhere in it when the weather starts)
+  private resetDrop(drop: RainDrop, anywhere: boolean = false): RainDrop {
+    drop.x = Math.random() * (Constants.GAME_WIDTH + 100) - 100;
+    drop.y = anywhere ? Math.random() * Constants.GAME_HEIGHT : -Math.random() * 100;
+    drop.speed = 12 + Math.random() * 6;
+    drop.length = 10 + Math.random() * 10;
+    drop.groundY = drop.y + Math.random() * (Constants.GAME_HEIGHT - drop.y);
+    return drop;
+  }
+
+  private updateRain(deltaMultiplier: number): void {
+    for (const drop of this.drops) {
+      drop.x += RAIN_WIND * deltaMultiplier;
+      drop.y += drop.speed * deltaMultiplier;
+
+      if (drop.y >= drop.groundY) {
+        this.spawnSplash(drop.x, drop.groundY);
+        this.resetDrop(drop);
+      }
+    }
+
+    for (const splash of this.splashes) {
+      if (splash.life <= 0) continue;
+      splash.x += splash.vx * deltaMultiplier;
+      splash.y += splash.vy * deltaMultiplier;
+      splash.vy += 0.15 * deltaMultiplier;
+      splash.life -= deltaMultiplier;
+    }
+  }
+
+  // Reuse the oldest splash slot - the pool is a ring, so a busy frame overwrites fading splashes
+  private spawnSplash(x: number, y: number): void {
+    if (this.splashes.length === 0) return;
+
+    const splash = this.splashes[this.nextSplash];
+    this.nextSplash = (this.nextSplash + 1) % this.splashes.length;
+    splash.x = x;
+    splash.y = y;
+    splash.vx = (Math.random() - 0.5) * 2;
+    splash.vy = -1 - Math.random() * 1.5;
+    splash.life = 10;
+  }
+
+  private drawRain(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.strokeStyle = 'rgba(140, 180, 255, 0.45)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const drop of this.drops) {
+      const dx = (RAIN_WIND / drop.speed) * drop.length;
+      ctx.moveTo(drop.x, drop.y);
+      ctx.lineTo(drop.x - dx, drop.y - drop.length);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = 'rgba(170, 200, 255, 0.6)';
+    for (const splash of this.splashes) {
+      if (splash.life <= 0) continue;
+      ctx.globalAlpha = splash.life / 10;
+      ctx.fillRect(splash.x, splash.y, 1.5, 1.5);
+    }
+    ctx.restore();
+  }
+
+  private createFlake(): Snowflake {
+    return { x: 0, y: 0, radius: 0, speed: 0, phase: 0 };
+  }
+
+  private resetFlake(flake: Snowflake, anywhere: boolean = false): Snowflake {
+    flake.x = Math.random() * Constants.GAME_WIDTH;
+    flake.y = anywhere ? Math.random() * Constants.GAME_HEIGHT : -5;
+    flake.radius = 1 + Math.random() * 2;
+    // Bigger flakes are nearer and fall faster
+    flake.speed = 0.4 + flake.radius * 0.3;
+    flake.phase = Math.random() * Math.PI * 2;
+    return flake;
+  }
+
+  private updateSnow(deltaMultiplier: number): void {
+    for (const flake of this.flakes) {
+      flake.phase += 0.02 * deltaMultiplier;
+      flake.x += Math.sin(flake.phase) * 0.5 * deltaMultiplier;
+      flake.y += flake.speed * deltaMultiplier;
+
+      if (flake.y > Constants.GAME_HEIGHT + 5) {
+        this.resetFlake(flake);
+      } else if (flake.x < -5) {
+        flake.x += Constants.GAME_WIDTH + 10;
+      } else if (flake.x > Constants.GAME_WIDTH + 5) {
+        flake.x -= Constants.GAME_WIDTH + 10;
+      }
+    }
+  }
+
+  private drawSnow(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.beginPath();
+    for (const flake of this.flakes) {
+      ctx.moveTo(flake.x + flake.radius, flake.y);
+      ctx.arc(flake.x, flake.y, flake.radius, 0, Math.PI * 2);
+    }
+    ctx.fill();
+    ctx.restore();
+  }
+
+  // Fog is painted on its own canvas, holes are cut around the tanks, then it is laid over the arena
+  private drawFog(ctx: CanvasRenderingContext2D, tanks: Tank[]): void {
+    if (!this.fogCanvas) {
+      this.fogCanvas = document.createElement('canvas');
+      this.fogCanvas.width = Constants.GAME_WIDTH;
+      this.fogCanvas.height = Constants.GAME_HEIGHT;
+    }
+
+    const fog = this.fogCanvas.getContext('2d');
+    if (!fog) return;
+
+    fog.globalCompositeOperation = 'source-over';
+    fog.clearRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
+    fog.fillStyle = FOG_COLOR;
+    fog.fillRect(0, 0, Constants.GAME_WIDTH, Constants.GAME_HEIGHT);
+
+    fog.globalCompositeOperation = 'destination-out';
+    for (const tank of tanks) {
+      if (tank.dead) continue;
+
+      const gradient = fog.createRadialGradient(tank.pos.x, tank.pos.y, FOG_VISIBILITY_RADIUS * 0.5, tank.pos.x, tank.pos.y, FOG_VISIBILITY_RADIUS);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      fog.fillStyle = gradient;
+      fog.beginPath();
+      fog.arc(tank.pos.x, tank.pos.y, FOG_VISIBILITY_RADIUS, 0, Math.PI * 2);
+      fog.fill();
+    }
+
+    ctx.drawImage(this.fogCanvas, 0, 0);
+  }
+}
@@ -14,6 +14,7 @@ export const Constants = {
   TANK_ROTATION_SPEED: 0.2,
   TANK_MAX_HEALTH: 100,
   TANK_RECOIL_DISTANCE: 2,
+  TANK_HITBOX_HALF_SIZE: 18, // Bullet-vs-tank hit box half extent
 
   // Ammo system
   MAX_AMMO: 5,
@@ -40,6 +41,7 @@ export const Constants = {
   POWERUP_RADIUS: 12,
   POWERUP_SPAWN_INTERVAL: 5000, // ms
   POWERUP_MAX_COUNT: 3,
+  POWERUP_PICKUP_RADIUS: 25,
   POWERUP_DURATION: 600, // frames (10 seconds at 60fps)
 
   // Map
@@ -59,6 +61,9 @@ export const Constants = {
   // Colors
   PLAYER1_COLOR: '#ff0055',
   PLAYER2_COLOR: '#00ffff',
+  // Tank colors by ID in free-for-all (the first two match the duel colors)
+  TANK_COLORS: ['#ff0055', '#00ffff', '#39ff14', '#ffaa00', '#b026ff', '#ffff00'],
+  TEAM_COLORS: ['#ff0055', '#00ffff'],
   BACKGROUND_COLOR: '#050505',
   GRID_COLOR: '#1a1a1a',
 } as const;
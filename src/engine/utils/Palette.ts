@@ -0,0 +1,101 @@
+// Color palettes - one per colorblind mode, the default matches the original neon colors
+import { Constants } from './Constants';
+import type { PowerUpType } from '../entities/PowerUp';
+import type { MatchMode } from '../core/MatchMode';
+import type { ColorblindMode } from '@/types/settings';
+
+export interface Palette {
+  tankColors: readonly string[]; // By tank ID in duels and free-for-all
+  teamColors: readonly string[]; // By team in team matches
+  powerups: Record<PowerUpType, string>;
+  hazard: string;
+  wall: string;
+  crate: string;
+  suddenDeath: string;
+  health: readonly [string, string, string]; // Health bar fill - high, middling, low
+}
+
+const DEFAULT_PALETTE: Palette = {
+  tankColors: Constants.TANK_COLORS,
+  teamColors: Constants.TEAM_COLORS,
+  powerups: { SPEED: '#00ffff', HEALTH: '#00ff00', SHOTGUN: '#ffaa00', LASER: '#ff00ff', SHIELD: '#0088ff' },
+  hazard: '#00ff00',
+  wall: '#444444',
+  crate: '#d68c24',
+  suddenDeath: '#ff0000',
+  health: ['#00ff00', '#ffff00', '#ff0000'],
+};
+
+// Red-green deficiencies: orange against sky blue, no red/green pairs (Okabe-Ito colors)
+const RED_GREEN_PALETTE: Palette = {
+  tankColors: ['#e69f00', '#56b4e9', '#f0e442', '#cc79a7', '#0072b2', '#ffffff'],
+  teamColors: ['#e69f00', '#56b4e9'],
+  powerups: { SPEED: '#56b4e9', HEALTH: '#ffffff', SHOTGUN: '#e69f00', LASER: '#cc79a7', SHIELD: '#0072b2' },
+  hazard: '#f0e442',
+  wall: '#555555',
+  crate: '#d55e00',
+  suddenDeath: '#d55e00',
+  health: ['#56b4e9', '#f0e442', '#d55e00'],
+};
+
+// Blue-yellow deficiency: red against teal, no blue/yellow pairs
+const TRITANOPIA_PALETTE: Palette = {
+  tankColors: ['#ff4d4d', '#00d1d1', '#ffffff', '#ff9ecb', '#008080', '#b2002d'],
+  teamColors: ['#ff4d4d', '#00d1d1'],
+  powerups: { SPEED: '#00d1d1', HEALTH: '#ffffff', SHOTGUN: '#ff4d4d', LASER: '#ff9ecb', SHIELD: '#008080' },
+  hazard: '#ff9ecb',
+  wall: '#555555',
+  crate: '#c47a5a',
+  suddenDeath: '#ff4d4d',
+  health: ['#00d1d1', '#ffffff', '#ff4d4d'],
+};
+
+const PALETTES: Record<ColorblindMode, Palette> = {
+  none: DEFAULT_PALETTE,
+  deuteranopia: RED_GREEN_PALETTE,
+  protanopia: RED_GREEN_PALETTE,
+  tritanopia: TRITANOPIA_PALETTE,
+};
+
+export function getPalette(mode: ColorblindMode = 'none'): Palette {
+  return PALETTES[mode] ?? DEFAULT_PALETTE;
+}
+
+// The palette entities draw with - set by the game from the player's settings
+let activePalette: Palette = DEFAULT_PALETTE;
+
+export function setActivePalette(mode: ColorblindMode): void {
+  activePalette = getPalette(mode);
+}
+
+export function getActivePalette(): Palette {
+  return activePalette;
+}
+
+/**
+ * Palette counterpart of a default color - tanks, bullets and particles carry the default
+ * neon color they were created with and are recolored when drawn (other colors pass through)
+ */
+export function getPaletteColor(palette: Palette, color: string): string {
+  if (color === DEFAULT_PALETTE.crate) return palette.crate;
+
+  const index = DEFAULT_PALETTE.tankColors.indexOf(color);
+  return index === -1 ? color : palette.tankColors[index];
+}
+
+/**
+ * Health bar color for a health fraction
+ */
+export function getHealthColor(palette: Palette, fraction: number): string {
+  if (fraction < 0.3) return palette.health[2];
+  if (fraction < 0.6) return palette.health[1];
+  return palette.health[0];
+}
+
+/**
+ * Palette color of a team - the palette counterpart of getTeamColor
+ */
+export function getPaletteTeamColor(palette: Palette, matchMode: MatchMode, team: number): string {
+  const colors = matchMode === 'teams' ? palette.teamColors : palette.tankColors;
+  return colors[(team - 1) % colors.length];
+}
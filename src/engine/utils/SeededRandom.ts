@@ -0,0 +1,79 @@
+// Seeded pseudo-random number generator (mulberry32)
+// One instance per match: a match seed plus its input log reproduces the match exactly
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Create a fresh non-deterministic seed (for starting a new match)
+   */
+  static createSeed(): number {
+    return (Math.floor(Math.random() * 0x100000000) ^ Date.now()) >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Random integer between min and max (inclusive)
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Short base-36 string for entity IDs
+   */
+  nextId(): string {
+    return Math.floor(this.next() * 0x100000000).toString(36).padStart(7, '0');
+  }
+
+  /**
+   * Seed this generator was created (or last reset) with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Current position in the sequence (save to resume later with setState)
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Resume the sequence from a position returned by getState
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Restart the sequence, optionally from a new seed
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+}
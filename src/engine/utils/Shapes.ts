@@ -0,0 +1,57 @@
+// Shape cues - each team gets its own tank silhouette so nobody is told apart by color alone
+export type TankShape = 'square' | 'circle' | 'triangle' | 'hexagon' | 'diamond' | 'pentagon';
+
+// Indexed by team, like the tank colors
+const TANK_SHAPES: readonly TankShape[] = ['square', 'circle', 'triangle', 'hexagon', 'diamond', 'pentagon'];
+
+export function getTankShape(team: number): TankShape {
+  return TANK_SHAPES[(team - 1) % TANK_SHAPES.length];
+}
+
+/**
+ * Corners of a shape centred on the origin, pointing along +x (null for a circle)
+ */
+export function getShapePoints(shape: TankShape, radius: number): Array<[number, number]> | null {
+  const polygon = (sides: number, rotation: number) =>
+    Array.from({ length: sides }, (_, i): [number, number] => {
+      const a = rotation + (i / sides) * Math.PI * 2;
+      return [Math.cos(a) * radius, Math.sin(a) * radius];
+    });
+
+  switch (shape) {
+    case 'circle':
+      return null;
+    case 'square':
+      return polygon(4, Math.PI / 4);
+    case 'triangle':
+      return polygon(3, 0);
+    case 'hexagon':
+      return polygon(6, 0);
+    case 'diamond':
+      return polygon(4, 0);
+    case 'pentagon':
+      return polygon(5, 0);
+  }
+}
+
+/**
+ * Add a shape's outline to the current path
+ */
+export function traceShape(ctx: CanvasRenderingContext2D, shape: TankShape, x: number, y: number, radius: number, angle: number = 0): void {
+  const points = getShapePoints(shape, radius);
+  if (!points) {
+    ctx.moveTo(x + radius, y);
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    return;
+  }
+
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  points.forEach(([px, py], i) => {
+    const tx = x + px * cos - py * sin;
+    const ty = y + px * sin + py * cos;
+    if (i === 0) ctx.moveTo(tx, ty);
+    else ctx.lineTo(tx, ty);
+  });
+  ctx.closePath();
+}
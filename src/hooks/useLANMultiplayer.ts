@@ -2,6 +2,9 @@ import { Logger } from '@/lib/logging/Logger';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { LocalMultiplayerServer } from '../lib/socket/localServer';
 import { LocalMultiplayerClient } from '../lib/socket/localClient';
+import type { MapSelection } from '../engine/map/MapGenerator';
+import type { MapVariant } from '../engine/map/MapPresets';
+import type { CustomMapData } from '../engine/map/MapFormat';
 
 export type LANRole = 'host' | 'guest' | null;
 export type LANStatus = 'idle' | 'connecting' | 'connected' | 'error' | 'disconnected';
@@ -14,6 +17,8 @@ export interface LANMultiplayerState {
   latency: number;
   isReady: boolean;
   guestId: string | null;
+  mapSelection: MapSelection | null; // Host's pick; the guest receives it when the match starts
+  customMap: CustomMapData | null; // Host's custom map, played instead of mapSelection
 }
 
 export function useLANMultiplayer() {
@@ -24,7 +29,9 @@ export function useLANMultiplayer() {
     error: null,
     latency: 0,
     isReady: false,
-    guestId: null
+    guestId: null,
+    mapSelection: null,
+    customMap: null
   });
 
   const serverRef = useRef<LocalMultiplayerServer | null>(null);
@@ -32,7 +39,7 @@ export function useLANMultiplayer() {
   const latencyIntervalRef = useRef<number | null>(null);
 
   // Start hosting
-  const startHosting = useCallback(async () => {
+  const startHosting = useCallback(async (mapVariant: MapVariant = 'classic', customMap: CustomMapData | null = null) => {
     try {
       setState(prev => ({
         ...prev,
@@ -43,6 +50,8 @@ export function useLANMultiplayer() {
 
       const server = new LocalMultiplayerServer();
       serverRef.current = server;
+      server.setMapVariant(mapVariant);
+      server.setCustomMap(customMap);
 
       await server.startHosting();
 
@@ -51,7 +60,9 @@ export function useLANMultiplayer() {
       setState(prev => ({
         ...prev,
         status: 'connected',
-        roomCode
+        roomCode,
+        mapSelection: server.getMapSelection(),
+        customMap
       }));
 
       // Set up callbacks
@@ -142,6 +153,15 @@ export function useLANMultiplayer() {
         }
       });
 
+      client.onStart((mapSelection, customMap) => {
+        Logger.debug('Host picked map:', customMap?.name ?? mapSelection);
+        setState(prev => ({
+          ...prev,
+          mapSelection,
+          customMap
+        }));
+      });
+
       client.onErrorReceived((error) => {
         console.error('Client error:', error);
         setState(prev => ({
@@ -210,10 +230,36 @@ export function useLANMultiplayer() {
       error: null,
       latency: 0,
       isReady: false,
-      guestId: null
+      guestId: null,
+      mapSelection: null,
+      customMap: null
     });
   }, []);
 
+  // Pick the map (host only, before the guest is ready)
+  const selectMap = useCallback((variant: MapVariant) => {
+    if (!serverRef.current) return;
+
+    serverRef.current.setMapVariant(variant);
+    serverRef.current.setCustomMap(null);
+    setState(prev => ({
+      ...prev,
+      mapSelection: serverRef.current?.getMapSelection() ?? null,
+      customMap: null
+    }));
+  }, []);
+
+  // Pick a custom map instead of a variant (host only)
+  const selectCustomMap = useCallback((customMap: CustomMapData) => {
+    if (!serverRef.current) return;
+
+    serverRef.current.setCustomMap(customMap);
+    setState(prev => ({
+      ...prev,
+      customMap
+    }));
+  }, []);
+
   // Get server instance (for host)
   const getServer = useCallback(() => {
     return serverRef.current;
@@ -257,6 +303,8 @@ export function useLANMultiplayer() {
     disconnect,
     getServer,
     getClient,
-    readyUp
+    readyUp,
+    selectMap,
+    selectCustomMap
   };
 }
@@ -4,6 +4,7 @@ import { Logger } from '@/lib/logging/Logger';
 import { useEffect, useCallback, useRef } from 'react';
 import { useMultiplayerStore } from '@/store/useMultiplayerStore';
 import { NetworkManager, NetworkStatus, getNetworkManager } from '@/engine/multiplayer/NetworkManager';
+import type { OnlineGameSettings, SessionRole } from '@/lib/socket/events';
 
 export function useMultiplayer() {
     const networkManagerRef = useRef<NetworkManager | null>(null);
@@ -15,17 +16,24 @@ export function useMultiplayer() {
         playerName,
         opponentId,
         opponentName,
+        sessionPlayers,
+        role,
         assignedTankId,
         countdown,
         roundNumber,
         latency,
         queuePosition,
+        estimatedWait,
         error,
         gameState,
+        sessionSettings,
         setConnectionStatus,
         setSessionInfo,
         setPlayerName,
         setOpponent,
+        setSessionPlayers,
+        setPlayerConnected,
+        setRole,
         setAssignedTankId,
         setCountdown,
         setRoundNumber,
@@ -33,6 +41,7 @@ export function useMultiplayer() {
         setQueuePosition,
         setError,
         setGameState,
+        setSessionSettings,
         reset,
     } = useMultiplayerStore();
 
@@ -60,14 +69,34 @@ export function useMultiplayer() {
                 },
                 onPlayerJoined: (player) => {
                     Logger.debug('[useMultiplayer] Player joined callback:', player);
-                    if (player.id !== networkManagerRef.current?.getPlayerId()) {
+                    if (player.role === 'spectator') return;
+
+                    const { sessionPlayers: current } = useMultiplayerStore.getState();
+                    setSessionPlayers([...current.filter((p) => p.id !== player.id), player]);
+                    if (player.id !== networkManagerRef.current?.getPlayerId() && !networkManagerRef.current?.isSpectator()) {
                         Logger.debug('[useMultiplayer] Setting as opponent');
                         setOpponent(player.id, player.name);
                     }
                 },
                 onPlayerLeft: (leftPlayerId, reason) => {
+                    const { sessionPlayers: current } = useMultiplayerStore.getState();
+                    setSessionPlayers(current.filter((p) => p.id !== leftPlayerId));
                     if (leftPlayerId === opponentId) {
-                        setError(`Opponent ${reason === 'disconnect' ? 'disconnected' : 'left'}`);
+                        setError(`Opponent ${reason === 'disconnect' ? 'disconnected' : reason === 'kicked' ? 'was removed' : 'left'}`);
+                    }
+                },
+                onPlayerConnectionChange: (changedPlayerId, connected) => {
+                    setPlayerConnected(changedPlayerId, connected);
+                },
+                onSessionJoined: (session) => {
+                    const localPlayerId = networkManagerRef.current?.getPlayerId() ?? '';
+                    setSessionInfo(session.sessionId, localPlayerId);
+                    setSessionPlayers(session.players);
+                    setSessionSettings(session.settings, session.mapSeed);
+
+                    const opponent = session.players.find((p) => p.id !== localPlayerId);
+                    if (opponent) {
+                        setOpponent(opponent.id, opponent.name);
                     }
                 },
                 onGameOver: (winner, scores) => {
@@ -89,6 +118,9 @@ export function useMultiplayer() {
                 onLatencyUpdate: (ms) => {
                     setLatency(ms);
                 },
+                onQueueUpdate: (position, estimatedWait) => {
+                    setQueuePosition(position, estimatedWait);
+                },
             });
         }
 
@@ -139,17 +171,20 @@ export function useMultiplayer() {
     }, [reset]);
 
     // Start matchmaking
-    const findMatch = useCallback(async (gameSettings?: { scoreLimitValue: number; timeLimitEnabled: boolean; timeLimitSeconds: number }) => {
+    const findMatch = useCallback(async (gameSettings?: OnlineGameSettings) => {
         if (!networkManagerRef.current) return;
 
         try {
             Logger.debug('[useMultiplayer] Starting matchmaking...');
             setConnectionStatus('matchmaking');
-            setQueuePosition(1);
+            setQueuePosition(null);
 
             const session = await networkManagerRef.current.findMatch(gameSettings);
             Logger.debug('[useMultiplayer] Matchmaking result:', session);
             setSessionInfo(session.sessionId, networkManagerRef.current.getPlayerId());
+            setSessionSettings(session.settings, session.mapSeed);
+            setSessionPlayers(session.players);
+            setRole('player');
 
             if (session.players.length === 2) {
                 Logger.debug('[useMultiplayer] Match found with 2 players!');
@@ -177,24 +212,30 @@ export function useMultiplayer() {
 
             setError(errorMessage);
         }
-    }, [setConnectionStatus, setQueuePosition, setSessionInfo, setOpponent, setError]);
+    }, [setConnectionStatus, setQueuePosition, setSessionInfo, setSessionSettings, setSessionPlayers, setRole, setOpponent, setError]);
 
-    // Join specific session
+    // Join specific session, as a player or a read-only spectator
     const joinSession = useCallback(async (
         sessionId: string,
-        gameSettings?: { scoreLimitValue: number; timeLimitEnabled: boolean; timeLimitSeconds: number }
+        gameSettings?: OnlineGameSettings,
+        joinRole: SessionRole = 'player'
     ) => {
         if (!networkManagerRef.current) return;
 
         try {
-            Logger.debug('[useMultiplayer] Joining session:', sessionId, 'with settings:', gameSettings);
+            Logger.debug('[useMultiplayer] Joining session:', sessionId, 'as', joinRole, 'with settings:', gameSettings);
             setConnectionStatus('matchmaking');
 
-            const session = await networkManagerRef.current.joinSession(sessionId, gameSettings);
+            const session = await networkManagerRef.current.joinSession(sessionId, gameSettings, joinRole);
             Logger.debug('[useMultiplayer] Joined session:', session);
             setSessionInfo(session.sessionId, networkManagerRef.current.getPlayerId());
+            setSessionSettings(session.settings, session.mapSeed);
+            setSessionPlayers(session.players);
+            setRole(session.role);
 
-            if (session.players.length === 2) {
+            if (session.role === 'spectator') {
+                Logger.debug('[useMultiplayer] Spectating session, state:', session.gameState);
+            } else if (session.players.length === 2) {
                 Logger.debug('[useMultiplayer] Session has 2 players!');
                 const opponent = session.players.find(
                     (p) => p.id !== networkManagerRef.current?.getPlayerId()
@@ -210,7 +251,7 @@ export function useMultiplayer() {
             console.error('[useMultiplayer] Failed to join session:', err);
             setError(err.message || 'Failed to join session');
         }
-    }, [setConnectionStatus, setSessionInfo, setOpponent, setError]);
+    }, [setConnectionStatus, setSessionInfo, setSessionSettings, setSessionPlayers, setRole, setOpponent, setError]);
 
     // Cancel matchmaking
     const cancelMatch = useCallback(() => {
@@ -238,13 +279,17 @@ export function useMultiplayer() {
         playerName,
         opponentId,
         opponentName,
+        sessionPlayers,
+        role,
         assignedTankId,
         countdown,
         roundNumber,
         latency,
         queuePosition,
+        estimatedWait,
         error,
         gameState,
+        sessionSettings,
 
         // Actions
         connect,
@@ -261,6 +306,8 @@ export function useMultiplayer() {
         isMatchmaking: connectionStatus === 'matchmaking',
         isMatched: connectionStatus === 'matched',
         isInGame: connectionStatus === 'in_game',
+        isReconnecting: connectionStatus === 'reconnecting',
+        isSpectating: role === 'spectator',
         hasError: connectionStatus === 'error' || error !== null,
     };
 }
@@ -0,0 +1,13 @@
+// Matchmaking library exports
+export * from './store';
+export { InMemoryMatchmakingStore } from './memoryStore';
+export { RedisMatchmakingStore } from './redisStore';
+export {
+  getMatchmakingStore,
+  setMatchmakingStore,
+  getQueueStatus,
+  getRatingWindow,
+  joinQueue,
+  leaveQueue,
+} from './matchmaker';
+export type { MatchmakingStatus } from './matchmaker';
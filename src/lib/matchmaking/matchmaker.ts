@@ -0,0 +1,216 @@
+// Matchmaking - pairs queued players of similar skill on top of whichever MatchmakingStore is configured
+import { getRedisCommand } from '@/lib/redis';
+import { getRatings } from '@/lib/rating';
+import { InMemoryMatchmakingStore } from './memoryStore';
+import { RedisMatchmakingStore } from './redisStore';
+import type { MatchmakingStore, QueueEntry } from './store';
+
+// Used until there are real queue times to go on
+const DEFAULT_ESTIMATED_WAIT_S = 30;
+
+// Widest rating gap allowed for a pair, growing the longer either player has waited
+const RATING_WINDOW_BASE = 100;
+const RATING_WINDOW_GROWTH_PER_S = 10;
+
+export type MatchmakingStatus =
+  | {
+      status: 'queued';
+      sessionId: string; // The player's own session, for invite links
+      queuePosition: number;
+      estimatedWait: number; // Seconds
+      message: string;
+    }
+  | {
+      status: 'matched';
+      sessionId: string;
+      opponent: { playerId: string; playerName: string };
+      message: string;
+    }
+  | {
+      status: 'not_queued';
+      message: string;
+    };
+
+// Kept on globalThis so every API route (and a custom server) shares one store
+const STORE_KEY = Symbol.for('neontank.matchmakingStore');
+const storeHolder = globalThis as typeof globalThis & { [STORE_KEY]?: MatchmakingStore };
+
+export function getMatchmakingStore(): MatchmakingStore {
+  if (!storeHolder[STORE_KEY]) {
+    const command = getRedisCommand();
+    storeHolder[STORE_KEY] = command ? new RedisMatchmakingStore(command) : new InMemoryMatchmakingStore();
+  }
+  return storeHolder[STORE_KEY];
+}
+
+/**
+ * Replace the matchmaking store, e.g. with a RedisMatchmakingStore on an existing Redis client
+ */
+export function setMatchmakingStore(store: MatchmakingStore): void {
+  storeHolder[STORE_KEY] = store;
+}
+
+/**
+ * Create a 5-character session code
+ */
+function createSessionCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed confusing characters
+  let sessionId = '';
+  for (let i = 0; i < 5; i++) {
+    sessionId += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return sessionId;
+}
+
+/**
+ * Estimate seconds left to wait - arrivals are paired with the longest-waiting player in
+ * rating range, so a player needs roughly as many arrivals as their queue position
+ */
+async function estimateWait(store: MatchmakingStore, entry: QueueEntry, position: number): Promise<number> {
+  const samples = await store.getWaitTimes();
+  if (samples.length === 0) return DEFAULT_ESTIMATED_WAIT_S;
+
+  const averageS = samples.reduce((sum, ms) => sum + ms, 0) / samples.length / 1000;
+  const waitedS = (Date.now() - entry.timestamp) / 1000;
+  return Math.max(1, Math.round(averageS * position - waitedS));
+}
+
+/**
+ * Rating gap allowed between two players, given how long the longer-waiting one has queued
+ */
+export function getRatingWindow(waitedMs: number): number {
+  return RATING_WINDOW_BASE + RATING_WINDOW_GROWTH_PER_S * Math.max(0, waitedMs) / 1000;
+}
+
+/**
+ * Claim the longest-waiting queued player within the rating window of the given player
+ */
+async function findOpponent(store: MatchmakingStore, player: QueueEntry): Promise<QueueEntry | null> {
+  const now = Date.now();
+  for (const candidate of await store.list()) {
+    if (candidate.playerId === player.playerId) continue;
+
+    const waitedMs = now - Math.min(candidate.timestamp, player.timestamp);
+    if (Math.abs(candidate.rating - player.rating) > getRatingWindow(waitedMs)) continue;
+
+    const claimed = await store.claim(candidate.playerId);
+    if (claimed) return claimed;
+  }
+  return null;
+}
+
+/**
+ * Pair two players in the longer-waiting one's session and leave word for the opponent's next poll
+ */
+async function pairPlayers(
+  store: MatchmakingStore,
+  player: QueueEntry,
+  opponent: QueueEntry,
+  playerWasQueued: boolean
+): Promise<MatchmakingStatus> {
+  const now = Date.now();
+  const host = opponent.timestamp <= player.timestamp ? opponent : player;
+
+  await store.recordMatch(opponent.playerId, {
+    sessionId: host.sessionId,
+    opponent: { playerId: player.playerId, playerName: player.playerName },
+    matchedAt: now,
+  });
+  await store.recordWaitTime(now - opponent.timestamp);
+  if (playerWasQueued) {
+    await store.recordWaitTime(now - player.timestamp);
+  }
+
+  return {
+    status: 'matched',
+    sessionId: host.sessionId,
+    opponent: {
+      playerId: opponent.playerId,
+      playerName: opponent.playerName,
+    },
+    message: 'Match found!',
+  };
+}
+
+async function queuedStatus(store: MatchmakingStore, entry: QueueEntry): Promise<MatchmakingStatus> {
+  const queuePosition = (await store.getPosition(entry.playerId)) ?? 1;
+  return {
+    status: 'queued',
+    sessionId: entry.sessionId,
+    queuePosition,
+    estimatedWait: await estimateWait(store, entry, queuePosition),
+    message: 'Waiting for opponent...',
+  };
+}
+
+/**
+ * Where a player stands, refreshing their queue entry - they are still waiting.
+ * Their rating window has widened since they queued, so this also looks for an opponent.
+ */
+export async function getQueueStatus(playerId: string): Promise<MatchmakingStatus> {
+  const store = getMatchmakingStore();
+
+  const match = await store.getMatch(playerId);
+  if (match) {
+    return {
+      status: 'matched',
+      sessionId: match.sessionId,
+      opponent: match.opponent,
+      message: 'Match found!',
+    };
+  }
+
+  const entry = await store.getEntry(playerId);
+  if (!entry) {
+    return { status: 'not_queued', message: 'Not in the matchmaking queue' };
+  }
+
+  await store.refresh(playerId);
+
+  const opponent = await findOpponent(store, entry);
+  if (opponent) {
+    if (await store.claim(playerId)) {
+      return pairPlayers(store, entry, opponent, true);
+    }
+    // Someone else matched us first - their match shows up on the next poll
+    await store.restore(opponent);
+  }
+
+  return queuedStatus(store, entry);
+}
+
+/**
+ * Pair a player with the longest-waiting player within their rating window,
+ * or queue them in a new session of their own
+ */
+export async function joinQueue(playerId: string, playerName: string): Promise<MatchmakingStatus> {
+  const store = getMatchmakingStore();
+
+  // Already queued, or matched while waiting
+  const current = await getQueueStatus(playerId);
+  if (current.status !== 'not_queued') return current;
+
+  const [rating] = await getRatings([playerId]);
+  const entry: QueueEntry = {
+    playerId,
+    playerName,
+    timestamp: Date.now(),
+    sessionId: createSessionCode(),
+    rating: rating.rating,
+  };
+
+  const opponent = await findOpponent(store, entry);
+  if (opponent) {
+    return pairPlayers(store, entry, opponent, false);
+  }
+
+  await store.enqueue(entry);
+  return queuedStatus(store, entry);
+}
+
+/**
+ * Take a player out of the queue and forget any match left for them
+ */
+export async function leaveQueue(playerId: string): Promise<void> {
+  await getMatchmakingStore().remove(playerId);
+}
@@ -0,0 +1,103 @@
+// In-memory matchmaking store - for a single server process (local development, one Node host)
+import {
+  MATCH_TTL_MS,
+  QUEUE_ENTRY_TTL_MS,
+  WAIT_SAMPLE_SIZE,
+  type MatchmakingStore,
+  type MatchRecord,
+  type QueueEntry,
+} from './store';
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class InMemoryMatchmakingStore implements MatchmakingStore {
+  // Insertion order is queue order - entries are appended, and only restore() inserts in between
+  private queue: Map<string, Expiring<QueueEntry>> = new Map();
+  private matches: Map<string, Expiring<MatchRecord>> = new Map();
+  private waitTimes: number[] = [];
+
+  async enqueue(entry: QueueEntry): Promise<void> {
+    this.queue.delete(entry.playerId);
+    this.queue.set(entry.playerId, { value: entry, expiresAt: Date.now() + QUEUE_ENTRY_TTL_MS });
+  }
+
+  async getEntry(playerId: string): Promise<QueueEntry | null> {
+    this.pruneExpired();
+    return this.queue.get(playerId)?.value ?? null;
+  }
+
+  async refresh(playerId: string): Promise<void> {
+    const item = this.queue.get(playerId);
+    if (item) item.expiresAt = Date.now() + QUEUE_ENTRY_TTL_MS;
+  }
+
+  async list(): Promise<QueueEntry[]> {
+    this.pruneExpired();
+    return Array.from(this.queue.values(), (item) => item.value);
+  }
+
+  async claim(playerId: string): Promise<QueueEntry | null> {
+    this.pruneExpired();
+    const item = this.queue.get(playerId);
+    if (!item) return null;
+
+    this.queue.delete(playerId);
+    return item.value;
+  }
+
+  async restore(entry: QueueEntry): Promise<void> {
+    // Back in front of everyone who queued after them
+    const item = { value: entry, expiresAt: Date.now() + QUEUE_ENTRY_TTL_MS };
+    const items = Array.from(this.queue).filter(([playerId]) => playerId !== entry.playerId);
+    const index = items.findIndex(([, other]) => other.value.timestamp > entry.timestamp);
+    items.splice(index === -1 ? items.length : index, 0, [entry.playerId, item]);
+    this.queue = new Map(items);
+  }
+
+  async remove(playerId: string): Promise<void> {
+    this.queue.delete(playerId);
+    this.matches.delete(playerId);
+  }
+
+  async getPosition(playerId: string): Promise<number | null> {
+    this.pruneExpired();
+    const index = Array.from(this.queue.keys()).indexOf(playerId);
+    return index === -1 ? null : index + 1;
+  }
+
+  async recordMatch(playerId: string, match: MatchRecord): Promise<void> {
+    this.matches.set(playerId, { value: match, expiresAt: Date.now() + MATCH_TTL_MS });
+  }
+
+  async getMatch(playerId: string): Promise<MatchRecord | null> {
+    const item = this.matches.get(playerId);
+    if (!item) return null;
+    if (item.expiresAt <= Date.now()) {
+      this.matches.delete(playerId);
+      return null;
+    }
+    return item.value;
+  }
+
+  async recordWaitTime(ms: number): Promise<void> {
+    this.waitTimes.unshift(ms);
+    this.waitTimes.length = Math.min(this.waitTimes.length, WAIT_SAMPLE_SIZE);
+  }
+
+  async getWaitTimes(): Promise<number[]> {
+    return [...this.waitTimes];
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [playerId, item] of this.queue) {
+      if (item.expiresAt <= now) this.queue.delete(playerId);
+    }
+    for (const [playerId, item] of this.matches) {
+      if (item.expiresAt <= now) this.matches.delete(playerId);
+    }
+  }
+}
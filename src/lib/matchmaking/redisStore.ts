@@ -0,0 +1,128 @@
+// Redis-backed matchmaking store - shares the queue between server instances (e.g. serverless API routes)
+import { asString, asStrings, type RedisCommand } from '@/lib/redis';
+import {
+  MATCH_TTL_MS,
+  QUEUE_ENTRY_TTL_MS,
+  WAIT_SAMPLE_SIZE,
+  type MatchmakingStore,
+  type MatchRecord,
+  type QueueEntry,
+} from './store';
+
+export class RedisMatchmakingStore implements MatchmakingStore {
+  constructor(
+    private command: RedisCommand,
+    private prefix: string = 'neontank:matchmaking:'
+  ) {}
+
+  // Queue order: sorted set of player IDs scored by join time. Entries live in their own
+  // expiring keys, so a member whose entry key has expired is stale and gets skipped.
+  private get queueKey(): string {
+    return `${this.prefix}queue`;
+  }
+
+  private get waitTimesKey(): string {
+    return `${this.prefix}waits`;
+  }
+
+  private entryKey(playerId: string): string {
+    return `${this.prefix}entry:${playerId}`;
+  }
+
+  private matchKey(playerId: string): string {
+    return `${this.prefix}match:${playerId}`;
+  }
+
+  async enqueue(entry: QueueEntry): Promise<void> {
+    await this.command(['SET', this.entryKey(entry.playerId), JSON.stringify(entry), 'PX', QUEUE_ENTRY_TTL_MS]);
+    await this.command(['ZADD', this.queueKey, entry.timestamp, entry.playerId]);
+  }
+
+  async getEntry(playerId: string): Promise<QueueEntry | null> {
+    const json = asString(await this.command(['GET', this.entryKey(playerId)]));
+    if (json === null) {
+      await this.command(['ZREM', this.queueKey, playerId]);
+      return null;
+    }
+    return JSON.parse(json) as QueueEntry;
+  }
+
+  async refresh(playerId: string): Promise<void> {
+    await this.command(['PEXPIRE', this.entryKey(playerId), QUEUE_ENTRY_TTL_MS]);
+  }
+
+  async list(): Promise<QueueEntry[]> {
+    const queued = await this.queuedIds();
+    if (queued.length === 0) return [];
+
+    const entries = asStrings(await this.command(['MGET', ...queued.map((id) => this.entryKey(id))]));
+    await this.dropStale(queued, entries);
+    return entries.flatMap((json) => (json === null ? [] : [JSON.parse(json) as QueueEntry]));
+  }
+
+  async claim(playerId: string): Promise<QueueEntry | null> {
+    // Only one caller's ZREM can remove the member, so only one instance can claim each player
+    const removed = await this.command(['ZREM', this.queueKey, playerId]);
+    if (Number(removed) !== 1) return null;
+
+    const json = asString(await this.command(['GET', this.entryKey(playerId)]));
+    await this.command(['DEL', this.entryKey(playerId)]);
+    return json === null ? null : (JSON.parse(json) as QueueEntry);
+  }
+
+  async restore(entry: QueueEntry): Promise<void> {
+    // The queue is scored by join time, so adding the entry again puts it back in its place
+    await this.enqueue(entry);
+  }
+
+  async remove(playerId: string): Promise<void> {
+    await this.command(['DEL', this.entryKey(playerId), this.matchKey(playerId)]);
+    await this.command(['ZREM', this.queueKey, playerId]);
+  }
+
+  async getPosition(playerId: string): Promise<number | null> {
+    const queued = await this.queuedIds();
+    if (!queued.includes(playerId)) return null;
+
+    const entries = asStrings(await this.command(['MGET', ...queued.map((id) => this.entryKey(id))]));
+    await this.dropStale(queued, entries);
+
+    const live = queued.filter((_, i) => entries[i] !== null);
+    const index = live.indexOf(playerId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private async queuedIds(): Promise<string[]> {
+    return asStrings(await this.command(['ZRANGE', this.queueKey, 0, -1])).filter(
+      (id): id is string => id !== null
+    );
+  }
+
+  // Forget queue members whose entry key has expired
+  private async dropStale(queued: string[], entries: Array<string | null>): Promise<void> {
+    for (const stale of queued.filter((_, i) => entries[i] === null)) {
+      await this.command(['ZREM', this.queueKey, stale]);
+    }
+  }
+
+  async recordMatch(playerId: string, match: MatchRecord): Promise<void> {
+    await this.command(['SET', this.matchKey(playerId), JSON.stringify(match), 'PX', MATCH_TTL_MS]);
+  }
+
+  async getMatch(playerId: string): Promise<MatchRecord | null> {
+    const json = asString(await this.command(['GET', this.matchKey(playerId)]));
+    return json === null ? null : (JSON.parse(json) as MatchRecord);
+  }
+
+  async recordWaitTime(ms: number): Promise<void> {
+    await this.command(['LPUSH', this.waitTimesKey, Math.round(ms)]);
+    await this.command(['LTRIM', this.waitTimesKey, 0, WAIT_SAMPLE_SIZE - 1]);
+  }
+
+  async getWaitTimes(): Promise<number[]> {
+    return asStrings(await this.command(['LRANGE', this.waitTimesKey, 0, -1]))
+      .filter((reply): reply is string => reply !== null)
+      .map(Number)
+      .filter(Number.isFinite);
+  }
+}
@@ -0,0 +1,86 @@
+// Matchmaking store tests - every store runs the same checks, the Redis one against LocalRedis
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalRedis } from '@/lib/redis';
+import { InMemoryMatchmakingStore } from './memoryStore';
+import { RedisMatchmakingStore } from './redisStore';
+import { WAIT_SAMPLE_SIZE } from './store';
+import type { MatchmakingStore, QueueEntry } from './store';
+
+const stores: [string, () => MatchmakingStore][] = [
+  ['InMemoryMatchmakingStore', () => new InMemoryMatchmakingStore()],
+  ['RedisMatchmakingStore', () => new RedisMatchmakingStore(new LocalRedis().command)],
+];
+
+const entry = (playerId: string, timestamp: number): QueueEntry => ({
+  playerId,
+  playerName: playerId.toUpperCase(),
+  timestamp,
+  sessionId: `S-${playerId}`,
+  rating: 1200,
+});
+
+const queuedIds = async (store: MatchmakingStore) => (await store.list()).map((e) => e.playerId);
+
+for (const [name, createStore] of stores) {
+  describe(name, () => {
+    it('lists the queue longest-waiting first', async () => {
+      const store = createStore();
+      await store.enqueue(entry('a', 1000));
+      await store.enqueue(entry('b', 2000));
+      await store.enqueue(entry('c', 3000));
+
+      assert.deepEqual(await queuedIds(store), ['a', 'b', 'c']);
+      assert.equal(await store.getPosition('a'), 1);
+      assert.equal(await store.getPosition('c'), 3);
+      assert.equal(await store.getPosition('nobody'), null);
+    });
+
+    it('claims a queued player only once', async () => {
+      const store = createStore();
+      await store.enqueue(entry('a', 1000));
+
+      const [first, second] = await Promise.all([store.claim('a'), store.claim('a')]);
+
+      assert.equal([first, second].filter((claimed) => claimed !== null).length, 1);
+      assert.equal((first ?? second)?.playerId, 'a');
+      assert.equal(await store.getEntry('a'), null);
+      assert.deepEqual(await queuedIds(store), []);
+    });
+
+    it('restores a claimed player to their place in the queue', async () => {
+      const store = createStore();
+      await store.enqueue(entry('a', 1000));
+      await store.enqueue(entry('b', 2000));
+      await store.enqueue(entry('c', 3000));
+
+      const claimed = await store.claim('b');
+      assert.ok(claimed);
+      assert.deepEqual(await queuedIds(store), ['a', 'c']);
+
+      await store.restore(claimed);
+      assert.deepEqual(await queuedIds(store), ['a', 'b', 'c']);
+      assert.equal(await store.getPosition('b'), 2);
+    });
+
+    it('removes a player and the match left for them', async () => {
+      const store = createStore();
+      await store.enqueue(entry('a', 1000));
+      await store.recordMatch('a', { sessionId: 'S-b', opponent: { playerId: 'b', playerName: 'B' }, matchedAt: 1 });
+
+      await store.remove('a');
+
+      assert.equal(await store.getEntry('a'), null);
+      assert.equal(await store.getMatch('a'), null);
+    });
+
+    it('keeps the most recent wait times', async () => {
+      const store = createStore();
+      for (let i = 1; i <= WAIT_SAMPLE_SIZE + 5; i++) await store.recordWaitTime(i * 1000);
+
+      const waits = await store.getWaitTimes();
+      assert.equal(waits.length, WAIT_SAMPLE_SIZE);
+      assert.equal(waits[0], (WAIT_SAMPLE_SIZE + 5) * 1000);
+    });
+  });
+}
@@ -0,0 +1,51 @@
+// Matchmaking storage - the queue and recent matches, shared by the matchmaking API routes
+// Implementations must be safe to share between server instances (see RedisMatchmakingStore)
+
+// Players poll while queued - an entry not refreshed within this window is dropped
+export const QUEUE_ENTRY_TTL_MS = 30 * 1000;
+// How long a waiting player can still look up the match they were put in
+export const MATCH_TTL_MS = 60 * 1000;
+// Recent queue times kept for the wait estimate
+export const WAIT_SAMPLE_SIZE = 20;
+
+export interface QueueEntry {
+  playerId: string;
+  playerName: string;
+  timestamp: number; // When the player joined the queue
+  sessionId: string; // Each waiting player gets their own session for invite links
+  rating: number; // Skill rating when the player queued
+}
+
+export interface MatchRecord {
+  sessionId: string;
+  opponent: {
+    playerId: string;
+    playerName: string;
+  };
+  matchedAt: number;
+}
+
+export interface MatchmakingStore {
+  /** Add a player to the queue (or replace their entry), expiring after QUEUE_ENTRY_TTL_MS */
+  enqueue(entry: QueueEntry): Promise<void>;
+  /** A queued player's entry, or null if they are not queued */
+  getEntry(playerId: string): Promise<QueueEntry | null>;
+  /** Push back a queued player's expiry - they are still waiting */
+  refresh(playerId: string): Promise<void>;
+  /** Everyone queued, longest-waiting first */
+  list(): Promise<QueueEntry[]>;
+  /** Remove and return a queued player; atomic so two players are never matched with the same one */
+  claim(playerId: string): Promise<QueueEntry | null>;
+  /** Put a claimed player back where they stood in the queue, e.g. when their pairing fell through */
+  restore(entry: QueueEntry): Promise<void>;
+  /** Drop a player's queue entry and any match left for them */
+  remove(playerId: string): Promise<void>;
+  /** 1-based place in the queue, or null if not queued */
+  getPosition(playerId: string): Promise<number | null>;
+  /** Remember a player's match for MATCH_TTL_MS so they can pick it up when they next poll */
+  recordMatch(playerId: string, match: MatchRecord): Promise<void>;
+  getMatch(playerId: string): Promise<MatchRecord | null>;
+  /** Note how long a matched player waited (keeps the last WAIT_SAMPLE_SIZE) */
+  recordWaitTime(ms: number): Promise<void>;
+  getWaitTimes(): Promise<number[]>;
+}
@@ -0,0 +1,14 @@
+// Player profile library exports
+export * from './store';
+export { InMemoryProfileStore } from './memoryStore';
+export { RedisProfileStore } from './redisStore';
+export {
+  getProfileStore,
+  setProfileStore,
+  createWeaponStats,
+  getProfile,
+  getMatchHistory,
+  recordMatchHistory,
+  verifyPlayerToken,
+} from './profiles';
+export type { CompletedMatch } from './profiles';
@@ -0,0 +1,35 @@
+// In-memory profile store - profiles and history last as long as the server process
+import { MAX_HISTORY_ENTRIES, type MatchHistoryEntry, type MatchHistoryPage, type PlayerProfile, type ProfileStore } from './store';
+
+export class InMemoryProfileStore implements ProfileStore {
+  private profiles: Map<string, PlayerProfile> = new Map();
+  private histories: Map<string, MatchHistoryEntry[]> = new Map(); // Newest first
+  private owners: Map<string, string> = new Map(); // playerId -> token hash
+
+  async getProfile(playerId: string): Promise<PlayerProfile | null> {
+    const profile = this.profiles.get(playerId);
+    return profile ? { ...profile } : null;
+  }
+
+  async saveProfile(profile: PlayerProfile): Promise<void> {
+    this.profiles.set(profile.playerId, { ...profile });
+  }
+
+  async addMatch(playerId: string, entry: MatchHistoryEntry): Promise<void> {
+    const history = this.histories.get(playerId) ?? [];
+    history.unshift(entry);
+    history.length = Math.min(history.length, MAX_HISTORY_ENTRIES);
+    this.histories.set(playerId, history);
+  }
+
+  async getHistory(playerId: string, offset: number, limit: number): Promise<MatchHistoryPage> {
+    const history = this.histories.get(playerId) ?? [];
+    return { entries: history.slice(offset, offset + limit), total: history.length };
+  }
+
+  async claimPlayerId(playerId: string, tokenHash: string): Promise<boolean> {
+    const owner = this.owners.get(playerId);
+    if (owner === undefined) this.owners.set(playerId, tokenHash);
+    return owner === undefined || owner === tokenHash;
+  }
+}
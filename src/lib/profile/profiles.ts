@@ -0,0 +1,121 @@
+// Player profiles - match history recorded from finished online matches, read by the profile API routes
+import { createHash } from 'crypto';
+import { getRedisCommand } from '@/lib/redis';
+import { InMemoryProfileStore } from './memoryStore';
+import { RedisProfileStore } from './redisStore';
+import type { MatchHistoryEntry, MatchHistoryPage, MatchPlayer, PlayerProfile, ProfileStore, WeaponStats } from './store';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import type { MapVariant } from '@/engine/map/MapPresets';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+
+// Kept on globalThis so the game server and the profile API routes share one store
+const STORE_KEY = Symbol.for('neontank.profileStore');
+const storeHolder = globalThis as typeof globalThis & { [STORE_KEY]?: ProfileStore };
+
+export function getProfileStore(): ProfileStore {
+  if (!storeHolder[STORE_KEY]) {
+    const command = getRedisCommand();
+    storeHolder[STORE_KEY] = command ? new RedisProfileStore(command) : new InMemoryProfileStore();
+  }
+  return storeHolder[STORE_KEY];
+}
+
+/**
+ * Replace the profile store, e.g. with a RedisProfileStore on an existing Redis client
+ */
+export function setProfileStore(store: ProfileStore): void {
+  storeHolder[STORE_KEY] = store;
+}
+
+export function createWeaponStats(): WeaponStats {
+  return { shotsFired: {}, hits: 0, damageDealt: 0 };
+}
+
+/** A finished online match, as the game server saw it */
+export interface CompletedMatch {
+  matchId: string;
+  matchMode: MatchMode;
+  map: { variant: MapVariant; seed: number };
+  players: Array<MatchPlayer & { team: number }>; // Everyone who started the match
+  winner: number; // Team
+  finalScores: GameScores;
+  rounds: number;
+  durationMs: number;
+  weaponStats: Map<number, WeaponStats>; // tankId -> stats
+  ratingChanges: Map<string, number>; // playerId -> rating change
+}
+
+// Shortest secret accepted - clients send 32 random bytes as hex
+const MIN_PLAYER_TOKEN_LENGTH = 32;
+
+/**
+ * Whether the holder of `playerToken` may play under `playerId`. Player IDs are public - every player
+ * and spectator in a session sees them - so the profile and rating behind an ID belong to the first
+ * token presented with it, and only a hash of that token is stored
+ */
+export async function verifyPlayerToken(playerId: string, playerToken: unknown): Promise<boolean> {
+  if (typeof playerToken !== 'string' || playerToken.length < MIN_PLAYER_TOKEN_LENGTH) return false;
+
+  const tokenHash = createHash('sha256').update(playerToken).digest('hex');
+  return getProfileStore().claimPlayerId(playerId, tokenHash);
+}
+
+export async function getProfile(playerId: string): Promise<PlayerProfile | null> {
+  return getProfileStore().getProfile(playerId);
+}
+
+export async function getMatchHistory(playerId: string, offset: number, limit: number): Promise<MatchHistoryPage> {
+  return getProfileStore().getHistory(playerId, offset, limit);
+}
+
+/**
+ * Add a finished match to the history of everyone who played it and update their profiles
+ */
+export async function recordMatchHistory(match: CompletedMatch): Promise<void> {
+  const store = getProfileStore();
+  const now = Date.now();
+
+  for (const player of match.players) {
+    const won = player.team === match.winner;
+    const entry: MatchHistoryEntry = {
+      matchId: match.matchId,
+      playedAt: now,
+      matchMode: match.matchMode,
+      map: match.map,
+      tankId: player.tankId,
+      team: player.team,
+      won,
+      opponents: match.players.filter((p) => p.team !== player.team).map(toMatchPlayer),
+      teammates: match.players.filter((p) => p.team === player.team && p.playerId !== player.playerId).map(toMatchPlayer),
+      finalScores: match.finalScores,
+      rounds: match.rounds,
+      durationMs: match.durationMs,
+      weaponStats: match.weaponStats.get(player.tankId) ?? createWeaponStats(),
+      ratingChange: match.ratingChanges.get(player.playerId) ?? null,
+    };
+
+    const profile = (await store.getProfile(player.playerId)) ?? {
+      playerId: player.playerId,
+      name: player.name,
+      createdAt: now,
+      lastPlayedAt: now,
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+    };
+
+    await store.addMatch(player.playerId, entry);
+    await store.saveProfile({
+      ...profile,
+      name: player.name,
+      lastPlayedAt: now,
+      matchesPlayed: profile.matchesPlayed + 1,
+      wins: profile.wins + (won ? 1 : 0),
+      losses: profile.losses + (won ? 0 : 1),
+    });
+  }
+}
+
+function toMatchPlayer({ playerId, name, tankId }: MatchPlayer): MatchPlayer {
+  return { playerId, name, tankId };
+}
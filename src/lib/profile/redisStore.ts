@@ -0,0 +1,51 @@
+// Redis-backed profile store - a profile key and a capped history list per player, never expires
+import { asString, asStrings, type RedisCommand } from '@/lib/redis';
+import { MAX_HISTORY_ENTRIES, type MatchHistoryEntry, type MatchHistoryPage, type PlayerProfile, type ProfileStore } from './store';
+
+export class RedisProfileStore implements ProfileStore {
+  constructor(
+    private command: RedisCommand,
+    private prefix: string = 'neontank:profile:'
+  ) {}
+
+  private profileKey(playerId: string): string {
+    return `${this.prefix}${playerId}`;
+  }
+
+  private historyKey(playerId: string): string {
+    return `${this.prefix}history:${playerId}`;
+  }
+
+  private ownerKey(playerId: string): string {
+    return `${this.prefix}owner:${playerId}`;
+  }
+
+  async getProfile(playerId: string): Promise<PlayerProfile | null> {
+    const json = asString(await this.command(['GET', this.profileKey(playerId)]));
+    return json === null ? null : (JSON.parse(json) as PlayerProfile);
+  }
+
+  async saveProfile(profile: PlayerProfile): Promise<void> {
+    await this.command(['SET', this.profileKey(profile.playerId), JSON.stringify(profile)]);
+  }
+
+  async addMatch(playerId: string, entry: MatchHistoryEntry): Promise<void> {
+    await this.command(['LPUSH', this.historyKey(playerId), JSON.stringify(entry)]);
+    await this.command(['LTRIM', this.historyKey(playerId), 0, MAX_HISTORY_ENTRIES - 1]);
+  }
+
+  async getHistory(playerId: string, offset: number, limit: number): Promise<MatchHistoryPage> {
+    const replies = asStrings(await this.command(['LRANGE', this.historyKey(playerId), offset, offset + limit - 1]));
+    const total = Number(await this.command(['LLEN', this.historyKey(playerId)]));
+    return {
+      entries: replies.flatMap((json) => (json === null ? [] : [JSON.parse(json) as MatchHistoryEntry])),
+      total,
+    };
+  }
+
+  async claimPlayerId(playerId: string, tokenHash: string): Promise<boolean> {
+    // NX only sets a free ID, so two first claims can't both win
+    const claimed = await this.command(['SET', this.ownerKey(playerId), tokenHash, 'NX']);
+    return claimed === 'OK' || asString(await this.command(['GET', this.ownerKey(playerId)])) === tokenHash;
+  }
+}
@@ -0,0 +1,33 @@
+// Profile store tests - every store runs the same checks, the Redis one against LocalRedis
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalRedis } from '@/lib/redis';
+import { InMemoryProfileStore } from './memoryStore';
+import { RedisProfileStore } from './redisStore';
+import type { ProfileStore } from './store';
+
+const stores: [string, () => ProfileStore][] = [
+  ['InMemoryProfileStore', () => new InMemoryProfileStore()],
+  ['RedisProfileStore', () => new RedisProfileStore(new LocalRedis().command)],
+];
+
+for (const [name, createStore] of stores) {
+  describe(name, () => {
+    it('gives a player ID to the first token that claims it', async () => {
+      const store = createStore();
+
+      assert.equal(await store.claimPlayerId('p_a', 'owner'), true);
+      assert.equal(await store.claimPlayerId('p_a', 'owner'), true);
+      assert.equal(await store.claimPlayerId('p_a', 'someone-else'), false);
+      assert.equal(await store.claimPlayerId('p_b', 'someone-else'), true);
+    });
+
+    it('lets only one of two simultaneous claims win', async () => {
+      const store = createStore();
+
+      const results = await Promise.all([store.claimPlayerId('p_a', 'first'), store.claimPlayerId('p_a', 'second')]);
+
+      assert.equal(results.filter(Boolean).length, 1);
+    });
+  });
+}
@@ -0,0 +1,64 @@
+// Profile storage - player profiles and their match history, shared by the game server and the profile API routes
+import type { BulletType } from '@/engine/entities/Bullet';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import type { MapVariant } from '@/engine/map/MapPresets';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+
+// Matches kept per player - older ones drop off the end of the history
+export const MAX_HISTORY_ENTRIES = 100;
+
+export interface PlayerProfile {
+  playerId: string; // Stable per-browser public ID, owned by whoever holds its secret token
+  name: string; // Name used in the player's most recent match
+  createdAt: number;
+  lastPlayedAt: number;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+}
+
+export interface WeaponStats {
+  shotsFired: Partial<Record<BulletType, number>>;
+  hits: number;
+  damageDealt: number;
+}
+
+export interface MatchPlayer {
+  playerId: string;
+  name: string;
+  tankId: number;
+}
+
+export interface MatchHistoryEntry {
+  matchId: string;
+  playedAt: number; // When the match ended
+  matchMode: MatchMode;
+  map: { variant: MapVariant; seed: number };
+  tankId: number;
+  team: number;
+  won: boolean;
+  opponents: MatchPlayer[];
+  teammates: MatchPlayer[];
+  finalScores: GameScores; // By team
+  rounds: number;
+  durationMs: number;
+  weaponStats: WeaponStats;
+  ratingChange: number | null; // Null if the match could not be rated
+}
+
+export interface MatchHistoryPage {
+  entries: MatchHistoryEntry[];
+  total: number; // Matches stored for the player
+}
+
+export interface ProfileStore {
+  /** A player's profile, or null if they have never finished an online match */
+  getProfile(playerId: string): Promise<PlayerProfile | null>;
+  saveProfile(profile: PlayerProfile): Promise<void>;
+  /** Add a match to the front of a player's history (keeps the last MAX_HISTORY_ENTRIES) */
+  addMatch(playerId: string, entry: MatchHistoryEntry): Promise<void>;
+  /** A slice of a player's history, newest first */
+  getHistory(playerId: string, offset: number, limit: number): Promise<MatchHistoryPage>;
+  /** Tie a player ID to its owner's token hash - true if the ID was free or already theirs */
+  claimPlayerId(playerId: string, tokenHash: string): Promise<boolean>;
+}
@@ -0,0 +1,81 @@
+// Elo skill ratings - team-aware, so duels, 2v2 and free-for-all share one rating per player
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+
+export const DEFAULT_RATING = 1200;
+// New players move faster until the rating has settled
+export const PROVISIONAL_GAMES = 10;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 24;
+
+export interface PlayerRating {
+  playerId: string;
+  rating: number;
+  gamesPlayed: number;
+  lastChange: number; // Rating change from the player's most recent match
+  updatedAt: number;
+}
+
+export interface RatedParticipant {
+  rating: PlayerRating;
+  team: number;
+}
+
+export function createRating(playerId: string): PlayerRating {
+  return { playerId, rating: DEFAULT_RATING, gamesPlayed: 0, lastChange: 0, updatedAt: 0 };
+}
+
+/**
+ * Chance the first rating beats the second
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Rate a finished match. Each team plays every other team: the winner beats everyone,
+ * the rest are ordered by score (a tie is a draw), and a team is rated at its average rating.
+ * @returns the updated rating of each participant
+ */
+export function rateMatch(participants: RatedParticipant[], winner: number, scores: GameScores): PlayerRating[] {
+  const teams = Array.from(new Set(participants.map((p) => p.team)));
+  if (teams.length < 2) return participants.map((p) => p.rating);
+
+  const teamRating = new Map(
+    teams.map((team) => {
+      const members = participants.filter((p) => p.team === team);
+      return [team, members.reduce((sum, p) => sum + p.rating.rating, 0) / members.length];
+    })
+  );
+
+  const result = (team: number, opponent: number): number => {
+    if (team === winner) return 1;
+    if (opponent === winner) return 0;
+    const diff = (scores[team] ?? 0) - (scores[opponent] ?? 0);
+    return diff > 0 ? 1 : diff < 0 ? 0 : 0.5;
+  };
+
+  // Average surprise against each opposing team, so FFA swings match a duel's
+  const teamDelta = new Map(
+    teams.map((team) => {
+      const opponents = teams.filter((other) => other !== team);
+      const surprise = opponents.reduce(
+        (sum, other) => sum + result(team, other) - expectedScore(teamRating.get(team)!, teamRating.get(other)!),
+        0
+      );
+      return [team, surprise / opponents.length];
+    })
+  );
+
+  const now = Date.now();
+  return participants.map(({ rating, team }) => {
+    const k = rating.gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K : ESTABLISHED_K;
+    const change = Math.round(k * teamDelta.get(team)!);
+    return {
+      playerId: rating.playerId,
+      rating: rating.rating + change,
+      gamesPlayed: rating.gamesPlayed + 1,
+      lastChange: change,
+      updatedAt: now,
+    };
+  });
+}
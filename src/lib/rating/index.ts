@@ -0,0 +1,6 @@
+// Skill rating library exports
+export * from './elo';
+export type { RatingStore } from './store';
+export { InMemoryRatingStore } from './memoryStore';
+export { RedisRatingStore } from './redisStore';
+export { getRatingStore, setRatingStore, getRatings, recordMatchResult } from './ratings';
@@ -0,0 +1,20 @@
+// In-memory rating store - ratings last as long as the server process
+import type { PlayerRating } from './elo';
+import type { RatingStore } from './store';
+
+export class InMemoryRatingStore implements RatingStore {
+  private ratings: Map<string, PlayerRating> = new Map();
+
+  async getMany(playerIds: string[]): Promise<PlayerRating[]> {
+    return playerIds.flatMap((id) => {
+      const rating = this.ratings.get(id);
+      return rating ? [{ ...rating }] : [];
+    });
+  }
+
+  async save(ratings: PlayerRating[]): Promise<void> {
+    for (const rating of ratings) {
+      this.ratings.set(rating.playerId, { ...rating });
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// Player ratings - lookups for matchmaking and updates from finished online matches
+import { getRedisCommand } from '@/lib/redis';
+import { createRating, rateMatch, type PlayerRating } from './elo';
+import { InMemoryRatingStore } from './memoryStore';
+import { RedisRatingStore } from './redisStore';
+import type { RatingStore } from './store';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+
+// Kept on globalThis so the game server and the matchmaking API routes share one store
+const STORE_KEY = Symbol.for('neontank.ratingStore');
+const storeHolder = globalThis as typeof globalThis & { [STORE_KEY]?: RatingStore };
+
+export function getRatingStore(): RatingStore {
+  if (!storeHolder[STORE_KEY]) {
+    const command = getRedisCommand();
+    storeHolder[STORE_KEY] = command ? new RedisRatingStore(command) : new InMemoryRatingStore();
+  }
+  return storeHolder[STORE_KEY];
+}
+
+/**
+ * Replace the rating store, e.g. with a RedisRatingStore on an existing Redis client
+ */
+export function setRatingStore(store: RatingStore): void {
+  storeHolder[STORE_KEY] = store;
+}
+
+/**
+ * Ratings for the given players, in the same order - unrated players get the starting rating
+ */
+export async function getRatings(playerIds: string[]): Promise<PlayerRating[]> {
+  const stored = new Map((await getRatingStore().getMany(playerIds)).map((r) => [r.playerId, r]));
+  return playerIds.map((id) => stored.get(id) ?? createRating(id));
+}
+
+/**
+ * Rate a finished match and save the new ratings
+ * @param players - everyone who started the match, with the team they played for
+ */
+export async function recordMatchResult(
+  players: Array<{ playerId: string; team: number }>,
+  winner: number,
+  scores: GameScores
+): Promise<PlayerRating[]> {
+  const ratings = await getRatings(players.map((p) => p.playerId));
+  const updated = rateMatch(
+    players.map((p, i) => ({ rating: ratings[i], team: p.team })),
+    winner,
+    scores
+  );
+  await getRatingStore().save(updated);
+  return updated;
+}
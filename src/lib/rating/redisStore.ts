@@ -0,0 +1,24 @@
+// Redis-backed rating store - one key per player, never expires
+import { asStrings, type RedisCommand } from '@/lib/redis';
+import type { PlayerRating } from './elo';
+import type { RatingStore } from './store';
+
+export class RedisRatingStore implements RatingStore {
+  constructor(
+    private command: RedisCommand,
+    private prefix: string = 'neontank:rating:'
+  ) {}
+
+  async getMany(playerIds: string[]): Promise<PlayerRating[]> {
+    if (playerIds.length === 0) return [];
+
+    const replies = asStrings(await this.command(['MGET', ...playerIds.map((id) => this.prefix + id)]));
+    return replies.flatMap((json) => (json === null ? [] : [JSON.parse(json) as PlayerRating]));
+  }
+
+  async save(ratings: PlayerRating[]): Promise<void> {
+    for (const rating of ratings) {
+      await this.command(['SET', this.prefix + rating.playerId, JSON.stringify(rating)]);
+    }
+  }
+}
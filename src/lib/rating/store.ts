@@ -0,0 +1,8 @@
+// Rating storage - one persistent rating per player ID, shared by the game server and matchmaking
+import type { PlayerRating } from './elo';
+
+export interface RatingStore {
+  /** Stored ratings for the given players - players who have never played are left out */
+  getMany(playerIds: string[]): Promise<PlayerRating[]>;
+  save(ratings: PlayerRating[]): Promise<void>;
+}
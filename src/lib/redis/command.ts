@@ -0,0 +1,59 @@
+// Raw Redis commands - stores talk to Redis through a single function so any client works:
+// ioredis (redis.call), node-redis (client.sendCommand), Upstash's REST API or the in-process LocalRedis
+import { Logger } from '@/lib/logging/Logger';
+import { LocalRedis } from './localRedis';
+
+/**
+ * Run one Redis command, e.g. ['SET', key, value, 'PX', 1000], and resolve with its reply
+ */
+export type RedisCommand = (args: Array<string | number>) => Promise<unknown>;
+
+/**
+ * Command runner for a Redis REST endpoint (Upstash's API) - no client library needed
+ */
+export function createRestRedisCommand(url: string, token: string): RedisCommand {
+  return async (args) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: JSON.stringify(args),
+    });
+    const data = await response.json();
+    if (!response.ok || data.error) {
+      throw new Error(`Redis ${args[0]} failed: ${data.error ?? response.status}`);
+    }
+    return data.result;
+  };
+}
+
+export const asString = (reply: unknown): string | null =>
+  reply === null || reply === undefined ? null : String(reply);
+
+export const asStrings = (reply: unknown): Array<string | null> =>
+  Array.isArray(reply) ? reply.map(asString) : [];
+
+// Kept on globalThis so every API route (and a custom server) shares one connection
+const COMMAND_KEY = Symbol.for('neontank.redisCommand');
+const commandHolder = globalThis as typeof globalThis & { [COMMAND_KEY]?: RedisCommand | null };
+
+/**
+ * Redis picked from the environment: Upstash REST credentials, or LOCAL_REDIS=1 for an
+ * in-process stand-in. Null when neither is set - stores then fall back to memory.
+ */
+export function getRedisCommand(): RedisCommand | null {
+  if (commandHolder[COMMAND_KEY] !== undefined) return commandHolder[COMMAND_KEY];
+
+  const restUrl = process.env.UPSTASH_REDIS_REST_URL;
+  const restToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (restUrl && restToken) {
+    Logger.info('[Redis] Using Upstash REST endpoint');
+    commandHolder[COMMAND_KEY] = createRestRedisCommand(restUrl, restToken);
+  } else if (process.env.LOCAL_REDIS === '1') {
+    Logger.info('[Redis] Using in-process stand-in');
+    commandHolder[COMMAND_KEY] = new LocalRedis().command;
+  } else {
+    commandHolder[COMMAND_KEY] = null;
+  }
+
+  return commandHolder[COMMAND_KEY];
+}
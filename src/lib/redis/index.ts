@@ -0,0 +1,4 @@
+// Redis access shared by the matchmaking and rating stores
+export { asString, asStrings, createRestRedisCommand, getRedisCommand } from './command';
+export type { RedisCommand } from './command';
+export { LocalRedis } from './localRedis';
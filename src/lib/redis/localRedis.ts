@@ -0,0 +1,113 @@
+// In-process stand-in for a Redis server - runs the Redis-backed stores without one (development, checks)
+// Implements only the commands the stores send, with Redis's reply shapes and key expiry
+import type { RedisCommand } from './command';
+
+type Value = string | Map<string, number> | string[];
+
+export class LocalRedis {
+  private data: Map<string, Value> = new Map();
+  private expiries: Map<string, number> = new Map();
+
+  /** Command runner to hand to a Redis-backed store */
+  readonly command: RedisCommand = async (args) => this.run(args.map(String));
+
+  private run([name, ...args]: string[]): unknown {
+    switch (name.toUpperCase()) {
+      case 'GET':
+        return this.getString(args[0]);
+      case 'MGET':
+        return args.map((key) => this.getString(key));
+      case 'SET': {
+        const options = args.slice(2).map((option) => option.toUpperCase());
+        if (options.includes('NX') && this.exists(args[0])) return null;
+        this.data.set(args[0], args[1]);
+        this.expiries.delete(args[0]);
+        const px = options.indexOf('PX');
+        if (px !== -1) this.expiries.set(args[0], Date.now() + Number(args[2 + px + 1]));
+        return 'OK';
+      }
+      case 'PEXPIRE': {
+        if (!this.exists(args[0])) return 0;
+        this.expiries.set(args[0], Date.now() + Number(args[1]));
+        return 1;
+      }
+      case 'DEL':
+        return args.filter((key) => {
+          const existed = this.exists(key);
+          this.data.delete(key);
+          this.expiries.delete(key);
+          return existed;
+        }).length;
+      case 'ZADD': {
+        const set = this.getSortedSet(args[0], true)!;
+        const added = set.has(args[2]) ? 0 : 1;
+        set.set(args[2], Number(args[1]));
+        return added;
+      }
+      case 'ZREM': {
+        const set = this.getSortedSet(args[0]);
+        return set?.delete(args[1]) ? 1 : 0;
+      }
+      case 'ZRANGE':
+        return this.slice(this.sortedMembers(args[0]), Number(args[1]), Number(args[2]));
+      case 'LPUSH': {
+        const list = this.getList(args[0], true)!;
+        list.unshift(...args.slice(1).reverse());
+        return list.length;
+      }
+      case 'LTRIM': {
+        const list = this.getList(args[0]);
+        if (list) this.data.set(args[0], this.slice(list, Number(args[1]), Number(args[2])));
+        return 'OK';
+      }
+      case 'LLEN':
+        return this.getList(args[0])?.length ?? 0;
+      case 'LRANGE':
+        return this.slice(this.getList(args[0]) ?? [], Number(args[1]), Number(args[2]));
+      default:
+        throw new Error(`LocalRedis does not support ${name}`);
+    }
+  }
+
+  private exists(key: string): boolean {
+    const expiresAt = this.expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.data.delete(key);
+      this.expiries.delete(key);
+    }
+    return this.data.has(key);
+  }
+
+  private getString(key: string): string | null {
+    if (!this.exists(key)) return null;
+    const value = this.data.get(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  private getSortedSet(key: string, create = false): Map<string, number> | null {
+    if (!this.exists(key) && create) this.data.set(key, new Map());
+    const value = this.data.get(key);
+    return value instanceof Map ? value : null;
+  }
+
+  private getList(key: string, create = false): string[] | null {
+    if (!this.exists(key) && create) this.data.set(key, []);
+    const value = this.data.get(key);
+    return Array.isArray(value) ? value : null;
+  }
+
+  private sortedMembers(key: string): string[] {
+    const set = this.getSortedSet(key);
+    if (!set) return [];
+    return Array.from(set.entries())
+      .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || a.localeCompare(b))
+      .map(([member]) => member);
+  }
+
+  // Inclusive range with Redis's negative indices counting from the end
+  private slice<T>(items: T[], start: number, stop: number): T[] {
+    const from = start < 0 ? Math.max(items.length + start, 0) : start;
+    const to = stop < 0 ? items.length + stop : stop;
+    return items.slice(from, to + 1);
+  }
+}
@@ -2,6 +2,13 @@
 
 import { BulletType } from '@/engine/entities/Bullet';
 import { PowerUpType } from '@/engine/entities/PowerUp';
+import type { ReplayData } from '@/engine/replay';
+import type { MapVariant } from '@/engine/map/MapPresets';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+import type { MatchMode } from '@/engine/core/MatchMode';
+import type { ServerTickRate } from '@/types/settings';
+import type { TankCombatStats } from '@/engine/stats';
+import type { EnvironmentDamageSource, RoundEndReason } from '@/engine/core/Simulation';
 
 // ============================================================================
 // Player Input Structure
@@ -15,8 +22,12 @@ export interface PlayerInput {
   };
   // Is the player shooting
   shoot: boolean;
-  // Charge level for charged shots (0-100)
+  // Charge level for charged shots (frames held - the server caps it at its own count)
   chargeLevel: number;
+  // Twin-stick control: speed follows the movement magnitude, the turret aims independently
+  analog?: boolean;
+  // Turret angle in radians (twin-stick control only)
+  aim?: number;
   // Input sequence number for reconciliation
   sequenceNumber: number;
   // Timestamp when input was created
@@ -34,6 +45,7 @@ export interface SerializedTank {
   x: number;
   y: number;
   angle: number;
+  turretAngle: number;
   health: number;
   maxHealth: number;
   ammo: number;
@@ -111,10 +123,7 @@ export interface GameStateSnapshot {
   walls: SerializedWall[];
   hazards: SerializedHazard[];
   // Game state
-  scores: {
-    p1: number;
-    p2: number;
-  };
+  scores: GameScores;
   gameTime: number;
   suddenDeath: boolean;
   suddenDeathInset: number;
@@ -122,30 +131,113 @@ export interface GameStateSnapshot {
   roundNumber: number;
   roundActive: boolean;
   // Server configuration
-  tickRate: number; // Server tick rate (Hz) for client interpolation tuning
+  tickRate: number; // Snapshots per second (Hz) for client interpolation tuning
   // Delta compression support
   isDelta?: boolean; // True if this is a delta update
   removedBullets?: string[]; // IDs of bullets that were removed
 }
 
+// ============================================================================
+// Game Events
+// ============================================================================
+
+// Bullet as it was when an event happened - enough to place effects and credit the shooter
+export interface EventBullet {
+  id: string;
+  x: number;
+  y: number;
+  ownerId: number;
+  type: BulletType;
+  ricochets: number;
+}
+
+/**
+ * Simulation events as sent to clients (see gameEvents.ts).
+ * Round results are left out - they have their own round_over message.
+ */
+export type NetworkGameEvent =
+  | { type: 'bullet_fired'; tankId: number; bullet: EventBullet }
+  | { type: 'bullet_bounced'; bullet: EventBullet }
+  | { type: 'reload_started'; tankId: number }
+  | { type: 'bullet_expired'; bullet: EventBullet }
+  | { type: 'tank_hit'; tankId: number; bullet: EventBullet; damage: number }
+  | { type: 'tank_destroyed'; tankId: number; bullet: EventBullet | null }
+  | { type: 'environment_damage'; tankId: number; source: EnvironmentDamageSource; damage: number }
+  | { type: 'crate_destroyed'; crateId: string; bullet: EventBullet }
+  | { type: 'powerup_spawned'; powerup: SerializedPowerUp }
+  | { type: 'powerup_collected'; tankId: number; powerup: SerializedPowerUp }
+  | { type: 'sudden_death_started' };
+
+// ============================================================================
+// Session Ruleset
+// ============================================================================
+
+/**
+ * Full ruleset for an online session. The player who creates the session sends it,
+ * the server validates it (see gameSettings.ts) and echoes the result in SessionInfo.
+ */
+export interface OnlineGameSettings {
+  // Match rules
+  matchMode: MatchMode; // Sets how many players the session waits for
+  ffaPlayerCount: number; // Tanks in free-for-all
+  scoreLimitValue: number; // Rounds needed to win the match
+  timeLimitEnabled: boolean;
+  timeLimitSeconds: number;
+  suddenDeath: boolean;
+
+  // Map
+  mapVariant: MapVariant;
+  destructibleCrates: boolean;
+  hazards: boolean;
+  powerUps: boolean;
+  powerupSpawnRate: number; // seconds
+
+  // Combat
+  charging: boolean;
+  ammoSystem: boolean;
+  recoil: boolean;
+  friendlyFire: boolean;
+  bulletRicochet: boolean;
+  maxBounces: number;
+  startingHealth: number;
+  gameSpeed: number;
+
+  // Network
+  tickRate: ServerTickRate; // Server snapshot rate (Hz)
+}
+
 // ============================================================================
 // Player & Session Info
 // ============================================================================
 
+// Players drive a tank; spectators only watch, on a delay so they can't be used for ghosting
+export type SessionRole = 'player' | 'spectator';
+
+export const SPECTATOR_DELAY_MS = 3000;
+export const MAX_SPECTATORS = 8;
+
+// How long a dropped player's tank is held (idle) for them to reconnect with their reconnect token
+export const RECONNECT_GRACE_MS = 30000;
+
 export interface PlayerInfo {
   id: string;
   name: string;
-  tankId: number; // 1 or 2
-  connected: boolean;
+  role: SessionRole;
+  tankId: number; // 1 up to the session's tank count (0 for spectators)
+  connected: boolean; // False while a dropped player is inside the reconnect grace window
   latency: number;
 }
 
 export interface SessionInfo {
   sessionId: string;
+  role: SessionRole; // How the receiving client joined
   players: PlayerInfo[];
+  spectators: PlayerInfo[];
   gameState: 'waiting' | 'countdown' | 'playing' | 'round_over' | 'game_over';
   countdown?: number;
   createdAt: number;
+  settings: OnlineGameSettings; // Ruleset the server will play
+  mapSeed: number; // Clients generate the session map from mapVariant and this seed
 }
 
 // ============================================================================
@@ -156,11 +248,11 @@ export interface JoinGamePayload {
   sessionId: string;
   playerId: string;
   playerName: string;
-  gameSettings?: {
-    scoreLimitValue: number;
-    timeLimitEnabled: boolean;
-    timeLimitSeconds: number;
-  };
+  playerToken: string; // Secret proving the player owns playerId - never sent to other clients
+  gameSettings?: OnlineGameSettings; // Only applied by the player who creates the session
+  role?: SessionRole; // Defaults to player; spectators can only join an existing session
+  resume?: boolean; // Only re-bind to a tank held for this player - never create a session or take a new slot
+  reconnectToken?: string; // Required with resume - the secret from this player's last join response
 }
 
 export interface LeaveGamePayload {
@@ -205,6 +297,8 @@ export interface JoinGameResponse {
   error?: string;
   session?: SessionInfo;
   assignedTankId?: number;
+  resumed?: boolean; // The player was re-bound to a tank held since their socket dropped
+  reconnectToken?: string; // Players only - proves who they are when resuming, never sent to anyone else
 }
 
 export interface GameStatePayload {
@@ -212,6 +306,12 @@ export interface GameStatePayload {
   state: GameStateSnapshot;
 }
 
+export interface GameEventsPayload {
+  sessionId: string;
+  tick: number; // Server tick the events happened on
+  events: NetworkGameEvent[];
+}
+
 export interface PlayerJoinedPayload {
   sessionId: string;
   player: PlayerInfo;
@@ -220,20 +320,45 @@ export interface PlayerJoinedPayload {
 export interface PlayerLeftPayload {
   sessionId: string;
   playerId: string;
-  reason: 'disconnect' | 'quit' | 'timeout';
+  reason: 'disconnect' | 'quit' | 'timeout' | 'kicked'; // Kicked: removed by the server for invalid input
+}
+
+export interface PlayerDisconnectedPayload {
+  sessionId: string;
+  playerId: string;
+  graceMs: number; // Time left to reconnect before the player is removed
+}
+
+export interface PlayerReconnectedPayload {
+  sessionId: string;
+  playerId: string;
+}
+
+export interface RatingChange {
+  playerId: string;
+  playerName: string;
+  tankId: number;
+  rating: number; // Skill rating after the match
+  change: number;
 }
 
 export interface GameOverPayload {
   sessionId: string;
-  winner: number; // Tank ID (1 or 2)
-  finalScores: {
-    p1: number;
-    p2: number;
-  };
-  stats: {
-    totalRounds: number;
-    gameDuration: number;
-  };
+  winner: number; // Team (the tank ID outside team play)
+  finalScores: GameScores;
+  ratings: RatingChange[]; // Everyone who started the match, including players who left
+  stats: MatchStatsPayload;
+}
+
+export interface MatchStatsPayload {
+  totalRounds: number;
+  gameDuration: number;
+  tanks: TankCombatStats[]; // Combat breakdown per tank, by tank ID
+}
+
+export interface ReplayPayload {
+  sessionId: string;
+  replay: ReplayData;
 }
 
 export interface MatchFoundPayload {
@@ -251,11 +376,9 @@ export interface RoundStartPayload {
 export interface RoundOverPayload {
   sessionId: string;
   roundNumber: number;
-  winner: number;
-  scores: {
-    p1: number;
-    p2: number;
-  };
+  winner: number; // Team
+  reason: RoundEndReason;
+  scores: GameScores;
 }
 
 export interface CountdownPayload {
@@ -271,9 +394,13 @@ export interface ErrorPayload {
 // Map of server to client events
 export interface ServerToClientEvents {
   game_state: (payload: GameStatePayload) => void;
+  game_events: (payload: GameEventsPayload) => void;
   player_joined: (payload: PlayerJoinedPayload) => void;
   player_left: (payload: PlayerLeftPayload) => void;
+  player_disconnected: (payload: PlayerDisconnectedPayload) => void;
+  player_reconnected: (payload: PlayerReconnectedPayload) => void;
   game_over: (payload: GameOverPayload) => void;
+  replay_data: (payload: ReplayPayload) => void;
   match_found: (payload: MatchFoundPayload) => void;
   round_start: (payload: RoundStartPayload) => void;
   round_over: (payload: RoundOverPayload) => void;
@@ -281,6 +408,7 @@ export interface ServerToClientEvents {
   error: (payload: ErrorPayload) => void;
   chat_received: (payload: { playerId: string; playerName: string; message: string }) => void;
   pong: (serverTime: number) => void;
+  latency_probe: (ack: () => void) => void; // Acknowledge straight away - the server times the round trip
 }
 
 // ============================================================================
@@ -299,6 +427,7 @@ export interface SocketData {
   playerId: string;
   playerName: string;
   sessionId: string | null;
+  role: SessionRole | null;
   tankId: number | null;
   lastActivity: number;
 }
@@ -0,0 +1,110 @@
+// Compact wire format for simulation events - the server sends them with each tick, clients replay them on their GameEvents
+import { Bullet } from '@/engine/entities/Bullet';
+import { PowerUp } from '@/engine/entities/PowerUp';
+import type { Simulation, SimulationEvent } from '@/engine/core/Simulation';
+import type { EventBullet, NetworkGameEvent, SerializedPowerUp } from './events';
+
+function encodeBullet(bullet: Bullet): EventBullet {
+  return {
+    id: bullet.id,
+    x: bullet.pos.x,
+    y: bullet.pos.y,
+    ownerId: bullet.ownerId,
+    type: bullet.type,
+    ricochets: bullet.ricochets,
+  };
+}
+
+function encodePowerUp(powerup: PowerUp): SerializedPowerUp {
+  return {
+    id: powerup.id,
+    x: powerup.pos.x,
+    y: powerup.pos.y,
+    type: powerup.type,
+    active: powerup.active,
+  };
+}
+
+/**
+ * Encode a tick's events for clients.
+ * Round results are dropped - they go out as round_over messages with the new scores.
+ */
+export function encodeGameEvents(events: SimulationEvent[]): NetworkGameEvent[] {
+  const encoded: NetworkGameEvent[] = [];
+  for (const event of events) {
+    switch (event.type) {
+      case 'bullet_fired':
+        encoded.push({ type: event.type, tankId: event.tankId, bullet: encodeBullet(event.bullet) });
+        break;
+      case 'bullet_bounced':
+      case 'bullet_expired':
+        encoded.push({ type: event.type, bullet: encodeBullet(event.bullet) });
+        break;
+      case 'tank_hit':
+        encoded.push({ type: event.type, tankId: event.tankId, bullet: encodeBullet(event.bullet), damage: event.damage });
+        break;
+      case 'tank_destroyed':
+        encoded.push({ type: event.type, tankId: event.tankId, bullet: event.bullet && encodeBullet(event.bullet) });
+        break;
+      case 'reload_started':
+      case 'environment_damage':
+      case 'sudden_death_started':
+        encoded.push(event);
+        break;
+      case 'crate_destroyed':
+        encoded.push({ type: event.type, crateId: event.crate.id, bullet: encodeBullet(event.bullet) });
+        break;
+      case 'powerup_spawned':
+        encoded.push({ type: event.type, powerup: encodePowerUp(event.powerup) });
+        break;
+      case 'powerup_collected':
+        encoded.push({ type: event.type, tankId: event.tankId, powerup: encodePowerUp(event.powerup) });
+        break;
+    }
+  }
+  return encoded;
+}
+
+// Stand-in bullet for effects - it is never added to the simulation
+function decodeBullet(bullet: EventBullet, simulation: Simulation): Bullet {
+  const color = simulation.getTank(bullet.ownerId)?.color ?? '#ffffff';
+  const decoded = new Bullet(bullet.x, bullet.y, 0, color, bullet.ownerId, bullet.type, bullet.id);
+  decoded.ricochets = bullet.ricochets;
+  return decoded;
+}
+
+function decodePowerUp(powerup: SerializedPowerUp): PowerUp {
+  const decoded = new PowerUp(powerup.x, powerup.y, powerup.type, powerup.id);
+  decoded.active = powerup.active;
+  return decoded;
+}
+
+/**
+ * Rebuild a server event against the client's simulation
+ * @returns null when the event refers to something the client does not have (e.g. a crate from another map)
+ */
+export function decodeGameEvent(event: NetworkGameEvent, simulation: Simulation): SimulationEvent | null {
+  switch (event.type) {
+    case 'bullet_fired':
+      return { type: event.type, tankId: event.tankId, bullet: decodeBullet(event.bullet, simulation) };
+    case 'bullet_bounced':
+    case 'bullet_expired':
+      return { type: event.type, bullet: decodeBullet(event.bullet, simulation) };
+    case 'tank_hit':
+      return { type: event.type, tankId: event.tankId, bullet: decodeBullet(event.bullet, simulation), damage: event.damage };
+    case 'tank_destroyed':
+      return { type: event.type, tankId: event.tankId, bullet: event.bullet && decodeBullet(event.bullet, simulation) };
+    case 'reload_started':
+    case 'environment_damage':
+    case 'sudden_death_started':
+      return event;
+    case 'crate_destroyed': {
+      const crate = simulation.crates.find((c) => c.id === event.crateId);
+      return crate ? { type: event.type, crate, bullet: decodeBullet(event.bullet, simulation) } : null;
+    }
+    case 'powerup_spawned':
+      return { type: event.type, powerup: decodePowerUp(event.powerup) };
+    case 'powerup_collected':
+      return { type: event.type, tankId: event.tankId, powerup: decodePowerUp(event.powerup) };
+  }
+}
@@ -0,0 +1,118 @@
+// Online session ruleset - defaults and server-side validation
+// The server is authoritative: a ruleset outside the allowed ranges is rejected, not clamped
+import { DEFAULT_SETTINGS, MAP_VARIANT_OPTIONS, MATCH_MODE_OPTIONS, SERVER_TICK_RATE_OPTIONS, SETTING_CONSTRAINTS } from '@/types/settings';
+import type { GameSettings, MapVariant, MatchMode, ServerTickRate } from '@/types/settings';
+import type { OnlineGameSettings } from './events';
+
+export const DEFAULT_ONLINE_GAME_SETTINGS: OnlineGameSettings = {
+  matchMode: DEFAULT_SETTINGS.matchMode,
+  ffaPlayerCount: DEFAULT_SETTINGS.ffaPlayerCount,
+  scoreLimitValue: DEFAULT_SETTINGS.scoreLimitValue,
+  timeLimitEnabled: DEFAULT_SETTINGS.timeLimitEnabled,
+  timeLimitSeconds: DEFAULT_SETTINGS.timeLimitSeconds,
+  suddenDeath: DEFAULT_SETTINGS.suddenDeath,
+  mapVariant: DEFAULT_SETTINGS.mapVariant,
+  destructibleCrates: DEFAULT_SETTINGS.destructibleCrates,
+  hazards: DEFAULT_SETTINGS.hazards,
+  powerUps: DEFAULT_SETTINGS.powerUps,
+  powerupSpawnRate: DEFAULT_SETTINGS.powerupSpawnRate,
+  charging: DEFAULT_SETTINGS.charging,
+  ammoSystem: DEFAULT_SETTINGS.ammoSystem,
+  recoil: DEFAULT_SETTINGS.recoil,
+  friendlyFire: DEFAULT_SETTINGS.friendlyFire,
+  bulletRicochet: DEFAULT_SETTINGS.bulletRicochet,
+  maxBounces: DEFAULT_SETTINGS.maxBounces,
+  startingHealth: DEFAULT_SETTINGS.startingHealth,
+  gameSpeed: DEFAULT_SETTINGS.gameSpeed,
+  tickRate: DEFAULT_SETTINGS.serverTickRate,
+};
+
+type NumericSetting = Exclude<{
+  [K in keyof OnlineGameSettings]: OnlineGameSettings[K] extends number ? K : never;
+}[keyof OnlineGameSettings], 'tickRate'>;
+
+export type OnlineSettingsValidation =
+  | { valid: true; settings: OnlineGameSettings }
+  | { valid: false; error: string };
+
+/**
+ * Take the rules an online session needs from the player's local settings
+ */
+export function toOnlineGameSettings(settings: GameSettings): OnlineGameSettings {
+  return {
+    matchMode: settings.matchMode,
+    ffaPlayerCount: settings.ffaPlayerCount,
+    scoreLimitValue: settings.scoreLimitValue,
+    timeLimitEnabled: settings.timeLimitEnabled,
+    timeLimitSeconds: settings.timeLimitSeconds,
+    suddenDeath: settings.suddenDeath,
+    mapVariant: settings.mapVariant,
+    destructibleCrates: settings.destructibleCrates,
+    hazards: settings.hazards,
+    powerUps: settings.powerUps,
+    powerupSpawnRate: settings.powerupSpawnRate,
+    charging: settings.charging,
+    ammoSystem: settings.ammoSystem,
+    recoil: settings.recoil,
+    friendlyFire: settings.friendlyFire,
+    bulletRicochet: settings.bulletRicochet,
+    maxBounces: settings.maxBounces,
+    startingHealth: settings.startingHealth,
+    gameSpeed: settings.gameSpeed,
+    tickRate: settings.serverTickRate,
+  };
+}
+
+/**
+ * Validate a ruleset sent by a client against the options menu's ranges
+ * Missing fields take their defaults; present fields must have the right type and range
+ */
+export function validateOnlineGameSettings(input: unknown): OnlineSettingsValidation {
+  if (input === undefined || input === null) {
+    return { valid: true, settings: { ...DEFAULT_ONLINE_GAME_SETTINGS } };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, error: 'settings must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const settings: Record<string, unknown> = { ...DEFAULT_ONLINE_GAME_SETTINGS };
+
+  for (const key of Object.keys(DEFAULT_ONLINE_GAME_SETTINGS) as (keyof OnlineGameSettings)[]) {
+    const value = raw[key];
+    if (value === undefined) continue;
+
+    if (key === 'mapVariant') {
+      if (!MAP_VARIANT_OPTIONS.includes(value as MapVariant)) {
+        return { valid: false, error: `mapVariant must be one of ${MAP_VARIANT_OPTIONS.join(', ')}` };
+      }
+    } else if (key === 'matchMode') {
+      if (!MATCH_MODE_OPTIONS.includes(value as MatchMode)) {
+        return { valid: false, error: `matchMode must be one of ${MATCH_MODE_OPTIONS.join(', ')}` };
+      }
+    } else if (key === 'tickRate') {
+      if (!SERVER_TICK_RATE_OPTIONS.includes(value as ServerTickRate)) {
+        return { valid: false, error: `tickRate must be one of ${SERVER_TICK_RATE_OPTIONS.join(', ')}` };
+      }
+    } else if (typeof DEFAULT_ONLINE_GAME_SETTINGS[key] === 'boolean') {
+      if (typeof value !== 'boolean') {
+        return { valid: false, error: `${key} must be true or false` };
+      }
+    } else {
+      const { min, max, step } = SETTING_CONSTRAINTS[key as NumericSetting];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { valid: false, error: `${key} must be a number` };
+      }
+      if (Number.isInteger(step) && !Number.isInteger(value)) {
+        return { valid: false, error: `${key} must be a whole number` };
+      }
+      if (value < min || value > max) {
+        return { valid: false, error: `${key} must be between ${min} and ${max}` };
+      }
+    }
+
+    settings[key] = value;
+  }
+
+  return { valid: true, settings: settings as unknown as OnlineGameSettings };
+}
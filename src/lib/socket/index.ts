@@ -1,4 +1,12 @@
 // Socket.io library exports
 export * from './events';
-export { initializeSocketServer, getSocketServer, getSessionManager, sessionManager } from './server';
-export type { NeonTankSocket, NeonTankServer, GameSession } from './server';
+export {
+  DEFAULT_ONLINE_GAME_SETTINGS,
+  toOnlineGameSettings,
+  validateOnlineGameSettings,
+} from './gameSettings';
+export type { OnlineSettingsValidation } from './gameSettings';
+export { encodeGameEvents, decodeGameEvent } from './gameEvents';
+export { initializeSocketServer, getSocketServer, getSessionManager, getServerMetrics, sessionManager } from './server';
+export type { NeonTankSocket, NeonTankServer, GameSession, SessionMetrics, ServerMetrics } from './server';
+export type { TickMetricsSnapshot } from './sessionLoop';
@@ -0,0 +1,220 @@
+// Player input validation - the server normalizes every input before it reaches the simulation
+// and keeps score of sockets that break the rules, flagging and then kicking repeat offenders
+import { Constants } from '@/engine/utils/Constants';
+import type { PlayerInput } from './events';
+
+// Rate limit - a token bucket refilled by elapsed time, deep enough to absorb inputs bunched by jitter
+export const MAX_INPUTS_PER_TICK = 4; // Per simulation tick of wall-clock time
+export const INPUT_BURST = 30;
+const TICK_MS = 1000 / Constants.TARGET_FPS;
+
+// Sequence numbers only count up; a jump further than this ahead of the last input is rejected
+export const MAX_SEQUENCE_GAP = 600; // ~10 seconds of inputs at 60 per second
+
+// Lag compensation never rewinds further than the shooter's measured round trip plus some jitter, capped outright
+export const MAX_LAG_COMPENSATION_MS = 300;
+const LAG_COMPENSATION_JITTER_MS = 50;
+const SHOOT_TIMESTAMP_TOLERANCE_MS = 1000; // Client clocks drift - further out than this is not a real shot time
+
+// A charge past the threshold fires the same shot, and the server never takes a charge much ahead of its own
+const MAX_CHARGE_LEVEL = Constants.CHARGE_THRESHOLD + 1;
+const CHARGE_DRIFT_TICKS = 3;
+
+// Violations are counted over a sliding window
+const VIOLATION_WINDOW_MS = 10000;
+export const FLAG_THRESHOLD = 10;
+export const KICK_THRESHOLD = 50;
+
+const AXIS_EPSILON = 1e-3; // Rounding headroom before an axis counts as out of range
+
+export type InputViolation =
+  | 'malformed' // Not an input object, or a field of the wrong type
+  | 'out_of_range' // Movement, charge or aim outside its range
+  | 'sequence_jump' // Sequence number skipped far ahead
+  | 'rate_limit' // More inputs than the bucket allows
+  | 'implausible_timestamp' // Shoot time too far from the server's clock
+  | 'wrong_sender'; // Input for another player or session
+
+export interface InputViolationRecord {
+  rule: InputViolation;
+  detail: string;
+}
+
+export interface InputCheck {
+  input: PlayerInput | null; // Normalized input, null when it was dropped
+  violations: InputViolationRecord[];
+}
+
+// What the server should do after a violation
+export type ViolationVerdict = 'ignore' | 'flag' | 'kick';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Furthest back lag compensation may rewind for a shooter with the given round trip time
+ */
+export function getMaxRewindMs(latency: number): number {
+  return Math.min(MAX_LAG_COMPENSATION_MS, Math.max(0, latency) + LAG_COMPENSATION_JITTER_MS);
+}
+
+/**
+ * Cap a claimed charge at the server's own charge plus a few ticks of prediction drift
+ */
+export function capChargeLevel(claimed: number, serverCharge: number): number {
+  return Math.min(claimed, serverCharge + CHARGE_DRIFT_TICKS);
+}
+
+/**
+ * Blend a new round trip sample into the running latency (the first sample is taken as is)
+ */
+export function smoothLatency(previous: number, sample: number): number {
+  return previous === 0 ? Math.round(sample) : Math.round(previous * 0.8 + sample * 0.2);
+}
+
+/**
+ * Per-player input checks: rate limit, sequence tracking and the violation count
+ */
+export class InputGuard {
+  private tokens = INPUT_BURST;
+  private lastRefill: number | null = null;
+  private lastSequence: number | null = null;
+  private violationTimes: number[] = [];
+  private flagged = false;
+
+  // Top up the rate limit for the time since the last input, whether or not the session was stepping
+  private refill(now: number): void {
+    if (this.lastRefill !== null) {
+      const elapsedTicks = Math.max(0, now - this.lastRefill) / TICK_MS;
+      this.tokens = Math.min(INPUT_BURST, this.tokens + elapsedTicks * MAX_INPUTS_PER_TICK);
+    }
+    this.lastRefill = now;
+  }
+
+  /**
+   * Forget the sequence - a reconnecting client may start counting again
+   */
+  resetSequence(): void {
+    this.lastSequence = null;
+  }
+
+  /**
+   * Normalize a raw input received at `now`. Returns null for the input when it must be dropped;
+   * stale or duplicate sequence numbers are dropped without counting as violations.
+   */
+  check(raw: unknown, now: number): InputCheck {
+    const violations: InputViolationRecord[] = [];
+    const drop = (rule: InputViolation, detail: string): InputCheck => ({
+      input: null,
+      violations: [...violations, { rule, detail }],
+    });
+
+    this.refill(now);
+    if (this.tokens < 1) return drop('rate_limit', `over ${MAX_INPUTS_PER_TICK} inputs per tick`);
+    this.tokens--;
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return drop('malformed', 'input is not an object');
+    const input = raw as Record<string, unknown>;
+
+    const sequenceNumber = input.sequenceNumber;
+    if (!Number.isSafeInteger(sequenceNumber) || (sequenceNumber as number) < 1) {
+      return drop('malformed', 'sequenceNumber must be a positive integer');
+    }
+    const sequence = sequenceNumber as number;
+    if (this.lastSequence !== null) {
+      if (sequence <= this.lastSequence) return { input: null, violations };
+      if (sequence - this.lastSequence > MAX_SEQUENCE_GAP) {
+        return drop('sequence_jump', `sequence ${sequence} after ${this.lastSequence}`);
+      }
+    }
+
+    const movement = input.movement as Record<string, unknown> | null | undefined;
+    if (typeof movement !== 'object' || movement === null || !isFiniteNumber(movement.x) || !isFiniteNumber(movement.y)) {
+      return drop('malformed', 'movement must have finite x and y');
+    }
+    let x = movement.x;
+    let y = movement.y;
+    if (Math.abs(x) > 1 + AXIS_EPSILON || Math.abs(y) > 1 + AXIS_EPSILON) {
+      violations.push({ rule: 'out_of_range', detail: `movement (${x}, ${y})` });
+    }
+    x = Math.max(-1, Math.min(1, x));
+    y = Math.max(-1, Math.min(1, y));
+    // Diagonals are held to the speed of a straight line
+    const magnitude = Math.hypot(x, y);
+    if (magnitude > 1) {
+      x /= magnitude;
+      y /= magnitude;
+    }
+
+    if (typeof input.shoot !== 'boolean') return drop('malformed', 'shoot must be true or false');
+
+    let chargeLevel = 0;
+    if (input.chargeLevel !== undefined) {
+      if (!isFiniteNumber(input.chargeLevel) || input.chargeLevel < 0) {
+        violations.push({ rule: 'out_of_range', detail: `chargeLevel ${String(input.chargeLevel)}` });
+      } else {
+        chargeLevel = Math.min(MAX_CHARGE_LEVEL, input.chargeLevel);
+      }
+    }
+
+    const normalized: PlayerInput = {
+      movement: { x, y },
+      shoot: input.shoot,
+      chargeLevel,
+      sequenceNumber: sequence,
+      timestamp: isFiniteNumber(input.timestamp) ? input.timestamp : now,
+    };
+
+    if (input.analog === true) {
+      normalized.analog = true;
+      if (input.aim !== undefined) {
+        if (isFiniteNumber(input.aim)) {
+          normalized.aim = Math.atan2(Math.sin(input.aim), Math.cos(input.aim));
+        } else {
+          violations.push({ rule: 'out_of_range', detail: 'aim must be a finite angle' });
+        }
+      }
+    }
+
+    // A shot time outside the tolerance gets no lag compensation
+    if (input.shootTimestamp !== undefined) {
+      if (isFiniteNumber(input.shootTimestamp) && Math.abs(now - input.shootTimestamp) <= SHOOT_TIMESTAMP_TOLERANCE_MS) {
+        normalized.shootTimestamp = input.shootTimestamp;
+      } else {
+        violations.push({ rule: 'implausible_timestamp', detail: `shootTimestamp ${String(input.shootTimestamp)} at ${now}` });
+      }
+    }
+
+    this.lastSequence = sequence;
+    return { input: normalized, violations };
+  }
+
+  /**
+   * Count a violation at `now` and decide what to do about the sender
+   */
+  recordViolation(now: number): ViolationVerdict {
+    this.violationTimes.push(now);
+    while (this.violationTimes.length > 0 && now - this.violationTimes[0] > VIOLATION_WINDOW_MS) {
+      this.violationTimes.shift();
+    }
+
+    const count = this.violationTimes.length;
+    if (count >= KICK_THRESHOLD) return 'kick';
+    if (count >= FLAG_THRESHOLD && !this.flagged) {
+      this.flagged = true;
+      return 'flag';
+    }
+    return 'ignore';
+  }
+
+  /**
+   * Violations inside the current window
+   */
+  getRecentViolations(): number {
+    return this.violationTimes.length;
+  }
+
+  isFlagged(): boolean {
+    return this.flagged;
+  }
+}
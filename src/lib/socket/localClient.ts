@@ -1,6 +1,9 @@
 import { Logger } from '@/lib/logging/Logger';
 import Peer, { DataConnection } from 'peerjs';
 import { LANMessage, LANGameState } from './localServer';
+import type { MapSelection } from '@/engine/map/MapGenerator';
+import { validateMap } from '@/engine/map/MapFormat';
+import type { CustomMapData } from '@/engine/map/MapFormat';
 
 export class LocalMultiplayerClient {
   private peer: Peer | null = null;
@@ -8,12 +11,16 @@ export class LocalMultiplayerClient {
   private roomCode: string = '';
   private hostId: string = '';
   private onStateReceived?: (state: LANGameState) => void;
+  private onReplayReceived?: (replay: unknown) => void;
+  private onStartReceived?: (map: MapSelection, customMap: CustomMapData | null) => void;
   private onConnected?: () => void;
   private onDisconnected?: () => void;
   private onError?: (error: Error) => void;
   private latencyMeasurements: number[] = [];
   private inputBuffer: any[] = [];
   private ready: boolean = false;
+  private mapSelection: MapSelection | null = null;
+  private customMap: CustomMapData | null = null;
 
   async connect(roomCode: string): Promise<void> {
     this.roomCode = roomCode;
@@ -209,6 +216,12 @@ export class LocalMultiplayerClient {
         }
         break;
 
+      case 'replay':
+        if (this.onReplayReceived) {
+          this.onReplayReceived(message.data);
+        }
+        break;
+
       case 'pong':
         // Calculate latency
         if (message.timestamp) {
@@ -225,7 +238,20 @@ export class LocalMultiplayerClient {
         break;
 
       case 'start':
-        Logger.debug('[LAN Client] Game starting');
+        Logger.debug('[LAN Client] Game starting on map:', message.data?.map);
+        this.mapSelection = message.data?.map ?? null;
+        this.customMap = null;
+        if (message.data?.customMap) {
+          const problem = validateMap(message.data.customMap);
+          if (problem) {
+            Logger.warn(`[LAN Client] Ignoring host's custom map: ${problem}`);
+          } else {
+            this.customMap = message.data.customMap;
+          }
+        }
+        if (this.mapSelection && this.onStartReceived) {
+          this.onStartReceived(this.mapSelection, this.customMap);
+        }
         break;
 
       default:
@@ -311,10 +337,26 @@ export class LocalMultiplayerClient {
     return this.hostId;
   }
 
+  getMapSelection(): MapSelection | null {
+    return this.mapSelection;
+  }
+
+  getCustomMap(): CustomMapData | null {
+    return this.customMap;
+  }
+
   onState(callback: (state: LANGameState) => void): void {
     this.onStateReceived = callback;
   }
 
+  onReplay(callback: (replay: unknown) => void): void {
+    this.onReplayReceived = callback;
+  }
+
+  onStart(callback: (map: MapSelection, customMap: CustomMapData | null) => void): void {
+    this.onStartReceived = callback;
+  }
+
   onConnect(callback: () => void): void {
     this.onConnected = callback;
   }
@@ -1,5 +1,9 @@
 import { Logger } from '@/lib/logging/Logger';
 import Peer, { DataConnection } from 'peerjs';
+import { SeededRandom } from '@/engine/utils/SeededRandom';
+import type { MapSelection } from '@/engine/map/MapGenerator';
+import type { MapVariant } from '@/engine/map/MapPresets';
+import type { CustomMapData } from '@/engine/map/MapFormat';
 
 export interface LANGameState {
   tanks: Array<{
@@ -7,6 +11,7 @@ export interface LANGameState {
     position: { x: number; y: number };
     velocity: { x: number; y: number };
     rotation: number;
+    turretRotation: number;
     health: number;
   }>;
   bullets: Array<{
@@ -24,7 +29,7 @@ export interface LANGameState {
 }
 
 export interface LANMessage {
-  type: 'input' | 'state' | 'ping' | 'pong' | 'init' | 'start' | 'disconnect' | 'ready';
+  type: 'input' | 'state' | 'ping' | 'pong' | 'init' | 'start' | 'disconnect' | 'ready' | 'replay';
   data?: any;
   timestamp?: number;
 }
@@ -42,6 +47,9 @@ export class LocalMultiplayerServer {
   private onInputReceived?: (guestId: string, input: any) => void;
   private guestReady: boolean = false;
   private onGuestReadyCallback?: () => void;
+  // Host's map pick, sent to the guest on 'start' so both peers generate the same map
+  private mapSelection: MapSelection = { variant: 'classic', seed: SeededRandom.createSeed() };
+  private customMap: CustomMapData | null = null; // Played instead of mapSelection when set
 
   constructor() {
     this.roomCode = this.generateRoomCode();
@@ -219,6 +227,11 @@ export class LocalMultiplayerServer {
       case 'ready':
         Logger.debug(`[LAN Server] Guest ${guestId} is ready`);
         this.guestReady = true;
+        this.sendToGuest(guestId, {
+          type: 'start',
+          data: { map: this.mapSelection, customMap: this.customMap },
+          timestamp: Date.now()
+        });
         if (this.onGuestReadyCallback) {
           this.onGuestReadyCallback();
         }
@@ -314,6 +327,22 @@ export class LocalMultiplayerServer {
     return this.guestReady;
   }
 
+  setMapVariant(variant: MapVariant): void {
+    this.mapSelection = { ...this.mapSelection, variant };
+  }
+
+  getMapSelection(): MapSelection {
+    return this.mapSelection;
+  }
+
+  setCustomMap(map: CustomMapData | null): void {
+    this.customMap = map;
+  }
+
+  getCustomMap(): CustomMapData | null {
+    return this.customMap;
+  }
+
   destroy(): void {
     Logger.debug('[LAN Server] Shutting down');
 
@@ -1,6 +1,7 @@
 // Socket.io Server Configuration for Neon Tank Duel
 
 import { Logger } from '@/lib/logging/Logger';
+import { randomBytes } from 'crypto';
 import { Server as NetServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import {
@@ -9,6 +10,7 @@ import {
   InterServerEvents,
   SocketData,
   SessionInfo,
+  JoinGameResponse,
   PlayerInfo,
   GameStateSnapshot,
   PlayerInput,
@@ -17,14 +19,34 @@ import {
   SerializedPowerUp,
   SerializedWall,
   SerializedHazard,
+  OnlineGameSettings,
+  SPECTATOR_DELAY_MS,
+  MAX_SPECTATORS,
+  RECONNECT_GRACE_MS,
+  RatingChange,
+  PlayerLeftPayload,
 } from './events';
-import { Tank, TankControls } from '@/engine/entities/Tank';
+import { validateOnlineGameSettings } from './gameSettings';
+import { InputGuard, capChargeLevel, getMaxRewindMs, smoothLatency } from './inputValidation';
+import type { InputViolationRecord } from './inputValidation';
+import { SessionLoop, TickMetrics } from './sessionLoop';
+import type { TickMetricsSnapshot } from './sessionLoop';
+import { encodeGameEvents } from './gameEvents';
+import { recordMatchResult } from '@/lib/rating';
+import { recordMatchHistory, verifyPlayerToken, type WeaponStats } from '@/lib/profile';
+import { Tank } from '@/engine/entities/Tank';
 import { Bullet } from '@/engine/entities/Bullet';
-import { PowerUp, PowerUpType } from '@/engine/entities/PowerUp';
+import { PowerUp } from '@/engine/entities/PowerUp';
 import { Wall } from '@/engine/entities/Wall';
 import { Hazard } from '@/engine/entities/Hazard';
 import { Constants } from '@/engine/utils/Constants';
-import { SpatialGrid } from '@/engine/utils/SpatialGrid';
+import { Simulation, InputFrame, isBulletInHitBox } from '@/engine/core/Simulation';
+import type { RoundEndReason } from '@/engine/core/Simulation';
+import { ReplayRecorder } from '@/engine/replay';
+import { MatchStatsCollector } from '@/engine/stats';
+import { buildMapPreset } from '@/engine/map/MapGenerator';
+import { SeededRandom } from '@/engine/utils/SeededRandom';
+import { getTankCount, getTankTeam } from '@/engine/core/MatchMode';
 
 // ============================================================================
 // Types
@@ -57,8 +79,16 @@ interface HistoricalState {
 interface BulletMetadata {
   shootTimestamp: number;
   shooterLatency: number;
+  firedAt: number; // Server time of the tick that fired the bullet
 }
 
+// Snapshot size is measured on every Nth broadcast - serializing each one again would cost a tick's worth of work
+const SNAPSHOT_SIZE_SAMPLE_INTERVAL = 10;
+
+// Round trip probes feed each player's measured latency, which bounds lag compensation
+const LATENCY_PROBE_INTERVAL_MS = 2000;
+const LATENCY_PROBE_TIMEOUT_MS = 5000;
+
 // ============================================================================
 // Game Session
 // ============================================================================
@@ -66,44 +96,49 @@ interface BulletMetadata {
 export interface GameSession {
   id: string;
   players: Map<string, PlayerInfo>;
+  spectators: Map<string, PlayerInfo>; // Read-only viewers, sent delayed full snapshots
   sockets: Map<string, string>; // playerId -> socketId
+  participants: Map<string, PlayerInfo>; // Everyone who started the match - rated at game over even if they left
+  reconnectTimers: Map<string, NodeJS.Timeout>; // playerId -> removal timer while their socket is dropped
+  reconnectTokens: Map<string, string>; // playerId -> secret the player must present to resume their tank
   gameState: SessionInfo['gameState'];
   stateSnapshot: GameStateSnapshot | null;
   inputBuffer: Map<string, PlayerInput[]>;
-  tickRate: number;
-  tickInterval: NodeJS.Timeout | null;
-  currentTick: number;
+  inputGuards: Map<string, InputGuard>; // playerId -> input validation and rule-break count
+  kickedPlayers: Set<string>; // Removed for breaking input rules - not let back in
+  tickRate: number; // Loop wake-ups and state broadcasts per second - the simulation steps at its own fixed rate
+  loop: SessionLoop | null; // Runs while a round is in play
+  countdownTimer: NodeJS.Timeout | null; // Counts down to the first round
+  metrics: TickMetrics;
+  currentTick: number; // Simulation steps this match
+  stepTime: number; // Scheduled time of the latest step - the server clock for history and lag compensation
+  snapshotsSent: number;
   createdAt: number;
   lastActivity: number;
   roundNumber: number;
-  scores: { p1: number; p2: number };
-  // Game entities
-  tanks: Map<number, Tank>; // tankId -> Tank
-  bullets: Bullet[];
-  bulletMetadata: Map<Bullet, BulletMetadata>; // Track lag compensation data per bullet
-  powerups: PowerUp[];
-  walls: Wall[];
-  crates: Wall[];
-  hazards: Hazard[];
-  // Game state
-  gameStartTime: number;
-  lastPowerUpTime: number;
-  suddenDeathActive: boolean;
-  suddenDeathInset: number;
-  // Game settings
-  settings?: {
-    scoreLimitValue: number;
-    timeLimitEnabled: boolean;
-    timeLimitSeconds: number;
-  };
+  matchStartedAt: number; // When the countdown began, for match history
+  // Shared rules engine - owns tanks, bullets, powerups, map, sudden death and scores
+  simulation: Simulation;
+  heldInputs: Map<string, PlayerInput>; // playerId -> input re-applied while the buffer is empty
+  bulletMetadata: WeakMap<Bullet, BulletMetadata>; // Track lag compensation data per bullet
+  recorder: ReplayRecorder | null; // Match replay, sent to players at game over
+  statsCollector: MatchStatsCollector | null; // Combat stats, sent with game over
+  // Validated ruleset, set by the player who created the session
+  settings: OnlineGameSettings;
+  mapSeed: number; // With settings.mapVariant, generates the map on the server and both clients
   // Delta compression
   lastBroadcastState: GameStateSnapshot | null;
-  // Spatial partitioning
-  spatialGrid: SpatialGrid<Tank | Bullet>;
   // Lag compensation - state history for rewinding
   stateHistory: HistoricalState[];
 }
 
+/**
+ * Players a session holds - one per tank in its match mode
+ */
+function getSessionCapacity(session: GameSession): number {
+  return getTankCount(session.settings.matchMode, session.settings.ffaPlayerCount);
+}
+
 // ============================================================================
 // Room & Session Management
 // ============================================================================
@@ -112,38 +147,41 @@ class SessionManager {
   private sessions: Map<string, GameSession> = new Map();
   private playerToSession: Map<string, string> = new Map();
 
-  createSession(sessionId: string): GameSession {
+  createSession(sessionId: string, settings: OnlineGameSettings): GameSession {
     const session: GameSession = {
       id: sessionId,
+      settings,
+      mapSeed: SeededRandom.createSeed(),
       players: new Map(),
+      spectators: new Map(),
       sockets: new Map(),
+      participants: new Map(),
+      reconnectTimers: new Map(),
+      reconnectTokens: new Map(),
       gameState: 'waiting',
       stateSnapshot: null,
       inputBuffer: new Map(),
-      tickRate: 60, // 60 Hz server tick rate for Valorant-level responsiveness
-      tickInterval: null,
+      inputGuards: new Map(),
+      kickedPlayers: new Set(),
+      tickRate: settings.tickRate,
+      loop: null,
+      countdownTimer: null,
+      metrics: new TickMetrics(settings.tickRate),
       currentTick: 0,
+      stepTime: 0,
+      snapshotsSent: 0,
       createdAt: Date.now(),
       lastActivity: Date.now(),
       roundNumber: 0,
-      scores: { p1: 0, p2: 0 },
-      // Game entities
-      tanks: new Map(),
-      bullets: [],
-      bulletMetadata: new Map(),
-      powerups: [],
-      walls: [],
-      crates: [],
-      hazards: [],
-      // Game state
-      gameStartTime: Date.now(),
-      lastPowerUpTime: Date.now(),
-      suddenDeathActive: false,
-      suddenDeathInset: 0,
+      matchStartedAt: 0,
+      // Replaced with a configured simulation when the match starts
+      simulation: new Simulation(),
+      heldInputs: new Map(),
+      bulletMetadata: new WeakMap(),
+      recorder: null,
+      statsCollector: null,
       // Delta compression
       lastBroadcastState: null,
-      // Spatial partitioning
-      spatialGrid: new SpatialGrid(Constants.GAME_WIDTH, Constants.GAME_HEIGHT, 100),
       // Lag compensation
       stateHistory: [],
     };
@@ -166,18 +204,31 @@ class SessionManager {
     const session = this.sessions.get(sessionId);
     if (!session) return false;
 
-    // Max 2 players per session
-    if (session.players.size >= 2) return false;
+    // One player per tank
+    if (session.players.size >= getSessionCapacity(session)) return false;
 
     session.players.set(player.id, player);
     session.sockets.set(player.id, socketId);
     session.inputBuffer.set(player.id, []);
+    session.inputGuards.set(player.id, new InputGuard());
     session.lastActivity = Date.now();
     this.playerToSession.set(player.id, sessionId);
 
     return true;
   }
 
+  addSpectatorToSession(sessionId: string, spectator: PlayerInfo): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+
+    if (session.spectators.size >= MAX_SPECTATORS) return false;
+
+    session.spectators.set(spectator.id, spectator);
+    this.playerToSession.set(spectator.id, sessionId);
+
+    return true;
+  }
+
   removePlayerFromSession(playerId: string): GameSession | undefined {
     const sessionId = this.playerToSession.get(playerId);
     if (!sessionId) return undefined;
@@ -186,14 +237,23 @@ class SessionManager {
     if (!session) return undefined;
 
     session.players.delete(playerId);
+    session.spectators.delete(playerId);
     session.sockets.delete(playerId);
     session.inputBuffer.delete(playerId);
+    session.inputGuards.delete(playerId);
+    session.heldInputs.delete(playerId);
+    clearTimeout(session.reconnectTimers.get(playerId));
+    session.reconnectTimers.delete(playerId);
+    session.reconnectTokens.delete(playerId);
     this.playerToSession.delete(playerId);
 
-    // If session is empty, clean it up
+    // If no players are left, clean it up (spectators have nothing left to watch)
     if (session.players.size === 0) {
-      if (session.tickInterval) {
-        clearInterval(session.tickInterval);
+      session.loop?.stop();
+      clearInterval(session.countdownTimer ?? undefined);
+      session.reconnectTimers.forEach((timer) => clearTimeout(timer));
+      for (const spectatorId of session.spectators.keys()) {
+        this.playerToSession.delete(spectatorId);
       }
       this.sessions.delete(sessionId);
     }
@@ -210,7 +270,7 @@ class SessionManager {
 
   isSessionReady(sessionId: string): boolean {
     const session = this.sessions.get(sessionId);
-    return session !== undefined && session.players.size === 2;
+    return session !== undefined && session.players.size === getSessionCapacity(session);
   }
 
   getAllSessions(): GameSession[] {
@@ -221,10 +281,10 @@ class SessionManager {
     const now = Date.now();
     for (const [sessionId, session] of this.sessions) {
       if (now - session.lastActivity > maxAge) {
-        if (session.tickInterval) {
-          clearInterval(session.tickInterval);
-        }
-        for (const playerId of session.players.keys()) {
+        session.loop?.stop();
+        clearInterval(session.countdownTimer ?? undefined);
+        session.reconnectTimers.forEach((timer) => clearTimeout(timer));
+        for (const playerId of [...session.players.keys(), ...session.spectators.keys()]) {
           this.playerToSession.delete(playerId);
         }
         this.sessions.delete(sessionId);
@@ -278,34 +338,106 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
     // Initialize socket data
     socket.data.lastActivity = Date.now();
     socket.data.sessionId = null;
+    socket.data.role = null;
     socket.data.tankId = null;
 
+    // Measure each player's round trip from the server side - client-reported latency can't be trusted
+    const latencyProbe = setInterval(() => probeLatency(socket), LATENCY_PROBE_INTERVAL_MS);
+
     // ========================================================================
     // Join Game Handler
     // ========================================================================
 
-    socket.on('join_game', (payload, callback) => {
-      const { sessionId, playerId, playerName, gameSettings } = payload;
+    socket.on('join_game', async (payload, callback) => {
+      const { sessionId, playerId, playerName, playerToken, gameSettings, role = 'player', resume = false, reconnectToken } = payload;
 
-      Logger.debug(`[Socket.io] Player ${playerId} (${playerName}) joining session ${sessionId}`);
+      Logger.debug(`[Socket.io] ${role === 'spectator' ? 'Spectator' : 'Player'} ${playerId} (${playerName}) joining session ${sessionId}`);
 
-      // Get or create session
+      // Ratings and match history follow the player ID, so only its owner may play or watch under it
+      let owner = false;
+      try {
+        owner = await verifyPlayerToken(playerId, playerToken);
+      } catch (error) {
+        Logger.error(`[Socket.io] Failed to verify player ${playerId}:`, error);
+      }
+      if (!owner) {
+        Logger.warn(`[Socket.io] Refused ${playerId} without their player token`);
+        callback({
+          success: false,
+          error: 'Player ID belongs to another player',
+        });
+        return;
+      }
+      // The socket may have gone while the store answered
+      if (!socket.connected) return;
+
+      if (role === 'spectator') {
+        joinAsSpectator(socket, sessionId, playerId, playerName, callback);
+        return;
+      }
+
+      // Get or create session - the first player to join sets the ruleset
       let session = sessionManager.getSession(sessionId);
+      if (resume && !session?.players.has(playerId)) {
+        callback({
+          success: false,
+          error: 'Session expired',
+        });
+        return;
+      }
       if (!session) {
-        session = sessionManager.createSession(sessionId);
+        const validation = validateOnlineGameSettings(gameSettings);
+        if (!validation.valid) {
+          Logger.warn(`[Socket.io] Rejected settings from ${playerId}: ${validation.error}`);
+          callback({
+            success: false,
+            error: `Invalid game settings: ${validation.error}`,
+          });
+          return;
+        }
+        session = sessionManager.createSession(sessionId, validation.settings);
       }
 
-      // Store game settings (first player to join sets the settings)
-      if (!session.settings && gameSettings) {
-        session.settings = {
-          scoreLimitValue: gameSettings.scoreLimitValue || 5,
-          timeLimitEnabled: gameSettings.timeLimitEnabled || false,
-          timeLimitSeconds: gameSettings.timeLimitSeconds || 120,
-        };
+      if (session.kickedPlayers.has(playerId)) {
+        callback({
+          success: false,
+          error: 'Removed from this session',
+        });
+        return;
+      }
+
+      // A player coming back after a dropped socket takes their held tank again - player IDs are
+      // public, so only the secret handed out at join proves it's them, and only while the tank is held
+      const returningPlayer = session.players.get(playerId);
+      if (returningPlayer) {
+        if (!resume || !reconnectToken || session.reconnectTokens.get(playerId) !== reconnectToken) {
+          Logger.warn(`[Socket.io] Refused to re-bind ${playerId} in session ${sessionId}`);
+          callback({
+            success: false,
+            error: resume ? 'Session expired' : 'Already in this session',
+          });
+          return;
+        }
+
+        // With the token, a socket still bound to the tank is a dead connection that hasn't timed out yet
+        const oldSocketId = session.sockets.get(playerId);
+        if (returningPlayer.connected && oldSocketId && oldSocketId !== socket.id) {
+          io?.sockets.sockets.get(oldSocketId)?.disconnect(true);
+        }
+        if (returningPlayer.connected || !session.reconnectTimers.has(playerId)) {
+          callback({
+            success: false,
+            error: 'Session expired',
+          });
+          return;
+        }
+
+        resumePlayer(socket, session, returningPlayer, callback);
+        return;
       }
 
       // Check if session is full
-      if (session.players.size >= 2) {
+      if (session.players.size >= getSessionCapacity(session)) {
         callback({
           success: false,
           error: 'Session is full',
@@ -313,13 +445,16 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
         return;
       }
 
-      // Assign tank ID (1 or 2)
-      const assignedTankId = session.players.size === 0 ? 1 : 2;
+      // Assign the lowest free tank ID (1 up to the session's capacity)
+      const takenTankIds = new Set(Array.from(session.players.values(), (p) => p.tankId));
+      let assignedTankId = 1;
+      while (takenTankIds.has(assignedTankId)) assignedTankId++;
 
       // Create player info
       const player: PlayerInfo = {
         id: playerId,
         name: playerName,
+        role: 'player',
         tankId: assignedTankId,
         connected: true,
         latency: 0,
@@ -339,6 +474,7 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
       socket.data.playerId = playerId;
       socket.data.playerName = playerName;
       socket.data.sessionId = sessionId;
+      socket.data.role = 'player';
       socket.data.tankId = assignedTankId;
 
       // Join socket room
@@ -349,19 +485,13 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
         sessionId,
         player,
       });
-
-      // Build session info for response
-      const sessionInfo: SessionInfo = {
-        sessionId,
-        players: Array.from(session.players.values()),
-        gameState: session.gameState,
-        createdAt: session.createdAt,
-      };
+      emitToSpectators(sessionId, 'player_joined', { sessionId, player });
 
       callback({
         success: true,
-        session: sessionInfo,
+        session: buildSessionInfo(session, 'player'),
         assignedTankId,
+        reconnectToken: issueReconnectToken(session, playerId),
       });
 
       // Check if game can start
@@ -387,10 +517,29 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
     // ========================================================================
 
     socket.on('player_input', (payload) => {
-      const { sessionId, playerId, input } = payload;
+      // Spectators are read-only
+      if (socket.data.role !== 'player') return;
 
-      const session = sessionManager.getSession(sessionId);
-      if (!session) return;
+      // Inputs always belong to the socket's own player, whatever the payload claims
+      const playerId = socket.data.playerId;
+      const session = socket.data.sessionId ? sessionManager.getSession(socket.data.sessionId) : undefined;
+      if (!session || session.sockets.get(playerId) !== socket.id) return;
+
+      const guard = session.inputGuards.get(playerId);
+      if (!guard) return;
+
+      // Clients may still be sending as a round ends - between rounds inputs are dropped, not held against them
+      if (session.gameState !== 'playing') return;
+
+      const now = Date.now();
+      const { input, violations } = guard.check(payload?.input, now);
+      if (payload?.playerId !== playerId || payload?.sessionId !== session.id) {
+        violations.push({ rule: 'wrong_sender', detail: `claimed ${String(payload?.playerId)} in ${String(payload?.sessionId)}` });
+      }
+      if (violations.length > 0 && reportInputViolations(socket, session, playerId, guard, violations, now) === 'kicked') {
+        return;
+      }
+      if (!input) return;
 
       // Buffer the input
       const playerInputs = session.inputBuffer.get(playerId);
@@ -402,7 +551,7 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
         }
       }
 
-      session.lastActivity = Date.now();
+      session.lastActivity = now;
     });
 
     // ========================================================================
@@ -461,9 +610,14 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
 
     socket.on('disconnect', (reason) => {
       Logger.debug(`[Socket.io] Client disconnected: ${socket.id}, reason: ${reason}`);
+      clearInterval(latencyProbe);
 
       if (socket.data.playerId && socket.data.sessionId) {
-        handlePlayerLeave(socket, socket.data.playerId, 'disconnect');
+        if (socket.data.role === 'player') {
+          holdPlayerForReconnect(socket, socket.data.playerId);
+        } else {
+          handlePlayerLeave(socket, socket.data.playerId, 'disconnect');
+        }
       }
     });
   });
@@ -482,38 +636,280 @@ export function initializeSocketServer(httpServer: NetServer): NeonTankServer {
 // Helper Functions
 // ============================================================================
 
+/**
+ * Socket.io room holding a session's spectators (players use the session ID room)
+ */
+function spectatorRoom(sessionId: string): string {
+  return `${sessionId}:spectators`;
+}
+
+/**
+ * Send an event to a session's spectators after the spectator delay
+ */
+function emitToSpectators<E extends keyof ServerToClientEvents>(
+  sessionId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+): void {
+  setTimeout(() => {
+    io?.to(spectatorRoom(sessionId)).emit(event, ...args);
+  }, SPECTATOR_DELAY_MS);
+}
+
+/**
+ * Send an event to a session's players now and to its spectators after the delay
+ */
+function broadcastToSession<E extends keyof ServerToClientEvents>(
+  sessionId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+): void {
+  io?.to(sessionId).emit(event, ...args);
+  emitToSpectators(sessionId, event, ...args);
+}
+
+function buildSessionInfo(session: GameSession, role: PlayerInfo['role']): SessionInfo {
+  return {
+    sessionId: session.id,
+    role,
+    players: Array.from(session.players.values()),
+    spectators: Array.from(session.spectators.values()),
+    gameState: session.gameState,
+    createdAt: session.createdAt,
+    settings: session.settings,
+    mapSeed: session.mapSeed,
+  };
+}
+
+function joinAsSpectator(
+  socket: NeonTankSocket,
+  sessionId: string,
+  playerId: string,
+  playerName: string,
+  callback: (response: JoinGameResponse) => void
+): void {
+  const session = sessionManager.getSession(sessionId);
+  if (!session) {
+    callback({ success: false, error: 'Session not found' });
+    return;
+  }
+
+  // Spectators and players share one ID space - watching under a player's own ID (say, from a second
+  // tab) would take their tank out of the match when that tab closed
+  if (sessionManager.getSessionByPlayer(playerId)?.players.has(playerId)) {
+    callback({ success: false, error: 'Already playing in a session' });
+    return;
+  }
+
+  const spectator: PlayerInfo = {
+    id: playerId,
+    name: playerName,
+    role: 'spectator',
+    tankId: 0,
+    connected: true,
+    latency: 0,
+  };
+
+  if (!sessionManager.addSpectatorToSession(sessionId, spectator)) {
+    callback({ success: false, error: 'Too many spectators' });
+    return;
+  }
+
+  socket.data.playerId = playerId;
+  socket.data.playerName = playerName;
+  socket.data.sessionId = sessionId;
+  socket.data.role = 'spectator';
+  socket.data.tankId = null;
+
+  socket.join(spectatorRoom(sessionId));
+
+  // Let the players know someone is watching
+  io?.to(sessionId).emit('player_joined', { sessionId, player: spectator });
+
+  callback({ success: true, session: buildSessionInfo(session, 'spectator') });
+}
+
+/**
+ * Give a player a fresh secret for resuming their tank - a used token can't be replayed
+ */
+function issueReconnectToken(session: GameSession, playerId: string): string {
+  const token = randomBytes(16).toString('hex');
+  session.reconnectTokens.set(playerId, token);
+  return token;
+}
+
+/**
+ * Keep a dropped player's tank in the session (idle) for the reconnect grace window
+ */
+function holdPlayerForReconnect(socket: NeonTankSocket, playerId: string): void {
+  const session = sessionManager.getSessionByPlayer(playerId);
+  // Ignore sockets the player has already been re-bound away from
+  if (!session || session.sockets.get(playerId) !== socket.id) return;
+
+  const player = session.players.get(playerId);
+  if (!player || session.gameState === 'game_over') {
+    handlePlayerLeave(socket, playerId, 'disconnect');
+    return;
+  }
+
+  Logger.debug(`[Socket.io] Holding ${playerId} in session ${session.id} for ${RECONNECT_GRACE_MS}ms`);
+
+  // No input while away - the tank sits idle rather than repeating its last move
+  player.connected = false;
+  session.inputBuffer.set(playerId, []);
+  session.heldInputs.delete(playerId);
+
+  session.reconnectTimers.set(playerId, setTimeout(() => {
+    session.reconnectTimers.delete(playerId);
+    handlePlayerLeave(socket, playerId, 'timeout');
+  }, RECONNECT_GRACE_MS));
+
+  broadcastToSession(session.id, 'player_disconnected', {
+    sessionId: session.id,
+    playerId,
+    graceMs: RECONNECT_GRACE_MS,
+  });
+}
+
+/**
+ * Re-bind a returning player to their tank and send them a full snapshot to continue from
+ */
+function resumePlayer(
+  socket: NeonTankSocket,
+  session: GameSession,
+  player: PlayerInfo,
+  callback: (response: JoinGameResponse) => void
+): void {
+  Logger.debug(`[Socket.io] Player ${player.id} resumed session ${session.id}`);
+
+  clearTimeout(session.reconnectTimers.get(player.id));
+  session.reconnectTimers.delete(player.id);
+
+  // The old socket may not have timed out yet - stop it receiving the session's events
+  const oldSocketId = session.sockets.get(player.id);
+  if (oldSocketId && oldSocketId !== socket.id) {
+    io?.sockets.sockets.get(oldSocketId)?.leave(session.id);
+  }
+  sessionManager.updatePlayerSocket(player.id, socket.id);
+
+  // The client's input sequence may have restarted
+  player.connected = true;
+  session.inputBuffer.set(player.id, []);
+  session.inputGuards.get(player.id)?.resetSequence();
+  session.heldInputs.delete(player.id);
+  session.lastActivity = Date.now();
+
+  socket.data.playerId = player.id;
+  socket.data.playerName = player.name;
+  socket.data.sessionId = session.id;
+  socket.data.role = 'player';
+  socket.data.tankId = player.tankId;
+
+  socket.join(session.id);
+
+  callback({
+    success: true,
+    session: buildSessionInfo(session, 'player'),
+    assignedTankId: player.tankId,
+    resumed: true,
+    reconnectToken: issueReconnectToken(session, player.id),
+  });
+
+  // Deltas are computed against the last broadcast, which this client never received
+  if (session.stateSnapshot) {
+    socket.emit('game_state', { sessionId: session.id, state: session.stateSnapshot });
+  }
+
+  socket.to(session.id).emit('player_reconnected', { sessionId: session.id, playerId: player.id });
+  emitToSpectators(session.id, 'player_reconnected', { sessionId: session.id, playerId: player.id });
+}
+
+/**
+ * Time a round trip to the socket's player and fold it into their measured latency
+ */
+function probeLatency(socket: NeonTankSocket): void {
+  if (socket.data.role !== 'player') return;
+
+  const sentAt = Date.now();
+  socket.timeout(LATENCY_PROBE_TIMEOUT_MS).emit('latency_probe', (err) => {
+    if (err) return;
+
+    const session = sessionManager.getSessionByPlayer(socket.data.playerId);
+    const player = session?.players.get(socket.data.playerId);
+    if (!player || session?.sockets.get(player.id) !== socket.id) return;
+
+    player.latency = smoothLatency(player.latency, Date.now() - sentAt);
+  });
+}
+
+/**
+ * Log a player's input rule breaks, flagging and then kicking repeat offenders
+ */
+function reportInputViolations(
+  socket: NeonTankSocket,
+  session: GameSession,
+  playerId: string,
+  guard: InputGuard,
+  violations: InputViolationRecord[],
+  now: number
+): 'ok' | 'kicked' {
+  const context = { sessionId: session.id, playerId, socketId: socket.id };
+
+  for (const violation of violations) {
+    const verdict = guard.recordViolation(now);
+    Logger.debug('[AntiCheat] Input rejected', { ...context, ...violation, recent: guard.getRecentViolations() });
+
+    if (verdict === 'flag') {
+      Logger.warn('[AntiCheat] Player flagged', { ...context, rule: violation.rule, recent: guard.getRecentViolations() });
+    } else if (verdict === 'kick') {
+      Logger.warn('[AntiCheat] Player kicked', { ...context, rule: violation.rule, recent: guard.getRecentViolations() });
+      kickPlayer(socket, session, playerId);
+      return 'kicked';
+    }
+  }
+  return 'ok';
+}
+
+/**
+ * Remove a player from their session for good and close their socket
+ */
+function kickPlayer(socket: NeonTankSocket, session: GameSession, playerId: string): void {
+  session.kickedPlayers.add(playerId);
+  socket.emit('error', { code: 'KICKED', message: 'Removed from the session for sending invalid input' });
+  handlePlayerLeave(socket, playerId, 'kicked');
+  socket.disconnect(true);
+}
+
 function handlePlayerLeave(
   socket: NeonTankSocket,
   playerId: string,
-  reason: 'disconnect' | 'quit' | 'timeout'
+  reason: PlayerLeftPayload['reason']
 ): void {
+  const wasSpectator = socket.data.role === 'spectator';
   const session = sessionManager.removePlayerFromSession(playerId);
 
   if (session && io) {
     // Leave socket room
-    socket.leave(session.id);
+    socket.leave(wasSpectator ? spectatorRoom(session.id) : session.id);
 
     // Notify remaining players
-    io.to(session.id).emit('player_left', {
+    broadcastToSession(session.id, 'player_left', {
       sessionId: session.id,
       playerId,
       reason,
     });
 
-    // If game was in progress, end it
-    if (session.gameState === 'playing' || session.gameState === 'countdown') {
-      // Find remaining player and declare them winner
-      const remainingPlayer = Array.from(session.players.values())[0];
-      if (remainingPlayer) {
-        io.to(session.id).emit('game_over', {
-          sessionId: session.id,
-          winner: remainingPlayer.tankId,
-          finalScores: session.scores,
-          stats: {
-            totalRounds: session.roundNumber,
-            gameDuration: Date.now() - session.createdAt,
-          },
-        });
+    // Spectators leaving never affect the match
+    if (wasSpectator) return;
+
+    // If game was in progress and only one team is left, end it (between rounds too, before the next one starts)
+    if (session.gameState === 'playing' || session.gameState === 'countdown' || session.gameState === 'round_over') {
+      const remainingTeams = new Set(
+        Array.from(session.players.values(), (p) => getTankTeam(session.settings.matchMode, p.tankId))
+      );
+      if (remainingTeams.size === 1) {
+        const [winningTeam] = remainingTeams;
+        void finishMatch(session, winningTeam);
       }
     }
   }
@@ -523,87 +919,37 @@ function handlePlayerLeave(
 // Game State Management
 // ============================================================================
 
-function initializeGameEntities(session: GameSession): void {
-  // Clear existing entities
-  session.tanks.clear();
-  session.bullets = [];
-  session.powerups = [];
-  session.walls = [];
-  session.crates = [];
-  session.hazards = [];
-
-  // Create tanks for each player
-  const players = Array.from(session.players.values());
-  for (const player of players) {
-    const controls: TankControls = {
-      up: 'KeyW',
-      down: 'KeyS',
-      left: 'KeyA',
-      right: 'KeyD',
-      shoot: 'Space',
-    };
-
-    const x = player.tankId === 1 ? 100 : 900;
-    const y = 350;
-    const color = player.tankId === 1 ? Constants.PLAYER1_COLOR : Constants.PLAYER2_COLOR;
-
-    const tank = new Tank(player.tankId, x, y, color, controls);
-    session.tanks.set(player.tankId, tank);
-  }
-
-  // Create map - Static Walls
-  session.walls.push(new Wall(450, 300, 100, 100)); // Center
-
-  session.walls.push(new Wall(150, 100, 50, 150));
-  session.walls.push(new Wall(800, 100, 50, 150));
-  session.walls.push(new Wall(150, 450, 50, 150));
-  session.walls.push(new Wall(800, 450, 50, 150));
+function createSessionSimulation(session: GameSession): Simulation {
+  return new Simulation(
+    session.settings,
+    {
+      map: buildMapPreset({ variant: session.settings.mapVariant, seed: session.mapSeed }),
+      hitTest: (bullet, tank) => {
+        const metadata = session.bulletMetadata.get(bullet);
 
-  // Hazard Zones
-  session.hazards.push(new Hazard(425, 50, 150, 100, 'RADIATION'));
-  session.hazards.push(new Hazard(425, 550, 150, 100, 'RADIATION'));
+        // Fallback to current position if no lag compensation data
+        if (!metadata) {
+          return isBulletInHitBox(bullet, tank.pos.x, tank.pos.y);
+        }
 
-  // Destructible Crates
-  session.crates.push(new Wall(250, 200, 40, 40, true));
-  session.crates.push(new Wall(250, 460, 40, 40, true));
-  session.crates.push(new Wall(710, 200, 40, 40, true));
-  session.crates.push(new Wall(710, 460, 40, 40, true));
-  session.crates.push(new Wall(450, 200, 100, 40, true));
-  session.crates.push(new Wall(450, 460, 100, 40, true));
+        if (session.stateHistory.length === 0) return false;
 
-  // Log crate IDs for debugging flickering
-  console.log('[Server] Created crates with IDs:', session.crates.map(c => c.id).join(', '));
+        // Use lag-compensated historical position
+        const historicalPos = getHistoricalTankPosition(session, tank.id, metadata);
 
-  // Reset game state
-  session.gameStartTime = Date.now();
-  session.lastPowerUpTime = Date.now();
-  session.suddenDeathActive = false;
-  session.suddenDeathInset = 0;
+        return historicalPos !== null && isBulletInHitBox(bullet, historicalPos.x, historicalPos.y);
+      },
+    }
+  );
 }
 
-function spawnPowerUp(session: GameSession): void {
-  if (session.powerups.length >= Constants.POWERUP_MAX_COUNT) return;
-
-  // Find empty spot
-  const x = Math.random() * (Constants.GAME_WIDTH - 100) + 50;
-  const y = Math.random() * (Constants.GAME_HEIGHT - 100) + 50;
-
-  // Check collision with walls/crates
-  const allWalls = [...session.walls, ...session.crates];
-  for (const w of allWalls) {
-    if (
-      w.active &&
-      x > w.x - 20 &&
-      x < w.x + w.w + 20 &&
-      y > w.y - 20 &&
-      y < w.y + w.h + 20
-    )
-      return;
-  }
+function initializeGameEntities(session: GameSession): void {
+  // Fresh map, tanks and round timer (scores persist in the simulation)
+  session.simulation.resetRound();
+  session.heldInputs.clear();
 
-  const types: PowerUpType[] = ['HEALTH', 'SPEED', 'SHOTGUN', 'LASER', 'SHIELD'];
-  const type = types[Math.floor(Math.random() * types.length)];
-  session.powerups.push(new PowerUp(x, y, type));
+  // Log crate IDs for debugging flickering
+  console.log('[Server] Created crates with IDs:', session.simulation.crates.map(c => c.id).join(', '));
 }
 
 function serializeTank(tank: Tank): SerializedTank {
@@ -612,6 +958,7 @@ function serializeTank(tank: Tank): SerializedTank {
     x: tank.pos.x,
     y: tank.pos.y,
     angle: tank.angle,
+    turretAngle: tank.turretAngle,
     health: tank.health,
     maxHealth: tank.maxHealth,
     ammo: tank.ammo,
@@ -684,10 +1031,21 @@ function startGameCountdown(sessionId: string): void {
 
   session.gameState = 'countdown';
   session.roundNumber = 1;
+  session.participants = new Map(session.players);
+  session.matchStartedAt = Date.now();
 
-  // Initialize game entities
+  // Build the match simulation from the session settings (creates the first round's entities)
+  session.simulation = createSessionSimulation(session);
+  Logger.debug(`[Server] Session ${sessionId} match seed: ${session.simulation.getSeed()}, map: ${session.settings.mapVariant} (seed ${session.mapSeed})`);
   initializeGameEntities(session);
 
+  // Both follow later rounds through the simulation's events
+  // Hits are lag compensated, so the replay stores them rather than re-testing on playback
+  session.recorder = new ReplayRecorder('online', session.simulation, session.simulation.settings, {
+    recordHits: true,
+  });
+  session.statsCollector = new MatchStatsCollector(session.simulation);
+
   let countdown = 3;
 
   // Notify match found
@@ -706,17 +1064,19 @@ function startGameCountdown(sessionId: string): void {
   }
 
   // Countdown timer
-  const countdownInterval = setInterval(() => {
+  session.countdownTimer = setInterval(() => {
     if (!io) {
-      clearInterval(countdownInterval);
+      clearInterval(session.countdownTimer ?? undefined);
+      session.countdownTimer = null;
       return;
     }
 
-    io.to(sessionId).emit('countdown', { sessionId, countdown });
+    broadcastToSession(sessionId, 'countdown', { sessionId, countdown });
     countdown--;
 
     if (countdown < 0) {
-      clearInterval(countdownInterval);
+      clearInterval(session.countdownTimer ?? undefined);
+      session.countdownTimer = null;
       startGame(sessionId);
     }
   }, 1000);
@@ -724,21 +1084,25 @@ function startGameCountdown(sessionId: string): void {
 
 function startGame(sessionId: string): void {
   const session = sessionManager.getSession(sessionId);
-  if (!session || !io) return;
+  if (!session || !io || session.gameState === 'game_over') return;
 
   session.gameState = 'playing';
-  session.gameStartTime = Date.now(); // Initialize timer
 
-  io.to(sessionId).emit('round_start', {
+  broadcastToSession(sessionId, 'round_start', {
     sessionId,
     roundNumber: session.roundNumber,
     countdown: 0,
   });
 
-  // Start game tick loop
-  session.tickInterval = setInterval(() => {
-    processGameTick(sessionId);
-  }, 1000 / session.tickRate);
+  startSessionLoop(session);
+}
+
+function startSessionLoop(session: GameSession): void {
+  session.loop = new SessionLoop(session.tickRate, session.metrics, {
+    step: (time) => stepSession(session.id, time),
+    afterSteps: () => broadcastSessionState(session.id),
+  });
+  session.loop.start();
 }
 
 // ============================================================================
@@ -760,33 +1124,6 @@ function deduplicateInputs(inputs: PlayerInput[]): PlayerInput[] {
   return unique.sort((a, b) => a.sequenceNumber - b.sequenceNumber);
 }
 
-function batchIdenticalInputs(inputs: PlayerInput[]): PlayerInput[] {
-  if (inputs.length === 0) return inputs;
-
-  const batched: PlayerInput[] = [];
-  let lastInput: PlayerInput | null = null;
-
-  for (const input of inputs) {
-    if (!lastInput || !inputsEqual(input, lastInput)) {
-      // Input changed, keep it
-      batched.push(input);
-      lastInput = input;
-    }
-    // If inputs are identical, skip (batch them together)
-  }
-
-  return batched;
-}
-
-function inputsEqual(a: PlayerInput, b: PlayerInput): boolean {
-  return (
-    a.movement.x === b.movement.x &&
-    a.movement.y === b.movement.y &&
-    a.shoot === b.shoot &&
-    a.chargeLevel === b.chargeLevel
-  );
-}
-
 // ============================================================================
 // Delta Compression Helpers
 // ============================================================================
@@ -873,7 +1210,8 @@ function computeStateDelta(
 
 function tankHasChanged(tank: SerializedTank, lastTank: SerializedTank): boolean {
   const posChanged = Math.abs(tank.x - lastTank.x) > 0.1 || Math.abs(tank.y - lastTank.y) > 0.1;
-  const angleChanged = Math.abs(tank.angle - lastTank.angle) > 0.01;
+  const angleChanged =
+    Math.abs(tank.angle - lastTank.angle) > 0.01 || Math.abs(tank.turretAngle - lastTank.turretAngle) > 0.01;
   const healthChanged = tank.health !== lastTank.health;
   const ammoChanged = tank.ammo !== lastTank.ammo;
   const stateChanged =
@@ -898,16 +1236,18 @@ function bulletHasMoved(bullet: SerializedBullet, lastBullet: SerializedBullet):
 
 /**
  * Get historical tank position for lag compensation
- * Rewinds to (shootTimestamp - latency/2) to compensate for network delay
+ * Rewinds to (shootTimestamp - latency/2) to compensate for network delay,
+ * but never further back from the shot than the shooter's measured latency allows
  */
 function getHistoricalTankPosition(
   session: GameSession,
   tankId: number,
-  shootTimestamp: number,
-  shooterLatency: number
+  metadata: BulletMetadata
 ): { x: number; y: number; angle: number } | null {
   // Calculate the target time to rewind to
-  const rewindTime = shootTimestamp - (shooterLatency / 2);
+  const requested = metadata.shootTimestamp - (metadata.shooterLatency / 2);
+  const earliest = metadata.firedAt - getMaxRewindMs(metadata.shooterLatency);
+  const rewindTime = Math.min(metadata.firedAt, Math.max(earliest, requested));
 
   // Find the closest historical state
   let closestState: HistoricalState | null = null;
@@ -927,356 +1267,137 @@ function getHistoricalTankPosition(
   return closestState.tankPositions.get(tankId) || null;
 }
 
-function processGameTick(sessionId: string): void {
+/**
+ * Advance the session one simulation step scheduled for `time` - returns false once the round is over
+ */
+function stepSession(sessionId: string, time: number): boolean {
   const session = sessionManager.getSession(sessionId);
-  if (!session || !io) return;
+  if (!session || !io) return false;
 
   session.currentTick++;
+  session.stepTime = time;
+  const simulation = session.simulation;
 
-  // Check timer win condition
-  if (session.settings?.timeLimitEnabled) {
-    const elapsed = Date.now() - session.gameStartTime;
-    const timeLimit = session.settings.timeLimitSeconds * 1000;
-
-    if (elapsed >= timeLimit) {
-      // Time expired - determine winner by score then health
-      let winnerId: number;
-
-      if (session.scores.p1 > session.scores.p2) {
-        winnerId = 1;
-      } else if (session.scores.p2 > session.scores.p1) {
-        winnerId = 2;
-      } else {
-        // Tied score - use health tiebreaker
-        const p1Tank = session.tanks.get(1);
-        const p2Tank = session.tanks.get(2);
-
-        if (p1Tank && p2Tank) {
-          if (p1Tank.health > p2Tank.health) {
-            winnerId = 1;
-          } else if (p2Tank.health > p1Tank.health) {
-            winnerId = 2;
-          } else {
-            // Perfect tie - random winner
-            winnerId = Math.random() < 0.5 ? 1 : 2;
-          }
-        } else {
-          // Fallback if tanks don't exist
-          winnerId = 1;
-        }
-      }
-
-      endRound(sessionId, winnerId);
-      return; // Stop processing this tick
-    }
-  }
-
-  // Process player inputs and update tanks
-  const lastProcessedInput: { [playerId: string]: number } = {};
-  const gameSettings = {
-    ammoSystem: true,
-    charging: true,
-    recoil: true,
-  };
+  // Build this step's input frame - one input per player, oldest first
+  const frame: InputFrame = new Map();
+  const frameInputs = new Map<number, { input: PlayerInput; player: PlayerInfo }>(); // tankId -> source input
 
   for (const [playerId, inputs] of session.inputBuffer) {
-    if (inputs.length > 0) {
-      // Deduplicate inputs by sequence number (keep only unique)
-      const uniqueInputs = deduplicateInputs(inputs);
-
-      // Batch consecutive identical inputs
-      const batchedInputs = batchIdenticalInputs(uniqueInputs);
-
-      // Process batched inputs
-      for (const input of batchedInputs) {
-        lastProcessedInput[playerId] = input.sequenceNumber;
-
-        // Find the player's tank
-        const player = session.players.get(playerId);
-        if (player) {
-          const tank = session.tanks.get(player.tankId);
-          if (tank && !tank.dead) {
-          // Convert PlayerInput to key state
-          const keys: { [key: string]: boolean } = {};
-
-          // Map movement to keys
-          if (input.movement.y < -0.1) keys['KeyW'] = true;
-          if (input.movement.y > 0.1) keys['KeyS'] = true;
-          if (input.movement.x < -0.1) keys['KeyA'] = true;
-          if (input.movement.x > 0.1) keys['KeyD'] = true;
-
-          // Map shooting
-          if (input.shoot) keys['Space'] = true;
-
-          // Set charge level
-          if (input.chargeLevel > 0) {
-            tank.chargeLevel = input.chargeLevel;
-          }
-
-          // Get the other tank for collision detection
-          const otherTankId = player.tankId === 1 ? 2 : 1;
-          const otherTank = session.tanks.get(otherTankId);
-
-          if (otherTank) {
-            // Update tank and get new bullets
-            const newBullets = tank.update(
-              keys,
-              session.walls,
-              session.crates,
-              session.hazards,
-              otherTank,
-              session.suddenDeathActive,
-              session.suddenDeathInset,
-              gameSettings,
-              1.0 // deltaMultiplier
-            );
-
-            // Store lag compensation metadata for new bullets
-            if (newBullets.length > 0 && input.shootTimestamp) {
-              for (const bullet of newBullets) {
-                session.bulletMetadata.set(bullet, {
-                  shootTimestamp: input.shootTimestamp,
-                  shooterLatency: player.latency
-                });
-              }
-            }
-
-            session.bullets.push(...newBullets);
-          }
-          }
-        }
-      }
-
-      // Clear processed inputs
-      inputs.length = 0;
-    }
+    const player = session.players.get(playerId);
+    if (!player) continue;
+
+    const held = session.heldInputs.get(playerId);
+
+    // Deduplicate inputs by sequence number and drop any already applied
+    const queued = deduplicateInputs(inputs).filter(
+      (input) => !held || input.sequenceNumber > held.sequenceNumber
+    );
+
+    // Hold the last input while the buffer is empty so jitter doesn't release a charged shot
+    const input = queued.shift() ?? held;
+    session.inputBuffer.set(playerId, queued);
+    if (!input) continue;
+
+    session.heldInputs.set(playerId, input);
+
+    // Clients predict their own charge - take it only as far as the server's count allows
+    const serverCharge = simulation.tanks.find((t) => t.id === player.tankId)?.chargeLevel ?? 0;
+    frame.set(player.tankId, {
+      movement: input.movement,
+      shoot: input.shoot,
+      chargeLevel: capChargeLevel(input.chargeLevel, serverCharge),
+      analog: input.analog,
+      aim: input.aim,
+    });
+    frameInputs.set(player.tankId, { input, player });
   }
 
-  // Rebuild spatial grid for collision detection
-  session.spatialGrid.clear();
-
-  // Insert tanks into grid
-  for (const tank of session.tanks.values()) {
-    if (!tank.dead) {
-      session.spatialGrid.insert(tank);
-    }
-  }
+  const result = simulation.step(frame);
+  session.recorder?.recordTick(frame, result);
 
-  // Insert bullets into grid
-  for (const bullet of session.bullets) {
-    if (bullet.active) {
-      session.spatialGrid.insert(bullet);
-    }
+  // Clients drive their effects from the tick's events (round results have their own messages)
+  const gameEvents = encodeGameEvents(result.events);
+  if (gameEvents.length > 0) {
+    broadcastToSession(sessionId, 'game_events', { sessionId, tick: session.currentTick, events: gameEvents });
   }
 
-  // Update bullets with spatial collision detection
-  for (let i = session.bullets.length - 1; i >= 0; i--) {
-    const bullet = session.bullets[i];
-    bullet.update(session.walls, session.crates);
-
-    if (!bullet.active) {
-      session.bulletMetadata.delete(bullet); // Clean up metadata
-      session.bullets.splice(i, 1);
-      continue;
-    }
-
-    // Bullet-tank collision detection using spatial grid
-    const nearbyTanks = session.spatialGrid.query(bullet.pos.x, bullet.pos.y, 50);
-
-    for (const entity of nearbyTanks) {
-      // Check if entity is a Tank (has id property that's a number)
-      if ('id' in entity && typeof entity.id === 'number' && 'hit' in entity) {
-        const tank = entity as Tank;
-        if (tank.dead) continue;
-        if (bullet.ownerId === tank.id) continue; // No friendly fire
-
-        // Lag compensation: check against historical position if available
-        const metadata = session.bulletMetadata.get(bullet);
-        let hitDetected = false;
-
-        if (metadata && session.stateHistory.length > 0) {
-          // Use lag-compensated historical position
-          const historicalPos = getHistoricalTankPosition(
-            session,
-            tank.id,
-            metadata.shootTimestamp,
-            metadata.shooterLatency
-          );
-
-          if (historicalPos) {
-            // Check collision against historical position
-            hitDetected = (
-              bullet.pos.x > historicalPos.x - 18 &&
-              bullet.pos.x < historicalPos.x + 18 &&
-              bullet.pos.y > historicalPos.y - 18 &&
-              bullet.pos.y < historicalPos.y + 18
-            );
-          }
-        }
-
-        // Fallback to current position if no lag compensation data
-        if (!hitDetected && !metadata) {
-          hitDetected = (
-            bullet.pos.x > tank.pos.x - 18 &&
-            bullet.pos.x < tank.pos.x + 18 &&
-            bullet.pos.y > tank.pos.y - 18 &&
-            bullet.pos.y < tank.pos.y + 18
-          );
-        }
-
-        if (hitDetected) {
-          tank.hit();
-          bullet.active = false;
-
-          // Clean up metadata
-          session.bulletMetadata.delete(bullet);
-
-          // Check if tank died
-          if (tank.dead) {
-            // Update scores
-            const winnerId = tank.id === 1 ? 2 : 1;
-            if (winnerId === 1) {
-              session.scores.p1++;
-            } else {
-              session.scores.p2++;
-            }
-
-            // End round
-            endRound(sessionId, winnerId);
-          }
-          break;
-        }
-      }
-    }
+  // Store lag compensation metadata for new bullets
+  for (const event of result.events) {
+    if (event.type !== 'bullet_fired') continue;
 
-    if (!bullet.active) {
-      session.bulletMetadata.delete(bullet); // Clean up metadata
-      session.bullets.splice(i, 1);
+    const source = frameInputs.get(event.tankId);
+    if (source?.input.shootTimestamp) {
+      session.bulletMetadata.set(event.bullet, {
+        shootTimestamp: source.input.shootTimestamp,
+        shooterLatency: source.player.latency,
+        firedAt: time,
+      });
     }
   }
 
-  // Update power-ups
-  for (const powerup of session.powerups) {
-    powerup.update();
+  // Round ended this step (elimination or time limit)
+  if (result.roundWinner !== null) {
+    const roundOver = result.events.find((event) => event.type === 'round_over');
+    endRound(sessionId, result.roundWinner, roundOver?.reason ?? 'elimination');
+    return false; // Stop processing this tick
   }
 
-  // Power-up collection
-  for (let i = session.powerups.length - 1; i >= 0; i--) {
-    const powerup = session.powerups[i];
-
-    for (const [tankId, tank] of session.tanks) {
-      if (tank.dead) continue;
-
-      if (powerup.isCollidingWith(tank.pos, 25)) {
-        tank.applyPowerUp(powerup.type);
-        session.powerups.splice(i, 1);
-        break;
-      }
-    }
-  }
+  // Store state in history for lag compensation (keep last 60 states = 1 second at 60Hz)
+  const historicalState: HistoricalState = {
+    timestamp: time,
+    tick: session.currentTick,
+    tankPositions: new Map(
+      simulation.tanks.map((tank) => [
+        tank.id,
+        { x: tank.pos.x, y: tank.pos.y, angle: tank.angle }
+      ])
+    )
+  };
 
-  // Power-up spawning
-  const elapsed = Date.now() - session.lastPowerUpTime;
-  if (elapsed > Constants.POWERUP_SPAWN_INTERVAL) {
-    spawnPowerUp(session);
-    session.lastPowerUpTime = Date.now();
-  }
+  session.stateHistory.push(historicalState);
 
-  // Sudden death logic
-  const gameTime = Date.now() - session.gameStartTime;
-  if (gameTime > Constants.SUDDEN_DEATH_TIME) {
-    if (!session.suddenDeathActive) {
-      session.suddenDeathActive = true;
-    }
-    session.suddenDeathInset += Constants.SUDDEN_DEATH_INSET_SPEED;
+  // Keep only last 60 states (1 second of history at 60Hz)
+  const MAX_HISTORY_SIZE = 60;
+  if (session.stateHistory.length > MAX_HISTORY_SIZE) {
+    session.stateHistory.shift();
   }
 
-  // Check timer win condition
-  if (session.settings?.timeLimitEnabled) {
-    const timeLimit = session.settings.timeLimitSeconds * 1000; // Convert to milliseconds
-    if (gameTime >= timeLimit) {
-      // Time expired - determine winner by score, then health
-      let winnerId: number;
-
-      if (session.scores.p1 > session.scores.p2) {
-        winnerId = 1;
-      } else if (session.scores.p2 > session.scores.p1) {
-        winnerId = 2;
-      } else {
-        // Tied score - use health as tiebreaker
-        const p1Tank = session.tanks.get(1);
-        const p2Tank = session.tanks.get(2);
-
-        if (p1Tank && p2Tank) {
-          if (p1Tank.health > p2Tank.health) {
-            winnerId = 1;
-          } else if (p2Tank.health > p1Tank.health) {
-            winnerId = 2;
-          } else {
-            // Perfect tie - random winner
-            winnerId = Math.random() < 0.5 ? 1 : 2;
-          }
-        } else {
-          winnerId = 1; // Fallback
-        }
-      }
+  return true;
+}
 
-      endRound(sessionId, winnerId);
-      return; // Stop processing this tick
-    }
-  }
+/**
+ * Send players the state after this tick's steps - once per loop wake-up, however many steps it ran
+ */
+function broadcastSessionState(sessionId: string): void {
+  const session = sessionManager.getSession(sessionId);
+  if (!session || !io) return;
 
-  // Check if any tanks died (from sudden death, hazards, or other non-bullet causes)
-  const p1Tank = session.tanks.get(1);
-  const p2Tank = session.tanks.get(2);
-
-  if (p1Tank && p2Tank) {
-    const p1Dead = p1Tank.dead;
-    const p2Dead = p2Tank.dead;
-
-    // If both dead (simultaneous death), determine winner by who had more health before dying
-    if (p1Dead && p2Dead) {
-      // Use scores as tiebreaker, then random if tied
-      let winnerId: number;
-      if (session.scores.p1 > session.scores.p2) {
-        winnerId = 1;
-      } else if (session.scores.p2 > session.scores.p1) {
-        winnerId = 2;
-      } else {
-        // Truly tied - random winner
-        winnerId = Math.random() < 0.5 ? 1 : 2;
-      }
-      endRound(sessionId, winnerId);
-      return; // Stop processing this tick
-    }
-    // If only one dead, they lose
-    else if (p1Dead) {
-      endRound(sessionId, 2);
-      return;
-    }
-    else if (p2Dead) {
-      endRound(sessionId, 1);
-      return;
-    }
-  }
+  const simulation = session.simulation;
+  session.snapshotsSent++;
 
   // Determine if this is a slow tick (for priority-based updates)
-  const isSlowTick = session.currentTick % 4 === 0; // Every 4th tick at 30Hz = 7.5Hz for low priority
+  const isSlowTick = session.snapshotsSent % 4 === 0; // Every 4th snapshot - 15Hz at 60Hz for low priority
+
+  const lastProcessedInput: { [playerId: string]: number } = {};
+  session.heldInputs.forEach((input, playerId) => {
+    lastProcessedInput[playerId] = input.sequenceNumber;
+  });
 
   // Create full state snapshot from actual game entities
+  const suddenDeath = simulation.getSuddenDeathState();
   const fullStateSnapshot: GameStateSnapshot = {
     tick: session.currentTick,
-    timestamp: Date.now(),
+    timestamp: session.stepTime,
     lastProcessedInput,
-    tanks: Array.from(session.tanks.values()).map(serializeTank),
-    bullets: session.bullets.map(serializeBullet),
-    powerups: session.powerups.map(serializePowerUp),
-    walls: [...session.walls, ...session.crates].map(serializeWall),
-    hazards: session.hazards.map(serializeHazard),
-    scores: session.scores,
-    gameTime: gameTime / 1000,
-    suddenDeath: session.suddenDeathActive,
-    suddenDeathInset: session.suddenDeathInset,
+    tanks: simulation.tanks.map(serializeTank),
+    bullets: simulation.bullets.map(serializeBullet),
+    powerups: simulation.powerups.map(serializePowerUp),
+    walls: [...simulation.walls, ...simulation.crates].map(serializeWall),
+    hazards: simulation.hazards.map(serializeHazard),
+    scores: simulation.scores,
+    gameTime: simulation.getGameTime() / 1000,
+    suddenDeath: suddenDeath.active,
+    suddenDeathInset: suddenDeath.inset,
     roundNumber: session.roundNumber,
     roundActive: session.gameState === 'playing',
     tickRate: session.tickRate,
@@ -1284,30 +1405,10 @@ function processGameTick(sessionId: string): void {
 
   // Debug: Log wall IDs every 60 ticks (once per second at 60Hz) to verify stability
   if (session.currentTick % 60 === 0) {
-    const crateIds = session.crates.map(c => c.id).join(', ');
+    const crateIds = simulation.crates.map(c => c.id).join(', ');
     console.log(`[Server] Tick ${session.currentTick}: Crate IDs = ${crateIds}`);
   }
 
-  // Store state in history for lag compensation (keep last 60 states = 1 second at 60Hz)
-  const historicalState: HistoricalState = {
-    timestamp: fullStateSnapshot.timestamp,
-    tick: fullStateSnapshot.tick,
-    tankPositions: new Map(
-      Array.from(session.tanks.entries()).map(([id, tank]) => [
-        id,
-        { x: tank.pos.x, y: tank.pos.y, angle: tank.angle }
-      ])
-    )
-  };
-
-  session.stateHistory.push(historicalState);
-
-  // Keep only last 60 states (1 second of history at 60Hz)
-  const MAX_HISTORY_SIZE = 60;
-  if (session.stateHistory.length > MAX_HISTORY_SIZE) {
-    session.stateHistory.shift();
-  }
-
   // Compute delta against last broadcast state
   const deltaState = computeStateDelta(fullStateSnapshot, session.lastBroadcastState, isSlowTick);
 
@@ -1320,32 +1421,43 @@ function processGameTick(sessionId: string): void {
     sessionId,
     state: deltaState,
   });
+
+  if (session.snapshotsSent % SNAPSHOT_SIZE_SAMPLE_INTERVAL === 0) {
+    session.metrics.recordSnapshot(Buffer.byteLength(JSON.stringify(deltaState)));
+  }
+
+  // Spectators get delayed full snapshots at a third of the snapshot rate
+  if (session.spectators.size > 0 && session.snapshotsSent % 3 === 0) {
+    emitToSpectators(sessionId, 'game_state', { sessionId, state: fullStateSnapshot });
+  }
 }
 
-function endRound(sessionId: string, winnerId: number): void {
+function endRound(sessionId: string, winnerId: number, reason: RoundEndReason): void {
   const session = sessionManager.getSession(sessionId);
-  if (!session || !io) return;
+  // A match that ended early (everyone else left) stays over
+  if (!session || !io || session.gameState === 'game_over') return;
 
   // Stop game tick
-  if (session.tickInterval) {
-    clearInterval(session.tickInterval);
-    session.tickInterval = null;
-  }
+  session.loop?.stop();
+  session.loop = null;
 
   session.gameState = 'round_over';
 
   // Notify clients
-  io.to(sessionId).emit('round_over', {
+  broadcastToSession(sessionId, 'round_over', {
     sessionId,
     roundNumber: session.roundNumber,
     winner: winnerId,
-    scores: session.scores,
+    reason,
+    scores: session.simulation.scores,
   });
 
   // Check if game should end based on score limit
-  const scoreLimit = session.settings?.scoreLimitValue || 2; // Default to 2 if not set
-  if (session.scores.p1 >= scoreLimit || session.scores.p2 >= scoreLimit) {
-    endGame(sessionId, session.scores.p1 >= scoreLimit ? 1 : 2);
+  const scores = session.simulation.scores;
+  const scoreLimit = session.settings.scoreLimitValue;
+  const limitWinner = Object.keys(scores).map(Number).find((team) => scores[team] >= scoreLimit);
+  if (limitWinner !== undefined) {
+    endGame(sessionId, limitWinner);
   } else {
     // Start next round after delay
     setTimeout(() => {
@@ -1356,43 +1468,116 @@ function endRound(sessionId: string, winnerId: number): void {
 
 function startNextRound(sessionId: string): void {
   const session = sessionManager.getSession(sessionId);
-  if (!session || !io) return;
+  if (!session || !io || session.gameState === 'game_over') return;
 
   session.roundNumber++;
   initializeGameEntities(session);
 
   session.gameState = 'playing';
-  session.gameStartTime = Date.now(); // Initialize timer for new round
 
-  io.to(sessionId).emit('round_start', {
+  broadcastToSession(sessionId, 'round_start', {
     sessionId,
     roundNumber: session.roundNumber,
     countdown: 0,
   });
 
-  // Restart game tick
-  session.tickInterval = setInterval(() => {
-    processGameTick(sessionId);
-  }, 1000 / session.tickRate);
+  startSessionLoop(session);
 }
 
 function endGame(sessionId: string, winnerId: number): void {
   const session = sessionManager.getSession(sessionId);
   if (!session || !io) return;
 
+  void finishMatch(session, winnerId);
+}
+
+/**
+ * End the match: send the replay, rate everyone who started it and add the match to
+ * their history, then announce the result
+ */
+async function finishMatch(session: GameSession, winner: number): Promise<void> {
+  // Rate and record each match once, however many ways it ends
+  if (session.gameState === 'game_over') return;
   session.gameState = 'game_over';
 
-  io.to(sessionId).emit('game_over', {
-    sessionId,
-    winner: winnerId,
-    finalScores: session.scores,
+  // A leaver can end the match mid-round or mid-countdown - nothing runs on after the result
+  session.loop?.stop();
+  session.loop = null;
+  clearInterval(session.countdownTimer ?? undefined);
+  session.countdownTimer = null;
+
+  // Replay first, so clients have it by the time they show the game over screen
+  emitReplay(session);
+
+  const participants = Array.from(session.participants.values());
+  const tankStats = session.statsCollector?.getStats() ?? [];
+  let ratings: RatingChange[] = [];
+  try {
+    const updated = await recordMatchResult(
+      participants.map((p) => ({ playerId: p.id, team: getTankTeam(session.settings.matchMode, p.tankId) })),
+      winner,
+      session.simulation.scores
+    );
+    ratings = participants.map((p, i) => ({
+      playerId: p.id,
+      playerName: p.name,
+      tankId: p.tankId,
+      rating: updated[i].rating,
+      change: updated[i].lastChange,
+    }));
+  } catch (error) {
+    Logger.error(`[Server] Failed to rate session ${session.id}:`, error);
+  }
+
+  try {
+    await recordMatchHistory({
+      matchId: `${session.id}-${session.matchStartedAt}`,
+      matchMode: session.settings.matchMode,
+      map: { variant: session.settings.mapVariant, seed: session.mapSeed },
+      players: participants.map((p) => ({
+        playerId: p.id,
+        name: p.name,
+        tankId: p.tankId,
+        team: getTankTeam(session.settings.matchMode, p.tankId),
+      })),
+      winner,
+      finalScores: session.simulation.scores,
+      rounds: session.roundNumber,
+      durationMs: Date.now() - session.matchStartedAt,
+      weaponStats: new Map(
+        tankStats.map((s): [number, WeaponStats] => [
+          s.tankId,
+          { shotsFired: s.shotsFired, hits: s.hits, damageDealt: s.damageDealt },
+        ])
+      ),
+      ratingChanges: new Map(ratings.map((r) => [r.playerId, r.change])),
+    });
+  } catch (error) {
+    Logger.error(`[Server] Failed to record history for session ${session.id}:`, error);
+  }
+
+  broadcastToSession(session.id, 'game_over', {
+    sessionId: session.id,
+    winner,
+    finalScores: session.simulation.scores,
+    ratings,
     stats: {
       totalRounds: session.roundNumber,
       gameDuration: Date.now() - session.createdAt,
+      tanks: tankStats,
     },
   });
 }
 
+function emitReplay(session: GameSession): void {
+  if (!io || !session.recorder?.hasTicks()) return;
+
+  broadcastToSession(session.id, 'replay_data', {
+    sessionId: session.id,
+    replay: session.recorder.getReplay(),
+  });
+}
+
 
 // ============================================================================
 // Exports
@@ -1406,4 +1591,36 @@ export function getSessionManager(): SessionManager {
   return sessionManager;
 }
 
+export interface SessionMetrics extends TickMetricsSnapshot {
+  sessionId: string;
+  gameState: SessionInfo['gameState'];
+  players: number;
+  spectators: number;
+}
+
+export interface ServerMetrics {
+  sessions: SessionMetrics[];
+  runningSessions: number; // Sessions with a round in play
+  load: number; // Share of one core spent ticking running sessions
+}
+
+/**
+ * Tick timing and snapshot sizes for every session, with the process-wide load they add up to
+ */
+export function getServerMetrics(): ServerMetrics {
+  const running = sessionManager.getAllSessions().filter((session) => session.loop?.isRunning());
+
+  return {
+    sessions: sessionManager.getAllSessions().map((session) => ({
+      sessionId: session.id,
+      gameState: session.gameState,
+      players: session.players.size,
+      spectators: session.spectators.size,
+      ...session.metrics.getSnapshot(),
+    })),
+    runningSessions: running.length,
+    load: running.reduce((total, session) => total + session.metrics.getSnapshot().load, 0),
+  };
+}
+
 export { sessionManager };
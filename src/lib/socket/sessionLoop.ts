@@ -0,0 +1,175 @@
+// Fixed-timestep session loop - elapsed time is banked in an accumulator and spent in whole
+// simulation steps, so a stalled event loop catches up instead of slowing the match down
+import { Simulation } from '@/engine/core/Simulation';
+
+// The simulation is tuned to fixed steps; the session tick rate sets how often the loop wakes and
+// broadcasts, at most once per step - a 30Hz session runs two steps per wake-up
+const STEP_MS = Simulation.TICK_MS;
+
+// After a longer stall the backlog is dropped rather than fast-forwarded in one burst
+const MAX_CATCH_UP_STEPS = 10;
+
+export interface SessionLoopHandlers {
+  /** Advance one step scheduled for `time` (epoch ms) - return false to stop the loop */
+  step: (time: number) => boolean;
+  /** Runs once per wake-up that stepped at least once (state broadcast) */
+  afterSteps: () => void;
+}
+
+export interface TickMetricsSnapshot {
+  tickRate: number; // Wake-ups and broadcasts per second
+  ticks: number; // Simulation steps run
+  avgTickMs: number; // Per step, its share of the broadcast included
+  maxTickMs: number;
+  overruns: number; // Wake-ups whose work took longer than the tick period
+  droppedSteps: number; // Steps skipped after stalls too long to catch up
+  avgSnapshotBytes: number;
+  maxSnapshotBytes: number;
+  load: number; // Share of one core spent ticking this session
+}
+
+/**
+ * Running tick and snapshot statistics for one session
+ */
+export class TickMetrics {
+  private ticks = 0;
+  private totalTickMs = 0;
+  private maxTickMs = 0;
+  private overruns = 0;
+  private droppedSteps = 0;
+  private snapshots = 0;
+  private totalSnapshotBytes = 0;
+  private maxSnapshotBytes = 0;
+
+  constructor(private tickRate: number) {}
+
+  /**
+   * Count a wake-up that ran `steps` simulation steps in `durationMs` - wake-ups with nothing due aren't ticks
+   */
+  recordTick(durationMs: number, steps: number): void {
+    if (steps === 0) return;
+
+    this.ticks += steps;
+    this.totalTickMs += durationMs;
+    this.maxTickMs = Math.max(this.maxTickMs, durationMs / steps);
+    if (durationMs > 1000 / this.tickRate) this.overruns++;
+  }
+
+  recordDroppedSteps(count: number): void {
+    this.droppedSteps += count;
+  }
+
+  recordSnapshot(bytes: number): void {
+    this.snapshots++;
+    this.totalSnapshotBytes += bytes;
+    this.maxSnapshotBytes = Math.max(this.maxSnapshotBytes, bytes);
+  }
+
+  getSnapshot(): TickMetricsSnapshot {
+    const avgTickMs = this.ticks > 0 ? this.totalTickMs / this.ticks : 0;
+    return {
+      tickRate: this.tickRate,
+      ticks: this.ticks,
+      avgTickMs,
+      maxTickMs: this.maxTickMs,
+      overruns: this.overruns,
+      droppedSteps: this.droppedSteps,
+      avgSnapshotBytes: this.snapshots > 0 ? this.totalSnapshotBytes / this.snapshots : 0,
+      maxSnapshotBytes: this.maxSnapshotBytes,
+      load: (avgTickMs * Simulation.TICK_RATE) / 1000,
+    };
+  }
+}
+
+/**
+ * Wakes `tickRate` times a second and runs every simulation step that has come due.
+ * Wake-ups are scheduled against an absolute timeline, so timer drift doesn't add up.
+ */
+export class SessionLoop {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private accumulator = 0;
+  private lastWake = 0; // performance.now() of the previous wake-up
+  private nextWake = 0;
+  private clockOrigin = 0; // Epoch ms of simulated time zero
+  private simulatedMs = 0;
+
+  constructor(
+    private tickRate: number,
+    private metrics: TickMetrics,
+    private handlers: SessionLoopHandlers
+  ) {}
+
+  private get periodMs(): number {
+    return 1000 / this.tickRate;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    // Half a step ahead, so wake-ups fall between step boundaries and timer jitter can't
+    // turn one step per wake-up into alternating empty and double wake-ups
+    this.accumulator = STEP_MS / 2;
+    this.simulatedMs = 0;
+    this.clockOrigin = Date.now();
+    this.lastWake = performance.now();
+    this.nextWake = this.lastWake + this.periodMs;
+    this.schedule();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private schedule(): void {
+    // Timers truncate fractional delays - rounding up keeps wake-ups from landing just before a step is due
+    this.timer = setTimeout(this.wake, Math.max(0, Math.ceil(this.nextWake - performance.now())));
+  }
+
+  private wake = (): void => {
+    if (!this.running) return;
+
+    const now = performance.now();
+    this.accumulator += now - this.lastWake;
+    this.lastWake = now;
+
+    let due = Math.floor(this.accumulator / STEP_MS);
+    if (due > MAX_CATCH_UP_STEPS) {
+      const dropped = due - MAX_CATCH_UP_STEPS;
+      this.accumulator -= dropped * STEP_MS;
+      // Simulated time skips the stall too, so step times stay in line with the wall clock
+      this.clockOrigin += dropped * STEP_MS;
+      this.metrics.recordDroppedSteps(dropped);
+      due = MAX_CATCH_UP_STEPS;
+    }
+
+    let steps = 0;
+    while (steps < due && this.running) {
+      this.accumulator -= STEP_MS;
+      this.simulatedMs += STEP_MS;
+      steps++;
+      if (!this.handlers.step(this.clockOrigin + this.simulatedMs)) {
+        this.stop();
+      }
+    }
+    if (steps > 0 && this.running) {
+      this.handlers.afterSteps();
+    }
+
+    this.metrics.recordTick(performance.now() - now, steps);
+    if (!this.running) return;
+
+    // More than a period behind - restart the timeline from now rather than firing back to back
+    this.nextWake = Math.max(this.nextWake + this.periodMs, performance.now());
+    this.schedule();
+  };
+}
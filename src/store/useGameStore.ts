@@ -1,8 +1,11 @@
 'use client';
 
 import { create } from 'zustand';
+import type { GameScores } from '@/engine/systems/GameRulesSystem';
+import type { TankStatus } from '@/engine/core/Game';
+import type { MatchMode } from '@/engine/core/MatchMode';
 
-export type GameMode = 'local' | 'ai' | 'online' | 'lan';
+export type GameMode = 'local' | 'ai' | 'online' | 'lan' | 'replay';
 export type GameScreen = 'menu' | 'modeSelect' | 'options' | 'playing' | 'gameover';
 export type AIDifficulty = 'easy' | 'medium' | 'hard';
 export type PlayerControls = 'wasd' | 'arrows';
@@ -22,8 +25,8 @@ interface GameState {
   isPlaying: boolean;
   isPaused: boolean;
 
-  // Scores (persists across rounds)
-  scores: { p1: number; p2: number };
+  // Scores by team (persists across rounds)
+  scores: GameScores;
 
   // Current game stats (updated during play)
   currentStats: {
@@ -31,10 +34,12 @@ interface GameState {
     p2Health: number;
     elapsedTime: number;
     suddenDeath: boolean;
+    tanks: TankStatus[]; // Every tank, for team and free-for-all HUDs
+    matchMode: MatchMode;
   };
 
-  // Winner of last round
-  lastWinner: 1 | 2 | null;
+  // Team that won the last round
+  lastWinner: number | null;
 
   // Multiplayer
   sessionId: string | null;
@@ -49,7 +54,7 @@ interface GameState {
   startGame: () => void;
   pauseGame: () => void;
   resumeGame: () => void;
-  endGame: (winner: 1 | 2) => void;
+  endGame: (winner: number) => void;
   updateStats: (stats: Partial<GameState['currentStats']>) => void;
   resetScores: () => void;
   goToMainMenu: () => void;
@@ -67,12 +72,14 @@ export const useGameStore = create<GameState>((set) => ({
   playerControls: 'wasd',
   isPlaying: false,
   isPaused: false,
-  scores: { p1: 0, p2: 0 },
+  scores: {},
   currentStats: {
     p1Health: 100,
     p2Health: 100,
     elapsedTime: 0,
     suddenDeath: false,
+    tanks: [],
+    matchMode: 'duel',
   },
   lastWinner: null,
   sessionId: null,
@@ -97,6 +104,8 @@ export const useGameStore = create<GameState>((set) => ({
       p2Health: 100,
       elapsedTime: 0,
       suddenDeath: false,
+      tanks: [],
+      matchMode: 'duel',
     },
     lastWinner: null,
   }),
@@ -109,17 +118,14 @@ export const useGameStore = create<GameState>((set) => ({
     isPlaying: false,
     currentScreen: 'gameover',
     lastWinner: winner,
-    scores: {
-      p1: state.scores.p1 + (winner === 1 ? 1 : 0),
-      p2: state.scores.p2 + (winner === 2 ? 1 : 0),
-    },
+    scores: { ...state.scores, [winner]: (state.scores[winner] ?? 0) + 1 },
   })),
 
   updateStats: (stats) => set((state) => ({
     currentStats: { ...state.currentStats, ...stats },
   })),
 
-  resetScores: () => set({ scores: { p1: 0, p2: 0 } }),
+  resetScores: () => set({ scores: {} }),
 
   goToMainMenu: () => set({
     currentScreen: 'menu',
@@ -0,0 +1,65 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CustomMapData } from '@/engine/map/MapFormat';
+
+export interface StoredCustomMap {
+  id: string;
+  map: CustomMapData;
+}
+
+export interface MapLibraryState {
+  maps: StoredCustomMap[];
+  // Custom map played instead of the map variant in local, AI and LAN games (null = use the variant)
+  selectedMapId: string | null;
+
+  // Actions
+  addMap: (map: CustomMapData) => string;
+  removeMap: (id: string) => void;
+  selectMap: (id: string | null) => void;
+}
+
+function createMapId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Imported and editor-made maps, persisted to localStorage
+ * Maps are validated before they are added (see importMap)
+ */
+export const useMapLibraryStore = create<MapLibraryState>()(
+  persist(
+    (set) => ({
+      maps: [],
+      selectedMapId: null,
+
+      addMap: (map) => {
+        const id = createMapId();
+        set((state) => ({ maps: [...state.maps, { id, map }] }));
+        return id;
+      },
+
+      removeMap: (id) => {
+        set((state) => ({
+          maps: state.maps.filter((entry) => entry.id !== id),
+          selectedMapId: state.selectedMapId === id ? null : state.selectedMapId,
+        }));
+      },
+
+      selectMap: (id) => set({ selectedMapId: id }),
+    }),
+    {
+      name: 'neon-tank-duel-maps',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+/**
+ * The custom map selected for play, if any
+ */
+export const getSelectedCustomMap = (): CustomMapData | null => {
+  const { maps, selectedMapId } = useMapLibraryStore.getState();
+  return maps.find((entry) => entry.id === selectedMapId)?.map ?? null;
+};
@@ -1,9 +1,9 @@
 'use client';
 
 import { create } from 'zustand';
-import type { GameStateSnapshot } from '@/lib/socket/events';
+import type { GameStateSnapshot, OnlineGameSettings, PlayerInfo, SessionRole } from '@/lib/socket/events';
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'matchmaking' | 'matched' | 'in_game' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'matchmaking' | 'matched' | 'in_game' | 'reconnecting' | 'error';
 
 export interface MultiplayerState {
   // Connection state
@@ -16,6 +16,10 @@ export interface MultiplayerState {
   opponentId: string | null;
   opponentName: string | null;
 
+  // Players in the session (names by tank for the HUD) and how this client joined
+  sessionPlayers: PlayerInfo[];
+  role: SessionRole;
+
   // Game state
   assignedTankId: number | null;
   countdown: number | null;
@@ -24,6 +28,7 @@ export interface MultiplayerState {
   // Network stats
   latency: number;
   queuePosition: number | null;
+  estimatedWait: number | null; // Seconds, from the matchmaking queue
 
   // Error handling
   error: string | null;
@@ -31,18 +36,26 @@ export interface MultiplayerState {
   // Game state snapshot from server
   gameState: GameStateSnapshot | null;
 
+  // Ruleset and map seed echoed by the server for the current session
+  sessionSettings: OnlineGameSettings | null;
+  sessionMapSeed: number | null;
+
   // Actions
   setConnectionStatus: (status: ConnectionStatus) => void;
   setSessionInfo: (sessionId: string, playerId: string) => void;
   setPlayerName: (name: string) => void;
   setOpponent: (id: string, name: string) => void;
+  setSessionPlayers: (players: PlayerInfo[]) => void;
+  setPlayerConnected: (playerId: string, connected: boolean) => void;
+  setRole: (role: SessionRole) => void;
   setAssignedTankId: (tankId: number) => void;
   setCountdown: (countdown: number | null) => void;
   setRoundNumber: (round: number) => void;
   setLatency: (ms: number) => void;
-  setQueuePosition: (pos: number | null) => void;
+  setQueuePosition: (pos: number | null, estimatedWait?: number | null) => void;
   setError: (error: string | null) => void;
   setGameState: (state: GameStateSnapshot | null) => void;
+  setSessionSettings: (settings: OnlineGameSettings | null, mapSeed: number | null) => void;
   reset: () => void;
 }
 
@@ -53,13 +66,18 @@ const initialState = {
   playerName: 'Player',
   opponentId: null,
   opponentName: null,
+  sessionPlayers: [] as PlayerInfo[],
+  role: 'player' as SessionRole,
   assignedTankId: null,
   countdown: null,
   roundNumber: 0,
   latency: 0,
   queuePosition: null,
+  estimatedWait: null,
   error: null,
   gameState: null,
+  sessionSettings: null,
+  sessionMapSeed: null,
 };
 
 export const useMultiplayerStore = create<MultiplayerState>((set) => ({
@@ -73,6 +91,14 @@ export const useMultiplayerStore = create<MultiplayerState>((set) => ({
 
   setOpponent: (id, name) => set({ opponentId: id, opponentName: name }),
 
+  setSessionPlayers: (players) => set({ sessionPlayers: players }),
+
+  setPlayerConnected: (playerId, connected) => set((state) => ({
+    sessionPlayers: state.sessionPlayers.map((p) => (p.id === playerId ? { ...p, connected } : p)),
+  })),
+
+  setRole: (role) => set({ role }),
+
   setAssignedTankId: (tankId) => set({ assignedTankId: tankId }),
 
   setCountdown: (countdown) => set({ countdown }),
@@ -81,11 +107,13 @@ export const useMultiplayerStore = create<MultiplayerState>((set) => ({
 
   setLatency: (ms) => set({ latency: ms }),
 
-  setQueuePosition: (pos) => set({ queuePosition: pos }),
+  setQueuePosition: (pos, estimatedWait = null) => set({ queuePosition: pos, estimatedWait }),
 
   setError: (error) => set({ error, connectionStatus: error ? 'error' : undefined }),
 
   setGameState: (state) => set({ gameState: state }),
 
+  setSessionSettings: (settings, mapSeed) => set({ sessionSettings: settings, sessionMapSeed: mapSeed }),
+
   reset: () => set(initialState),
 }));
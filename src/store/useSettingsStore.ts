@@ -11,6 +11,7 @@ import {
   AudioSettings,
   AccessibilitySettings,
   DEFAULT_SETTINGS,
+  SERVER_TICK_RATE_OPTIONS,
 } from '../types/settings';
 
 // Re-export types for convenience
@@ -90,6 +91,8 @@ export const useSettingsStore = create<SettingsState>()(
         lowGravity: state.lowGravity,
         maxBounces: state.maxBounces,
         startingHealth: state.startingHealth,
+        matchMode: state.matchMode,
+        ffaPlayerCount: state.ffaPlayerCount,
         mapVariant: state.mapVariant,
         powerupSpawnRate: state.powerupSpawnRate,
         timeLimitEnabled: state.timeLimitEnabled,
@@ -102,12 +105,27 @@ export const useSettingsStore = create<SettingsState>()(
         musicVolume: state.musicVolume,
         sfxVolume: state.sfxVolume,
         colorblindMode: state.colorblindMode,
+        controlBindings: state.controlBindings,
+        controlModel: state.controlModel,
+        gamepads: state.gamepads,
+        serverTickRate: state.serverTickRate,
       }),
       // Merge persisted state with defaults to handle new settings added in updates
-      merge: (persistedState, currentState) => ({
-        ...currentState,
-        ...(persistedState as Partial<GameSettings>),
-      }),
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<GameSettings>;
+        return {
+          ...currentState,
+          ...persisted,
+          // Actions added later (e.g. pause) keep their default binding
+          controlBindings: {
+            player1: { ...currentState.controlBindings.player1, ...persisted.controlBindings?.player1 },
+            player2: { ...currentState.controlBindings.player2, ...persisted.controlBindings?.player2 },
+          },
+          // Tick rates that are no longer offered fall back to the default
+          serverTickRate: SERVER_TICK_RATE_OPTIONS.find((rate) => rate === persisted.serverTickRate)
+            ?? currentState.serverTickRate,
+        };
+      },
     }
   )
 );
@@ -153,6 +171,8 @@ export const useGameplayModSettings = (): GameplayModSettings => {
  */
 export const useMapGameplaySettings = (): MapGameplaySettings => {
   return useSettingsStore((state) => ({
+    matchMode: state.matchMode,
+    ffaPlayerCount: state.ffaPlayerCount,
     mapVariant: state.mapVariant,
     powerupSpawnRate: state.powerupSpawnRate,
     timeLimitEnabled: state.timeLimitEnabled,
@@ -220,6 +240,8 @@ export const getSettings = (): GameSettings => {
     lowGravity: state.lowGravity,
     maxBounces: state.maxBounces,
     startingHealth: state.startingHealth,
+    matchMode: state.matchMode,
+    ffaPlayerCount: state.ffaPlayerCount,
     mapVariant: state.mapVariant,
     powerupSpawnRate: state.powerupSpawnRate,
     timeLimitEnabled: state.timeLimitEnabled,
@@ -232,6 +254,10 @@ export const getSettings = (): GameSettings => {
     musicVolume: state.musicVolume,
     sfxVolume: state.sfxVolume,
     colorblindMode: state.colorblindMode,
+    controlBindings: state.controlBindings,
+    controlModel: state.controlModel,
+    gamepads: state.gamepads,
+    serverTickRate: state.serverTickRate,
   };
 };
 
@@ -277,6 +303,8 @@ export const getGameplayModSettings = (): GameplayModSettings => {
 export const getMapGameplaySettings = (): MapGameplaySettings => {
   const state = useSettingsStore.getState();
   return {
+    matchMode: state.matchMode,
+    ffaPlayerCount: state.ffaPlayerCount,
     mapVariant: state.mapVariant,
     powerupSpawnRate: state.powerupSpawnRate,
     timeLimitEnabled: state.timeLimitEnabled,
@@ -5,6 +5,7 @@ import { PowerUp } from '../engine/entities/PowerUp';
 import { Wall } from '../engine/entities/Wall';
 import { Hazard } from '../engine/entities/Hazard';
 import { Particle } from '../engine/entities/Particle';
+import type { GameScores } from '../engine/systems/GameRulesSystem';
 
 export interface GameEntities {
   tanks: Tank[];
@@ -16,16 +17,11 @@ export interface GameEntities {
   particles: Particle[];
 }
 
-export interface Score {
-  p1: number;
-  p2: number;
-}
+// Round wins keyed by team (the tank ID outside team play)
+export type Score = GameScores;
 
 export interface GameStats {
-  health: {
-    p1: number;
-    p2: number;
-  };
+  health: Record<number, number>; // Keyed by tank ID
   scores: Score;
   gameTime: number;
   suddenDeath: boolean;
@@ -1,4 +1,7 @@
 // Settings type definitions for Neon Tank Duel
+import type { MatchMode } from '../engine/core/MatchMode';
+
+export type { MatchMode } from '../engine/core/MatchMode';
 
 // === Weather Types ===
 export type WeatherType = 'none' | 'rain' | 'snow' | 'fog';
@@ -9,6 +12,34 @@ export type MapVariant = 'classic' | 'maze' | 'open' | 'fortress' | 'random';
 // === Colorblind Mode Types ===
 export type ColorblindMode = 'none' | 'deuteranopia' | 'protanopia' | 'tritanopia';
 
+// === Online Types ===
+export type ServerTickRate = 30 | 60; // Server broadcast rate - the simulation itself always steps at 60Hz
+
+// === Control Binding Types ===
+export type ControlModel = 'classic' | 'analog'; // Analog: speed follows the stick, the turret aims on its own
+
+export type BindingAction = 'up' | 'down' | 'left' | 'right' | 'shoot' | 'pause';
+
+export interface ActionBinding {
+  key: string | null;    // KeyboardEvent.code
+  button: number | null; // Standard gamepad button index
+}
+
+export type PlayerBindings = Record<BindingAction, ActionBinding>;
+
+export interface ControlBindings {
+  player1: PlayerBindings;
+  player2: PlayerBindings;
+}
+
+export interface GamepadPreference {
+  player?: 1 | 2 | null; // Unset takes the first free player, null leaves the pad unassigned
+  deadZone: number;      // Left stick dead zone, 0-0.9
+}
+
+// Keyed by the browser's gamepad index
+export type GamepadPreferences = Record<number, GamepadPreference>;
+
 // === Setting Categories ===
 export interface VisualEffectsSettings {
   bulletTrails: boolean;
@@ -35,6 +66,8 @@ export interface GameplayModSettings {
 }
 
 export interface MapGameplaySettings {
+  matchMode: MatchMode;
+  ffaPlayerCount: number;
   mapVariant: MapVariant;
   powerupSpawnRate: number;
   timeLimitEnabled: boolean;
@@ -94,6 +127,8 @@ export interface GameSettings {
   startingHealth: number;         // 50-200 HP
 
   // MAP & GAMEPLAY
+  matchMode: MatchMode;           // 1v1 duel, 2v2 teams or free-for-all
+  ffaPlayerCount: number;         // 3-6 tanks in free-for-all
   mapVariant: MapVariant;
   powerupSpawnRate: number;       // 1-20 seconds
   timeLimitEnabled: boolean;      // Round timer
@@ -108,6 +143,14 @@ export interface GameSettings {
   musicVolume: number;            // 0-100%
   sfxVolume: number;              // 0-100%
   colorblindMode: ColorblindMode;
+
+  // CONTROLS
+  controlBindings: ControlBindings; // Keys and gamepad buttons per local player
+  controlModel: ControlModel;
+  gamepads: GamepadPreferences;
+
+  // ONLINE
+  serverTickRate: ServerTickRate; // Used for sessions this player creates
 }
 
 // === Settings Store State Interface ===
@@ -142,6 +185,27 @@ export type SettingCategory =
   | 'accessibility';
 
 // === Default Values Export ===
+
+// Gamepad buttons follow the standard mapping: 12-15 d-pad, 7 right trigger, 9 start
+export const DEFAULT_CONTROL_BINDINGS: ControlBindings = {
+  player1: {
+    up: { key: 'KeyW', button: 12 },
+    down: { key: 'KeyS', button: 13 },
+    left: { key: 'KeyA', button: 14 },
+    right: { key: 'KeyD', button: 15 },
+    shoot: { key: 'Space', button: 7 },
+    pause: { key: 'Escape', button: 9 },
+  },
+  player2: {
+    up: { key: 'ArrowUp', button: 12 },
+    down: { key: 'ArrowDown', button: 13 },
+    left: { key: 'ArrowLeft', button: 14 },
+    right: { key: 'ArrowRight', button: 15 },
+    shoot: { key: 'Enter', button: 7 },
+    pause: { key: 'KeyP', button: 9 },
+  },
+};
+
 export const DEFAULT_SETTINGS: GameSettings = {
   // Existing features (mostly ON)
   charging: true,
@@ -173,6 +237,8 @@ export const DEFAULT_SETTINGS: GameSettings = {
   startingHealth: 100,
 
   // Map & gameplay
+  matchMode: 'duel',
+  ffaPlayerCount: 4,
   mapVariant: 'classic',
   powerupSpawnRate: 10,
   timeLimitEnabled: false,
@@ -187,6 +253,14 @@ export const DEFAULT_SETTINGS: GameSettings = {
   musicVolume: 70,
   sfxVolume: 80,
   colorblindMode: 'none',
+
+  // Controls
+  controlBindings: DEFAULT_CONTROL_BINDINGS,
+  controlModel: 'classic',
+  gamepads: {},
+
+  // Online
+  serverTickRate: 60,
 };
 
 // === Setting Constraints ===
@@ -200,11 +274,17 @@ export const SETTING_CONSTRAINTS = {
   powerupSpawnRate: { min: 1, max: 20, step: 1 },
   timeLimitSeconds: { min: 30, max: 300, step: 30 },
   scoreLimitValue: { min: 1, max: 10, step: 1 },
+  ffaPlayerCount: { min: 3, max: 6, step: 1 },
   musicVolume: { min: 0, max: 100, step: 5 },
   sfxVolume: { min: 0, max: 100, step: 5 },
+  gamepadDeadZone: { min: 0, max: 0.9, step: 0.05 },
 } as const;
 
+export const DEFAULT_GAMEPAD_DEAD_ZONE = 0.2;
+
 // === Option Arrays for Select Inputs ===
 export const WEATHER_OPTIONS: readonly WeatherType[] = ['none', 'rain', 'snow', 'fog'] as const;
+export const MATCH_MODE_OPTIONS: readonly MatchMode[] = ['duel', 'teams', 'ffa'] as const;
 export const MAP_VARIANT_OPTIONS: readonly MapVariant[] = ['classic', 'maze', 'open', 'fortress', 'random'] as const;
+export const SERVER_TICK_RATE_OPTIONS: readonly ServerTickRate[] = [30, 60] as const;
 export const COLORBLIND_MODE_OPTIONS: readonly ColorblindMode[] = ['none', 'deuteranopia', 'protanopia', 'tritanopia'] as const;